@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { destructiveButtonCompactClass, standardButtonCompactClass } from "@/lib/buttonStyles";
+import type { MovementAlertOption } from "@/lib/movement-alerts";
+import type { MovementAlertRuleEntry } from "@/types/machines";
+
+type MovementAlertRulesProps = {
+  rules: MovementAlertRuleEntry[];
+  machines: MovementAlertOption[];
+  customers: MovementAlertOption[];
+};
+
+type Scope = "all" | "customer" | "machine";
+
+const WEEKDAYS = [
+  { value: 1, label: "Man" },
+  { value: 2, label: "Tir" },
+  { value: 3, label: "Ons" },
+  { value: 4, label: "Tor" },
+  { value: 5, label: "Fre" },
+  { value: 6, label: "Lør" },
+  { value: 7, label: "Søn" },
+];
+
+const inputClass =
+  "rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none";
+
+export default function MovementAlertRules({ rules, machines, customers }: MovementAlertRulesProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(rules);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<Scope>("all");
+  const [customerId, setCustomerId] = useState("");
+  const [machineId, setMachineId] = useState("");
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5, 6, 7]);
+  const [startTime, setStartTime] = useState("18:00");
+  const [endTime, setEndTime] = useState("06:00");
+  const [minDistance, setMinDistance] = useState("500");
+  const [minSpeed, setMinSpeed] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+  const [ruleErrors, setRuleErrors] = useState<Record<string, string>>({});
+
+  function toggleWeekday(day: number) {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()));
+  }
+
+  async function createRule(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch("/api/movement-alert-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          customerId: scope === "customer" ? customerId : null,
+          machineId: scope === "machine" ? machineId : null,
+          weekdays,
+          startTime,
+          endTime,
+          minDistanceM: minDistance,
+          minSpeedKmh: minSpeed,
+        }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke lagre regelen");
+      }
+
+      setRows((prev) => [...prev, payload.rule as MovementAlertRuleEntry]);
+      setName("");
+      router.refresh();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Kunne ikke lagre regelen");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateRule(rule: MovementAlertRuleEntry, method: "PATCH" | "DELETE") {
+    if (method === "DELETE" && !window.confirm(`Slette regelen «${rule.name}»? Eksisterende alarmer beholdes.`)) {
+      return;
+    }
+
+    setBusyRuleId(rule.id);
+    setRuleErrors((prev) => ({ ...prev, [rule.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/movement-alert-rules/${rule.id}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PATCH" ? JSON.stringify({ active: !rule.active }) : undefined,
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere regelen");
+      }
+
+      if (method === "DELETE") {
+        setRows((prev) => prev.filter((row) => row.id !== rule.id));
+      } else {
+        const updated = payload.rule as MovementAlertRuleEntry;
+        setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      }
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere regelen";
+      setRuleErrors((prev) => ({ ...prev, [rule.id]: message }));
+    } finally {
+      setBusyRuleId(null);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Regler</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          En posisjon utløser alarm nar den er innenfor tidsvinduet og maskinen har flyttet seg minst
+          angitt avstand siden forrige posisjon, eller gar fortere enn angitt fart. Kunderegler gjelder
+          maskinene kunden leier pa tidspunktet.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {rows.length === 0 && (
+          <li className="px-6 py-4 text-sm text-slate-600">Ingen regler er opprettet ennå.</li>
+        )}
+        {rows.map((rule) => (
+          <li key={rule.id} className="flex flex-col gap-2 px-6 py-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-slate-900">{rule.name}</span>
+                {!rule.active && (
+                  <span className="inline-flex rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-xs text-slate-600">
+                    Pauset
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-slate-600">
+                {formatScope(rule)} · {formatWeekdays(rule.weekdays)} {formatMinute(rule.start_minute)}–
+                {formatMinute(rule.end_minute)} · {formatThresholds(rule)}
+              </div>
+              {rule.created_by && <div className="text-xs text-slate-500">Opprettet av {rule.created_by}</div>}
+              {ruleErrors[rule.id] && <div className="text-xs text-rose-600">{ruleErrors[rule.id]}</div>}
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => updateRule(rule, "PATCH")}
+                disabled={busyRuleId === rule.id}
+                className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {rule.active ? "Pause" : "Aktiver"}
+              </button>
+              <button
+                type="button"
+                onClick={() => updateRule(rule, "DELETE")}
+                disabled={busyRuleId === rule.id}
+                className={destructiveButtonCompactClass}
+              >
+                Slett
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={createRule} className="space-y-4 border-t border-slate-100 px-6 py-4">
+        <h3 className="text-sm font-semibold text-slate-900">Ny regel</h3>
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Navn
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="F.eks. Natt og helg"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Gjelder
+            <select
+              value={scope}
+              onChange={(event) => setScope(event.target.value as Scope)}
+              className={inputClass}
+            >
+              <option value="all">Alle maskiner</option>
+              <option value="customer">Maskiner utleid til kunde</option>
+              <option value="machine">Én maskin</option>
+            </select>
+          </label>
+          {scope === "customer" && (
+            <label className="flex flex-col gap-1 text-sm text-slate-700">
+              Kunde
+              <select
+                value={customerId}
+                onChange={(event) => setCustomerId(event.target.value)}
+                className={inputClass}
+              >
+                <option value="">Velg kunde</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {scope === "machine" && (
+            <label className="flex flex-col gap-1 text-sm text-slate-700">
+              Maskin
+              <input
+                type="text"
+                list="movement-alert-machine-options"
+                value={machineId}
+                onChange={(event) => setMachineId(event.target.value)}
+                placeholder="Maskinnummer"
+                className={inputClass}
+              />
+              <datalist id="movement-alert-machine-options">
+                {machines.map((machine) => (
+                  <option key={machine.id} value={machine.id}>
+                    {machine.label}
+                  </option>
+                ))}
+              </datalist>
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <fieldset className="flex flex-col gap-1 text-sm text-slate-700">
+            <legend className="mb-1">Dager</legend>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day) => {
+                const selected = weekdays.includes(day.value);
+                return (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleWeekday(day.value)}
+                    className={`cursor-pointer rounded-lg border px-2.5 py-1.5 text-xs font-medium transition ${
+                      selected
+                        ? "border-slate-900 bg-slate-900 text-white"
+                        : "border-slate-200 text-slate-700 hover:bg-slate-50"
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                );
+              })}
+            </div>
+          </fieldset>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Fra
+            <input
+              type="time"
+              value={startTime}
+              onChange={(event) => setStartTime(event.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Til
+            <input
+              type="time"
+              value={endTime}
+              onChange={(event) => setEndTime(event.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Minste avstand (m)
+            <input
+              type="number"
+              min={1}
+              value={minDistance}
+              onChange={(event) => setMinDistance(event.target.value)}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700">
+            Minste fart (km/t)
+            <input
+              type="number"
+              min={1}
+              value={minSpeed}
+              onChange={(event) => setMinSpeed(event.target.value)}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <button type="submit" disabled={saving || !name.trim()} className={standardButtonCompactClass}>
+            {saving ? "Lagrer..." : "Legg til regel"}
+          </button>
+        </div>
+        {formError && <div className="text-sm text-rose-600">{formError}</div>}
+      </form>
+    </section>
+  );
+}
+
+function formatScope(rule: MovementAlertRuleEntry) {
+  if (rule.machine_id) {
+    return `Maskin ${rule.machine_id}${rule.machine_name ? ` – ${rule.machine_name}` : ""}`;
+  }
+  if (rule.customer_id != null) {
+    return `Utleid til ${rule.customer_name ?? `kunde ${rule.customer_id}`}`;
+  }
+  return "Alle maskiner";
+}
+
+function formatWeekdays(days: number[]) {
+  if (days.length === 7) return "Alle dager";
+  return WEEKDAYS.filter((day) => days.includes(day.value))
+    .map((day) => day.label)
+    .join(", ");
+}
+
+function formatMinute(minute: number) {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(Math.floor(minute / 60))}:${pad(minute % 60)}`;
+}
+
+function formatThresholds(rule: MovementAlertRuleEntry) {
+  const parts: string[] = [];
+  if (rule.min_distance_m != null) parts.push(`≥ ${rule.min_distance_m} m`);
+  if (rule.min_speed_kmh != null) parts.push(`≥ ${rule.min_speed_kmh} km/t`);
+  return parts.join(" eller ");
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDate } from "@/lib/formatters";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import { MOVEMENT_ALERT_STATUS_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import type { MovementAlertEntry, MovementAlertStatus } from "@/types/machines";
+
+type MovementAlertsInboxProps = {
+  alerts: MovementAlertEntry[];
+};
+
+const STATUS_ORDER: Record<MovementAlertStatus, number> = { open: 0, acknowledged: 1, resolved: 2 };
+
+export default function MovementAlertsInbox({ alerts }: MovementAlertsInboxProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(alerts);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const openCount = rows.filter((alert) => alert.status === "open").length;
+
+  async function updateAlert(alert: MovementAlertEntry, action: "acknowledge" | "resolve") {
+    setSavingId(alert.id);
+    setErrors((prev) => ({ ...prev, [alert.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/movement-alerts/${alert.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere alarmen");
+      }
+
+      const updated = payload.alert as MovementAlertEntry;
+      setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere alarmen";
+      setErrors((prev) => ({ ...prev, [alert.id]: message }));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const columns: DataColumn<MovementAlertEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (alert) => MOVEMENT_ALERT_STATUS_LABELS[alert.status],
+      cell: (alert) => <MovementAlertStatusBadge status={alert.status} />,
+      sortValue: (alert) => STATUS_ORDER[alert.status],
+      filterValue: (alert) => MOVEMENT_ALERT_STATUS_LABELS[alert.status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "lastPosition",
+      header: "Siste bevegelse",
+      accessor: (alert) => formatDate(alert.last_position_at, { multiline: true }) ?? "",
+      filterType: "date-range",
+      dateValue: (alert) => alert.last_position_at,
+      cell: (alert) => (
+        <span className="whitespace-pre-line tabular-nums text-slate-700">
+          {formatDate(alert.last_position_at, { multiline: true }) ?? "-"}
+        </span>
+      ),
+      sortValue: (alert) => alert.last_position_at,
+      cellClassName: "tabular-nums whitespace-pre-line",
+    },
+    {
+      id: "machine",
+      header: "Maskin",
+      accessor: (alert) => alert.machine_id,
+      cell: (alert) => (
+        <div>
+          <div className="font-medium text-slate-900">{alert.machine_id}</div>
+          {alert.machine_name && <div className="text-xs text-slate-500">{alert.machine_name}</div>}
+        </div>
+      ),
+      sortValue: (alert) => alert.machine_id,
+      filterValue: (alert) => [alert.machine_id, alert.machine_name].filter(Boolean).join(" "),
+    },
+    {
+      id: "rule",
+      header: "Regel",
+      accessor: (alert) => alert.rule_name,
+      cell: (alert) => (
+        <span className="text-slate-700">
+          {alert.rule_name}
+          {!alert.rule_id && <span className="text-xs text-slate-500"> (slettet)</span>}
+        </span>
+      ),
+      sortValue: (alert) => alert.rule_name,
+      filterValue: (alert) => alert.rule_name,
+    },
+    {
+      id: "movement",
+      header: "Bevegelse",
+      accessor: (alert) => formatMovement(alert),
+      cell: (alert) => (
+        <div className="tabular-nums text-slate-700">
+          <div>{formatMovement(alert)}</div>
+          <div className="text-xs text-slate-500">
+            {alert.positions.length} {alert.positions.length === 1 ? "posisjon" : "posisjoner"}
+            {alert.positions.length > 0 && (
+              <>
+                {" · "}
+                <a
+                  href={mapsUrl(alert.positions[alert.positions.length - 1])}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-blue-700 hover:underline"
+                >
+                  Siste posisjon
+                </a>
+              </>
+            )}
+          </div>
+        </div>
+      ),
+      sortValue: (alert) => alert.distance_m,
+    },
+    {
+      id: "handled",
+      header: "Behandlet",
+      accessor: (alert) => formatHandled(alert),
+      cell: (alert) => {
+        const isSaving = savingId === alert.id;
+        const error = errors[alert.id];
+
+        return (
+          <div className="flex flex-col gap-2">
+            <div className="whitespace-pre-line text-xs text-slate-600">{formatHandled(alert) || "-"}</div>
+            {alert.status !== "resolved" && (
+              <div className="flex items-center gap-2">
+                {alert.status === "open" && (
+                  <button
+                    type="button"
+                    onClick={() => updateAlert(alert, "acknowledge")}
+                    disabled={isSaving}
+                    className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Kvitter
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => updateAlert(alert, "resolve")}
+                  disabled={isSaving}
+                  className={standardButtonCompactClass}
+                >
+                  {isSaving ? "Lagrer..." : "Lukk"}
+                </button>
+              </div>
+            )}
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+          </div>
+        );
+      },
+      sortValue: (alert) => alert.resolved_at ?? alert.acknowledged_at ?? "",
+      filterValue: (alert) => formatHandled(alert),
+      cellClassName: "min-w-[14rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Innboks</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {openCount
+            ? `${openCount} ${openCount === 1 ? "alarm er" : "alarmer er"} ikke kvittert.`
+            : "Ingen ukvitterte alarmer."}
+        </p>
+      </div>
+      <DataTable
+        data={rows}
+        columns={columns}
+        getRowId={(alert) => alert.id}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen alarmer de siste 30 dagene."
+      />
+    </>
+  );
+}
+
+function MovementAlertStatusBadge({ status }: { status: MovementAlertStatus }) {
+  const className =
+    status === "open"
+      ? "border-rose-200 bg-rose-50 text-rose-800"
+      : status === "acknowledged"
+        ? "border-amber-200 bg-amber-50 text-amber-800"
+        : "border-emerald-200 bg-emerald-50 text-emerald-800";
+
+  return (
+    <span className={`inline-flex rounded-full border px-3 py-1 text-xs font-medium ${className}`}>
+      {MOVEMENT_ALERT_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function formatMovement(alert: MovementAlertEntry) {
+  const distance =
+    alert.distance_m >= 1000 ? `${(alert.distance_m / 1000).toFixed(1)} km` : `${Math.round(alert.distance_m)} m`;
+  return alert.max_speed_kmh != null ? `${distance}, maks ${Math.round(alert.max_speed_kmh)} km/t` : distance;
+}
+
+function formatHandled(alert: MovementAlertEntry) {
+  const lines: string[] = [];
+  if (alert.acknowledged_at) {
+    lines.push(`Kvittert ${formatDate(alert.acknowledged_at) ?? ""}${alert.acknowledged_by ? ` av ${alert.acknowledged_by}` : ""}`);
+  }
+  if (alert.resolved_at) {
+    lines.push(`Lukket ${formatDate(alert.resolved_at) ?? ""}${alert.resolved_by ? ` av ${alert.resolved_by}` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+function mapsUrl(position: { latitude: number; longitude: number }) {
+  return `https://www.google.com/maps?q=${position.latitude},${position.longitude}`;
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDate } from "@/lib/formatters";
+import { destructiveButtonCompactClass, standardButtonCompactClass } from "@/lib/buttonStyles";
+import { RENTAL_REQUEST_STATUS_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import RentalRequestStatusBadge from "@/components/RentalRequestStatusBadge";
+import type {
+  BookingRequestAction,
+  BookingRequestEntry,
+  BookingRequestStatus,
+} from "@/lib/booking-requests";
+
+type BookingRequestsQueueProps = {
+  requests: BookingRequestEntry[];
+};
+
+const STATUS_ORDER: Record<BookingRequestStatus, number> = { pending: 0, approved: 1, rejected: 2 };
+
+export default function BookingRequestsQueue({ requests }: BookingRequestsQueueProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(requests);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const pendingCount = rows.filter((request) => request.status === "pending").length;
+
+  async function updateRequest(request: BookingRequestEntry, action: BookingRequestAction) {
+    setSavingId(request.id);
+    setErrors((prev) => ({ ...prev, [request.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/booking-requests/${request.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, comment: comments[request.id] ?? "" }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere bestillingen");
+      }
+
+      const updated = payload.request as BookingRequestEntry;
+      setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere bestillingen";
+      setErrors((prev) => ({ ...prev, [request.id]: message }));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const columns: DataColumn<BookingRequestEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cell: (request) => <RentalRequestStatusBadge request={request} />,
+      sortValue: (request) => STATUS_ORDER[request.status],
+      filterValue: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "customer",
+      header: "Kunde",
+      accessor: (request) => request.customerName ?? `Kunde ${request.customerId}`,
+      cell: (request) => (
+        <div>
+          <div className="font-medium text-slate-900">{request.customerName ?? `Kunde ${request.customerId}`}</div>
+          {request.projectNumber && <div className="text-xs text-slate-500">Prosjekt {request.projectNumber}</div>}
+        </div>
+      ),
+      sortValue: (request) => request.customerName ?? "",
+      filterValue: (request) => [request.customerName, request.projectNumber].filter(Boolean).join(" "),
+    },
+    {
+      id: "equipment",
+      header: "Utstyr",
+      accessor: (request) => formatEquipment(request),
+      sortValue: (request) => formatEquipment(request),
+      cellClassName: "min-w-[10rem]",
+    },
+    {
+      id: "period",
+      header: "Periode",
+      accessor: (request) => formatPeriod(request),
+      filterType: "date-range",
+      dateValue: (request) => request.startDate,
+      cell: (request) => <span className="tabular-nums text-slate-700">{formatPeriod(request)}</span>,
+      sortValue: (request) => request.startDate,
+      cellClassName: "tabular-nums whitespace-nowrap",
+    },
+    {
+      id: "delivery",
+      header: "Levering og kontakt",
+      accessor: (request) => request.deliveryAddress,
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div>
+            {request.deliveryLat != null && request.deliveryLng != null ? (
+              <a
+                href={`https://www.google.com/maps?q=${request.deliveryLat},${request.deliveryLng}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-blue-700 hover:underline"
+              >
+                {request.deliveryAddress}
+              </a>
+            ) : (
+              request.deliveryAddress
+            )}
+          </div>
+          {request.contactPerson && (
+            <div className="text-xs text-slate-500">
+              {[request.contactPerson.name, request.contactPerson.phone, request.contactPerson.email]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+          )}
+          {request.comment && (
+            <div className="mt-1 whitespace-pre-line text-xs text-slate-500">{request.comment}</div>
+          )}
+        </div>
+      ),
+      filterValue: (request) =>
+        [request.deliveryAddress, request.contactPerson?.name, request.comment].filter(Boolean).join(" "),
+      cellClassName: "min-w-[16rem]",
+    },
+    {
+      id: "requested",
+      header: "Meldt",
+      accessor: (request) => formatDate(request.createdAt) ?? "",
+      filterType: "date-range",
+      dateValue: (request) => request.createdAt,
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div className="tabular-nums">{formatDate(request.createdAt) ?? "-"}</div>
+          {request.requestedByName && <div className="text-xs text-slate-500">{request.requestedByName}</div>}
+        </div>
+      ),
+      sortValue: (request) => request.createdAt,
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "handled",
+      header: "Behandling",
+      accessor: (request) => formatHandled(request),
+      cell: (request) => {
+        const isSaving = savingId === request.id;
+        const error = errors[request.id];
+
+        return (
+          <div className="flex flex-col gap-2">
+            <div className="whitespace-pre-line text-xs text-slate-600">{formatHandled(request) || "-"}</div>
+            {request.status === "pending" && (
+              <>
+                <input
+                  type="text"
+                  value={comments[request.id] ?? ""}
+                  onChange={(event) =>
+                    setComments((prev) => ({ ...prev, [request.id]: event.target.value }))
+                  }
+                  placeholder="Kommentar til kunden (valgfritt)"
+                  disabled={isSaving}
+                  className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs text-slate-700 focus:border-slate-400 focus:outline-none"
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateRequest(request, "approve")}
+                    disabled={isSaving}
+                    className={standardButtonCompactClass}
+                  >
+                    {isSaving ? "Lagrer..." : "Opprett leie"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateRequest(request, "reject")}
+                    disabled={isSaving}
+                    className={destructiveButtonCompactClass}
+                  >
+                    Avvis
+                  </button>
+                </div>
+              </>
+            )}
+            {request.status === "approved" && request.forwardStatus !== "forwarded" && (
+              <button
+                type="button"
+                onClick={() => updateRequest(request, "forward")}
+                disabled={isSaving}
+                className="w-fit cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSaving ? "Sender..." : "Opprett leie på nytt"}
+              </button>
+            )}
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+          </div>
+        );
+      },
+      sortValue: (request) => request.decidedAt ?? "",
+      filterValue: (request) => formatHandled(request),
+      cellClassName: "min-w-[16rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Bestillinger</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {pendingCount
+            ? `${pendingCount} ${pendingCount === 1 ? "bestilling venter" : "bestillinger venter"} på behandling.`
+            : "Ingen bestillinger venter på behandling."}
+        </p>
+      </div>
+      <DataTable
+        data={rows}
+        columns={columns}
+        getRowId={(request) => request.id}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen bestillinger de siste 90 dagene."
+      />
+    </>
+  );
+}
+
+function formatEquipment(request: BookingRequestEntry) {
+  if (request.machineId) {
+    const name = request.machineName?.trim() || `Maskin ${request.machineId}`;
+    return request.category ? `${name} (${request.category})` : name;
+  }
+  return request.category ? `Valgfri ${request.category.toLocaleLowerCase("nb-NO")}` : "-";
+}
+
+function formatPeriod(request: BookingRequestEntry) {
+  return `${formatDate(request.startDate, { showTime: false }) ?? "-"} – ${formatDate(request.endDate, { showTime: false }) ?? "-"}`;
+}
+
+function formatHandled(request: BookingRequestEntry) {
+  const lines: string[] = [];
+  if (request.decidedAt) {
+    const verb = request.status === "approved" ? "Godkjent" : "Avvist";
+    lines.push(`${verb} ${formatDate(request.decidedAt) ?? ""}${request.decidedBy ? ` av ${request.decidedBy}` : ""}`);
+  }
+  if (request.decisionComment) {
+    lines.push(`«${request.decisionComment}»`);
+  }
+  if (request.forwardStatus === "forwarded") {
+    lines.push(
+      `Opprettet hos Bjugstad ${formatDate(request.forwardedAt) ?? ""}${request.forwardReference ? ` (avtale ${request.forwardReference})` : ""}`,
+    );
+  } else if (request.forwardStatus === "forwarding") {
+    lines.push("Oppretter leie hos Bjugstad ...");
+  } else if (request.forwardStatus === "stubbed") {
+    lines.push("Ikke sendt (testmodus)");
+  } else if (request.forwardStatus === "failed") {
+    lines.push(`Oppretting feilet: ${request.forwardError ?? "ukjent feil"}`);
+  }
+  return lines.join("\n");
+}
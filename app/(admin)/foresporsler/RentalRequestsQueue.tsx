@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDate } from "@/lib/formatters";
+import { destructiveButtonCompactClass, standardButtonCompactClass } from "@/lib/buttonStyles";
+import { RENTAL_REQUEST_STATUS_LABELS, RENTAL_REQUEST_TYPE_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import RentalRequestStatusBadge from "@/components/RentalRequestStatusBadge";
+import type {
+  RentalRequestAction,
+  RentalRequestEntry,
+  RentalRequestStatus,
+} from "@/lib/rental-requests";
+
+type RentalRequestsQueueProps = {
+  requests: RentalRequestEntry[];
+};
+
+const STATUS_ORDER: Record<RentalRequestStatus, number> = { pending: 0, approved: 1, rejected: 2 };
+
+export default function RentalRequestsQueue({ requests }: RentalRequestsQueueProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(requests);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const pendingCount = rows.filter((request) => request.status === "pending").length;
+
+  async function updateRequest(request: RentalRequestEntry, action: RentalRequestAction) {
+    setSavingId(request.id);
+    setErrors((prev) => ({ ...prev, [request.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/rental-requests/${request.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, comment: comments[request.id] ?? "" }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere forespørselen");
+      }
+
+      const updated = payload.request as RentalRequestEntry;
+      setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere forespørselen";
+      setErrors((prev) => ({ ...prev, [request.id]: message }));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const columns: DataColumn<RentalRequestEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cell: (request) => <RentalRequestStatusBadge request={request} />,
+      sortValue: (request) => STATUS_ORDER[request.status],
+      filterValue: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "type",
+      header: "Type",
+      accessor: (request) => RENTAL_REQUEST_TYPE_LABELS[request.type],
+      sortValue: (request) => request.type,
+      filterValue: (request) => RENTAL_REQUEST_TYPE_LABELS[request.type],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "agreement",
+      header: "Avtale",
+      accessor: (request) => request.rentalId,
+      cell: (request) => (
+        <div>
+          <div className="font-medium text-slate-900">{request.rentalId}</div>
+          {request.customerName && <div className="text-xs text-slate-500">{request.customerName}</div>}
+        </div>
+      ),
+      sortValue: (request) => Number(request.rentalId),
+      filterValue: (request) => [request.rentalId, request.customerName].filter(Boolean).join(" "),
+    },
+    {
+      id: "desiredDate",
+      header: "Ønsket dato",
+      accessor: (request) => formatDate(request.desiredDate, { showTime: false }) ?? "",
+      filterType: "date-range",
+      dateValue: (request) => request.desiredDate,
+      cell: (request) => (
+        <span className="tabular-nums text-slate-700">
+          {formatDate(request.desiredDate, { showTime: false }) ?? "-"}
+        </span>
+      ),
+      sortValue: (request) => request.desiredDate,
+      cellClassName: "tabular-nums whitespace-nowrap",
+    },
+    {
+      id: "details",
+      header: "Maskiner og kommentar",
+      accessor: (request) => formatMachines(request),
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div>{formatMachines(request)}</div>
+          {request.comment && (
+            <div className="mt-1 whitespace-pre-line text-xs text-slate-500">{request.comment}</div>
+          )}
+        </div>
+      ),
+      sortValue: (request) => formatMachines(request),
+      filterValue: (request) => [formatMachines(request), request.comment].filter(Boolean).join(" "),
+      cellClassName: "min-w-[14rem]",
+    },
+    {
+      id: "requested",
+      header: "Meldt",
+      accessor: (request) => formatDate(request.createdAt) ?? "",
+      filterType: "date-range",
+      dateValue: (request) => request.createdAt,
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div className="tabular-nums">{formatDate(request.createdAt) ?? "-"}</div>
+          {request.requestedByName && (
+            <div className="text-xs text-slate-500">{request.requestedByName}</div>
+          )}
+        </div>
+      ),
+      sortValue: (request) => request.createdAt,
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "handled",
+      header: "Behandling",
+      accessor: (request) => formatHandled(request),
+      cell: (request) => {
+        const isSaving = savingId === request.id;
+        const error = errors[request.id];
+
+        return (
+          <div className="flex flex-col gap-2">
+            <div className="whitespace-pre-line text-xs text-slate-600">{formatHandled(request) || "-"}</div>
+            {request.status === "pending" && (
+              <>
+                <input
+                  type="text"
+                  value={comments[request.id] ?? ""}
+                  onChange={(event) =>
+                    setComments((prev) => ({ ...prev, [request.id]: event.target.value }))
+                  }
+                  placeholder="Kommentar til kunden (valgfritt)"
+                  disabled={isSaving}
+                  className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs text-slate-700 focus:border-slate-400 focus:outline-none"
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateRequest(request, "approve")}
+                    disabled={isSaving}
+                    className={standardButtonCompactClass}
+                  >
+                    {isSaving ? "Lagrer..." : "Godkjenn"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateRequest(request, "reject")}
+                    disabled={isSaving}
+                    className={destructiveButtonCompactClass}
+                  >
+                    Avvis
+                  </button>
+                </div>
+              </>
+            )}
+            {request.status === "approved" && request.forwardStatus !== "forwarded" && (
+              <button
+                type="button"
+                onClick={() => updateRequest(request, "forward")}
+                disabled={isSaving}
+                className="w-fit cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSaving ? "Sender..." : "Send til Bjugstad på nytt"}
+              </button>
+            )}
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+          </div>
+        );
+      },
+      sortValue: (request) => request.decidedAt ?? "",
+      filterValue: (request) => formatHandled(request),
+      cellClassName: "min-w-[16rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Kø</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {pendingCount
+            ? `${pendingCount} ${pendingCount === 1 ? "forespørsel venter" : "forespørsler venter"} på behandling.`
+            : "Ingen forespørsler venter på behandling."}
+        </p>
+      </div>
+      <DataTable
+        data={rows}
+        columns={columns}
+        getRowId={(request) => request.id}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen forespørsler de siste 90 dagene."
+      />
+    </>
+  );
+}
+
+function formatMachines(request: RentalRequestEntry) {
+  if (!request.machines.length) return "Hele avtalen";
+  return request.machines
+    .map((machine) => machine.name?.trim() || (machine.id ? `Maskin ${machine.id}` : "Maskin"))
+    .join(", ");
+}
+
+function formatHandled(request: RentalRequestEntry) {
+  const lines: string[] = [];
+  if (request.decidedAt) {
+    const verb = request.status === "approved" ? "Godkjent" : "Avvist";
+    lines.push(`${verb} ${formatDate(request.decidedAt) ?? ""}${request.decidedBy ? ` av ${request.decidedBy}` : ""}`);
+  }
+  if (request.decisionComment) {
+    lines.push(`«${request.decisionComment}»`);
+  }
+  if (request.forwardStatus === "forwarded") {
+    lines.push(
+      `Sendt til Bjugstad ${formatDate(request.forwardedAt) ?? ""}${request.forwardReference ? ` (ref. ${request.forwardReference})` : ""}`,
+    );
+  } else if (request.forwardStatus === "forwarding") {
+    lines.push("Sender til Bjugstad ...");
+  } else if (request.forwardStatus === "stubbed") {
+    lines.push("Ikke sendt (testmodus)");
+  } else if (request.forwardStatus === "failed") {
+    lines.push(`Videresending feilet: ${request.forwardError ?? "ukjent feil"}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { formatDate } from "@/lib/formatters";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import type {
+  IntegrationRun,
+  IntegrationSourceHealth,
+  IntegrationSourceStatus,
+  TelemetryFreshness,
+} from "@/lib/integrations";
+
+type IntegrationsOverviewProps = {
+  sources: IntegrationSourceHealth[];
+  freshness: TelemetryFreshness[];
+  runs: IntegrationRun[];
+};
+
+const STATUS_STYLES: Record<IntegrationSourceStatus, { label: string; className: string }> = {
+  ok: { label: "OK", className: "border-emerald-200 bg-emerald-50 text-emerald-800" },
+  delayed: { label: "Forsinket", className: "border-amber-200 bg-amber-50 text-amber-800" },
+  failing: { label: "Feiler", className: "border-rose-200 bg-rose-50 text-rose-800" },
+};
+
+export default function IntegrationsOverview({ sources, freshness, runs }: IntegrationsOverviewProps) {
+  const columns: DataColumn<IntegrationRun>[] = [
+    {
+      id: "startedAt",
+      header: "Startet",
+      accessor: (run) => formatDate(run.startedAt, { multiline: true }) ?? "",
+      filterType: "date-range",
+      dateValue: (run) => run.startedAt,
+      cell: (run) => (
+        <span className="whitespace-pre-line tabular-nums text-slate-700">
+          {formatDate(run.startedAt, { multiline: true }) ?? "-"}
+        </span>
+      ),
+      sortValue: (run) => run.startedAt,
+      cellClassName: "tabular-nums whitespace-pre-line",
+    },
+    {
+      id: "source",
+      header: "Kilde",
+      accessor: (run) => run.label,
+      cell: (run) => <span className="font-medium text-slate-900">{run.label}</span>,
+      sortValue: (run) => run.label,
+      filterValue: (run) => run.label,
+    },
+    {
+      id: "status",
+      header: "Status",
+      accessor: (run) => (run.status === "success" ? "Fullført" : "Feilet"),
+      cell: (run) => (
+        <span
+          className={`inline-flex rounded-full border px-3 py-1 text-xs font-medium ${
+            run.status === "success" ? STATUS_STYLES.ok.className : STATUS_STYLES.failing.className
+          }`}
+        >
+          {run.status === "success" ? "Fullført" : "Feilet"}
+        </span>
+      ),
+      sortValue: (run) => run.status,
+      filterValue: (run) => (run.status === "success" ? "Fullført" : "Feilet"),
+    },
+    {
+      id: "duration",
+      header: "Varighet",
+      accessor: (run) => formatDuration(run),
+      cell: (run) => <span className="tabular-nums text-slate-700">{formatDuration(run)}</span>,
+      sortValue: (run) => durationMs(run),
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "counts",
+      header: "Hentet / oppdatert / ukoblet",
+      accessor: (run) => formatCounts(run.fetched, run.updated, run.unmatched),
+      cell: (run) => (
+        <span className="tabular-nums text-slate-700">
+          {formatCounts(run.fetched, run.updated, run.unmatched)}
+        </span>
+      ),
+      sortValue: (run) => run.fetched ?? 0,
+    },
+    {
+      id: "error",
+      header: "Feilmelding",
+      accessor: (run) => run.error ?? "",
+      cell: (run) => (
+        <span className="line-clamp-2 max-w-md text-xs text-rose-700" title={run.error ?? undefined}>
+          {run.error ?? ""}
+        </span>
+      ),
+      sortValue: (run) => run.error ?? "",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {sources.length === 0 && (
+          <div className="rounded-2xl border border-slate-200 bg-white p-6 text-sm text-slate-600 shadow-sm md:col-span-2 xl:col-span-3">
+            Ingen synkroniseringer er registrert ennå.
+          </div>
+        )}
+        {sources.map((source) => (
+          <SourceCard key={source.source} source={source} />
+        ))}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="border-b border-slate-100 px-6 py-4">
+          <h2 className="text-lg font-semibold text-slate-900">Posisjonsferskhet</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Antall maskiner per kilde etter alder pa siste rapporterte posisjon.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-6 py-3">Kilde</th>
+                <th className="px-6 py-3 text-right">Maskiner</th>
+                <th className="px-6 py-3 text-right">Siste time</th>
+                <th className="px-6 py-3 text-right">Siste døgn</th>
+                <th className="px-6 py-3 text-right">Siste 7 dager</th>
+                <th className="px-6 py-3 text-right">Eldre</th>
+                <th className="px-6 py-3 text-right">Aldri</th>
+                <th className="px-6 py-3">Nyeste posisjon</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {freshness.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-6 py-6 text-center text-slate-500">
+                    Ingen maskiner er koblet til en telemetrikilde.
+                  </td>
+                </tr>
+              )}
+              {freshness.map((row) => {
+                const older = row.machines - row.within7d - row.never;
+                return (
+                  <tr key={row.source} className="tabular-nums text-slate-700">
+                    <td className="px-6 py-3 font-medium text-slate-900">{row.label}</td>
+                    <td className="px-6 py-3 text-right">{row.machines}</td>
+                    <td className="px-6 py-3 text-right">{row.within1h}</td>
+                    <td className="px-6 py-3 text-right">{row.within24h}</td>
+                    <td className="px-6 py-3 text-right">{row.within7d}</td>
+                    <td className={`px-6 py-3 text-right ${older > 0 ? "text-amber-700" : ""}`}>{older}</td>
+                    <td className={`px-6 py-3 text-right ${row.never > 0 ? "text-rose-700" : ""}`}>{row.never}</td>
+                    <td className="px-6 py-3">{formatDate(row.newestAt) ?? "-"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="border-b border-slate-100 px-6 py-4">
+          <h2 className="text-lg font-semibold text-slate-900">Siste kjøringer</h2>
+        </div>
+        <DataTable
+          data={runs}
+          columns={columns}
+          getRowId={(run) => run.id}
+          defaultSort={{ columnId: "startedAt", direction: "desc" }}
+          emptyMessage="Ingen kjøringer registrert ennå."
+        />
+      </section>
+    </div>
+  );
+}
+
+function SourceCard({ source }: { source: IntegrationSourceHealth }) {
+  const status = STATUS_STYLES[source.status];
+
+  return (
+    <article className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-900">{source.label}</h2>
+        <span className={`inline-flex rounded-full border px-3 py-1 text-xs font-medium ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+        <div>
+          <dt className="text-xs text-slate-500">Siste vellykkede</dt>
+          <dd className="font-medium text-slate-900">{formatDate(source.lastSuccessAt) ?? "Aldri"}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-slate-500">Siste kjøring</dt>
+          <dd className="font-medium text-slate-900">{formatDate(source.lastRunAt) ?? "-"}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-slate-500">Feil på rad</dt>
+          <dd className={`font-medium ${source.failureStreak > 0 ? "text-rose-700" : "text-slate-900"}`}>
+            {source.failureStreak}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-slate-500">Hentet / oppdatert / ukoblet</dt>
+          <dd className="font-medium tabular-nums text-slate-900">
+            {formatCounts(source.lastFetched, source.lastUpdated, source.lastUnmatched)}
+          </dd>
+        </div>
+      </dl>
+
+      {source.lastRunStatus === "failed" && source.lastError && (
+        <p className="mt-4 line-clamp-3 rounded-lg bg-rose-50 px-3 py-2 text-xs text-rose-700" title={source.lastError}>
+          {source.lastError}
+        </p>
+      )}
+    </article>
+  );
+}
+
+function formatCounts(fetched: number | null, updated: number | null, unmatched: number | null) {
+  return [fetched, updated, unmatched].map((value) => (value == null ? "-" : value)).join(" / ");
+}
+
+function durationMs(run: IntegrationRun) {
+  const started = new Date(run.startedAt).getTime();
+  const finished = new Date(run.finishedAt).getTime();
+  return Number.isFinite(started) && Number.isFinite(finished) ? Math.max(finished - started, 0) : 0;
+}
+
+function formatDuration(run: IntegrationRun) {
+  const seconds = Math.round(durationMs(run) / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { formatDate } from "@/lib/formatters";
+import { MACHINE_CONTROL_KIND_LABELS, MACHINE_CONTROL_STATUS_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import ControlStatusBadge from "@/components/ControlStatusBadge";
+import type { ControlComplianceEntry } from "@/lib/machine-compliance";
+
+type ControlComplianceTableProps = {
+  machines: ControlComplianceEntry[];
+  horizonDays: number;
+  agreementsError: string | null;
+};
+
+const HORIZON_OPTIONS = [0, 14, 30, 60, 90, 180];
+const NOT_RENTED_LABEL = "Ikke utleid";
+
+export default function ControlComplianceTable({
+  machines,
+  horizonDays,
+  agreementsError,
+}: ControlComplianceTableProps) {
+  const router = useRouter();
+  const overdueCount = machines.filter((machine) => machine.alerts[0]?.status === "overdue").length;
+  const overdueRentedCount = machines.filter(
+    (machine) => machine.alerts[0]?.status === "overdue" && machine.agreementId,
+  ).length;
+  const horizonOptions = HORIZON_OPTIONS.includes(horizonDays)
+    ? HORIZON_OPTIONS
+    : [...HORIZON_OPTIONS, horizonDays].sort((a, b) => a - b);
+
+  const columns: DataColumn<ControlComplianceEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (machine) => MACHINE_CONTROL_STATUS_LABELS[machine.alerts[0].status],
+      cell: (machine) => (
+        <span
+          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ring-1 ${
+            machine.alerts[0].status === "overdue"
+              ? "bg-rose-50 text-rose-700 ring-rose-100"
+              : "bg-amber-50 text-amber-700 ring-amber-100"
+          }`}
+        >
+          {MACHINE_CONTROL_STATUS_LABELS[machine.alerts[0].status]}
+        </span>
+      ),
+      sortValue: (machine) => machine.alerts[0].days_left,
+      filterValue: (machine) => MACHINE_CONTROL_STATUS_LABELS[machine.alerts[0].status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "machine",
+      header: "Maskin",
+      accessor: (machine) => machine.name,
+      cell: (machine) => (
+        <div>
+          <div className="font-medium text-slate-900">{machine.name}</div>
+          <div className="text-xs text-slate-500">
+            {[`ID ${machine.machineId}`, machine.category].filter(Boolean).join(" · ")}
+          </div>
+        </div>
+      ),
+      sortValue: (machine) => machine.name,
+      filterValue: (machine) => [machine.name, machine.machineId, machine.oemName].filter(Boolean).join(" "),
+    },
+    {
+      id: "controls",
+      header: "Kontroller",
+      accessor: (machine) => machine.alerts.map((alert) => MACHINE_CONTROL_KIND_LABELS[alert.kind]).join(", "),
+      cell: (machine) => (
+        <div className="flex flex-wrap gap-2">
+          {machine.alerts.map((alert) => (
+            <ControlStatusBadge key={alert.kind} alert={alert} />
+          ))}
+        </div>
+      ),
+      sortValue: (machine) => machine.alerts[0].kind,
+      filterValue: (machine) => machine.alerts.map((alert) => MACHINE_CONTROL_KIND_LABELS[alert.kind]),
+      cellClassName: "min-w-[16rem]",
+    },
+    {
+      id: "dueDate",
+      header: "Forfallsdato",
+      accessor: (machine) => formatDate(machine.alerts[0].due_date, { showTime: false }) ?? "",
+      filterType: "date-range",
+      dateValue: (machine) => machine.alerts[0].due_date,
+      cell: (machine) => (
+        <span className="tabular-nums text-slate-700">
+          {formatDate(machine.alerts[0].due_date, { showTime: false }) ?? "-"}
+        </span>
+      ),
+      sortValue: (machine) => machine.alerts[0].due_date,
+      cellClassName: "tabular-nums whitespace-nowrap",
+    },
+    {
+      id: "customer",
+      header: "Leietaker",
+      accessor: (machine) => machine.customerName ?? NOT_RENTED_LABEL,
+      cell: (machine) =>
+        machine.agreementId ? (
+          <div>
+            <div className="font-medium text-slate-900">{machine.customerName ?? "-"}</div>
+            <div className="text-xs text-slate-500">Avtale {machine.agreementId}</div>
+          </div>
+        ) : (
+          <span className="text-slate-400">{NOT_RENTED_LABEL}</span>
+        ),
+      sortValue: (machine) => machine.customerName ?? "",
+      filterValue: (machine) => (machine.agreementId ? (machine.customerName ?? "-") : NOT_RENTED_LABEL),
+    },
+  ];
+
+  return (
+    <>
+      <div className="flex flex-col gap-3 border-b border-slate-100 px-6 py-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Maskiner</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            {overdueCount
+              ? `${overdueCount} ${overdueCount === 1 ? "maskin har" : "maskiner har"} forfalt kontroll, ${overdueRentedCount} av dem er utleid.`
+              : "Ingen maskiner har forfalt kontroll."}
+          </p>
+          {agreementsError && (
+            <p className="mt-1 text-sm text-amber-700">
+              Kunne ikke hente avtaler, så leietaker vises ikke: {agreementsError}
+            </p>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Vis også kontroller som forfaller innen
+          <select
+            value={horizonDays}
+            onChange={(event) => router.push(`/kontroller?dager=${event.target.value}`)}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900"
+          >
+            {horizonOptions.map((days) => (
+              <option key={days} value={days}>
+                {days === 0 ? "i dag" : `${days} dager`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <DataTable
+        data={machines}
+        columns={columns}
+        getRowId={(machine) => machine.machineId}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen maskiner har kontroller som er forfalt eller forfaller i perioden."
+      />
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { Suspense } from "react";
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import ControlComplianceTable from "./ControlComplianceTable";
+import ErrorPanel from "@/components/ErrorPanel";
+import { loadControlComplianceForAdmin, parseControlHorizonDays } from "@/lib/machine-compliance";
+
+export default async function KontrollerPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ dager?: string | string[] }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const isAdmin = session.user?.role === "super_admin";
+
+  if (!isAdmin) {
+    return (
+      <main className="p-8">
+        <section className="rounded-2xl border border-slate-200 bg-white p-10 text-center shadow-sm">
+          <h1 className="text-2xl font-semibold text-slate-900">Begrenset tilgang</h1>
+          <p className="mt-3 text-slate-600">
+            Du trenger administratorrettigheter for a se kontrollstatus.
+          </p>
+        </section>
+      </main>
+    );
+  }
+
+  const { dager } = await searchParams;
+  const horizonDays = parseControlHorizonDays(Array.isArray(dager) ? dager[0] : dager);
+
+  return (
+    <main className="p-8 space-y-6">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Kontroller</h1>
+          <p className="mt-2 text-slate-600">
+            Maskiner der periodisk kontroll eller jernbanekontroll er forfalt eller nærmer seg, med kunden som leier maskinen nå.
+          </p>
+        </div>
+      </header>
+
+      <Suspense key={horizonDays} fallback={<KontrollerSectionLoading />}>
+        <KontrollerSection userId={session.user.id} horizonDays={horizonDays} />
+      </Suspense>
+    </main>
+  );
+}
+
+async function KontrollerSection({ userId, horizonDays }: { userId: string; horizonDays: number }) {
+  const { machines, agreementsError, error } = await loadControlComplianceForAdmin(
+    { id: userId, role: "super_admin" },
+    horizonDays,
+  );
+
+  if (error) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <ErrorPanel
+          withSidebar
+          title="Kunne ikke hente kontrollstatus"
+          error={error}
+        />
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <ControlComplianceTable
+        machines={machines}
+        horizonDays={horizonDays}
+        agreementsError={agreementsError}
+      />
+    </section>
+  );
+}
+
+function KontrollerSectionLoading() {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center gap-3 border-b border-slate-100 px-6 py-4 text-sm text-slate-600">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+        Laster kontrollstatus...
+      </div>
+      <div className="space-y-3 p-4">
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+      </div>
+    </section>
+  );
+}
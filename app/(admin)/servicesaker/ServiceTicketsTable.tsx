@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { formatDate } from "@/lib/formatters";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import { SERVICE_TICKET_CATEGORY_LABELS, SERVICE_TICKET_STATUS_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import type { ServiceTicketEntry, ServiceTicketStatus } from "@/types/machines";
+
+type ServiceTicketsTableProps = {
+  tickets: ServiceTicketEntry[];
+};
+
+const STATUS_ORDER: Record<ServiceTicketStatus, number> = { open: 0, in_progress: 1, resolved: 2 };
+
+const STATUS_BADGE_CLASSES: Record<ServiceTicketStatus, string> = {
+  open: "bg-rose-50 text-rose-700 ring-rose-100",
+  in_progress: "bg-amber-50 text-amber-700 ring-amber-100",
+  resolved: "bg-emerald-50 text-emerald-700 ring-emerald-100",
+};
+
+// Mirrors the transitions accepted by updateServiceTicketStatus in lib/service-tickets.ts.
+const STATUS_ACTIONS: Record<ServiceTicketStatus, Array<{ status: ServiceTicketStatus; label: string }>> = {
+  open: [
+    { status: "in_progress", label: "Start arbeid" },
+    { status: "resolved", label: "Marker løst" },
+  ],
+  in_progress: [
+    { status: "resolved", label: "Marker løst" },
+    { status: "open", label: "Sett tilbake til ny" },
+  ],
+  resolved: [{ status: "open", label: "Gjenåpne" }],
+};
+
+export default function ServiceTicketsTable({ tickets }: ServiceTicketsTableProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(tickets);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const unresolvedCount = rows.filter((ticket) => ticket.status !== "resolved").length;
+
+  async function updateStatus(ticket: ServiceTicketEntry, status: ServiceTicketStatus) {
+    setSavingId(ticket.id);
+    setErrors((prev) => ({ ...prev, [ticket.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/service-tickets/${ticket.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: notes[ticket.id] ?? "" }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere saken");
+      }
+
+      const updated = payload.ticket as ServiceTicketEntry;
+      setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      setNotes((prev) => ({ ...prev, [ticket.id]: "" }));
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere saken";
+      setErrors((prev) => ({ ...prev, [ticket.id]: message }));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const columns: DataColumn<ServiceTicketEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (ticket) => SERVICE_TICKET_STATUS_LABELS[ticket.status],
+      cell: (ticket) => (
+        <span
+          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ring-1 ${STATUS_BADGE_CLASSES[ticket.status]}`}
+        >
+          {SERVICE_TICKET_STATUS_LABELS[ticket.status]}
+        </span>
+      ),
+      sortValue: (ticket) => STATUS_ORDER[ticket.status],
+      filterValue: (ticket) => SERVICE_TICKET_STATUS_LABELS[ticket.status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "category",
+      header: "Kategori",
+      accessor: (ticket) => SERVICE_TICKET_CATEGORY_LABELS[ticket.category],
+      sortValue: (ticket) => ticket.category,
+      filterValue: (ticket) => SERVICE_TICKET_CATEGORY_LABELS[ticket.category],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "machine",
+      header: "Maskin",
+      accessor: (ticket) => ticket.machine_name ?? `Maskin ${ticket.machine_id}`,
+      cell: (ticket) => (
+        <div>
+          <div className="font-medium text-slate-900">{ticket.machine_name ?? `Maskin ${ticket.machine_id}`}</div>
+          {(ticket.rental_id || ticket.customer_name) && (
+            <div className="text-xs text-slate-500">
+              {[ticket.customer_name, ticket.rental_id ? `avtale ${ticket.rental_id}` : null]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+      ),
+      sortValue: (ticket) => ticket.machine_name ?? ticket.machine_id,
+      filterValue: (ticket) =>
+        [ticket.machine_name, ticket.machine_id, ticket.customer_name, ticket.rental_id].filter(Boolean).join(" "),
+    },
+    {
+      id: "description",
+      header: "Beskrivelse",
+      accessor: (ticket) => ticket.description,
+      cell: (ticket) => (
+        <div className="text-slate-700">
+          <div className="whitespace-pre-line">{ticket.description}</div>
+          {ticket.latitude != null && ticket.longitude != null && (
+            <a
+              href={`https://www.google.com/maps?q=${ticket.latitude},${ticket.longitude}`}
+              target="_blank"
+              rel="noreferrer"
+              className="mt-1 inline-block text-xs text-blue-600 hover:underline"
+            >
+              Posisjon {ticket.latitude.toFixed(5)}, {ticket.longitude.toFixed(5)}
+              {ticket.position_reported_at ? ` (${formatDate(ticket.position_reported_at) ?? ""})` : ""}
+            </a>
+          )}
+          {ticket.photos.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {ticket.photos.map((photo) => (
+                <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                  <Image
+                    src={photo.url}
+                    alt={photo.file_name}
+                    width={48}
+                    height={48}
+                    unoptimized
+                    className="h-12 w-12 rounded-md border border-slate-200 object-cover"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      ),
+      sortValue: (ticket) => ticket.description,
+      filterValue: (ticket) => ticket.description,
+      cellClassName: "min-w-[16rem]",
+    },
+    {
+      id: "reported",
+      header: "Meldt",
+      accessor: (ticket) => formatDate(ticket.created_at) ?? "",
+      filterType: "date-range",
+      dateValue: (ticket) => ticket.created_at,
+      cell: (ticket) => (
+        <div className="text-slate-700">
+          <div className="tabular-nums">{formatDate(ticket.created_at) ?? "-"}</div>
+          {ticket.reported_by_name && <div className="text-xs text-slate-500">{ticket.reported_by_name}</div>}
+        </div>
+      ),
+      sortValue: (ticket) => ticket.created_at,
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "handling",
+      header: "Behandling",
+      accessor: (ticket) => formatHandled(ticket),
+      cell: (ticket) => {
+        const isSaving = savingId === ticket.id;
+        const error = errors[ticket.id];
+
+        return (
+          <div className="flex flex-col gap-2">
+            <div className="whitespace-pre-line text-xs text-slate-600">{formatHandled(ticket) || "-"}</div>
+            <input
+              type="text"
+              value={notes[ticket.id] ?? ""}
+              onChange={(event) => setNotes((prev) => ({ ...prev, [ticket.id]: event.target.value }))}
+              placeholder="Kommentar (valgfritt)"
+              disabled={isSaving}
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-xs text-slate-700 focus:border-slate-400 focus:outline-none"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {STATUS_ACTIONS[ticket.status].map((action, index) => (
+                <button
+                  key={action.status}
+                  type="button"
+                  onClick={() => updateStatus(ticket, action.status)}
+                  disabled={isSaving}
+                  className={
+                    index === 0
+                      ? standardButtonCompactClass
+                      : "cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  }
+                >
+                  {isSaving && index === 0 ? "Lagrer..." : action.label}
+                </button>
+              ))}
+            </div>
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+          </div>
+        );
+      },
+      sortValue: (ticket) => ticket.status_changed_at ?? "",
+      filterValue: (ticket) => formatHandled(ticket),
+      cellClassName: "min-w-[16rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Saker</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {unresolvedCount
+            ? `${unresolvedCount} ${unresolvedCount === 1 ? "sak er" : "saker er"} ikke løst.`
+            : "Ingen uløste saker."}
+        </p>
+      </div>
+      <DataTable
+        data={rows}
+        columns={columns}
+        getRowId={(ticket) => ticket.id}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen servicesaker de siste 90 dagene."
+      />
+    </>
+  );
+}
+
+function formatHandled(ticket: ServiceTicketEntry) {
+  const lines: string[] = [];
+  if (ticket.status_changed_at) {
+    lines.push(
+      `${SERVICE_TICKET_STATUS_LABELS[ticket.status]} ${formatDate(ticket.status_changed_at) ?? ""}${
+        ticket.status_changed_by ? ` av ${ticket.status_changed_by}` : ""
+      }`,
+    );
+  }
+  if (ticket.status_note) {
+    lines.push(`«${ticket.status_note}»`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDate, formatDisplay } from "@/lib/formatters";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import { INTEGRATION_SOURCE_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import type { TelemetryLinkEntry, TelemetryLinkMachineOption } from "@/types/machines";
+
+type TelemetryLinksTableProps = {
+  links: TelemetryLinkEntry[];
+  machines: TelemetryLinkMachineOption[];
+};
+
+export default function TelemetryLinksTable({ links, machines }: TelemetryLinksTableProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(links);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const machineIds = useMemo(() => new Set(machines.map((machine) => machine.id)), [machines]);
+  const unlinkedCount = rows.filter((row) => !row.machine_id).length;
+
+  async function saveLink(link: TelemetryLinkEntry, machineId: string | null) {
+    if (machineId && !machineIds.has(machineId)) {
+      setErrors((prev) => ({ ...prev, [link.id]: "Velg en maskin fra listen" }));
+      return;
+    }
+
+    setSavingId(link.id);
+    setErrors((prev) => ({ ...prev, [link.id]: "" }));
+
+    try {
+      const response = await fetch(`/api/telemetry-links/${link.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ machineId }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere koblingen");
+      }
+
+      const updated = payload.link as TelemetryLinkEntry;
+      setRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+      setDrafts((prev) => ({ ...prev, [link.id]: "" }));
+      router.refresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Kunne ikke oppdatere koblingen";
+      setErrors((prev) => ({ ...prev, [link.id]: message }));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const columns: DataColumn<TelemetryLinkEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (link) => formatStatus(link),
+      cell: (link) => <StatusBadge link={link} />,
+      sortValue: (link) => (link.machine_id ? 1 : 0),
+      filterValue: (link) => formatStatus(link),
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "source",
+      header: "Kilde",
+      accessor: (link) => formatSource(link.source),
+      cell: (link) => <span className="text-slate-700">{formatSource(link.source)}</span>,
+      sortValue: (link) => formatSource(link.source),
+      filterValue: (link) => formatSource(link.source),
+    },
+    {
+      id: "unit",
+      header: "Enhet",
+      accessor: (link) => link.external_id,
+      cell: (link) => (
+        <div>
+          <div className="font-medium text-slate-900">{link.external_id}</div>
+          <div className="text-xs text-slate-500">
+            {[link.oem_name, link.model].filter(Boolean).join(" ") || "Ukjent modell"}
+          </div>
+        </div>
+      ),
+      sortValue: (link) => link.external_id,
+      filterValue: (link) => link.external_id,
+    },
+    {
+      id: "serial",
+      header: "Serienummer",
+      accessor: (link) => formatDisplay(link.serial_number),
+      cell: (link) => (
+        <span className="whitespace-nowrap text-slate-700">{formatDisplay(link.serial_number)}</span>
+      ),
+      sortValue: (link) => link.serial_number ?? "",
+      filterValue: (link) => formatDisplay(link.serial_number),
+    },
+    {
+      id: "lastSeen",
+      header: "Sist sett",
+      accessor: (link) => formatDate(link.last_seen_at, { multiline: true }) ?? "",
+      filterType: "date-range",
+      dateValue: (link) => link.last_seen_at,
+      cell: (link) => (
+        <span className="whitespace-pre-line tabular-nums text-slate-700">
+          {formatDate(link.last_seen_at, { multiline: true }) ?? "-"}
+        </span>
+      ),
+      sortValue: (link) => link.last_seen_at,
+      cellClassName: "tabular-nums whitespace-pre-line",
+    },
+    {
+      id: "machine",
+      header: "Maskin",
+      accessor: (link) => link.machine_id ?? "",
+      cell: (link) => {
+        const isSaving = savingId === link.id;
+        const error = errors[link.id];
+
+        if (link.machine_id) {
+          return (
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="font-medium text-slate-900">
+                  {link.machine_id}
+                  {link.machine_name ? ` – ${link.machine_name}` : ""}
+                </div>
+                {link.linked_by && (
+                  <div className="text-xs text-slate-500">Koblet av {link.linked_by}</div>
+                )}
+                {error && <div className="text-xs text-rose-600">{error}</div>}
+              </div>
+              <button
+                type="button"
+                onClick={() => saveLink(link, null)}
+                disabled={isSaving}
+                className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Fjern kobling
+              </button>
+            </div>
+          );
+        }
+
+        return (
+          <form
+            className="flex flex-col gap-1"
+            onSubmit={(event) => {
+              event.preventDefault();
+              saveLink(link, (drafts[link.id] ?? "").trim() || null);
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                list="telemetry-machine-options"
+                value={drafts[link.id] ?? ""}
+                onChange={(event) =>
+                  setDrafts((prev) => ({ ...prev, [link.id]: event.target.value }))
+                }
+                placeholder="Maskinnummer"
+                className="w-40 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+              />
+              <button
+                type="submit"
+                disabled={isSaving || !(drafts[link.id] ?? "").trim()}
+                className={standardButtonCompactClass}
+              >
+                {isSaving ? "Lagrer..." : "Koble"}
+              </button>
+            </div>
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+          </form>
+        );
+      },
+      sortValue: (link) => link.machine_id ?? "",
+      filterValue: (link) => link.machine_id ?? "Ikke koblet",
+      cellClassName: "min-w-[18rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4 text-sm text-slate-600">
+        {unlinkedCount
+          ? `${unlinkedCount} ${unlinkedCount === 1 ? "enhet mangler" : "enheter mangler"} maskin.`
+          : "Alle enheter er koblet til en maskin."}
+      </div>
+      <DataTable
+        data={rows}
+        columns={columns}
+        getRowId={(link) => link.id}
+        defaultSort={{ columnId: "status", direction: "asc" }}
+        emptyMessage="Ingen telemetrienheter registrert ennå."
+      />
+      <datalist id="telemetry-machine-options">
+        {machines.map((machine) => (
+          <option key={machine.id} value={machine.id}>
+            {formatMachineOption(machine)}
+          </option>
+        ))}
+      </datalist>
+    </>
+  );
+}
+
+function StatusBadge({ link }: { link: TelemetryLinkEntry }) {
+  const className = link.machine_id
+    ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+    : "border-amber-200 bg-amber-50 text-amber-800";
+
+  return (
+    <span className={`inline-flex rounded-full border px-3 py-1 text-xs font-medium ${className}`}>
+      {formatStatus(link)}
+    </span>
+  );
+}
+
+function formatStatus(link: TelemetryLinkEntry) {
+  if (!link.machine_id) return "Ikke koblet";
+  if (link.matched_by === "serial") return "Koblet (serienummer)";
+  if (link.matched_by === "trackunit_id") return "Koblet (Trackunit-ID)";
+  return "Koblet (manuelt)";
+}
+
+function formatSource(source: string) {
+  return INTEGRATION_SOURCE_LABELS[source] ?? source.charAt(0).toUpperCase() + source.slice(1);
+}
+
+function formatMachineOption(machine: TelemetryLinkMachineOption) {
+  const label = [machine.oem_name, machine.model].filter(Boolean).join(" ") || machine.name || "";
+  const serial = machine.serial_number ? `s/n ${machine.serial_number}` : "";
+  return [label, serial].filter(Boolean).join(" · ");
+}
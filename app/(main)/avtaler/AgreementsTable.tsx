@@ -1,8 +1,12 @@
 "use client";
 
+import { useEffect, useRef } from "react";
 import DataTable, { type DataColumn } from "@/components/DataTable";
 import DialogFlowHost, { type DialogAgreementInput } from "@/components/dialogs/DialogFlowHost";
 import { formatDate } from "@/lib/formatters";
+import { RENTAL_REQUEST_STATUS_LABELS, RENTAL_REQUEST_TYPE_LABELS } from "@/lib/constants";
+import RentalRequestStatusBadge from "@/components/RentalRequestStatusBadge";
+import type { RentalRequestEntry } from "@/lib/rental-requests";
 
 export type AgreementRow = DialogAgreementInput;
 
@@ -10,9 +14,19 @@ type AgreementsTableProps = {
   agreements: AgreementRow[];
   emptyMessage?: string;
   viewer?: { id?: string | null; role?: string | null };
+  /** Latest extension or return request per agreement id. */
+  requests?: Record<string, RentalRequestEntry>;
+  /** Opens this agreement's dialog on load when it is in the table. */
+  initialAgreementId?: string | null;
 };
 
-export default function AgreementsTable({ agreements, emptyMessage, viewer }: AgreementsTableProps) {
+export default function AgreementsTable({
+  agreements,
+  emptyMessage,
+  viewer,
+  requests = {},
+  initialAgreementId,
+}: AgreementsTableProps) {
   return (
     <DialogFlowHost viewer={viewer}>
       {({ openAgreement, openCustomer, openMachine }) => {
@@ -111,22 +125,68 @@ export default function AgreementsTable({ agreements, emptyMessage, viewer }: Ag
               (agreement.machines ?? []).map((machine) => machine?.name?.trim() || "Maskin"),
             cellClassName: "min-w-[12rem]",
           },
+          {
+            id: "request",
+            header: "Forespørsel",
+            accessor: (agreement) => formatRequest(requests[String(agreement.id)]),
+            cell: (agreement) => {
+              const request = requests[String(agreement.id)];
+              if (!request) {
+                return <span className="text-slate-400">-</span>;
+              }
+              return <RentalRequestStatusBadge request={request} showType />;
+            },
+            sortValue: (agreement) => formatRequest(requests[String(agreement.id)]),
+            filterValue: (agreement) => formatRequest(requests[String(agreement.id)]) || "Ingen",
+            cellClassName: "whitespace-nowrap",
+          },
         ];
 
         return (
-          <DataTable
-            data={agreements}
-            columns={columns}
-            getRowId={(agreement, index) => agreement.id?.toString() ?? String(index)}
-            emptyMessage={emptyMessage ?? "Ingen avtaler funnet."}
-            defaultSort={{ columnId: "startDate", direction: "desc" }}
-          />
+          <>
+            {initialAgreementId ? (
+              <OpenInitialAgreement
+                agreements={agreements}
+                agreementId={initialAgreementId}
+                onOpen={openAgreement}
+              />
+            ) : null}
+            <DataTable
+              data={agreements}
+              columns={columns}
+              getRowId={(agreement, index) => agreement.id?.toString() ?? String(index)}
+              emptyMessage={emptyMessage ?? "Ingen avtaler funnet."}
+              defaultSort={{ columnId: "startDate", direction: "desc" }}
+            />
+          </>
         );
       }}
     </DialogFlowHost>
   );
 }
 
+function OpenInitialAgreement({
+  agreements,
+  agreementId,
+  onOpen,
+}: {
+  agreements: AgreementRow[];
+  agreementId: string;
+  onOpen: (agreement: AgreementRow) => void;
+}) {
+  const openedRef = useRef(false);
+
+  useEffect(() => {
+    if (openedRef.current) return;
+    const agreement = agreements.find((entry) => entry.id?.toString() === agreementId);
+    if (!agreement) return;
+    openedRef.current = true;
+    onOpen(agreement);
+  }, [agreements, agreementId, onOpen]);
+
+  return null;
+}
+
 function PillButton({ label, onClick }: { label: string; onClick?: () => void }) {
   return (
     <button
@@ -139,6 +199,11 @@ function PillButton({ label, onClick }: { label: string; onClick?: () => void })
   );
 }
 
+function formatRequest(request?: RentalRequestEntry) {
+  if (!request) return "";
+  return `${RENTAL_REQUEST_TYPE_LABELS[request.type]}: ${RENTAL_REQUEST_STATUS_LABELS[request.status]}`;
+}
+
 function toTimestamp(value?: string | Date | null) {
   if (!value) return 0;
   const date = value instanceof Date ? value : new Date(value);
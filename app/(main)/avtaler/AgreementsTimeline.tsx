@@ -0,0 +1,410 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { IconChevronLeft, IconChevronRight } from "@tabler/icons-react";
+import DialogFlowHost from "@/components/dialogs/DialogFlowHost";
+import { formatDate } from "@/lib/formatters";
+import type { AgreementRow } from "./AgreementsTable";
+
+type Zoom = "week" | "month";
+type GroupBy = "machine" | "project";
+
+type TimelineWindow = { start: number; end: number };
+
+type TimelineBar = {
+  agreement: AgreementRow;
+  start: number;
+  /** Exclusive day index; open-ended agreements run to the end of the window. */
+  end: number;
+  openEnded: boolean;
+  lane: number;
+};
+
+type TimelineRow = {
+  key: string;
+  label: string;
+  machine?: { id?: string | number; name?: string | null; make?: string | null };
+  bars: TimelineBar[];
+  lanes: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_WINDOW_WEEKS = 8;
+const MONTH_WINDOW_MONTHS = 6;
+const LANE_HEIGHT_PX = 28;
+
+// Literal class names so Tailwind keeps them; customers are mapped onto these by a hash.
+const CUSTOMER_COLORS = [
+  "bg-sky-500 hover:bg-sky-600",
+  "bg-emerald-500 hover:bg-emerald-600",
+  "bg-amber-500 hover:bg-amber-600",
+  "bg-violet-500 hover:bg-violet-600",
+  "bg-rose-500 hover:bg-rose-600",
+  "bg-teal-500 hover:bg-teal-600",
+  "bg-orange-500 hover:bg-orange-600",
+  "bg-indigo-500 hover:bg-indigo-600",
+  "bg-lime-600 hover:bg-lime-700",
+  "bg-fuchsia-500 hover:bg-fuchsia-600",
+] as const;
+
+const MONTH_LABELS = ["jan", "feb", "mar", "apr", "mai", "jun", "jul", "aug", "sep", "okt", "nov", "des"];
+
+export default function AgreementsTimeline({
+  agreements,
+  viewer,
+}: {
+  agreements: AgreementRow[];
+  viewer?: { id?: string | null; role?: string | null };
+}) {
+  const today = toDayIndex(new Date()) ?? 0;
+  const [zoom, setZoom] = useState<Zoom>("month");
+  const [groupBy, setGroupBy] = useState<GroupBy>("machine");
+  const [windowStart, setWindowStart] = useState(() => defaultWindowStart("month", today));
+
+  const timelineWindow = useMemo(() => getWindow(zoom, windowStart), [zoom, windowStart]);
+  const rows = useMemo(
+    () => buildRows(agreements, groupBy, timelineWindow),
+    [agreements, groupBy, timelineWindow],
+  );
+  const ticks = useMemo(() => buildTicks(zoom, timelineWindow), [zoom, timelineWindow]);
+  const customers = useMemo(() => {
+    const visible = new Map<string, string>();
+    for (const row of rows) {
+      for (const bar of row.bars) {
+        visible.set(customerKey(bar.agreement), bar.agreement.customer?.name?.trim() || "Ukjent kunde");
+      }
+    }
+    return [...visible.entries()].sort((a, b) => a[1].localeCompare(b[1], "nb"));
+  }, [rows]);
+
+  const windowLength = timelineWindow.end - timelineWindow.start;
+  const toPercent = (day: number) => ((day - timelineWindow.start) / windowLength) * 100;
+  const showToday = today >= timelineWindow.start && today < timelineWindow.end;
+
+  function changeZoom(next: Zoom) {
+    setZoom(next);
+    setWindowStart(defaultWindowStart(next, today));
+  }
+
+  function shift(direction: -1 | 1) {
+    setWindowStart((prev) =>
+      zoom === "week" ? prev + direction * 4 * 7 : addMonths(prev, direction * (MONTH_WINDOW_MONTHS / 2)),
+    );
+  }
+
+  return (
+    <DialogFlowHost viewer={viewer}>
+      {({ openAgreement, openMachine }) => (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 px-6 py-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rader</span>
+              <FilterChip label="Maskin" active={groupBy === "machine"} onClick={() => setGroupBy("machine")} />
+              <FilterChip label="Prosjekt" active={groupBy === "project"} onClick={() => setGroupBy("project")} />
+              <span className="ml-3 text-xs font-semibold uppercase tracking-wide text-slate-500">Visning</span>
+              <FilterChip label="Uker" active={zoom === "week"} onClick={() => changeZoom("week")} />
+              <FilterChip label="Måneder" active={zoom === "month"} onClick={() => changeZoom("month")} />
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => shift(-1)}
+                className="flex h-8 w-8 cursor-pointer items-center justify-center rounded-full border border-slate-200 text-slate-500 transition hover:bg-slate-50 hover:text-slate-700"
+                aria-label="Tidligere"
+              >
+                <IconChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setWindowStart(defaultWindowStart(zoom, today))}
+                className="cursor-pointer rounded-full border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:bg-slate-50"
+              >
+                I dag
+              </button>
+              <button
+                type="button"
+                onClick={() => shift(1)}
+                className="flex h-8 w-8 cursor-pointer items-center justify-center rounded-full border border-slate-200 text-slate-500 transition hover:bg-slate-50 hover:text-slate-700"
+                aria-label="Senere"
+              >
+                <IconChevronRight className="h-4 w-4" />
+              </button>
+              <span className="text-sm tabular-nums text-slate-600">
+                {formatDay(timelineWindow.start)} – {formatDay(timelineWindow.end - 1)}
+              </span>
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="px-6 py-8 text-center text-sm text-slate-500">
+              Ingen avtaler i denne perioden.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className={zoom === "week" ? "min-w-[64rem]" : "min-w-[48rem]"}>
+                <div className="flex border-b border-slate-100 text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                  <div className="w-56 shrink-0 px-4 py-2">{groupBy === "machine" ? "Maskin" : "Prosjekt"}</div>
+                  <div className="relative flex-1">
+                    {ticks.map((tick) => (
+                      <span
+                        key={tick.day}
+                        className="absolute top-2 truncate border-l border-slate-200 pl-1"
+                        style={{ left: `${toPercent(tick.day)}%` }}
+                      >
+                        {tick.label}
+                      </span>
+                    ))}
+                    <div className="h-8" />
+                  </div>
+                </div>
+
+                <ul className="divide-y divide-slate-100">
+                  {rows.map((row) => (
+                    <li key={row.key} className="flex">
+                      <div className="flex w-56 shrink-0 items-center gap-2 px-4 py-2 text-sm">
+                        {row.machine && row.machine.id !== undefined ? (
+                          <button
+                            type="button"
+                            onClick={() => void openMachine(row.machine)}
+                            className="cursor-pointer truncate text-left font-medium text-blue-800 hover:underline"
+                            title={row.label}
+                          >
+                            {row.label}
+                          </button>
+                        ) : (
+                          <span className="truncate font-medium text-slate-900" title={row.label}>
+                            {row.label}
+                          </span>
+                        )}
+                        {row.lanes > 1 ? (
+                          <span className="shrink-0 rounded-full bg-rose-50 px-2 py-0.5 text-[10px] font-semibold text-rose-700 ring-1 ring-rose-100">
+                            Overlapp
+                          </span>
+                        ) : null}
+                      </div>
+                      <div
+                        className="relative flex-1 py-1"
+                        style={{ height: row.lanes * LANE_HEIGHT_PX + 8 }}
+                      >
+                        {ticks.map((tick) => (
+                          <span
+                            key={tick.day}
+                            className="absolute inset-y-0 border-l border-slate-100"
+                            style={{ left: `${toPercent(tick.day)}%` }}
+                          />
+                        ))}
+                        {showToday ? (
+                          <span
+                            className="absolute inset-y-0 z-10 w-px bg-rose-500"
+                            style={{ left: `${toPercent(today)}%` }}
+                          />
+                        ) : null}
+                        {row.bars.map((bar) => {
+                          const left = toPercent(Math.max(bar.start, timelineWindow.start));
+                          const right = toPercent(Math.min(bar.end, timelineWindow.end));
+                          const customerName = bar.agreement.customer?.name?.trim() || "Ukjent kunde";
+                          const period = `${formatDate(bar.agreement.startDate, { showTime: false }) ?? "-"} – ${
+                            bar.openEnded ? "uten sluttdato" : formatDate(bar.agreement.endDate, { showTime: false }) ?? "-"
+                          }`;
+                          return (
+                            <button
+                              key={`${bar.agreement.id}-${bar.lane}`}
+                              type="button"
+                              onClick={() => openAgreement(bar.agreement)}
+                              title={`Avtale ${bar.agreement.id} · ${customerName} · ${period}`}
+                              className={`absolute flex cursor-pointer items-center overflow-hidden rounded-md px-2 text-left text-[11px] font-semibold text-white shadow-sm transition ${
+                                CUSTOMER_COLORS[colorIndex(customerKey(bar.agreement))]
+                              } ${bar.openEnded ? "rounded-r-none" : ""}`}
+                              style={{
+                                left: `${left}%`,
+                                width: `max(${right - left}%, 4px)`,
+                                top: 4 + bar.lane * LANE_HEIGHT_PX,
+                                height: LANE_HEIGHT_PX - 6,
+                              }}
+                            >
+                              <span className="truncate">{customerName}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {customers.length ? (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-slate-100 px-6 py-3 text-xs text-slate-600">
+              {customers.map(([key, name]) => (
+                <span key={key} className="inline-flex items-center gap-1.5">
+                  <span className={`h-2.5 w-2.5 rounded-sm ${CUSTOMER_COLORS[colorIndex(key)].split(" ")[0]}`} />
+                  {name}
+                </span>
+              ))}
+              <span className="inline-flex items-center gap-1.5">
+                <span className="h-3 w-px bg-rose-500" />I dag
+              </span>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </DialogFlowHost>
+  );
+}
+
+function FilterChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`cursor-pointer rounded-full border px-3 py-1 text-xs font-medium transition ${
+        active
+          ? "border-blue-200 bg-blue-50 text-blue-800"
+          : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function buildRows(agreements: AgreementRow[], groupBy: GroupBy, timelineWindow: TimelineWindow): TimelineRow[] {
+  const groups = new Map<string, Omit<TimelineRow, "lanes">>();
+
+  for (const agreement of agreements) {
+    const start = toDayIndex(agreement.startDate);
+    if (start === null) continue;
+    const endDay = toDayIndex(agreement.endDate);
+    const openEnded = endDay === null;
+    const end = openEnded ? Math.max(timelineWindow.end, start + 1) : Math.max(endDay, start) + 1;
+    if (start >= timelineWindow.end || end <= timelineWindow.start) continue;
+
+    const targets: Array<Pick<TimelineRow, "key" | "label" | "machine">> = [];
+    if (groupBy === "project") {
+      const projectNumber = agreement.projectNumber?.trim();
+      targets.push({
+        key: `project:${projectNumber ?? ""}`,
+        label: projectNumber || "Uten prosjektnummer",
+      });
+    } else if (agreement.machines?.length) {
+      for (const machine of agreement.machines) {
+        targets.push({
+          key: `machine:${machine.id ?? machine.name ?? ""}`,
+          label: machine.name?.trim() || (machine.id !== undefined ? `Maskin ${machine.id}` : "Maskin"),
+          machine,
+        });
+      }
+    } else {
+      targets.push({ key: "machine:", label: "Uten maskin" });
+    }
+
+    for (const target of targets) {
+      const row = groups.get(target.key) ?? { ...target, bars: [] };
+      // A machine listed twice on one agreement should still get one bar.
+      if (!row.bars.some((bar) => bar.agreement.id === agreement.id)) {
+        row.bars.push({ agreement, start, end, openEnded, lane: 0 });
+      }
+      groups.set(target.key, row);
+    }
+  }
+
+  return [...groups.values()]
+    .map((row) => ({ ...row, lanes: assignLanes(row.bars) }))
+    .sort((a, b) => a.label.localeCompare(b.label, "nb", { numeric: true }));
+}
+
+// Overlapping periods in one row are stacked, so double bookings are visible at a glance.
+function assignLanes(bars: TimelineBar[]): number {
+  const laneEnds: number[] = [];
+  bars.sort((a, b) => a.start - b.start || a.end - b.end);
+  for (const bar of bars) {
+    const lane = laneEnds.findIndex((end) => end <= bar.start);
+    bar.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[bar.lane] = bar.end;
+  }
+  return Math.max(laneEnds.length, 1);
+}
+
+function buildTicks(zoom: Zoom, timelineWindow: TimelineWindow) {
+  const ticks: Array<{ day: number; label: string }> = [];
+
+  if (zoom === "week") {
+    for (let day = timelineWindow.start; day < timelineWindow.end; day += 7) {
+      ticks.push({ day, label: `Uke ${isoWeek(day)}` });
+    }
+    return ticks;
+  }
+
+  for (let day = timelineWindow.start; day < timelineWindow.end; day = addMonths(day, 1)) {
+    const date = fromDayIndex(day);
+    ticks.push({ day, label: `${MONTH_LABELS[date.getUTCMonth()]} ${date.getUTCFullYear()}` });
+  }
+  return ticks;
+}
+
+function getWindow(zoom: Zoom, start: number): TimelineWindow {
+  return {
+    start,
+    end: zoom === "week" ? start + WEEK_WINDOW_WEEKS * 7 : addMonths(start, MONTH_WINDOW_MONTHS),
+  };
+}
+
+// Weeks start one week before the current one; months one month before the current one.
+function defaultWindowStart(zoom: Zoom, today: number) {
+  const date = fromDayIndex(today);
+  if (zoom === "week") {
+    const weekday = (date.getUTCDay() + 6) % 7;
+    return today - weekday - 7;
+  }
+  return Math.round(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1) / DAY_MS);
+}
+
+function addMonths(day: number, months: number) {
+  const date = fromDayIndex(day);
+  return Math.round(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1) / DAY_MS);
+}
+
+function isoWeek(day: number) {
+  const date = fromDayIndex(day);
+  const thursday = day - ((date.getUTCDay() + 6) % 7) + 3;
+  const firstThursday = fromDayIndex(thursday);
+  const yearStart = Math.round(Date.UTC(firstThursday.getUTCFullYear(), 0, 1) / DAY_MS);
+  return Math.floor((thursday - yearStart) / 7) + 1;
+}
+
+// Days since the epoch. Agreement dates are wall-clock values, so their calendar date is
+// used as-is instead of converting through the browser's time zone.
+function toDayIndex(value?: string | Date | null): number | null {
+  if (!value) return null;
+  if (typeof value === "string") {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+    if (match) return Math.round(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS);
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function fromDayIndex(day: number) {
+  return new Date(day * DAY_MS);
+}
+
+function formatDay(day: number) {
+  const date = fromDayIndex(day);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(date.getUTCDate())}.${pad(date.getUTCMonth() + 1)}.${date.getUTCFullYear()}`;
+}
+
+function customerKey(agreement: AgreementRow) {
+  return String(agreement.customer?.id ?? agreement.customer?.name ?? "unknown");
+}
+
+function colorIndex(key: string) {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return Math.abs(hash) % CUSTOMER_COLORS.length;
+}
@@ -1,9 +1,11 @@
 import { Suspense, cache } from "react";
 import { redirect } from "next/navigation";
 import AgreementsTable, { type AgreementRow } from "./AgreementsTable";
+import AgreementsTimeline from "./AgreementsTimeline";
 import { auth } from "@/lib/auth";
 import ErrorPanel from "@/components/ErrorPanel";
 import { loadAgreementsForUser, type AgreementPayload } from "@/lib/agreements";
+import { listLatestRentalRequests, type RentalRequestEntry } from "@/lib/rental-requests";
 
 type Viewer = { id?: string | null; role?: string | null };
 
@@ -11,14 +13,30 @@ const getAgreementRowsForUser = cache(async (userId: string, role?: string | nul
   const { active: activePayloads, historical: historicalPayloads, error } =
     await loadAgreementsForUser(userId, role);
 
+  // Request status is a nice-to-have next to each agreement; never fail the page on it.
+  let requests: Record<string, RentalRequestEntry> = {};
+  try {
+    requests = await listLatestRentalRequests(
+      [...activePayloads, ...historicalPayloads].map((payload) => payload.id),
+      { userId, isAdmin: role === "super_admin" },
+    );
+  } catch (requestError) {
+    console.error("Failed to load rental request statuses", requestError);
+  }
+
   return {
     active: activePayloads.map(mapAgreement),
     historical: historicalPayloads.map(mapAgreement),
+    requests,
     error,
   };
 });
 
-export default async function AvtalerPage() {
+export default async function AvtalerPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ avtale?: string | string[] }>;
+}) {
   const session = await auth();
 
   if (!session) {
@@ -26,6 +44,9 @@ export default async function AvtalerPage() {
   }
 
   const viewer: Viewer = { id: session.user?.id, role: session.user?.role };
+  // Links in reminder e-mails open the agreement directly: /avtaler?avtale=<rentalId>
+  const { avtale } = await searchParams;
+  const initialAgreementId = (Array.isArray(avtale) ? avtale[0] : avtale)?.trim() || null;
 
   return (
     <main className="p-8 space-y-6">
@@ -52,10 +73,23 @@ export default async function AvtalerPage() {
               role={session.user.role}
               viewer={viewer}
               kind="active"
+              initialAgreementId={initialAgreementId}
             />
           </Suspense>
         </div>
 
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">Tidslinje</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Avtaleperioder per maskin eller prosjekt, for å se overlapp, ledige perioder og utnyttelse.
+            </p>
+          </div>
+          <Suspense fallback={<AgreementsSectionLoading label="Laster tidslinje..." />}>
+            <AgreementsTimelineSection userId={session.user.id} role={session.user.role} viewer={viewer} />
+          </Suspense>
+        </div>
+
         <div className="space-y-3">
           <div>
             <h2 className="text-xl font-semibold text-slate-900">Avtalehistorikk</h2>
@@ -69,6 +103,7 @@ export default async function AvtalerPage() {
               role={session.user.role}
               viewer={viewer}
               kind="historical"
+              initialAgreementId={initialAgreementId}
             />
           </Suspense>
         </div>
@@ -82,13 +117,15 @@ async function AgreementsSection({
   role,
   viewer,
   kind,
+  initialAgreementId,
 }: {
   userId: string;
   role?: string | null;
   viewer: Viewer;
   kind: "active" | "historical";
+  initialAgreementId?: string | null;
 }) {
-  const { active, historical, error } = await getAgreementRowsForUser(userId, role);
+  const { active, historical, requests, error } = await getAgreementRowsForUser(userId, role);
 
   if (error) {
     return (
@@ -114,11 +151,36 @@ async function AgreementsSection({
         agreements={agreements}
         emptyMessage={emptyMessage}
         viewer={viewer}
+        requests={requests}
+        initialAgreementId={initialAgreementId}
       />
     </section>
   );
 }
 
+async function AgreementsTimelineSection({
+  userId,
+  role,
+  viewer,
+}: {
+  userId: string;
+  role?: string | null;
+  viewer: Viewer;
+}) {
+  const { active, historical, error } = await getAgreementRowsForUser(userId, role);
+
+  // The table sections above and below already show the error panel.
+  if (error) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <AgreementsTimeline agreements={[...active, ...historical]} viewer={viewer} />
+    </section>
+  );
+}
+
 function AgreementsSectionLoading({ label }: { label: string }) {
   return (
     <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
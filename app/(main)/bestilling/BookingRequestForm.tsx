@@ -0,0 +1,353 @@
+"use client";
+
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import dynamic from "next/dynamic";
+import { useRouter } from "next/navigation";
+import { IconLoader2, IconMapPin } from "@tabler/icons-react";
+import { standardButtonClass } from "@/lib/buttonStyles";
+import type { BookingCompany, BookingContactPerson } from "@/lib/booking-requests";
+import type { GeocodeResult } from "@/lib/geocoding";
+
+const DeliveryLocationMap = dynamic(() => import("./DeliveryLocationMap"), {
+  ssr: false,
+  loading: () => <div className="h-64 w-full animate-pulse rounded-lg bg-slate-100" />,
+});
+
+export type BookingMachineOption = { id: string; name: string; category: string | null };
+
+export type BookingFormDefaults = {
+  category: string | null;
+  machineId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+};
+
+type Position = { lat: number; lng: number };
+
+const DEFAULT_PERIOD_DAYS = 14;
+const GEOCODE_DEBOUNCE_MS = 350;
+
+export default function BookingRequestForm({
+  companies,
+  categories,
+  machines,
+  defaults,
+}: {
+  companies: BookingCompany[];
+  categories: string[];
+  machines: BookingMachineOption[];
+  defaults: BookingFormDefaults;
+}) {
+  const router = useRouter();
+  const [customerId, setCustomerId] = useState(companies[0]?.id ?? null);
+  const [category, setCategory] = useState(
+    defaults.category ?? machines.find((machine) => machine.id === defaults.machineId)?.category ?? "",
+  );
+  const [machineId, setMachineId] = useState(defaults.machineId ?? "");
+  const [startDate, setStartDate] = useState(() => defaults.startDate ?? toDateInput(new Date()));
+  const [endDate, setEndDate] = useState(
+    () => defaults.endDate ?? toDateInput(addDays(new Date(), DEFAULT_PERIOD_DAYS)),
+  );
+  const [address, setAddress] = useState("");
+  const [position, setPosition] = useState<Position | null>(null);
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
+  const [geocoding, setGeocoding] = useState(false);
+  const [projectNumber, setProjectNumber] = useState("");
+  const [contactPersons, setContactPersons] = useState<BookingContactPerson[]>([]);
+  const [contactPersonId, setContactPersonId] = useState("");
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const machineOptions = useMemo(
+    () => machines.filter((machine) => !category || machine.category === category || machine.id === machineId),
+    [machines, category, machineId],
+  );
+
+  useEffect(() => {
+    setContactPersons([]);
+    setContactPersonId("");
+    if (customerId == null) return;
+
+    const controller = new AbortController();
+    fetch(`/api/customers/${customerId}/contact-persons`, { cache: "no-store", signal: controller.signal })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(payload?.error || "Kunne ikke hente kontaktpersoner");
+        setContactPersons((payload.contactPersons ?? []) as BookingContactPerson[]);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to load contact persons", err);
+      });
+
+    return () => controller.abort();
+  }, [customerId]);
+
+  useEffect(() => {
+    const search = address.trim();
+    if (search.length < 3 || suggestions.some((suggestion) => suggestion.label === search)) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setGeocoding(true);
+      fetch(`/api/geocode?q=${encodeURIComponent(search)}`, { cache: "no-store", signal: controller.signal })
+        .then(async (response) => {
+          const payload = await response.json().catch(() => ({}));
+          setSuggestions(response.ok ? ((payload.results ?? []) as GeocodeResult[]) : []);
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) setSuggestions([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setGeocoding(false);
+        });
+    }, GEOCODE_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+    // Only the typed address should trigger a lookup; picking a suggestion clears the list.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [address]);
+
+  function pickSuggestion(suggestion: GeocodeResult) {
+    setAddress(suggestion.label);
+    setPosition({ lat: suggestion.lat, lng: suggestion.lng });
+    setSuggestions([]);
+  }
+
+  function selectCategory(value: string) {
+    setCategory(value);
+    const machine = machines.find((entry) => entry.id === machineId);
+    if (machine && value && machine.category !== value) setMachineId("");
+  }
+
+  async function submit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch("/api/booking-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId,
+          category: category || null,
+          machineId: machineId || null,
+          startDate,
+          endDate,
+          deliveryAddress: address,
+          deliveryLat: position?.lat ?? null,
+          deliveryLng: position?.lng ?? null,
+          projectNumber,
+          contactPersonId: contactPersonId || null,
+          comment,
+        }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke sende bestillingen");
+      }
+
+      setSuccess("Bestillingen er sendt. Du får beskjed når Bjugstad har behandlet den.");
+      setComment("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Kunne ikke sende bestillingen");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!companies.length) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white px-6 py-6 text-sm text-slate-600 shadow-sm">
+        Du har ikke tilgang til noe selskap ennå, og kan derfor ikke bestille utstyr.
+      </section>
+    );
+  }
+
+  const inputClass =
+    "mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900";
+  const labelClass = "block text-xs font-semibold uppercase tracking-wide text-slate-500";
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Ny bestilling</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Bjugstad går gjennom bestillingen og oppretter avtalen. Du finner den under Avtaler når den er godkjent.
+        </p>
+      </div>
+      <form onSubmit={submit} className="grid gap-4 px-6 py-5 md:grid-cols-2">
+        <label className={labelClass}>
+          Selskap
+          <select
+            value={customerId ?? ""}
+            onChange={(event) => setCustomerId(Number(event.target.value))}
+            className={inputClass}
+            required
+          >
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>
+                {company.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Kontaktperson
+          <select
+            value={contactPersonId}
+            onChange={(event) => setContactPersonId(event.target.value)}
+            className={inputClass}
+          >
+            <option value="">{contactPersons.length ? "Velg kontaktperson" : "Ingen kontaktpersoner registrert"}</option>
+            {contactPersons.map((person) => (
+              <option key={person.id} value={person.id}>
+                {[person.name ?? `Kontakt ${person.id}`, person.phone].filter(Boolean).join(" · ")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Kategori
+          <select value={category} onChange={(event) => selectCategory(event.target.value)} className={inputClass}>
+            <option value="">Velg kategori</option>
+            {categories.map((entry) => (
+              <option key={entry} value={entry}>
+                {entry}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Maskin
+          <select value={machineId} onChange={(event) => setMachineId(event.target.value)} className={inputClass}>
+            <option value="">Hvilken som helst i kategorien</option>
+            {machineOptions.map((machine) => (
+              <option key={machine.id} value={machine.id}>
+                {machine.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Fra
+          <input
+            type="date"
+            required
+            value={startDate}
+            min={toDateInput(new Date())}
+            onChange={(event) => setStartDate(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Til
+          <input
+            type="date"
+            required
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(event) => setEndDate(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <div className="space-y-2 md:col-span-2">
+          <label className={labelClass}>
+            Leveringsadresse
+            <div className="relative">
+              <input
+                type="text"
+                required
+                value={address}
+                onChange={(event) => setAddress(event.target.value)}
+                placeholder="Gateadresse, postnummer og sted"
+                autoComplete="off"
+                className={inputClass}
+              />
+              {geocoding ? (
+                <IconLoader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-slate-400" />
+              ) : null}
+              {suggestions.length ? (
+                <ul className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border border-slate-200 bg-white text-sm font-normal normal-case tracking-normal shadow-lg">
+                  {suggestions.map((suggestion) => (
+                    <li key={`${suggestion.label}-${suggestion.lat}-${suggestion.lng}`}>
+                      <button
+                        type="button"
+                        onClick={() => pickSuggestion(suggestion)}
+                        className="flex w-full cursor-pointer items-center gap-2 px-3 py-2 text-left text-slate-700 hover:bg-slate-50"
+                      >
+                        <IconMapPin className="h-4 w-4 shrink-0 text-slate-400" />
+                        {suggestion.label}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          </label>
+          <DeliveryLocationMap position={position} onChange={setPosition} />
+          <p className="text-xs text-slate-500">
+            {position
+              ? "Dra nålen eller klikk i kartet hvis maskinen skal leveres et annet sted enn adressen."
+              : "Velg en adresse fra listen, eller klikk i kartet for å markere leveringsstedet."}
+          </p>
+        </div>
+        <label className={labelClass}>
+          Prosjektnummer
+          <input
+            type="text"
+            value={projectNumber}
+            maxLength={50}
+            onChange={(event) => setProjectNumber(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={`${labelClass} md:col-span-2`}>
+          Kommentar
+          <textarea
+            value={comment}
+            maxLength={1000}
+            rows={3}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Utstyr, leveringstidspunkt eller annet Bjugstad bør vite"
+            className={inputClass}
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-3 md:col-span-2">
+          <button
+            type="submit"
+            disabled={saving || customerId == null || (!category && !machineId)}
+            className={standardButtonClass}
+          >
+            {saving ? "Sender..." : "Send bestilling"}
+          </button>
+          {success ? <span className="text-sm text-emerald-700">{success}</span> : null}
+        </div>
+      </form>
+      {error && <div className="border-t border-slate-100 px-6 py-3 text-sm text-rose-600">{error}</div>}
+    </section>
+  );
+}
+
+function toDateInput(date: Date) {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
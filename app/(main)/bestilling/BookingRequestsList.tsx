@@ -0,0 +1,152 @@
+"use client";
+
+import { formatDate } from "@/lib/formatters";
+import { RENTAL_REQUEST_STATUS_LABELS } from "@/lib/constants";
+import DataTable, { type DataColumn } from "@/components/DataTable";
+import RentalRequestStatusBadge from "@/components/RentalRequestStatusBadge";
+import type { BookingRequestEntry, BookingRequestStatus } from "@/lib/booking-requests";
+
+const STATUS_ORDER: Record<BookingRequestStatus, number> = { pending: 0, approved: 1, rejected: 2 };
+
+export default function BookingRequestsList({
+  requests,
+  scope,
+}: {
+  requests: BookingRequestEntry[];
+  /** Which requests the viewer sees: their own, also their admin companies', or all. */
+  scope: "own" | "companies" | "all";
+}) {
+  const showCompany = scope !== "own";
+  const columns: DataColumn<BookingRequestEntry>[] = [
+    {
+      id: "status",
+      header: "Status",
+      accessor: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cell: (request) => <RentalRequestStatusBadge request={request} />,
+      sortValue: (request) => STATUS_ORDER[request.status],
+      filterValue: (request) => RENTAL_REQUEST_STATUS_LABELS[request.status],
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "equipment",
+      header: "Utstyr",
+      accessor: (request) => formatEquipment(request),
+      cell: (request) => (
+        <div>
+          <div className="font-medium text-slate-900">{formatEquipment(request)}</div>
+          {request.projectNumber && (
+            <div className="text-xs text-slate-500">Prosjekt {request.projectNumber}</div>
+          )}
+        </div>
+      ),
+      sortValue: (request) => formatEquipment(request),
+      filterValue: (request) =>
+        [formatEquipment(request), request.category, request.projectNumber].filter(Boolean).join(" "),
+    },
+    ...(showCompany
+      ? [
+          {
+            id: "company",
+            header: "Selskap",
+            accessor: (request: BookingRequestEntry) => request.customerName ?? `Kunde ${request.customerId}`,
+            sortValue: (request: BookingRequestEntry) => request.customerName ?? "",
+          } satisfies DataColumn<BookingRequestEntry>,
+        ]
+      : []),
+    {
+      id: "period",
+      header: "Periode",
+      accessor: (request) => formatPeriod(request),
+      filterType: "date-range",
+      dateValue: (request) => request.startDate,
+      cell: (request) => <span className="tabular-nums text-slate-700">{formatPeriod(request)}</span>,
+      sortValue: (request) => request.startDate,
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "delivery",
+      header: "Levering",
+      accessor: (request) => request.deliveryAddress,
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div>{request.deliveryAddress}</div>
+          {request.contactPerson?.name && (
+            <div className="text-xs text-slate-500">Kontakt: {request.contactPerson.name}</div>
+          )}
+        </div>
+      ),
+      filterValue: (request) => [request.deliveryAddress, request.contactPerson?.name].filter(Boolean).join(" "),
+      cellClassName: "min-w-[14rem]",
+    },
+    {
+      id: "requested",
+      header: "Bestilt",
+      accessor: (request) => formatDate(request.createdAt) ?? "",
+      filterType: "date-range",
+      dateValue: (request) => request.createdAt,
+      cell: (request) => (
+        <div className="text-slate-700">
+          <div className="tabular-nums">{formatDate(request.createdAt) ?? "-"}</div>
+          {request.requestedByName && <div className="text-xs text-slate-500">{request.requestedByName}</div>}
+        </div>
+      ),
+      sortValue: (request) => request.createdAt,
+      cellClassName: "whitespace-nowrap",
+    },
+    {
+      id: "handled",
+      header: "Svar",
+      accessor: (request) => formatAnswer(request),
+      cell: (request) => (
+        <div className="whitespace-pre-line text-xs text-slate-600">{formatAnswer(request) || "-"}</div>
+      ),
+      sortValue: (request) => request.decidedAt ?? "",
+      cellClassName: "min-w-[12rem]",
+    },
+  ];
+
+  return (
+    <>
+      <div className="border-b border-slate-100 px-6 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Bestillinger</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {scope === "all"
+            ? "Alle bestillinger. Behandle dem under Forespørsler."
+            : scope === "companies"
+              ? "Bestillinger fra deg og fra selskapene du er administrator for."
+              : "Bestillingene du har sendt."}
+        </p>
+      </div>
+      <DataTable
+        data={requests}
+        columns={columns}
+        getRowId={(request) => request.id}
+        defaultSort={{ columnId: "requested", direction: "desc" }}
+        emptyMessage="Ingen bestillinger ennå."
+      />
+    </>
+  );
+}
+
+function formatEquipment(request: Pick<BookingRequestEntry, "machineId" | "machineName" | "category">) {
+  if (request.machineId) return request.machineName?.trim() || `Maskin ${request.machineId}`;
+  return request.category ? `Valgfri ${request.category.toLocaleLowerCase("nb-NO")}` : "-";
+}
+
+function formatPeriod(request: BookingRequestEntry) {
+  return `${formatDate(request.startDate, { showTime: false }) ?? "-"} – ${formatDate(request.endDate, { showTime: false }) ?? "-"}`;
+}
+
+function formatAnswer(request: BookingRequestEntry) {
+  const lines: string[] = [];
+  if (request.decidedAt) {
+    lines.push(`${request.status === "approved" ? "Godkjent" : "Avvist"} ${formatDate(request.decidedAt) ?? ""}`);
+  }
+  if (request.decisionComment) {
+    lines.push(`«${request.decisionComment}»`);
+  }
+  if (request.forwardStatus === "forwarded" && request.forwardReference) {
+    lines.push(`Avtale ${request.forwardReference}`);
+  }
+  return lines.join("\n");
+}
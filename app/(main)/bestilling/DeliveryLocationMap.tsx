@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import maplibregl from "maplibre-gl";
+import "maplibre-gl/dist/maplibre-gl.css";
+
+const MAPTILER_KEY = process.env.NEXT_PUBLIC_MAPTILER_KEY;
+const DEFAULT_CENTER: [number, number] = [10.7522, 59.9139]; // Oslo
+
+type Position = { lat: number; lng: number };
+
+/** Small map with a draggable pin for the delivery address. Clicking the map moves the pin. */
+export default function DeliveryLocationMap({
+  position,
+  onChange,
+}: {
+  position: Position | null;
+  onChange: (position: Position) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<maplibregl.Map | null>(null);
+  const markerRef = useRef<maplibregl.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = new maplibregl.Map({
+      container: containerRef.current,
+      style: MAPTILER_KEY
+        ? `https://api.maptiler.com/maps/streets-v2/style.json?key=${MAPTILER_KEY}`
+        : "https://demotiles.maplibre.org/style.json",
+      center: DEFAULT_CENTER,
+      zoom: 4,
+      attributionControl: { compact: true },
+      pitchWithRotate: false,
+      dragRotate: false,
+    });
+    map.addControl(new maplibregl.NavigationControl({ visualizePitch: false, showCompass: false }), "top-right");
+    map.on("click", (event) => {
+      onChangeRef.current({ lat: event.lngLat.lat, lng: event.lngLat.lng });
+    });
+    mapRef.current = map;
+
+    const ro = new ResizeObserver(() => map.resize());
+    ro.observe(containerRef.current);
+
+    return () => {
+      ro.disconnect();
+      markerRef.current = null;
+      mapRef.current = null;
+      map.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!position) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    const lngLat: [number, number] = [position.lng, position.lat];
+    if (!markerRef.current) {
+      const marker = new maplibregl.Marker({ color: "#2563EB", draggable: true }).setLngLat(lngLat).addTo(map);
+      marker.on("dragend", () => {
+        const { lat, lng } = marker.getLngLat();
+        onChangeRef.current({ lat, lng });
+      });
+      markerRef.current = marker;
+    } else {
+      markerRef.current.setLngLat(lngLat);
+    }
+
+    if (!map.getBounds().contains(lngLat) || map.getZoom() < 12) {
+      map.easeTo({ center: lngLat, zoom: Math.max(map.getZoom(), 14) });
+    }
+  }, [position]);
+
+  return <div ref={containerRef} className="h-64 w-full overflow-hidden rounded-lg border border-slate-200" />;
+}
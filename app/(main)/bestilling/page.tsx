@@ -0,0 +1,148 @@
+import { Suspense } from "react";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import ErrorPanel from "@/components/ErrorPanel";
+import { getAllMachinesList } from "@/lib/machines";
+import { listMachineCategories } from "@/lib/machine-availability";
+import { listBookingCompanies, listBookingRequests, type BookingCompany } from "@/lib/booking-requests";
+import { normalizeError } from "@/lib/errors";
+import BookingRequestForm, { type BookingFormDefaults, type BookingMachineOption } from "./BookingRequestForm";
+import BookingRequestsList from "./BookingRequestsList";
+
+export default async function BestillingPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    kategori?: string | string[];
+    maskin?: string | string[];
+    fra?: string | string[];
+    til?: string | string[];
+  }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    redirect("/");
+  }
+
+  const isAdmin = role === "super_admin";
+  const viewer = { userId: session.user.id, isAdmin };
+  const { kategori, maskin, fra, til } = await searchParams;
+
+  // Links from Ledige maskiner carry the machine and period, e.g. ?maskin=123&fra=2026-11-02&til=2026-11-16.
+  const defaults: BookingFormDefaults = {
+    category: readParam(kategori),
+    machineId: readParam(maskin),
+    startDate: readDateParam(fra),
+    endDate: readDateParam(til),
+  };
+
+  const [companies, categories, machines] = await Promise.all([
+    listBookingCompanies(viewer).catch((error) => {
+      console.error(`Failed to load booking companies for user ${session.user.id}`, error);
+      return [] as BookingCompany[];
+    }),
+    listMachineCategories().catch((error) => {
+      console.error("Failed to load machine categories", error);
+      return [] as string[];
+    }),
+    getAllMachinesList()
+      .then((list) =>
+        list.map((machine): BookingMachineOption => ({
+          id: String(machine.id),
+          name: machine.name,
+          category: machine.category?.trim() || null,
+        })),
+      )
+      .catch((error) => {
+        console.error("Failed to load machines for booking form", error);
+        return [] as BookingMachineOption[];
+      }),
+  ]);
+
+  const isCompanyAdmin = (session.user.accesses ?? []).some((access) => access.role === "admin");
+  const scope = isAdmin ? "all" : isCompanyAdmin ? "companies" : "own";
+
+  return (
+    <main className="space-y-6 p-8">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Bestilling</h1>
+          <p className="mt-2 text-slate-600">
+            Be om leie av en maskin eller en maskin fra en kategori, levert der dere trenger den.
+          </p>
+        </div>
+      </header>
+
+      <BookingRequestForm
+        companies={companies}
+        categories={categories}
+        machines={machines}
+        defaults={defaults}
+      />
+
+      <Suspense fallback={<BookingRequestsLoading />}>
+        <BookingRequestsSection viewer={viewer} scope={scope} />
+      </Suspense>
+    </main>
+  );
+}
+
+async function BookingRequestsSection({
+  viewer,
+  scope,
+}: {
+  viewer: { userId: string; isAdmin: boolean };
+  scope: "own" | "companies" | "all";
+}) {
+  try {
+    const requests = await listBookingRequests(viewer);
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <BookingRequestsList requests={requests} scope={scope} />
+      </section>
+    );
+  } catch (error) {
+    console.error(`Failed to load booking requests for user ${viewer.userId}`, error);
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <ErrorPanel
+          withSidebar
+          title="Kunne ikke hente bestillinger"
+          error={normalizeError(error, { title: "Kunne ikke hente bestillinger" })}
+        />
+      </section>
+    );
+  }
+}
+
+function BookingRequestsLoading() {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center gap-3 border-b border-slate-100 px-6 py-4 text-sm text-slate-600">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+        Laster bestillinger...
+      </div>
+      <div className="space-y-3 p-4">
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+      </div>
+    </section>
+  );
+}
+
+function readParam(value: string | string[] | undefined): string | null {
+  const text = (Array.isArray(value) ? value[0] : value)?.trim();
+  return text || null;
+}
+
+function readDateParam(value: string | string[] | undefined): string | null {
+  const text = readParam(value);
+  return text && /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+}
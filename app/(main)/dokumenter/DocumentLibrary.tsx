@@ -0,0 +1,451 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  IconDownload,
+  IconFile,
+  IconFileTypePdf,
+  IconFileZip,
+  IconPhoto,
+  IconSearch,
+} from "@tabler/icons-react";
+import { formatDate } from "@/lib/formatters";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import type {
+  DocumentAgreementGroup,
+  DocumentFileType,
+  DocumentKind,
+  DocumentLibraryResult,
+  LibraryDocument,
+} from "@/lib/documents";
+
+type DocumentLibraryProps = {
+  library: DocumentLibraryResult;
+  isAdmin: boolean;
+};
+
+const KIND_LABELS: Record<DocumentKind, string> = {
+  agreement: "Avtaledokumenter",
+  machine: "Maskinvedlegg",
+  terms: "Vilkår",
+};
+
+const FILE_TYPE_LABELS: Record<DocumentFileType, string> = {
+  pdf: "PDF",
+  image: "Bilder",
+  other: "Andre filer",
+};
+
+// Browsers drop downloads that are started too close together.
+const BULK_DOWNLOAD_DELAY_MS = 400;
+
+export default function DocumentLibrary({ library, isAdmin }: DocumentLibraryProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const [kinds, setKinds] = useState<Set<DocumentKind>>(new Set());
+  const [fileTypes, setFileTypes] = useState<Set<DocumentFileType>>(new Set());
+  const [selected, setSelected] = useState<Map<string, LibraryDocument>>(new Map());
+  const [downloading, setDownloading] = useState(false);
+
+  const matches = useMemo(() => {
+    const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return (document: LibraryDocument, context: string) => {
+      if (kinds.size && !kinds.has(document.kind)) return false;
+      if (fileTypes.size && !fileTypes.has(document.fileType)) return false;
+      if (!terms.length) return true;
+      const haystack = [document.name, document.fileName, document.description, context]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    };
+  }, [search, kinds, fileTypes]);
+
+  const general = library.general.filter((document) => matches(document, "generelt"));
+  const groups = library.groups
+    .map((group) => filterGroup(group, matches))
+    .filter((group): group is DocumentAgreementGroup => group !== null);
+  const visibleDocuments = [
+    ...general,
+    ...groups.flatMap((group) => [
+      ...group.documents,
+      ...group.machines.flatMap((machine) => machine.documents),
+    ]),
+  ];
+  const totalDocuments =
+    library.general.length +
+    library.groups.reduce(
+      (sum, group) =>
+        sum + group.documents.length + group.machines.reduce((count, machine) => count + machine.documents.length, 0),
+      0,
+    );
+
+  function toggleSelected(document: LibraryDocument) {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(document.key)) {
+        next.delete(document.key);
+      } else {
+        next.set(document.key, document);
+      }
+      return next;
+    });
+  }
+
+  function selectVisible() {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      visibleDocuments.forEach((document) => next.set(document.key, document));
+      return next;
+    });
+  }
+
+  async function downloadSelected() {
+    setDownloading(true);
+    try {
+      for (const document of selected.values()) {
+        const link = window.document.createElement("a");
+        link.href = document.downloadUrl;
+        link.download = document.fileName;
+        link.rel = "noreferrer";
+        window.document.body.appendChild(link);
+        link.click();
+        link.remove();
+        await new Promise((resolve) => setTimeout(resolve, BULK_DOWNLOAD_DELAY_MS));
+      }
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center">
+          {library.customers.length > 1 || isAdmin ? (
+            <select
+              value={library.customerId ?? ""}
+              onChange={(event) =>
+                router.push(event.target.value ? `/dokumenter?kunde=${event.target.value}` : "/dokumenter")
+              }
+              className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 md:w-72"
+            >
+              <option value="" disabled={isAdmin}>
+                {isAdmin ? "Velg kunde" : "Alle selskaper"}
+              </option>
+              {library.customers.map((customer) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <label className="relative flex-1">
+            <IconSearch className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Søk etter dokument, maskin eller avtale"
+              className="w-full rounded-lg border border-slate-200 py-2 pl-9 pr-3 text-sm text-slate-900 focus:border-slate-400 focus:outline-none"
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(KIND_LABELS) as DocumentKind[]).map((kind) => (
+            <FilterChip
+              key={kind}
+              label={KIND_LABELS[kind]}
+              active={kinds.has(kind)}
+              onClick={() => setKinds((prev) => toggle(prev, kind))}
+            />
+          ))}
+          <span className="mx-1 h-5 w-px bg-slate-200" />
+          {(Object.keys(FILE_TYPE_LABELS) as DocumentFileType[]).map((fileType) => (
+            <FilterChip
+              key={fileType}
+              label={FILE_TYPE_LABELS[fileType]}
+              active={fileTypes.has(fileType)}
+              onClick={() => setFileTypes((prev) => toggle(prev, fileType))}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 pt-3 text-sm text-slate-600">
+          <span>
+            Viser {visibleDocuments.length} av {totalDocuments} dokumenter
+            {selected.size ? ` · ${selected.size} valgt` : ""}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={selectVisible}
+              disabled={!visibleDocuments.length}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Velg alle viste
+            </button>
+            {selected.size ? (
+              <button
+                type="button"
+                onClick={() => setSelected(new Map())}
+                className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50"
+              >
+                Fjern valg
+              </button>
+            ) : null}
+            <button
+              type="button"
+              onClick={downloadSelected}
+              disabled={!selected.size || downloading}
+              className={`${standardButtonCompactClass} inline-flex items-center gap-1.5`}
+            >
+              <IconDownload className="h-4 w-4" />
+              {downloading ? "Laster ned..." : `Last ned valgte (${selected.size})`}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {library.warnings.length ? (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          Noen vedlegg kunne ikke hentes:
+          <ul className="mt-1 list-disc pl-5">
+            {library.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {general.length ? (
+        <DocumentCard title="Generelt" subtitle="Dokumenter som gjelder alle avtaler.">
+          <DocumentList documents={general} selected={selected} onToggle={toggleSelected} />
+        </DocumentCard>
+      ) : null}
+
+      {library.requiresCustomer ? (
+        <p className="rounded-2xl border border-slate-200 bg-white px-6 py-8 text-center text-sm text-slate-600 shadow-sm">
+          Velg en kunde for å se avtaledokumenter og maskinvedlegg.
+        </p>
+      ) : groups.length ? (
+        groups.map((group) => (
+          <DocumentCard
+            key={group.agreementId}
+            title={`Avtale ${group.agreementId}`}
+            subtitle={[
+              group.customerName,
+              formatPeriod(group.startDate, group.endDate),
+              group.projectNumber ? `Prosjekt ${group.projectNumber}` : null,
+              group.location,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+            badge={group.isActive ? "Aktiv" : "Avsluttet"}
+            badgeActive={group.isActive}
+            action={
+              hasDownloadableDocuments(group) ? (
+                <a
+                  href={`/api/machines/attachments/zip?${new URLSearchParams({ agreementId: group.agreementId })}`}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+                >
+                  <IconFileZip className="h-4 w-4" />
+                  Last ned alle (ZIP)
+                </a>
+              ) : null
+            }
+          >
+            {group.documents.length ? (
+              <div>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Avtaledokumenter</h4>
+                <DocumentList documents={group.documents} selected={selected} onToggle={toggleSelected} />
+              </div>
+            ) : null}
+            {group.machines.map((machine) => (
+              <div key={machine.machineId}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {machine.name} <span className="font-normal normal-case text-slate-400">· ID {machine.machineId}</span>
+                </h4>
+                <DocumentList documents={machine.documents} selected={selected} onToggle={toggleSelected} />
+              </div>
+            ))}
+          </DocumentCard>
+        ))
+      ) : (
+        <p className="rounded-2xl border border-slate-200 bg-white px-6 py-8 text-center text-sm text-slate-600 shadow-sm">
+          {library.groups.length ? "Ingen dokumenter passer filtrene." : "Ingen avtaler med dokumenter enda."}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The ZIP leaves out internal attachments, so a group with only those has nothing to pack.
+function hasDownloadableDocuments(group: DocumentAgreementGroup) {
+  return [...group.documents, ...group.machines.flatMap((machine) => machine.documents)].some(
+    (document) => !document.internal,
+  );
+}
+
+function DocumentCard({
+  title,
+  subtitle,
+  badge,
+  badgeActive,
+  action,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  badge?: string;
+  badgeActive?: boolean;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3 border-b border-slate-100 px-6 py-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+          {subtitle ? <p className="mt-1 text-sm text-slate-600">{subtitle}</p> : null}
+        </div>
+        <div className="flex items-center gap-2">
+          {action}
+          {badge ? (
+            <span
+              className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ring-1 ${
+                badgeActive ? "bg-emerald-50 text-emerald-700 ring-emerald-100" : "bg-slate-100 text-slate-600 ring-slate-200"
+              }`}
+            >
+              {badge}
+            </span>
+          ) : null}
+        </div>
+      </div>
+      <div className="space-y-4 px-6 py-4">{children}</div>
+    </section>
+  );
+}
+
+function DocumentList({
+  documents,
+  selected,
+  onToggle,
+}: {
+  documents: LibraryDocument[];
+  selected: Map<string, LibraryDocument>;
+  onToggle: (document: LibraryDocument) => void;
+}) {
+  return (
+    <ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-100">
+      {documents.map((document) => (
+        <li key={document.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+          <input
+            type="checkbox"
+            checked={selected.has(document.key)}
+            onChange={() => onToggle(document)}
+            aria-label={`Velg ${document.name}`}
+            className="h-4 w-4 shrink-0"
+          />
+          <FileTypeIcon fileType={document.fileType} />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2">
+              <a
+                href={document.downloadUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="truncate font-medium text-slate-900 hover:text-blue-700 hover:underline"
+              >
+                {document.name}
+              </a>
+              {document.internal ? (
+                <span className="inline-flex shrink-0 items-center rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-600 ring-1 ring-slate-200">
+                  Intern
+                </span>
+              ) : null}
+            </div>
+            <p className="truncate text-xs text-slate-500">
+              {[document.description, document.fileName !== document.name ? document.fileName : null]
+                .filter(Boolean)
+                .join(" · ") || "-"}
+            </p>
+          </div>
+          <div className="hidden shrink-0 text-right text-xs text-slate-500 sm:block">
+            <div className="tabular-nums">{formatDate(document.uploadedDate, { showTime: false }) ?? ""}</div>
+            <div className="tabular-nums">{formatFileSize(document.fileSize)}</div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FilterChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`cursor-pointer rounded-full border px-3 py-1 text-xs font-medium transition ${
+        active
+          ? "border-blue-200 bg-blue-50 text-blue-800"
+          : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function FileTypeIcon({ fileType }: { fileType: DocumentFileType }) {
+  if (fileType === "pdf") return <IconFileTypePdf className="h-5 w-5 shrink-0 text-rose-600" />;
+  if (fileType === "image") return <IconPhoto className="h-5 w-5 shrink-0 text-sky-600" />;
+  return <IconFile className="h-5 w-5 shrink-0 text-slate-500" />;
+}
+
+// Keeps agreement and machine headings only when something below them matches.
+function filterGroup(
+  group: DocumentAgreementGroup,
+  matches: (document: LibraryDocument, context: string) => boolean,
+): DocumentAgreementGroup | null {
+  const agreementContext = [group.agreementId, group.customerName, group.projectNumber, group.location]
+    .filter(Boolean)
+    .join(" ");
+  const documents = group.documents.filter((document) => matches(document, agreementContext));
+  const machines = group.machines
+    .map((machine) => ({
+      ...machine,
+      documents: machine.documents.filter((document) =>
+        matches(document, `${agreementContext} ${machine.name} ${machine.machineId}`),
+      ),
+    }))
+    .filter((machine) => machine.documents.length > 0);
+
+  if (!documents.length && !machines.length) return null;
+  return { ...group, documents, machines };
+}
+
+function toggle<T>(set: Set<T>, value: T): Set<T> {
+  const next = new Set(set);
+  if (next.has(value)) {
+    next.delete(value);
+  } else {
+    next.add(value);
+  }
+  return next;
+}
+
+function formatPeriod(startDate: string | null, endDate: string | null) {
+  const start = formatDate(startDate, { showTime: false });
+  const end = formatDate(endDate, { showTime: false });
+  if (!start && !end) return null;
+  return `${start ?? "?"} – ${end ?? "løpende"}`;
+}
+
+function formatFileSize(bytes: number | null) {
+  if (bytes == null || bytes <= 0) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(".", ",")} MB`;
+}
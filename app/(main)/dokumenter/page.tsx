@@ -1,11 +1,83 @@
-import React from 'react';
+import { Suspense } from "react";
+import { redirect } from "next/navigation";
+import DocumentLibrary from "./DocumentLibrary";
+import { auth } from "@/lib/auth";
+import ErrorPanel from "@/components/ErrorPanel";
+import { loadDocumentLibrary } from "@/lib/documents";
 
-const test = () => {
-    return (
-        <div className='h-screen flex justify-center items-center'>
-           <h1 className='text-3xl'>DOKUMENTER</h1>
+export default async function DokumenterPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ kunde?: string | string[] }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { kunde } = await searchParams;
+  const rawCustomerId = (Array.isArray(kunde) ? kunde[0] : kunde)?.trim() ?? "";
+  const customerId = /^\d+$/.test(rawCustomerId) ? Number(rawCustomerId) : null;
+
+  return (
+    <main className="p-8 space-y-6">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Dokumenter</h1>
+          <p className="mt-2 text-slate-600">
+            Avtaledokumenter, maskinvedlegg og vilkår samlet på ett sted, gruppert per avtale og maskin.
+          </p>
         </div>
+      </header>
+
+      <Suspense key={customerId ?? "alle"} fallback={<DocumentsSectionLoading />}>
+        <DocumentsSection userId={session.user.id} role={session.user.role} customerId={customerId} />
+      </Suspense>
+    </main>
+  );
+}
+
+async function DocumentsSection({
+  userId,
+  role,
+  customerId,
+}: {
+  userId: string;
+  role?: string | null;
+  customerId: number | null;
+}) {
+  const library = await loadDocumentLibrary({ id: userId, role }, customerId);
+
+  if (library.error) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <ErrorPanel
+          withSidebar
+          title="Kunne ikke hente dokumenter"
+          error={library.error}
+        />
+      </section>
     );
+  }
+
+  return <DocumentLibrary library={library} isAdmin={role === "super_admin"} />;
 }
 
-export default test;
+function DocumentsSectionLoading() {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center gap-3 border-b border-slate-100 px-6 py-4 text-sm text-slate-600">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+        Laster dokumenter...
+      </div>
+      <div className="space-y-3 p-4">
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+        <div className="h-12 rounded-xl bg-slate-100" />
+      </div>
+    </section>
+  );
+}
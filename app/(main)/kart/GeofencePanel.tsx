@@ -0,0 +1,489 @@
+// app/(main)/kart/GeofencePanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { IconCircleDashed, IconPolygon, IconTrash, IconX } from "@tabler/icons-react";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import type { GeofenceEntry, GeofenceEventEntry, GeofenceKind } from "@/types/machines";
+
+export type GeofenceDraft = {
+    kind: GeofenceKind;
+    /** Polygon vertices as [lng, lat]. */
+    points: [number, number][];
+    center: [number, number] | null;
+    radiusM: number;
+};
+
+export type GeofenceEventsTarget =
+    | { kind: "geofence"; geofence: GeofenceEntry }
+    | { kind: "machine"; machineId: string; machineName: string };
+
+export type GeofenceCompanyOption = { id: number; name: string };
+
+type Props = {
+    geofences: GeofenceEntry[];
+    loadError: string | null;
+    canDraw: boolean;
+    companyOptions: GeofenceCompanyOption[];
+    /** Super admins may save geofences that do not belong to a company. */
+    allowNoCompany: boolean;
+    agreementOptions: string[];
+    draft: GeofenceDraft | null;
+    eventsTarget: GeofenceEventsTarget | null;
+    onClose: () => void;
+    onStartDraw: (kind: GeofenceKind) => void;
+    onCancelDraw: () => void;
+    onUndoDraftPoint: () => void;
+    onDraftRadiusChange: (radiusM: number) => void;
+    onCreated: (geofence: GeofenceEntry) => void;
+    onDeleted: (geofenceId: string) => void;
+    onFocusGeofence: (geofence: GeofenceEntry) => void;
+    onFocusEvent: (event: GeofenceEventEntry) => void;
+    onEventsTargetChange: (target: GeofenceEventsTarget | null) => void;
+};
+
+export default function GeofencePanel({
+    geofences,
+    loadError,
+    canDraw,
+    companyOptions,
+    allowNoCompany,
+    agreementOptions,
+    draft,
+    eventsTarget,
+    onClose,
+    onStartDraw,
+    onCancelDraw,
+    onUndoDraftPoint,
+    onDraftRadiusChange,
+    onCreated,
+    onDeleted,
+    onFocusGeofence,
+    onFocusEvent,
+    onEventsTargetChange,
+}: Props) {
+    const [name, setName] = useState("");
+    const [customerId, setCustomerId] = useState<string>("");
+    const [agreementId, setAgreementId] = useState("");
+    const [projectNumber, setProjectNumber] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [events, setEvents] = useState<GeofenceEventEntry[]>([]);
+    const [eventsLoading, setEventsLoading] = useState(false);
+    const [eventsError, setEventsError] = useState<string | null>(null);
+
+    const eventsUrl = eventsTarget
+        ? eventsTarget.kind === "geofence"
+            ? `/api/geofences/${encodeURIComponent(eventsTarget.geofence.id)}/events`
+            : `/api/machines/${encodeURIComponent(eventsTarget.machineId)}/geofence-events`
+        : null;
+
+    useEffect(() => {
+        if (!eventsUrl) return;
+        let cancelled = false;
+
+        setEvents([]);
+        setEventsError(null);
+        setEventsLoading(true);
+
+        fetch(eventsUrl, { cache: "no-store" })
+            .then(async (response) => {
+                const payload = (await response.json().catch(() => ({}))) as {
+                    events?: GeofenceEventEntry[];
+                    error?: string;
+                };
+                if (!response.ok) {
+                    throw new Error(payload.error || "Kunne ikke hente hendelser");
+                }
+                if (!cancelled) setEvents(payload.events ?? []);
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    setEventsError(error instanceof Error ? error.message : "Kunne ikke hente hendelser");
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setEventsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [eventsUrl]);
+
+    const draftReady = draft
+        ? draft.kind === "polygon"
+            ? draft.points.length >= 3
+            : draft.center != null && draft.radiusM > 0
+        : false;
+    const selectedCustomerId = customerId || (!allowNoCompany && companyOptions.length === 1
+        ? String(companyOptions[0].id)
+        : "");
+
+    function resetForm() {
+        setName("");
+        setAgreementId("");
+        setProjectNumber("");
+        setSaveError(null);
+    }
+
+    async function saveDraft() {
+        if (!draft || !draftReady) return;
+
+        setSaving(true);
+        setSaveError(null);
+
+        try {
+            const response = await fetch("/api/geofences", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    name,
+                    customerId: selectedCustomerId || null,
+                    kind: draft.kind,
+                    polygon: draft.kind === "polygon" ? draft.points : undefined,
+                    centerLng: draft.center?.[0],
+                    centerLat: draft.center?.[1],
+                    radiusM: draft.kind === "circle" ? draft.radiusM : undefined,
+                    agreementId,
+                    projectNumber,
+                }),
+            });
+            const payload = (await response.json().catch(() => ({}))) as {
+                geofence?: GeofenceEntry;
+                error?: string;
+            };
+
+            if (!response.ok || !payload.geofence) {
+                throw new Error(payload.error || "Kunne ikke lagre geofence");
+            }
+
+            resetForm();
+            onCreated(payload.geofence);
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : "Kunne ikke lagre geofence");
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function removeGeofence(geofence: GeofenceEntry) {
+        if (!window.confirm(`Slette "${geofence.name}"? Hendelsene slettes også.`)) return;
+
+        setDeletingId(geofence.id);
+        try {
+            const response = await fetch(`/api/geofences/${encodeURIComponent(geofence.id)}`, {
+                method: "DELETE",
+            });
+            if (!response.ok) {
+                const payload = (await response.json().catch(() => ({}))) as { error?: string };
+                throw new Error(payload.error || "Kunne ikke slette geofence");
+            }
+            if (eventsTarget?.kind === "geofence" && eventsTarget.geofence.id === geofence.id) {
+                onEventsTargetChange(null);
+            }
+            onDeleted(geofence.id);
+        } catch (error) {
+            window.alert(error instanceof Error ? error.message : "Kunne ikke slette geofence");
+        } finally {
+            setDeletingId(null);
+        }
+    }
+
+    return (
+        <div className="pointer-events-auto flex max-h-full w-full flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white/95 shadow-xl backdrop-blur">
+            <div className="flex items-start justify-between gap-3 border-b border-slate-200 px-4 py-3">
+                <div className="min-w-0">
+                    <div className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-500">
+                        Geofencer
+                    </div>
+                    <div className="truncate text-sm font-semibold text-slate-900">
+                        {eventsTarget
+                            ? eventsTarget.kind === "geofence"
+                                ? eventsTarget.geofence.name
+                                : eventsTarget.machineName
+                            : `${geofences.length} ${geofences.length === 1 ? "område" : "områder"}`}
+                    </div>
+                </div>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="cursor-pointer rounded-full p-1.5 text-slate-500 transition hover:bg-slate-100 hover:text-slate-700"
+                    aria-label="Lukk geofencer"
+                    title="Lukk geofencer"
+                >
+                    <IconX className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="min-h-0 flex-1 overflow-auto">
+                {eventsTarget ? (
+                    <section className="space-y-2 px-4 py-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-500">
+                                Inn/ut-hendelser
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => onEventsTargetChange(null)}
+                                className="cursor-pointer text-xs font-medium text-sky-700 hover:text-sky-900"
+                            >
+                                Tilbake
+                            </button>
+                        </div>
+                        {eventsLoading ? (
+                            <div className="text-sm text-slate-500">Laster hendelser...</div>
+                        ) : eventsError ? (
+                            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                                {eventsError}
+                            </div>
+                        ) : events.length ? (
+                            <ul className="space-y-1">
+                                {events.map((event) => (
+                                    <li key={event.id}>
+                                        <button
+                                            type="button"
+                                            onClick={() => onFocusEvent(event)}
+                                            className="flex w-full cursor-pointer items-start gap-2 rounded-lg px-2 py-1.5 text-left transition hover:bg-slate-50"
+                                        >
+                                            <span
+                                                className={`mt-0.5 inline-flex shrink-0 rounded-full border px-2 py-0.5 text-[10px] font-semibold ${event.event_type === "enter"
+                                                    ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+                                                    : "border-amber-200 bg-amber-50 text-amber-800"
+                                                    }`}
+                                            >
+                                                {event.event_type === "enter" ? "Inn" : "Ut"}
+                                            </span>
+                                            <span className="min-w-0">
+                                                <span className="block truncate text-sm font-medium text-slate-900">
+                                                    {eventsTarget.kind === "geofence"
+                                                        ? event.machine_name ?? event.machine_id
+                                                        : event.geofence_name}
+                                                </span>
+                                                <span className="block text-xs text-slate-500">
+                                                    {formatEventTime(event.occurred_at)}
+                                                </span>
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3 text-sm text-slate-600">
+                                Ingen hendelser registrert.
+                            </div>
+                        )}
+                    </section>
+                ) : (
+                    <>
+                        {canDraw ? (
+                            <section className="space-y-2 border-b border-slate-200 px-4 py-3">
+                                {draft ? (
+                                    <form
+                                        className="space-y-2"
+                                        onSubmit={(event) => {
+                                            event.preventDefault();
+                                            void saveDraft();
+                                        }}
+                                    >
+                                        <div className="text-xs text-slate-600">
+                                            {draft.kind === "polygon"
+                                                ? `Klikk i kartet for å sette hjørner (${draft.points.length} satt).`
+                                                : draft.center
+                                                    ? "Klikk igjen for å sette radius, eller skriv den inn."
+                                                    : "Klikk i kartet for å sette sentrum."}
+                                        </div>
+                                        {draft.kind === "polygon" ? (
+                                            <button
+                                                type="button"
+                                                onClick={onUndoDraftPoint}
+                                                disabled={!draft.points.length}
+                                                className="cursor-pointer text-xs font-medium text-sky-700 hover:text-sky-900 disabled:cursor-not-allowed disabled:text-slate-400"
+                                            >
+                                                Angre siste punkt
+                                            </button>
+                                        ) : (
+                                            <label className="block text-xs font-medium text-slate-600">
+                                                Radius (meter)
+                                                <input
+                                                    type="number"
+                                                    min={10}
+                                                    step={10}
+                                                    value={Math.round(draft.radiusM)}
+                                                    onChange={(event) => onDraftRadiusChange(Number(event.target.value) || 0)}
+                                                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+                                                />
+                                            </label>
+                                        )}
+                                        <input
+                                            type="text"
+                                            value={name}
+                                            onChange={(event) => setName(event.target.value)}
+                                            placeholder="Navn, f.eks. anleggsplass"
+                                            className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+                                        />
+                                        {companyOptions.length > 1 || allowNoCompany ? (
+                                            <select
+                                                value={selectedCustomerId}
+                                                onChange={(event) => setCustomerId(event.target.value)}
+                                                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+                                            >
+                                                <option value="">
+                                                    {allowNoCompany ? "Ingen kunde (kun Bjugstad)" : "Velg selskap"}
+                                                </option>
+                                                {companyOptions.map((company) => (
+                                                    <option key={company.id} value={company.id}>
+                                                        {company.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        ) : null}
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <input
+                                                type="text"
+                                                list="geofence-agreement-options"
+                                                value={agreementId}
+                                                onChange={(event) => setAgreementId(event.target.value)}
+                                                placeholder="Avtale (valgfri)"
+                                                className="min-w-0 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+                                            />
+                                            <input
+                                                type="text"
+                                                value={projectNumber}
+                                                onChange={(event) => setProjectNumber(event.target.value)}
+                                                placeholder="Prosjektnr. (valgfri)"
+                                                className="min-w-0 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900 focus:border-blue-400 focus:outline-none"
+                                            />
+                                        </div>
+                                        <datalist id="geofence-agreement-options">
+                                            {agreementOptions.map((option) => (
+                                                <option key={option} value={option} />
+                                            ))}
+                                        </datalist>
+                                        {saveError ? <div className="text-xs text-rose-600">{saveError}</div> : null}
+                                        <div className="flex gap-2">
+                                            <button
+                                                type="submit"
+                                                disabled={saving || !draftReady || !name.trim()}
+                                                className={`${standardButtonCompactClass} flex-1`}
+                                            >
+                                                {saving ? "Lagrer..." : "Lagre"}
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => {
+                                                    resetForm();
+                                                    onCancelDraw();
+                                                }}
+                                                className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50"
+                                            >
+                                                Avbryt
+                                            </button>
+                                        </div>
+                                    </form>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => onStartDraw("polygon")}
+                                            className={`${standardButtonCompactClass} flex-1 text-xs`}
+                                        >
+                                            <IconPolygon className="h-4 w-4" />
+                                            Tegn område
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onStartDraw("circle")}
+                                            className={`${standardButtonCompactClass} flex-1 text-xs`}
+                                        >
+                                            <IconCircleDashed className="h-4 w-4" />
+                                            Tegn radius
+                                        </button>
+                                    </div>
+                                )}
+                            </section>
+                        ) : null}
+
+                        <section className="px-3 py-3">
+                            {loadError ? (
+                                <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                                    {loadError}
+                                </div>
+                            ) : geofences.length ? (
+                                <ul className="space-y-1">
+                                    {geofences.map((geofence) => (
+                                        <li
+                                            key={geofence.id}
+                                            className="flex items-start justify-between gap-2 rounded-lg px-1 py-1.5 hover:bg-slate-50"
+                                        >
+                                            <button
+                                                type="button"
+                                                onClick={() => onFocusGeofence(geofence)}
+                                                className="min-w-0 flex-1 cursor-pointer text-left"
+                                            >
+                                                <span className="block truncate text-sm font-medium text-slate-900">
+                                                    {geofence.name}
+                                                </span>
+                                                <span className="block truncate text-xs text-slate-500">
+                                                    {formatGeofenceDetails(geofence)}
+                                                </span>
+                                            </button>
+                                            <div className="flex shrink-0 items-center gap-1">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => onEventsTargetChange({ kind: "geofence", geofence })}
+                                                    className="cursor-pointer rounded-full border border-slate-200 px-2 py-0.5 text-[11px] font-medium text-slate-700 transition hover:bg-white"
+                                                >
+                                                    Hendelser
+                                                </button>
+                                                {geofence.can_edit ? (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => void removeGeofence(geofence)}
+                                                        disabled={deletingId === geofence.id}
+                                                        className="cursor-pointer rounded-full p-1 text-slate-400 transition hover:bg-rose-50 hover:text-rose-700 disabled:cursor-not-allowed"
+                                                        aria-label={`Slett ${geofence.name}`}
+                                                        title="Slett"
+                                                    >
+                                                        <IconTrash className="h-4 w-4" />
+                                                    </button>
+                                                ) : null}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3 text-sm text-slate-600">
+                                    Ingen geofencer er tegnet ennå.
+                                </div>
+                            )}
+                        </section>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function formatGeofenceDetails(geofence: GeofenceEntry) {
+    const parts = [
+        geofence.customer_name,
+        geofence.agreement_id ? `Avtale ${geofence.agreement_id}` : null,
+        geofence.project_number ? `Prosjekt ${geofence.project_number}` : null,
+        geofence.kind === "circle" && geofence.radius_m != null ? `${Math.round(geofence.radius_m)} m radius` : null,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" · ") : "Ingen avtale";
+}
+
+function formatEventTime(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleString("nb-NO", {
+        day: "2-digit",
+        month: "2-digit",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
@@ -15,22 +15,34 @@ import {
     IconRoadOff,
     IconWriting,
     IconWritingOff,
+    IconFence,
 } from "@tabler/icons-react";
 import { useSession } from "next-auth/react";
 import DataTable, { type DataColumn } from "@/components/DataTable";
 import DialogFlowHost, { type DialogAgreementInput } from "@/components/dialogs/DialogFlowHost";
 import { useMachines, useMachinesList } from "@/components/MachinesContext";
 import type {
+    GeofenceEntry,
+    GeofenceKind,
+    MachineControlAlert,
     MachineFeature,
     MachineListEntry,
     MachinesFC,
     MachinePositionHistoryEntry,
+    MachineHistoryWindow,
     MachineProps,
 } from "@/types/machines";
 import Image from "next/image";
 import { standardButtonCompactClass } from "@/lib/buttonStyles";
 import { getOEMLogo } from "@/lib/get_OEM_logo";
 import { getOemColor, getOemColorMatchEntries, OEM_COLORS } from "@/lib/oem-colors";
+import { MACHINE_CONTROL_KIND_LABELS } from "@/lib/constants";
+import { formatControlDue } from "@/components/ControlStatusBadge";
+import GeofencePanel, {
+    type GeofenceCompanyOption,
+    type GeofenceDraft,
+    type GeofenceEventsTarget,
+} from "./GeofencePanel";
 
 type Props = { features?: MachinesFC };
 type HistoryFeatureCollection = FeatureCollection<
@@ -38,6 +50,11 @@ type HistoryFeatureCollection = FeatureCollection<
     { kind: "point" | "line"; reported_at?: string; history_id?: string; selected?: boolean; is_current?: boolean }
 >;
 
+type GeofenceFeatureCollection = FeatureCollection<
+    Geometry,
+    { geofence_id?: string; name?: string; kind: "area" | "vertex" | "outline" }
+>;
+
 const MAPTILER_KEY = process.env.NEXT_PUBLIC_MAPTILER_KEY;
 const SHOW_HISTORY_LABEL = "Se siste bevegelser";
 const HISTORY_OVERLAY_EDGE_PX = 16;
@@ -56,6 +73,10 @@ const HISTORY_INTERVAL_OPTIONS = [
     { label: "3 d", valueMs: 3 * 24 * 60 * 60 * 1000 },
 ] as const;
 const DEFAULT_HISTORY_INTERVAL_MS = 15 * 60 * 1000;
+const GEOFENCE_COLOR = "#7C3AED";
+const GEOFENCE_DRAFT_COLOR = "#F97316";
+const GEOFENCE_DEFAULT_RADIUS_M = 200;
+const GEOFENCE_CIRCLE_STEPS = 64;
 
 // Palette
 const c = {
@@ -107,6 +128,7 @@ export default function MapView({ features }: Props) {
     const [selectedId, setSelectedId] = useState<string | number | null>(null);
     const [historyEntries, setHistoryEntries] = useState<MachinePositionHistoryEntry[]>([]);
     const [historyMachineName, setHistoryMachineName] = useState<string | null>(null);
+    const [historyWindows, setHistoryWindows] = useState<MachineHistoryWindow[]>([]);
     const [historyColor, setHistoryColor] = useState<string>(OEM_COLORS.default);
     const [historyOverlayOpen, setHistoryOverlayOpen] = useState(false);
     const [historyOverlayUsesFullCardScroll, setHistoryOverlayUsesFullCardScroll] = useState(false);
@@ -119,6 +141,14 @@ export default function MapView({ features }: Props) {
     const historyColorRef = useRef<string>(OEM_COLORS.default);
     const historyRowRefs = useRef<Record<string, HTMLButtonElement | null>>({});
     const historyLoadingRef = useRef(false);
+    const [geofencePanelOpen, setGeofencePanelOpen] = useState(false);
+    const [geofences, setGeofences] = useState<GeofenceEntry[]>([]);
+    const [geofenceLoadError, setGeofenceLoadError] = useState<string | null>(null);
+    const [geofenceDraft, setGeofenceDraft] = useState<GeofenceDraft | null>(null);
+    const [geofenceEventsTarget, setGeofenceEventsTarget] = useState<GeofenceEventsTarget | null>(null);
+    const geofenceDataRef = useRef<GeofenceFeatureCollection>(emptyGeofenceFeatureCollection());
+    const geofenceDraftDataRef = useRef<GeofenceFeatureCollection>(emptyGeofenceFeatureCollection());
+    const geofenceDraftRef = useRef<GeofenceDraft | null>(null);
 
     const labelLayerIds = useRef<string[]>([]);
     const roadLayerIds = useRef<string[]>([]);
@@ -199,6 +229,45 @@ export default function MapView({ features }: Props) {
         [filteredHistoryEntries],
     );
 
+    // Only list the agreement windows that actually contributed points to the trail.
+    const visibleHistoryWindows = useMemo(() => {
+        const agreementIds = new Set(historyEntries.map((entry) => entry.agreement_id).filter(Boolean));
+        return historyWindows.filter((window) => agreementIds.has(window.agreementId));
+    }, [historyEntries, historyWindows]);
+
+    // Super admins and company admins may draw geofences. Company admins save them on one of
+    // the companies they administer; super admins may also keep them internal.
+    const isSuperAdmin = session?.user?.role === "super_admin";
+    const geofenceCompanyOptions = useMemo<GeofenceCompanyOption[]>(() => {
+        if (isSuperAdmin) {
+            const options = new globalThis.Map<number, string>();
+            machineList.forEach((machine) => {
+                const customerId = machine.active_customer_id != null ? Number(machine.active_customer_id) : NaN;
+                if (!Number.isInteger(customerId) || options.has(customerId)) return;
+                options.set(customerId, getActiveCustomerLabel(machine) ?? `Kunde ${customerId}`);
+            });
+            return [...options.entries()]
+                .map(([id, name]) => ({ id, name }))
+                .sort((a, b) => a.name.localeCompare(b.name, "nb"));
+        }
+
+        return (session?.user?.accesses ?? [])
+            .filter((access) => access.role === "admin")
+            .map((access) => ({
+                id: access.customerId,
+                name: access.customer?.name ?? `Kunde ${access.customerId}`,
+            }));
+    }, [isSuperAdmin, machineList, session?.user?.accesses]);
+    const canDrawGeofences = isSuperAdmin || geofenceCompanyOptions.length > 0;
+    const geofenceAgreementOptions = useMemo(
+        () => [...new Set(
+            machineList
+                .map((machine) => machine.active_agreement_id?.trim())
+                .filter((id): id is string => Boolean(id)),
+        )].sort(),
+        [machineList],
+    );
+
     const currentHistoryEntryId = useMemo(
         () => getLatestHistoryEntryId(filteredHistoryEntries),
         [filteredHistoryEntries],
@@ -547,12 +616,48 @@ export default function MapView({ features }: Props) {
         }
     }
 
+    function ensureGeofenceLayers(
+        map: Map,
+        fc: GeofenceFeatureCollection,
+        draftFc: GeofenceFeatureCollection,
+    ) {
+        if (!map.getSource("geofences")) {
+            map.addSource("geofences", { type: "geojson", data: fc });
+        } else {
+            (map.getSource("geofences") as GeoJSONSource).setData(fc);
+        }
+
+        if (!map.getSource("geofence-draft")) {
+            map.addSource("geofence-draft", { type: "geojson", data: draftFc });
+        } else {
+            (map.getSource("geofence-draft") as GeoJSONSource).setData(draftFc);
+        }
+
+        for (const layer of buildGeofenceLayers()) {
+            if (!map.getLayer(layer.id)) map.addLayer(layer);
+        }
+    }
+
+    function updateGeofenceDraft(draft: GeofenceDraft | null) {
+        geofenceDraftRef.current = draft;
+        setGeofenceDraft(draft);
+        const map = mapRef.current;
+        if (map) map.getCanvas().style.cursor = draft ? "crosshair" : "";
+    }
+
+    function focusGeofence(geofence: GeofenceEntry) {
+        const map = mapRef.current;
+        if (!map) return;
+        fitMapToCoordinates(map, getGeofenceRing(geofence));
+    }
+
     function clearMachineHistory(map?: Map | null) {
         historyMachineIdRef.current = null;
         historyDataRef.current = emptyHistoryFeatureCollection();
         historyColorRef.current = OEM_COLORS.default;
         setHistoryEntries([]);
         setHistoryMachineName(null);
+        setHistoryWindows([]);
         setHistoryColor(OEM_COLORS.default);
         setHistoryOverlayOpen(false);
         setSelectedHistoryEntryId(null);
@@ -591,6 +696,7 @@ export default function MapView({ features }: Props) {
             });
             const payload = (await response.json().catch(() => ({}))) as {
                 history?: MachinePositionHistoryEntry[];
+                windows?: MachineHistoryWindow[];
                 error?: string;
             };
 
@@ -613,6 +719,7 @@ export default function MapView({ features }: Props) {
             historyRowRefs.current = {};
             setHistoryEntries(history);
             setHistoryMachineName(machineName);
+            setHistoryWindows(payload.windows ?? []);
             setHistoryColor(historyColorRef.current);
             setHistoryOverlayOpen(true);
             setSelectedHistoryEntryId(nextSelectedHistoryEntryId);
@@ -688,6 +795,7 @@ export default function MapView({ features }: Props) {
             activeAgreementId,
             renterValue,
             lastSeenValue,
+            controlAlerts: listMachine?.control_alerts ?? [],
         });
 
         const popup = new maplibregl.Popup({
@@ -732,6 +840,12 @@ export default function MapView({ features }: Props) {
             openAgreementDialogRef.current?.(agreement);
         });
 
+        popupContent.querySelector<HTMLButtonElement>("[data-show-geofence-events]")?.addEventListener("click", () => {
+            popup.remove();
+            setGeofenceEventsTarget({ kind: "machine", machineId: String(id), machineName: name });
+            setGeofencePanelOpen(true);
+        });
+
         popup.on("close", () => {
             if (popupRef.current === popup) {
                 popupRef.current = null;
@@ -782,6 +896,7 @@ export default function MapView({ features }: Props) {
 
         // Cluster click to expand
         map.on("click", "clusters", async (e) => {
+            if (geofenceDraftRef.current) return;
             const feats = map.queryRenderedFeatures(e.point, { layers: ["clusters"] });
             const f = feats[0];
             if (!f) return;
@@ -795,6 +910,7 @@ export default function MapView({ features }: Props) {
 
         // Single machine click popup
         map.on("click", "unclustered-point", (e) => {
+            if (geofenceDraftRef.current) return;
             const f = e.features?.[0] as MachineFeature | undefined;
             if (!f) return;
             openPopupForFeature(map, f, { sticky: false });
@@ -809,6 +925,23 @@ export default function MapView({ features }: Props) {
             setSelectedHistoryEntryId(historyId);
         });
 
+        // While a geofence is being drawn, every map click places a vertex, or the
+        // center and then the edge of a radius.
+        map.on("click", (e) => {
+            const draft = geofenceDraftRef.current;
+            if (!draft) return;
+            const point: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+
+            if (draft.kind === "polygon") {
+                updateGeofenceDraft({ ...draft, points: [...draft.points, point] });
+            } else if (!draft.center) {
+                updateGeofenceDraft({ ...draft, center: point });
+            } else {
+                const radiusM = distanceMeters(draft.center, point);
+                updateGeofenceDraft({ ...draft, radiusM: Math.max(Math.round(radiusM), 10) });
+            }
+        });
+
         // Cursor
         map.on("mouseenter", "clusters", () => (map.getCanvas().style.cursor = "pointer"));
         map.on("mouseleave", "clusters", () => (map.getCanvas().style.cursor = ""));
@@ -855,6 +988,7 @@ export default function MapView({ features }: Props) {
             loadedRef.current = true;
             ensureDataLayers(map, visibleFeatures);
             ensureHistoryLayers(map, historyDataRef.current, historyColorRef.current);
+            ensureGeofenceLayers(map, geofenceDataRef.current, geofenceDraftDataRef.current);
             reapplyAllVisibilities(map);
             applyLabelContrast(map, theme);
             bringMachineLayersToTop(map);
@@ -902,6 +1036,7 @@ export default function MapView({ features }: Props) {
             const nextStyle = cloneStyle(baseStyle);
             addMachinesToStyle(nextStyle, visibleFeatures);
             addHistoryToStyle(nextStyle, historyDataRef.current, historyColorRef.current);
+            addGeofencesToStyle(nextStyle, geofenceDataRef.current, geofenceDraftDataRef.current);
             applyVisibilityToStyle(nextStyle, {
                 labels: labelsVisibleRef.current,
                 roads: roadsVisibleRef.current,
@@ -915,6 +1050,7 @@ export default function MapView({ features }: Props) {
             stableMap.once("style.load", () => {
                 ensureDataLayers(stableMap, visibleFeatures);
                 ensureHistoryLayers(stableMap, historyDataRef.current, historyColorRef.current);
+                ensureGeofenceLayers(stableMap, geofenceDataRef.current, geofenceDraftDataRef.current);
                 reapplyAllVisibilities(stableMap);
                 applyLabelContrast(stableMap, themeRef.current);
                 bringMachineLayersToTop(stableMap);
@@ -997,6 +1133,48 @@ export default function MapView({ features }: Props) {
         src?.setData(historyDataRef.current);
     }, [filteredHistoryEntries, selectedHistoryEntryId, currentHistoryEntryId]);
 
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch("/api/geofences", { cache: "no-store" })
+            .then(async (response) => {
+                const payload = (await response.json().catch(() => ({}))) as {
+                    geofences?: GeofenceEntry[];
+                    error?: string;
+                };
+                if (!response.ok) {
+                    throw new Error(payload.error || "Kunne ikke hente geofencer");
+                }
+                if (!cancelled) setGeofences(payload.geofences ?? []);
+            })
+            .catch((error) => {
+                console.error("Failed to load geofences", error);
+                if (!cancelled) {
+                    setGeofenceLoadError(error instanceof Error ? error.message : "Kunne ikke hente geofencer");
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        geofenceDataRef.current = buildGeofenceFeatureCollection(geofences);
+        const map = mapRef.current;
+        if (!map || !loadedRef.current) return;
+        const src = map.getSource("geofences") as GeoJSONSource | undefined;
+        src?.setData(geofenceDataRef.current);
+    }, [geofences]);
+
+    useEffect(() => {
+        geofenceDraftDataRef.current = buildGeofenceDraftFeatureCollection(geofenceDraft);
+        const map = mapRef.current;
+        if (!map || !loadedRef.current) return;
+        const src = map.getSource("geofence-draft") as GeoJSONSource | undefined;
+        src?.setData(geofenceDraftDataRef.current);
+    }, [geofenceDraft]);
+
     useEffect(() => {
         if (!selectedHistoryEntryId || !historyOverlayOpen) return;
         const row = historyRowRefs.current[selectedHistoryEntryId];
@@ -1230,6 +1408,21 @@ export default function MapView({ features }: Props) {
                                     rightTitle="Skjul veier"
                                 />
                             </div>
+                            <div className="pointer-events-auto">
+                                <button
+                                    type="button"
+                                    onClick={() => setGeofencePanelOpen((open) => !open)}
+                                    aria-pressed={geofencePanelOpen}
+                                    title="Geofencer"
+                                    className={`inline-flex cursor-pointer items-center gap-2 rounded-full border border-slate-300 px-3 py-2 text-sm font-medium shadow-md transition ${geofencePanelOpen
+                                        ? "bg-slate-100 text-slate-900 ring-1 ring-slate-300"
+                                        : "bg-white text-slate-600 hover:bg-slate-50 hover:text-slate-900"
+                                        }`}
+                                >
+                                    <IconFence className="h-5 w-5" />
+                                    {geofences.length ? <span className="tabular-nums">{geofences.length}</span> : null}
+                                </button>
+                            </div>
                         </div>
 
                         {/* Map */}
@@ -1242,6 +1435,59 @@ export default function MapView({ features }: Props) {
                                     className="relative h-full w-full overflow-hidden"
                                 />
                             </div>
+                            {geofencePanelOpen ? (
+                                <div className="pointer-events-none absolute bottom-3 left-[7.5rem] top-3 z-10 flex w-[min(18rem,calc(100vw-9rem))] items-start">
+                                    <GeofencePanel
+                                        geofences={geofences}
+                                        loadError={geofenceLoadError}
+                                        canDraw={canDrawGeofences}
+                                        companyOptions={geofenceCompanyOptions}
+                                        allowNoCompany={isSuperAdmin}
+                                        agreementOptions={geofenceAgreementOptions}
+                                        draft={geofenceDraft}
+                                        eventsTarget={geofenceEventsTarget}
+                                        onClose={() => {
+                                            updateGeofenceDraft(null);
+                                            setGeofenceEventsTarget(null);
+                                            setGeofencePanelOpen(false);
+                                        }}
+                                        onStartDraw={(kind: GeofenceKind) =>
+                                            updateGeofenceDraft({
+                                                kind,
+                                                points: [],
+                                                center: null,
+                                                radiusM: GEOFENCE_DEFAULT_RADIUS_M,
+                                            })
+                                        }
+                                        onCancelDraw={() => updateGeofenceDraft(null)}
+                                        onUndoDraftPoint={() => {
+                                            const draft = geofenceDraftRef.current;
+                                            if (draft) updateGeofenceDraft({ ...draft, points: draft.points.slice(0, -1) });
+                                        }}
+                                        onDraftRadiusChange={(radiusM) => {
+                                            const draft = geofenceDraftRef.current;
+                                            if (draft) updateGeofenceDraft({ ...draft, radiusM });
+                                        }}
+                                        onCreated={(geofence) => {
+                                            updateGeofenceDraft(null);
+                                            setGeofences((prev) =>
+                                                [...prev, geofence].sort((a, b) => a.name.localeCompare(b.name, "nb")));
+                                        }}
+                                        onDeleted={(geofenceId) =>
+                                            setGeofences((prev) => prev.filter((geofence) => geofence.id !== geofenceId))
+                                        }
+                                        onFocusGeofence={focusGeofence}
+                                        onFocusEvent={(event) => {
+                                            mapRef.current?.easeTo({
+                                                center: [event.lng, event.lat],
+                                                zoom: Math.max(mapRef.current?.getZoom() ?? 0, 15),
+                                                duration: 400,
+                                            });
+                                        }}
+                                        onEventsTargetChange={setGeofenceEventsTarget}
+                                    />
+                                </div>
+                            ) : null}
                             {shouldShowResizeOverlay ? (
                             <div
                                 ref={resizeOverlayRef}
@@ -1286,6 +1532,19 @@ export default function MapView({ features }: Props) {
                                             <div className="truncate text-sm font-semibold text-slate-900">
                                                 {historyMachineName ?? "Maskin"}
                                             </div>
+                                            {visibleHistoryWindows.length ? (
+                                                <div className="mt-1 space-y-0.5">
+                                                    {visibleHistoryWindows.map((window) => (
+                                                        <div
+                                                            key={window.agreementId}
+                                                            className="truncate text-xs font-medium text-sky-700"
+                                                            title={formatHistoryWindowLabel(window)}
+                                                        >
+                                                            {formatHistoryWindowLabel(window)}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            ) : null}
                                             <div className="text-xs text-slate-500">
                                                 {historyEntriesDesc.length === historyEntries.length
                                                     ? `${historyEntriesDesc.length} posisjoner`
@@ -1419,6 +1678,11 @@ export default function MapView({ features }: Props) {
                                                                 <div className="text-sm font-semibold leading-tight text-slate-900">
                                                                     {formatLastUpdated(entry.reported_at)}
                                                                 </div>
+                                                                {visibleHistoryWindows.length > 1 && entry.agreement_id ? (
+                                                                    <div className="pt-0.5 text-[11px] font-medium leading-none text-sky-700">
+                                                                        Avtale {entry.agreement_id}
+                                                                    </div>
+                                                                ) : null}
                                                                 {index < historyEntriesDesc.length - 1 ? (
                                                                     <div className="pt-2 text-[11px] font-medium leading-none text-slate-400">
                                                                         {formatDurationBetween(
@@ -1766,6 +2030,14 @@ function formatHistoryFilterTimestamp(value?: string | null) {
     return `${formatDatePart(date)}\nkl. ${formatTimePart(date)}`;
 }
 
+function formatHistoryWindowLabel(window: MachineHistoryWindow) {
+    const start = toHistoryTimestampMs(window.startDate);
+    const end = toHistoryTimestampMs(window.endDate);
+    const startLabel = start != null ? formatDatePart(new Date(start)) : "?";
+    const endLabel = end != null ? formatDatePart(new Date(end)) : "pågår";
+    return `Avtale ${window.agreementId}: ${startLabel} – ${endLabel}`;
+}
+
 function formatDatePart(date: Date) {
     return date.toLocaleDateString("nb-NO", {
         day: "2-digit",
@@ -2054,6 +2326,146 @@ function addHistoryToStyle(style: StyleSpecification, data: HistoryFeatureCollec
     }
 }
 
+function emptyGeofenceFeatureCollection(): GeofenceFeatureCollection {
+    return { type: "FeatureCollection", features: [] };
+}
+
+function buildGeofenceFeatureCollection(geofences: GeofenceEntry[]): GeofenceFeatureCollection {
+    return {
+        type: "FeatureCollection",
+        features: geofences.flatMap((geofence) => {
+            const ring = getGeofenceRing(geofence);
+            if (ring.length < 3) return [];
+            return [{
+                type: "Feature" as const,
+                geometry: { type: "Polygon" as const, coordinates: [closeRing(ring)] },
+                properties: { geofence_id: geofence.id, name: geofence.name, kind: "area" as const },
+            }];
+        }),
+    };
+}
+
+function buildGeofenceDraftFeatureCollection(draft: GeofenceDraft | null): GeofenceFeatureCollection {
+    if (!draft) return emptyGeofenceFeatureCollection();
+
+    const ring = draft.kind === "circle"
+        ? draft.center ? circleRing(draft.center, draft.radiusM) : []
+        : draft.points;
+    const vertices = draft.kind === "circle" ? (draft.center ? [draft.center] : []) : draft.points;
+
+    const features: GeofenceFeatureCollection["features"] = vertices.map((point) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: point },
+        properties: { kind: "vertex" as const },
+    }));
+
+    if (ring.length >= 3) {
+        features.push({
+            type: "Feature" as const,
+            geometry: { type: "Polygon" as const, coordinates: [closeRing(ring)] },
+            properties: { kind: "area" as const },
+        });
+    } else if (ring.length === 2) {
+        features.push({
+            type: "Feature" as const,
+            geometry: { type: "LineString" as const, coordinates: ring },
+            properties: { kind: "outline" as const },
+        });
+    }
+
+    return { type: "FeatureCollection", features };
+}
+
+// Circles are stored as center + radius and drawn as a polygon approximation.
+function getGeofenceRing(geofence: GeofenceEntry): [number, number][] {
+    if (geofence.kind === "circle") {
+        if (geofence.center_lng == null || geofence.center_lat == null || geofence.radius_m == null) return [];
+        return circleRing([geofence.center_lng, geofence.center_lat], geofence.radius_m);
+    }
+    return geofence.polygon ?? [];
+}
+
+function circleRing([lng, lat]: [number, number], radiusM: number): [number, number][] {
+    const latRadius = radiusM / 111_320;
+    const lngRadius = radiusM / (111_320 * Math.cos((lat * Math.PI) / 180));
+    return Array.from({ length: GEOFENCE_CIRCLE_STEPS }, (_, i) => {
+        const angle = (i / GEOFENCE_CIRCLE_STEPS) * 2 * Math.PI;
+        return [lng + lngRadius * Math.cos(angle), lat + latRadius * Math.sin(angle)] as [number, number];
+    });
+}
+
+function closeRing(ring: [number, number][]): [number, number][] {
+    const [firstLng, firstLat] = ring[0];
+    const [lastLng, lastLat] = ring[ring.length - 1];
+    return firstLng === lastLng && firstLat === lastLat ? ring : [...ring, ring[0]];
+}
+
+function distanceMeters([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]) {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2
+        + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+    return 2 * 6371008.8 * Math.asin(Math.sqrt(a));
+}
+
+function buildGeofenceLayers(): LayerSpecification[] {
+    return [
+        {
+            id: "geofences-fill",
+            type: "fill",
+            source: "geofences",
+            paint: { "fill-color": GEOFENCE_COLOR, "fill-opacity": 0.12 },
+        },
+        {
+            id: "geofences-outline",
+            type: "line",
+            source: "geofences",
+            paint: { "line-color": GEOFENCE_COLOR, "line-width": 2 },
+        },
+        {
+            id: "geofence-draft-fill",
+            type: "fill",
+            source: "geofence-draft",
+            filter: ["==", ["geometry-type"], "Polygon"],
+            paint: { "fill-color": GEOFENCE_DRAFT_COLOR, "fill-opacity": 0.15 },
+        },
+        {
+            id: "geofence-draft-outline",
+            type: "line",
+            source: "geofence-draft",
+            filter: ["!=", ["geometry-type"], "Point"],
+            paint: { "line-color": GEOFENCE_DRAFT_COLOR, "line-width": 2, "line-dasharray": [2, 1] },
+        },
+        {
+            id: "geofence-draft-vertex",
+            type: "circle",
+            source: "geofence-draft",
+            filter: ["==", ["geometry-type"], "Point"],
+            paint: {
+                "circle-radius": 4,
+                "circle-color": "#ffffff",
+                "circle-stroke-color": GEOFENCE_DRAFT_COLOR,
+                "circle-stroke-width": 2,
+            },
+        },
+    ] as LayerSpecification[];
+}
+
+function addGeofencesToStyle(
+    style: StyleSpecification,
+    data: GeofenceFeatureCollection,
+    draftData: GeofenceFeatureCollection,
+) {
+    style.sources = style.sources ?? {};
+    style.sources["geofences"] = { type: "geojson", data };
+    style.sources["geofence-draft"] = { type: "geojson", data: draftData };
+
+    style.layers = style.layers ?? [];
+    const existing = new Set(style.layers.map((layer) => layer.id));
+    for (const layer of buildGeofenceLayers()) {
+        if (!existing.has(layer.id)) style.layers.push(layer);
+    }
+}
+
 function applyVisibilityToStyle(
     style: StyleSpecification,
     opts: { labels: boolean; roads: boolean; borders: boolean }
@@ -2108,6 +2520,7 @@ function buildPopupContent({
     activeAgreementId,
     renterValue,
     lastSeenValue,
+    controlAlerts,
 }: {
     id: string;
     name: string;
@@ -2117,6 +2530,7 @@ function buildPopupContent({
     activeAgreementId?: string | null;
     renterValue: string;
     lastSeenValue: string;
+    controlAlerts: MachineControlAlert[];
 }) {
     const container = document.createElement("div");
     const categoryTone = categoryValue === "-" ? "text-slate-400 font-medium" : "text-slate-900 font-semibold";
@@ -2136,6 +2550,21 @@ function buildPopupContent({
     const logoMarkup = logoSrc
         ? `<img src="${escapeHtml(logoSrc)}" alt="${escapeHtml(oemName)} logo" class="max-h-8 w-auto object-contain" />`
         : `<span class="text-[10px] font-semibold text-slate-400">OEM</span>`;
+    const controlMarkup = controlAlerts.length
+        ? `
+            <div class="flex flex-wrap gap-1">
+                ${controlAlerts
+                    .map((alert) => {
+                        const tone = alert.status === "overdue"
+                            ? "border-rose-200 bg-rose-50 text-rose-800"
+                            : "border-amber-200 bg-amber-50 text-amber-800";
+                        const label = `${MACHINE_CONTROL_KIND_LABELS[alert.kind]} ${formatControlDue(alert)}`;
+                        return `<span class="inline-flex rounded-full border px-2 py-0.5 text-[10px] font-semibold ${tone}">${escapeHtml(label)}</span>`;
+                    })
+                    .join("")}
+            </div>
+        `
+        : "";
 
     container.className = "min-w-[260px] max-w-[320px]";
     container.innerHTML = `
@@ -2164,6 +2593,7 @@ function buildPopupContent({
                 </button>
             </div>
             <div class="space-y-2 px-2.5 py-2.5">
+                ${controlMarkup}
                 <div class="grid grid-cols-2 gap-1.5">
                     <div class="min-h-[52px] rounded-lg border border-slate-100 bg-slate-50 px-2 py-1.5">
                         <div class="text-[9px] font-semibold uppercase tracking-wide text-slate-500">Kategori</div>
@@ -2198,6 +2628,13 @@ function buildPopupContent({
                 >
                     Vis detaljer
                 </button>
+                <button
+                    type="button"
+                    data-show-geofence-events
+                    class="w-full cursor-pointer text-center text-[11px] font-medium text-sky-700 hover:text-sky-900"
+                >
+                    Geofence-hendelser
+                </button>
             </div>
         </div>
     `;
@@ -2206,7 +2643,12 @@ function buildPopupContent({
 }
 
 function setPopupActionsDisabled(container: HTMLElement, disabled: boolean) {
-    const selectors = ["[data-popup-close]", "[data-show-details]", "[data-open-agreement]"];
+    const selectors = [
+        "[data-popup-close]",
+        "[data-show-details]",
+        "[data-open-agreement]",
+        "[data-show-geofence-events]",
+    ];
     selectors.forEach((selector) => {
         const button = container.querySelector<HTMLButtonElement>(selector);
         if (!button) return;
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { IconCurrentLocation, IconLoader2, IconSearch } from "@tabler/icons-react";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import { formatDate } from "@/lib/formatters";
+import type { MachineAvailabilityCandidate } from "@/types/machines";
+
+export type AvailabilityLocationOption = {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+};
+
+type Position = { lat: number; lng: number };
+
+const DEFAULT_PERIOD_DAYS = 14;
+
+export default function AvailabilitySearch({
+  categories,
+  locations,
+}: {
+  categories: string[];
+  locations: AvailabilityLocationOption[];
+}) {
+  const [category, setCategory] = useState("");
+  const [from, setFrom] = useState(() => toDateInput(new Date()));
+  const [to, setTo] = useState(() => toDateInput(addDays(new Date(), DEFAULT_PERIOD_DAYS)));
+  const [locationId, setLocationId] = useState("");
+  const [myPosition, setMyPosition] = useState<Position | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [includePartial, setIncludePartial] = useState(false);
+  const [state, setState] = useState<{
+    status: "idle" | "loading" | "ready" | "error";
+    candidates: MachineAvailabilityCandidate[];
+    /** The period the candidates were searched for, used in the booking links. */
+    period: { from: string; to: string } | null;
+    error: string | null;
+  }>({ status: "idle", candidates: [], period: null, error: null });
+
+  function selectLocation(value: string) {
+    setLocationId(value);
+    if (value !== "me" || myPosition) return;
+
+    if (!navigator.geolocation) {
+      setState((prev) => ({ ...prev, error: "Nettleseren din kan ikke dele posisjon" }));
+      setLocationId("");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setMyPosition({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        setState((prev) => ({ ...prev, error: "Fikk ikke tilgang til posisjonen din" }));
+        setLocationId("");
+        setLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10_000 },
+    );
+  }
+
+  async function search(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const params = new URLSearchParams({ from, to });
+    if (category) params.set("category", category);
+    if (includePartial) params.set("partial", "1");
+    const position =
+      locationId === "me" ? myPosition : locations.find((location) => location.id === locationId) ?? null;
+    if (position) {
+      params.set("lat", String(position.lat));
+      params.set("lng", String(position.lng));
+    }
+
+    setState({ status: "loading", candidates: [], period: null, error: null });
+
+    try {
+      const response = await fetch(`/api/machines/availability?${params.toString()}`, { cache: "no-store" });
+      const payload = (await response.json().catch(() => ({}))) as {
+        candidates?: MachineAvailabilityCandidate[];
+        error?: string;
+      };
+
+      if (!response.ok) {
+        setState({
+          status: "error",
+          candidates: [],
+          period: null,
+          error: payload.error ?? "Kunne ikke hente ledige maskiner",
+        });
+        return;
+      }
+
+      setState({ status: "ready", candidates: payload.candidates ?? [], period: { from, to }, error: null });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Kunne ikke hente ledige maskiner";
+      setState({ status: "error", candidates: [], period: null, error: message });
+    }
+  }
+
+  const inputClass =
+    "mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900";
+  const labelClass = "block text-xs font-semibold uppercase tracking-wide text-slate-500";
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <form onSubmit={search} className="grid gap-4 px-6 py-5 md:grid-cols-2 xl:grid-cols-5 xl:items-end">
+          <label className={labelClass}>
+            Kategori
+            <select value={category} onChange={(event) => setCategory(event.target.value)} className={inputClass}>
+              <option value="">Alle kategorier</option>
+              {categories.map((entry) => (
+                <option key={entry} value={entry}>
+                  {entry}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Fra
+            <input
+              type="date"
+              required
+              value={from}
+              onChange={(event) => setFrom(event.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Til
+            <input
+              type="date"
+              required
+              value={to}
+              min={from || undefined}
+              onChange={(event) => setTo(event.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Nær
+            <div className="relative">
+              <select
+                value={locationId}
+                onChange={(event) => selectLocation(event.target.value)}
+                className={inputClass}
+                disabled={locating}
+              >
+                <option value="">Ingen plassering</option>
+                <option value="me">Min posisjon</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.label}
+                  </option>
+                ))}
+              </select>
+              {locating ? (
+                <IconCurrentLocation className="absolute right-8 top-1/2 h-4 w-4 -translate-y-1/2 animate-pulse text-blue-600" />
+              ) : null}
+            </div>
+          </label>
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={includePartial}
+                onChange={(event) => setIncludePartial(event.target.checked)}
+              />
+              Vis også delvis ledige
+            </label>
+            <button
+              type="submit"
+              disabled={state.status === "loading" || locating}
+              className={`${standardButtonCompactClass} inline-flex items-center justify-center gap-2`}
+            >
+              {state.status === "loading" ? (
+                <IconLoader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <IconSearch className="h-4 w-4" />
+              )}
+              Søk
+            </button>
+          </div>
+        </form>
+        {state.error && state.status !== "error" ? (
+          <div className="border-t border-slate-100 px-6 py-3 text-sm text-rose-600">{state.error}</div>
+        ) : null}
+      </section>
+
+      {state.status === "idle" ? null : (
+        <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+          {state.status === "loading" ? (
+            <div className="flex items-center gap-3 px-6 py-6 text-sm text-slate-600">
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+              Søker etter ledige maskiner...
+            </div>
+          ) : state.status === "error" ? (
+            <div className="px-6 py-4 text-sm text-rose-600">{state.error}</div>
+          ) : state.candidates.length === 0 ? (
+            <div className="px-6 py-8 text-center text-sm text-slate-500">
+              Ingen ledige maskiner i perioden.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {state.candidates.map((candidate) => (
+                <CandidateRow key={candidate.id} candidate={candidate} period={state.period} />
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+function CandidateRow({
+  candidate,
+  period,
+}: {
+  candidate: MachineAvailabilityCandidate;
+  period: { from: string; to: string } | null;
+}) {
+  // Book the first free window when the machine is only free for part of the period.
+  const bookingPeriod = candidate.free_windows[0] ?? (period ? { start: period.from, end: period.to } : null);
+  const bookingParams = new URLSearchParams({ maskin: candidate.id });
+  if (bookingPeriod) {
+    bookingParams.set("fra", bookingPeriod.start);
+    bookingParams.set("til", bookingPeriod.end);
+  }
+
+  const details = [
+    candidate.oem_name !== "N/A" ? candidate.oem_name : null,
+    candidate.model,
+    candidate.category,
+  ].filter(Boolean);
+
+  return (
+    <li className="flex flex-wrap items-start justify-between gap-4 px-6 py-4">
+      <div className="min-w-0 space-y-1">
+        <p className="text-sm font-semibold text-slate-900">{candidate.name}</p>
+        {details.length ? <p className="text-xs text-slate-500">{details.join(" · ")}</p> : null}
+        {!candidate.fully_available ? (
+          <p className="text-xs text-slate-600">
+            Ledig{" "}
+            {candidate.free_windows
+              .map(
+                (window) =>
+                  `${formatDate(window.start, { showTime: false })}–${formatDate(window.end, { showTime: false })}`,
+              )
+              .join(", ")}
+          </p>
+        ) : null}
+      </div>
+      <div className="flex shrink-0 flex-col items-end gap-1 text-right">
+        <span
+          className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ring-1 ${
+            candidate.fully_available
+              ? "bg-emerald-50 text-emerald-700 ring-emerald-100"
+              : "bg-amber-50 text-amber-700 ring-amber-100"
+          }`}
+        >
+          {candidate.fully_available ? "Ledig hele perioden" : `Ledig ${candidate.free_days} dager`}
+        </span>
+        <span className="text-xs tabular-nums text-slate-500">
+          {candidate.distance_km != null ? `${formatDistance(candidate.distance_km)} unna` : "Ukjent avstand"}
+        </span>
+        <Link
+          href={`/bestilling?${bookingParams.toString()}`}
+          className="text-xs font-medium text-blue-700 hover:underline"
+        >
+          Bestill
+        </Link>
+      </div>
+    </li>
+  );
+}
+
+function formatDistance(km: number) {
+  return `${km.toLocaleString("nb-NO", { maximumFractionDigits: 1 })} km`;
+}
+
+function toDateInput(date: Date) {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
@@ -0,0 +1,63 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { listMachineCategories } from "@/lib/machine-availability";
+import { listGeofencesForUser } from "@/lib/geofences";
+import type { GeofenceEntry } from "@/types/machines";
+import AvailabilitySearch, { type AvailabilityLocationOption } from "./AvailabilitySearch";
+
+export default async function LedigeMaskinerPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    redirect("/");
+  }
+
+  // Both lists only make the form easier to fill in; the search works without them.
+  const [categories, geofences] = await Promise.all([
+    listMachineCategories().catch((error) => {
+      console.error("Failed to load machine categories", error);
+      return [] as string[];
+    }),
+    listGeofencesForUser(session.user).catch((error) => {
+      console.error(`Failed to load geofences for user ${session.user.id}`, error);
+      return [] as GeofenceEntry[];
+    }),
+  ]);
+
+  const locations = geofences.flatMap((geofence): AvailabilityLocationOption[] => {
+    const center = getGeofenceCenter(geofence);
+    return center ? [{ id: geofence.id, label: geofence.name, ...center }] : [];
+  });
+
+  return (
+    <main className="space-y-6 p-8">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Ledige maskiner</h1>
+          <p className="mt-2 text-slate-600">
+            Finn maskiner i en kategori som er ledige i en periode, sortert etter avstand fra der du trenger dem.
+          </p>
+        </div>
+      </header>
+      <AvailabilitySearch categories={categories} locations={locations} />
+    </main>
+  );
+}
+
+function getGeofenceCenter(geofence: GeofenceEntry): { lat: number; lng: number } | null {
+  if (geofence.center_lat != null && geofence.center_lng != null) {
+    return { lat: geofence.center_lat, lng: geofence.center_lng };
+  }
+  if (!geofence.polygon?.length) return null;
+
+  const sum = geofence.polygon.reduce(
+    (acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }),
+    { lat: 0, lng: 0 },
+  );
+  return { lat: sum.lat / geofence.polygon.length, lng: sum.lng / geofence.polygon.length };
+}
@@ -2,7 +2,7 @@
 
 import maplibregl from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { AxisBottom, AxisLeft } from "@visx/axis";
 import { LinearGradient } from "@visx/gradient";
 import { GridColumns, GridRows } from "@visx/grid";
@@ -13,47 +13,53 @@ import { AreaClosed, Bar, LinePath } from "@visx/shape";
 import { useTooltip } from "@visx/tooltip";
 import {
   IconAdjustmentsHorizontal,
+  IconAlertTriangle,
   IconArrowUpRight,
-  IconBolt,
   IconBulldozer,
   IconCalendarEvent,
   IconChartAreaLine,
   IconCheck,
   IconClockHour4,
-  IconLeaf,
+  IconGauge,
   IconMinus,
+  IconPlayerPause,
   IconPlus,
+  IconRoute,
 } from "@tabler/icons-react";
 import { getOEMLogo } from "@/lib/get_OEM_logo";
-
-type PeriodKey = "14d" | "30d" | "12w" | "12m";
-type AggregationKey = "day" | "week" | "month";
-type MetricKey = "usageHours" | "energyKwh" | "co2Kg";
-type AnalysisKey = "usage" | "energy" | "co2" | "contribution";
-
-type MachineDefinition = {
+import type {
+  MachineAnalyticsAggregation,
+  MachineAnalyticsBucket,
+  MachineAnalyticsData,
+  MachineAnalyticsMachine,
+  MachineAnalyticsPeriod,
+  MachineAnalyticsTotals,
+} from "@/types/machines";
+
+type PeriodKey = MachineAnalyticsPeriod;
+type AggregationKey = MachineAnalyticsAggregation;
+type MetricKey = "usageHours" | "idleHours" | "distanceKm";
+type AnalysisKey = "usage" | "idle" | "distance" | "contribution";
+type MachineStatus = "I drift" | "Standby" | "Ingen signal";
+
+type DashboardMachine = {
   id: string;
   name: string;
   oem: string;
-  category: string;
-  project: string;
-  location: string;
-  activeAgreementId?: string;
-  customerName?: string;
-  status: "I drift" | "Lader" | "Standby" | "Service";
-  powertrain: "Elektrisk" | "Hybrid" | "Diesel";
+  category: string | null;
+  activeAgreementId: string | null;
+  customerName: string | null;
   accent: string;
-  lat: number;
-  lng: number;
-  lastReportedAt: string;
-  baseDailyHours: number;
-  energyPerHour: number;
-  co2PerKwh: number;
-  idleRatio: number;
-  weightTonnes: number;
-  seed: number;
+  lat: number | null;
+  lng: number | null;
+  lastReportedAt: string | null;
+  totals: MachineAnalyticsTotals;
+  previousTotals: MachineAnalyticsTotals;
+  seriesByBucket: Map<string, MachineAnalyticsTotals>;
 };
 
+type LocatedMachine = DashboardMachine & { lat: number; lng: number };
+
 type Bucket = {
   key: string;
   label: string;
@@ -63,38 +69,36 @@ type Bucket = {
   bucketDays: number;
 };
 
-type SeriesPoint = Bucket & {
-  usageHours: number;
-  idleHours: number;
-  energyKwh: number;
-  co2Kg: number;
-  electrifiedEnergyKwh: number;
-};
+type SeriesPoint = Bucket & MachineAnalyticsTotals;
 
 type FleetSummary = {
   totalUsageHours: number;
   totalIdleHours: number;
-  totalEnergyKwh: number;
-  totalCo2Kg: number;
+  totalDistanceKm: number;
+  totalActiveDays: number;
   avgUsageHours: number;
-  avgEnergyKwh: number;
-  avgCo2Kg: number;
+  avgIdleHours: number;
+  avgDistanceKm: number;
   idleShare: number;
-  electrificationRate: number;
-  avoidedCo2Kg: number;
   peakUsageLabel: string;
   peakUsageHours: number;
-  peakEnergyLabel: string;
-  peakEnergyKwh: number;
-  peakCo2Label: string;
-  peakCo2Kg: number;
+  peakIdleLabel: string;
+  peakIdleHours: number;
+  peakDistanceLabel: string;
+  peakDistanceKm: number;
 };
 
 type MachineRow = {
-  machine: MachineDefinition;
+  machine: DashboardMachine;
   summary: FleetSummary;
 };
 
+type AnalyticsState = {
+  status: "loading" | "ready" | "error";
+  data: MachineAnalyticsData | null;
+  error: string | null;
+};
+
 type MetricCardData = {
   metricKey: MetricKey;
   title: string;
@@ -123,8 +127,8 @@ type ContributionBarDatum = {
 };
 
 const DAY_MS = 24 * 60 * 60 * 1000;
-const REFERENCE_DATE = new Date("2026-04-06T12:00:00+02:00");
 const MAPTILER_KEY = process.env.NEXT_PUBLIC_MAPTILER_KEY;
+const DEFAULT_MAP_CENTER: [number, number] = [10.7522, 59.9139];
 const TREND_CHART_HEIGHT = 320;
 const TOOLTIP_STYLE: React.CSSProperties = {
   border: "1px solid rgba(226, 232, 240, 0.95)",
@@ -160,8 +164,8 @@ const AGGREGATION_OPTIONS: Array<{ key: AggregationKey; label: string; unitLabel
 
 const ANALYSIS_OPTIONS: Array<{ key: AnalysisKey; label: string }> = [
   { key: "usage", label: "Driftstimer" },
-  { key: "energy", label: "Energibruk" },
-  { key: "co2", label: "CO2-utslipp" },
+  { key: "idle", label: "Tomgang" },
+  { key: "distance", label: "Kjørelengde" },
   { key: "contribution", label: "Maskinbidrag" },
 ];
 
@@ -176,189 +180,26 @@ const CONTRIBUTION_METRIC_OPTIONS: Array<{
     activeClass: "border-emerald-600 bg-emerald-600 text-white shadow-sm",
   },
   {
-    key: "energyKwh",
-    label: "Energi",
-    activeClass: "border-sky-600 bg-sky-600 text-white shadow-sm",
-  },
-  {
-    key: "co2Kg",
-    label: "CO2",
+    key: "idleHours",
+    label: "Tomgang",
     activeClass: "border-amber-500 bg-amber-500 text-white shadow-sm",
   },
-];
-
-const DUMMY_MACHINES: MachineDefinition[] = [
-  {
-    id: "2353",
-    name: "Cat 320 NGH Z-Line",
-    oem: "CAT",
-    category: "07 - Hjulgravemaskin",
-    project: "Bekkestua ombygging",
-    location: "Bekkestua",
-    activeAgreementId: "A-10452",
-    customerName: "Bekkestua Entreprenør AS",
-    status: "I drift",
-    powertrain: "Diesel",
-    accent: "#2563EB",
-    lat: 59.9179,
-    lng: 10.5864,
-    lastReportedAt: "2026-04-06T08:40:00+02:00",
-    baseDailyHours: 5.2,
-    energyPerHour: 34,
-    co2PerKwh: 0.77,
-    idleRatio: 0.16,
-    weightTonnes: 24.8,
-    seed: 1,
-  },
-  {
-    id: "E-118",
-    name: "Volvo ECR25 Electric",
-    oem: "Volvo",
-    category: "Minigraver",
-    project: "Sentrum gaterigg",
-    location: "Oslo sentrum",
-    activeAgreementId: "A-10489",
-    customerName: "Oslo Drift og Miljø",
-    status: "Lader",
-    powertrain: "Elektrisk",
-    accent: "#10B981",
-    lat: 59.9138,
-    lng: 10.7463,
-    lastReportedAt: "2026-04-06T08:18:00+02:00",
-    baseDailyHours: 4.1,
-    energyPerHour: 18,
-    co2PerKwh: 0.06,
-    idleRatio: 0.08,
-    weightTonnes: 2.7,
-    seed: 2,
-  },
-  {
-    id: "HG-472",
-    name: "Hydrema MX20 Rail",
-    oem: "Hydrema",
-    category: "Jernbanegraver",
-    project: "Drammen sporfornyelse",
-    location: "Drammen",
-    activeAgreementId: "A-10217",
-    customerName: "Bane Nord Prosjekt",
-    status: "Standby",
-    powertrain: "Diesel",
-    accent: "#F97316",
-    lat: 59.7441,
-    lng: 10.2048,
-    lastReportedAt: "2026-04-06T07:52:00+02:00",
-    baseDailyHours: 3.9,
-    energyPerHour: 29,
-    co2PerKwh: 0.79,
-    idleRatio: 0.2,
-    weightTonnes: 21.5,
-    seed: 3,
-  },
-  {
-    id: "950-HY",
-    name: "CAT 950 GC Hybrid",
-    oem: "CAT",
-    category: "Hjullaster",
-    project: "Gardermoen logistikk",
-    location: "Gardermoen",
-    activeAgreementId: "A-10511",
-    customerName: "Gardermoen Logistikkpark",
-    status: "I drift",
-    powertrain: "Hybrid",
-    accent: "#0EA5E9",
-    lat: 60.1943,
-    lng: 11.1013,
-    lastReportedAt: "2026-04-06T08:33:00+02:00",
-    baseDailyHours: 6.0,
-    energyPerHour: 26,
-    co2PerKwh: 0.34,
-    idleRatio: 0.11,
-    weightTonnes: 18.1,
-    seed: 4,
-  },
-  {
-    id: "L120E",
-    name: "Volvo L120 Electric",
-    oem: "Volvo",
-    category: "Hjullaster",
-    project: "Gjenvinningshub Alna",
-    location: "Alna",
-    activeAgreementId: "A-10544",
-    customerName: "Alna Gjenvinning",
-    status: "I drift",
-    powertrain: "Elektrisk",
-    accent: "#14B8A6",
-    lat: 59.9297,
-    lng: 10.8361,
-    lastReportedAt: "2026-04-06T08:28:00+02:00",
-    baseDailyHours: 5.0,
-    energyPerHour: 21,
-    co2PerKwh: 0.05,
-    idleRatio: 0.06,
-    weightTonnes: 20.4,
-    seed: 5,
-  },
   {
-    id: "ZW-330",
-    name: "Hitachi ZX300-7",
-    oem: "Hitachi",
-    category: "Beltegraver",
-    project: "Ring 1 sikring",
-    location: "Oslo vest",
-    status: "Service",
-    powertrain: "Diesel",
-    accent: "#F59E0B",
-    lat: 59.9275,
-    lng: 10.6739,
-    lastReportedAt: "2026-04-06T06:42:00+02:00",
-    baseDailyHours: 4.7,
-    energyPerHour: 33,
-    co2PerKwh: 0.8,
-    idleRatio: 0.19,
-    weightTonnes: 30.2,
-    seed: 6,
-  },
-  {
-    id: "TM-204",
-    name: "JCB Telemaster 525-60E",
-    oem: "JCB",
-    category: "Teleskoplaster",
-    project: "Lillestrøm depot",
-    location: "Lillestrøm",
-    activeAgreementId: "A-10398",
-    customerName: "Lillestrøm Bygglogistikk",
-    status: "I drift",
-    powertrain: "Elektrisk",
-    accent: "#8B5CF6",
-    lat: 59.9551,
-    lng: 11.0497,
-    lastReportedAt: "2026-04-06T08:36:00+02:00",
-    baseDailyHours: 4.4,
-    energyPerHour: 15,
-    co2PerKwh: 0.05,
-    idleRatio: 0.05,
-    weightTonnes: 5.2,
-    seed: 7,
+    key: "distanceKm",
+    label: "Kjørelengde",
+    activeClass: "border-sky-600 bg-sky-600 text-white shadow-sm",
   },
 ];
 
-const DEFAULT_SELECTION = ["2353", "950-HY", "L120E", "TM-204"];
-const DEFAULT_ANALYSES: AnalysisKey[] = ["usage", "energy", "co2", "contribution"];
+const DEFAULT_SELECTION_SIZE = 4;
+const DEFAULT_ANALYSES: AnalysisKey[] = ["usage", "idle", "distance", "contribution"];
 
-function addDays(date: Date, days: number) {
-  return new Date(date.getTime() + days * DAY_MS);
+function parseLocalDate(value: string) {
+  return new Date(`${value}T00:00:00`);
 }
 
-function startOfDay(date: Date) {
-  const next = new Date(date);
-  next.setHours(0, 0, 0, 0);
-  return next;
-}
-
-function endOfDay(date: Date) {
-  const next = new Date(date);
-  next.setHours(23, 59, 59, 999);
-  return next;
+function emptyTotals(): MachineAnalyticsTotals {
+  return { usageHours: 0, idleHours: 0, distanceKm: 0, activeDays: 0 };
 }
 
 function clamp(value: number, min: number, max: number) {
@@ -376,14 +217,8 @@ function formatHours(value: number) {
   return `${formatNumber(value, value >= 100 ? 0 : 1)} t`;
 }
 
-function formatEnergy(value: number) {
-  if (value >= 1000) return `${formatNumber(value / 1000, 1)} MWh`;
-  return `${formatNumber(value, 0)} kWh`;
-}
-
-function formatCo2(value: number) {
-  if (value >= 1000) return `${formatNumber(value / 1000, 1)} t CO2`;
-  return `${formatNumber(value, 0)} kg CO2`;
+function formatDistance(value: number) {
+  return `${formatNumber(value, value >= 100 ? 0 : 1)} km`;
 }
 
 function formatPercent(value: number, decimals = 1) {
@@ -446,126 +281,68 @@ function formatBucketCompactLabel(start: Date, end: Date, aggregationKey: Aggreg
   }).format(end);
 }
 
-function buildBuckets(
-  periodKey: PeriodKey,
-  aggregationKey: AggregationKey,
-  windowShift: number,
-): Bucket[] {
-  const periodConfig =
-    PERIOD_OPTIONS.find((option) => option.key === periodKey) ??
-    PERIOD_OPTIONS[2];
-  const totalDays = periodConfig.days;
-  const bucketDays =
-    aggregationKey === "day" ? 1 : aggregationKey === "week" ? 7 : 30;
-  const bucketCount = Math.max(1, Math.ceil(totalDays / bucketDays));
-  const shiftedEnd = endOfDay(addDays(REFERENCE_DATE, -(windowShift * totalDays)));
-  const windowStart = startOfDay(addDays(shiftedEnd, -(totalDays - 1)));
-  const buckets: Bucket[] = [];
-
-  for (let index = 0; index < bucketCount; index += 1) {
-    const start = startOfDay(addDays(windowStart, index * bucketDays));
-    if (start.getTime() > shiftedEnd.getTime()) break;
-    const end = endOfDay(
-      new Date(
-        Math.min(
-          addDays(start, bucketDays - 1).getTime(),
-          shiftedEnd.getTime(),
-        ),
-      ),
-    );
-
-    buckets.push({
-      key: `${periodKey}-${aggregationKey}-${windowShift}-${index}`,
-      label: formatBucketLabel(start, end, aggregationKey),
-      compactLabel: formatBucketCompactLabel(start, end, aggregationKey),
-      start,
-      end,
-      bucketDays:
-        Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1),
-    });
-  }
+// The API decides the bucket boundaries (local dates in Norway); we only add labels.
+function toBucket(bucket: MachineAnalyticsBucket, aggregationKey: AggregationKey): Bucket {
+  const start = parseLocalDate(bucket.start);
+  const end = parseLocalDate(bucket.end);
 
-  return buckets;
+  return {
+    key: bucket.key,
+    label: formatBucketLabel(start, end, aggregationKey),
+    compactLabel: formatBucketCompactLabel(start, end, aggregationKey),
+    start,
+    end,
+    bucketDays: bucket.days,
+  };
 }
 
-function buildSeriesPoint(machine: MachineDefinition, bucket: Bucket): SeriesPoint {
-  const timeIndex = Math.floor(bucket.start.getTime() / DAY_MS);
-  const seasonalLift =
-    0.85 +
-    0.16 * Math.sin(timeIndex / 5 + machine.seed * 0.7) +
-    0.09 * Math.cos(timeIndex / 13 + machine.seed * 0.35);
-  const projectPulse =
-    0.94 + 0.12 * Math.sin(timeIndex / 23 + machine.seed * 1.2);
-  const statusFactor =
-    machine.status === "I drift"
-      ? 1.08
-      : machine.status === "Lader"
-        ? 0.76
-        : machine.status === "Standby"
-          ? 0.68
-          : 0.44;
-  const dutyFactor = clamp(
-    seasonalLift * projectPulse * statusFactor,
-    0.24,
-    1.4,
-  );
-  const usageHours = machine.baseDailyHours * bucket.bucketDays * dutyFactor;
-  const idleRatio = clamp(
-    machine.idleRatio + 0.03 * Math.sin(timeIndex / 9 + machine.seed),
-    0.04,
-    0.35,
-  );
-  const idleHours = usageHours * idleRatio;
-  const operatingHours = usageHours + idleHours;
-  const energyMultiplier =
-    machine.powertrain === "Elektrisk"
-      ? 0.92
-      : machine.powertrain === "Hybrid"
-        ? 1.01
-        : 1.11;
-  const energyKwh = operatingHours * machine.energyPerHour * energyMultiplier;
-  const co2Kg = energyKwh * machine.co2PerKwh;
-  const electrificationFactor =
-    machine.powertrain === "Elektrisk"
-      ? 1
-      : machine.powertrain === "Hybrid"
-        ? 0.56
-        : 0.05;
+function toDashboardMachine(entry: MachineAnalyticsMachine): DashboardMachine {
+  const oem = entry.oem_name && entry.oem_name !== "N/A" ? entry.oem_name : "";
 
   return {
-    ...bucket,
-    usageHours,
-    idleHours,
-    energyKwh,
-    co2Kg,
-    electrifiedEnergyKwh: energyKwh * electrificationFactor,
+    id: String(entry.id),
+    name: entry.name,
+    oem,
+    category: entry.category,
+    activeAgreementId: entry.active_agreement_id ?? null,
+    customerName: entry.active_customer_name ?? null,
+    accent: getOemColor(oem),
+    lat: entry.lat,
+    lng: entry.lng,
+    lastReportedAt: entry.last_pos_reported_at,
+    totals: entry.totals,
+    previousTotals: entry.previousTotals,
+    seriesByBucket: new Map(entry.series.map(({ bucket, ...values }) => [bucket, values])),
   };
 }
 
-function buildMachineSeries(machine: MachineDefinition, buckets: Bucket[]) {
-  return buckets.map((bucket) => buildSeriesPoint(machine, bucket));
+function getMachineStatus(machine: DashboardMachine): MachineStatus {
+  if (!machine.lastReportedAt) return "Ingen signal";
+  return machine.totals.usageHours > 0 ? "I drift" : "Standby";
+}
+
+function isLocated(machine: DashboardMachine): machine is LocatedMachine {
+  return Number.isFinite(machine.lat) && Number.isFinite(machine.lng);
 }
 
-function buildFleetSeries(machines: MachineDefinition[], buckets: Bucket[]) {
+function buildMachineSeries(machine: DashboardMachine, buckets: Bucket[]): SeriesPoint[] {
+  return buckets.map((bucket) => ({
+    ...bucket,
+    ...(machine.seriesByBucket.get(bucket.key) ?? emptyTotals()),
+  }));
+}
+
+function buildFleetSeries(machines: DashboardMachine[], buckets: Bucket[]): SeriesPoint[] {
   return buckets.map((bucket) => {
-    const totals = machines.reduce(
-      (accumulator, machine) => {
-        const point = buildSeriesPoint(machine, bucket);
-        accumulator.usageHours += point.usageHours;
-        accumulator.idleHours += point.idleHours;
-        accumulator.energyKwh += point.energyKwh;
-        accumulator.co2Kg += point.co2Kg;
-        accumulator.electrifiedEnergyKwh += point.electrifiedEnergyKwh;
-        return accumulator;
-      },
-      {
-        usageHours: 0,
-        idleHours: 0,
-        energyKwh: 0,
-        co2Kg: 0,
-        electrifiedEnergyKwh: 0,
-      },
-    );
+    const totals = machines.reduce((accumulator, machine) => {
+      const point = machine.seriesByBucket.get(bucket.key);
+      if (!point) return accumulator;
+      accumulator.usageHours += point.usageHours;
+      accumulator.idleHours += point.idleHours;
+      accumulator.distanceKm += point.distanceKm;
+      accumulator.activeDays += point.activeDays;
+      return accumulator;
+    }, emptyTotals());
 
     return {
       ...bucket,
@@ -574,26 +351,35 @@ function buildFleetSeries(machines: MachineDefinition[], buckets: Bucket[]) {
   });
 }
 
+function sumPreviousTotals(machines: DashboardMachine[]) {
+  return machines.reduce((accumulator, machine) => {
+    accumulator.usageHours += machine.previousTotals.usageHours;
+    accumulator.idleHours += machine.previousTotals.idleHours;
+    accumulator.distanceKm += machine.previousTotals.distanceKm;
+    accumulator.activeDays += machine.previousTotals.activeDays;
+    return accumulator;
+  }, emptyTotals());
+}
+
 function summarizeSeries(series: SeriesPoint[]): FleetSummary {
   const totals = series.reduce(
     (accumulator, point) => {
       accumulator.totalUsageHours += point.usageHours;
       accumulator.totalIdleHours += point.idleHours;
-      accumulator.totalEnergyKwh += point.energyKwh;
-      accumulator.totalCo2Kg += point.co2Kg;
-      accumulator.totalElectrifiedEnergyKwh += point.electrifiedEnergyKwh;
+      accumulator.totalDistanceKm += point.distanceKm;
+      accumulator.totalActiveDays += point.activeDays;
 
       if (point.usageHours > accumulator.peakUsageHours) {
         accumulator.peakUsageHours = point.usageHours;
         accumulator.peakUsageLabel = point.compactLabel;
       }
-      if (point.energyKwh > accumulator.peakEnergyKwh) {
-        accumulator.peakEnergyKwh = point.energyKwh;
-        accumulator.peakEnergyLabel = point.compactLabel;
+      if (point.idleHours > accumulator.peakIdleHours) {
+        accumulator.peakIdleHours = point.idleHours;
+        accumulator.peakIdleLabel = point.compactLabel;
       }
-      if (point.co2Kg > accumulator.peakCo2Kg) {
-        accumulator.peakCo2Kg = point.co2Kg;
-        accumulator.peakCo2Label = point.compactLabel;
+      if (point.distanceKm > accumulator.peakDistanceKm) {
+        accumulator.peakDistanceKm = point.distanceKm;
+        accumulator.peakDistanceLabel = point.compactLabel;
       }
 
       return accumulator;
@@ -601,48 +387,30 @@ function summarizeSeries(series: SeriesPoint[]): FleetSummary {
     {
       totalUsageHours: 0,
       totalIdleHours: 0,
-      totalEnergyKwh: 0,
-      totalCo2Kg: 0,
-      totalElectrifiedEnergyKwh: 0,
+      totalDistanceKm: 0,
+      totalActiveDays: 0,
       peakUsageHours: 0,
       peakUsageLabel: "-",
-      peakEnergyKwh: 0,
-      peakEnergyLabel: "-",
-      peakCo2Kg: 0,
-      peakCo2Label: "-",
+      peakIdleHours: 0,
+      peakIdleLabel: "-",
+      peakDistanceKm: 0,
+      peakDistanceLabel: "-",
     },
   );
 
   const pointCount = Math.max(series.length, 1);
-  const dieselReferenceCo2 = totals.totalEnergyKwh * 0.78;
+  const runningHours = totals.totalUsageHours + totals.totalIdleHours;
 
   return {
-    totalUsageHours: totals.totalUsageHours,
-    totalIdleHours: totals.totalIdleHours,
-    totalEnergyKwh: totals.totalEnergyKwh,
-    totalCo2Kg: totals.totalCo2Kg,
+    ...totals,
     avgUsageHours: totals.totalUsageHours / pointCount,
-    avgEnergyKwh: totals.totalEnergyKwh / pointCount,
-    avgCo2Kg: totals.totalCo2Kg / pointCount,
-    idleShare:
-      totals.totalUsageHours > 0
-        ? totals.totalIdleHours / totals.totalUsageHours
-        : 0,
-    electrificationRate:
-      totals.totalEnergyKwh > 0
-        ? totals.totalElectrifiedEnergyKwh / totals.totalEnergyKwh
-        : 0,
-    avoidedCo2Kg: Math.max(dieselReferenceCo2 - totals.totalCo2Kg, 0),
-    peakUsageLabel: totals.peakUsageLabel,
-    peakUsageHours: totals.peakUsageHours,
-    peakEnergyLabel: totals.peakEnergyLabel,
-    peakEnergyKwh: totals.peakEnergyKwh,
-    peakCo2Label: totals.peakCo2Label,
-    peakCo2Kg: totals.peakCo2Kg,
+    avgIdleHours: totals.totalIdleHours / pointCount,
+    avgDistanceKm: totals.totalDistanceKm / pointCount,
+    idleShare: runningHours > 0 ? totals.totalIdleHours / runningHours : 0,
   };
 }
 
-function buildMachineRows(machines: MachineDefinition[], buckets: Bucket[]): MachineRow[] {
+function buildMachineRows(machines: DashboardMachine[], buckets: Bucket[]): MachineRow[] {
   return machines.map((machine) => ({
     machine,
     summary: summarizeSeries(buildMachineSeries(machine, buckets)),
@@ -650,14 +418,10 @@ function buildMachineRows(machines: MachineDefinition[], buckets: Bucket[]): Mac
 }
 
 function formatAxisMetric(metricKey: MetricKey, value: number) {
-  if (metricKey === "usageHours") {
-    return `${formatNumber(value, value >= 10 ? 0 : 1)} t`;
-  }
-  if (metricKey === "energyKwh") {
-    if (value >= 1000) return `${formatNumber(value / 1000, 1)} MWh`;
-    return `${formatNumber(value, 0)} kWh`;
+  if (metricKey === "distanceKm") {
+    return `${formatNumber(value, value >= 10 ? 0 : 1)} km`;
   }
-  return `${formatNumber(value, value >= 100 ? 0 : 1)} kg`;
+  return `${formatNumber(value, value >= 10 ? 0 : 1)} t`;
 }
 
 function getPointMetricValue(point: SeriesPoint, metricKey: MetricKey) {
@@ -666,14 +430,13 @@ function getPointMetricValue(point: SeriesPoint, metricKey: MetricKey) {
 
 function getSummaryMetricValue(summary: FleetSummary, metricKey: MetricKey) {
   if (metricKey === "usageHours") return summary.totalUsageHours;
-  if (metricKey === "energyKwh") return summary.totalEnergyKwh;
-  return summary.totalCo2Kg;
+  if (metricKey === "idleHours") return summary.totalIdleHours;
+  return summary.totalDistanceKm;
 }
 
 function formatMetricValue(metricKey: MetricKey, value: number) {
-  if (metricKey === "usageHours") return formatHours(value);
-  if (metricKey === "energyKwh") return formatEnergy(value);
-  return formatCo2(value);
+  if (metricKey === "distanceKm") return formatDistance(value);
+  return formatHours(value);
 }
 
 function truncateLabel(value: string, maxLength: number) {
@@ -697,14 +460,14 @@ function buildMetricCardData(
   metricKey: MetricKey,
   series: SeriesPoint[],
   summary: FleetSummary,
-  previousSummary: FleetSummary,
+  previousTotals: MachineAnalyticsTotals,
   aggregationLabel: string,
 ): MetricCardData {
   if (metricKey === "usageHours") {
     return {
       metricKey,
       title: "Driftstimer",
-      subtitle: `Driftstimer inkludert tomgang ${aggregationLabel}.`,
+      subtitle: `Timer med bevegelse eller fart ${aggregationLabel}, beregnet fra posisjonsdata.`,
       color: "#10B981",
       series,
       summaryLabel: "Peak",
@@ -712,46 +475,46 @@ function buildMetricCardData(
       footnotes: [
         { label: "Totalt", value: formatHours(summary.totalUsageHours) },
         { label: "Snitt", value: formatHours(summary.avgUsageHours) },
-        { label: "Tomgangsandel", value: formatPercent(summary.idleShare, 0) },
+        {
+          label: "Mot forrige",
+          value: buildChangeLabel(summary.totalUsageHours, previousTotals.usageHours),
+        },
       ],
     };
   }
 
-  if (metricKey === "energyKwh") {
+  if (metricKey === "idleHours") {
     return {
       metricKey,
-      title: "Energiforbruk",
-      subtitle: `Samlet energibruk ${aggregationLabel} for valgte maskiner.`,
-      color: "#0EA5E9",
+      title: "Tomgang",
+      subtitle: `Stillestående tid mellom arbeidsøkter ${aggregationLabel}.`,
+      color: "#F59E0B",
       series,
       summaryLabel: "Peak",
-      summaryValue: `${formatEnergy(summary.peakEnergyKwh)} • ${summary.peakEnergyLabel}`,
+      summaryValue: `${formatHours(summary.peakIdleHours)} • ${summary.peakIdleLabel}`,
       footnotes: [
-        { label: "Totalt", value: formatEnergy(summary.totalEnergyKwh) },
-        { label: "Snitt", value: formatEnergy(summary.avgEnergyKwh) },
-        {
-          label: "Mot forrige",
-          value: buildChangeLabel(
-            summary.totalEnergyKwh,
-            previousSummary.totalEnergyKwh,
-          ),
-        },
+        { label: "Totalt", value: formatHours(summary.totalIdleHours) },
+        { label: "Snitt", value: formatHours(summary.avgIdleHours) },
+        { label: "Tomgangsandel", value: formatPercent(summary.idleShare, 0) },
       ],
     };
   }
 
   return {
     metricKey,
-    title: "CO2-utslipp",
-    subtitle: `Estimert klimabelastning ${aggregationLabel} basert på dummydata.`,
-    color: "#F59E0B",
+    title: "Kjørelengde",
+    subtitle: `Tilbakelagt distanse ${aggregationLabel} for valgte maskiner.`,
+    color: "#0EA5E9",
     series,
     summaryLabel: "Peak",
-    summaryValue: `${formatCo2(summary.peakCo2Kg)} • ${summary.peakCo2Label}`,
+    summaryValue: `${formatDistance(summary.peakDistanceKm)} • ${summary.peakDistanceLabel}`,
     footnotes: [
-      { label: "Totalt", value: formatCo2(summary.totalCo2Kg) },
-      { label: "Snitt", value: formatCo2(summary.avgCo2Kg) },
-      { label: "Unngått", value: formatCo2(summary.avoidedCo2Kg) },
+      { label: "Totalt", value: formatDistance(summary.totalDistanceKm) },
+      { label: "Snitt", value: formatDistance(summary.avgDistanceKm) },
+      {
+        label: "Mot forrige",
+        value: buildChangeLabel(summary.totalDistanceKm, previousTotals.distanceKm),
+      },
     ],
   };
 }
@@ -915,22 +678,19 @@ function StatusBadge({
   status,
   inverted = false,
 }: {
-  status: MachineDefinition["status"];
+  status: MachineStatus;
   inverted?: boolean;
 }) {
   const tones = {
     "I drift": inverted
       ? "bg-emerald-400/20 text-emerald-100"
       : "bg-emerald-50 text-emerald-700",
-    Lader: inverted
-      ? "bg-blue-400/20 text-blue-100"
-      : "bg-blue-50 text-blue-700",
     Standby: inverted
       ? "bg-amber-400/20 text-amber-100"
       : "bg-amber-50 text-amber-700",
-    Service: inverted
-      ? "bg-rose-400/20 text-rose-100"
-      : "bg-rose-50 text-rose-700",
+    "Ingen signal": inverted
+      ? "bg-slate-400/20 text-slate-100"
+      : "bg-slate-100 text-slate-600",
   };
 
   return (
@@ -1015,7 +775,7 @@ function SelectedMachinesMiniMap({
   machines,
   blurred = false,
 }: {
-  machines: MachineDefinition[];
+  machines: LocatedMachine[];
   blurred?: boolean;
 }) {
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -1028,13 +788,12 @@ function SelectedMachinesMiniMap({
       ? `https://api.maptiler.com/maps/streets-v2/style.json?key=${MAPTILER_KEY}`
       : "https://demotiles.maplibre.org/style.json";
 
-    const viewportMachines = machines.length > 0 ? machines : DUMMY_MACHINES;
-    const firstMachine = viewportMachines[0];
+    const firstMachine = machines[0];
     const map = new maplibregl.Map({
       container: containerRef.current,
       style: styleUrl,
-      center: [firstMachine.lng, firstMachine.lat],
-      zoom: viewportMachines.length > 1 ? 9.4 : 11.5,
+      center: firstMachine ? [firstMachine.lng, firstMachine.lat] : DEFAULT_MAP_CENTER,
+      zoom: !firstMachine ? 5 : machines.length > 1 ? 9.4 : 11.5,
       attributionControl: false,
       hash: false,
       pitchWithRotate: false,
@@ -1047,12 +806,8 @@ function SelectedMachinesMiniMap({
     map.doubleClickZoom.disable();
     map.touchZoomRotate.disableRotation();
 
-    const bounds = new maplibregl.LngLatBounds(
-      [firstMachine.lng, firstMachine.lat],
-      [firstMachine.lng, firstMachine.lat],
-    );
-
-    viewportMachines.forEach((machine) => {
+    const bounds = new maplibregl.LngLatBounds();
+    machines.forEach((machine) => {
       bounds.extend([machine.lng, machine.lat]);
     });
 
@@ -1075,7 +830,7 @@ function SelectedMachinesMiniMap({
         .setLngLat([machine.lng, machine.lat])
         .addTo(map);
 
-      const popupContent = buildDummyMiniPopupContent(machine);
+      const popupContent = buildMiniPopupContent(machine);
       const popup = new maplibregl.Popup({
         offset: 12,
         closeButton: false,
@@ -1094,7 +849,7 @@ function SelectedMachinesMiniMap({
       return marker;
     });
 
-    if (viewportMachines.length > 1) {
+    if (machines.length > 1) {
       map.fitBounds(bounds, {
         padding: { top: 56, right: 56, bottom: 56, left: 56 },
         maxZoom: 11.5,
@@ -1179,7 +934,7 @@ function formatPopupValue(value?: string | number | null) {
   return text.length ? text : "-";
 }
 
-function buildDummyMiniPopupContent(machine: MachineDefinition) {
+function buildMiniPopupContent(machine: DashboardMachine) {
   const container = document.createElement("div");
   const categoryValue = formatPopupValue(machine.category);
   const agreementValue = formatPopupValue(machine.activeAgreementId);
@@ -1713,13 +1468,13 @@ function ContributionBarChart({
 function MachineContributionCard({
   rows,
   totalUsageHours,
-  totalEnergyKwh,
-  totalCo2Kg,
+  totalIdleHours,
+  totalDistanceKm,
 }: {
   rows: MachineRow[];
   totalUsageHours: number;
-  totalEnergyKwh: number;
-  totalCo2Kg: number;
+  totalIdleHours: number;
+  totalDistanceKm: number;
 }) {
   const [metricKey, setMetricKey] = useState<MetricKey>("usageHours");
   const sortedRows = [...rows].sort(
@@ -1730,23 +1485,23 @@ function MachineContributionCard({
   const totalValue =
     metricKey === "usageHours"
       ? totalUsageHours
-      : metricKey === "energyKwh"
-        ? totalEnergyKwh
-        : totalCo2Kg;
+      : metricKey === "idleHours"
+        ? totalIdleHours
+        : totalDistanceKm;
   const topRow = sortedRows[0];
   const averageValue = rows.length > 0 ? totalValue / rows.length : 0;
   const chartData: ContributionBarDatum[] = sortedRows.map((row) => ({
     id: row.machine.id,
     label: row.machine.name,
     shortLabel: row.machine.name,
-    subLabel: `${row.machine.category} • ${row.machine.location}`,
+    subLabel: [row.machine.category, row.machine.customerName].filter(Boolean).join(" • ") || row.machine.id,
     value: getSummaryMetricValue(row.summary, metricKey),
     color:
       metricKey === "usageHours"
         ? row.machine.accent
-        : metricKey === "energyKwh"
-          ? "#0EA5E9"
-          : "#F59E0B",
+        : metricKey === "idleHours"
+          ? "#F59E0B"
+          : "#0EA5E9",
   }));
 
   return (
@@ -1756,7 +1511,7 @@ function MachineContributionCard({
           <div>
             <h2 className="text-xl font-semibold text-slate-900">Maskinbidrag</h2>
             <p className="mt-1 text-sm text-slate-600">
-              Forslag til bar-chart-stil for å sammenligne valgte maskiner.
+              Sammenligner hvor mye hver valgte maskin står for i perioden.
             </p>
           </div>
 
@@ -1844,24 +1599,102 @@ function MachineContributionCard({
 export default function MachinesDashboard() {
   const [period, setPeriod] = useState<PeriodKey>("12w");
   const [aggregation, setAggregation] = useState<AggregationKey>("week");
-  const [selectedMachineIds, setSelectedMachineIds] =
-    useState<string[]>(DEFAULT_SELECTION);
+  // Null until the user picks machines themselves; until then the busiest machines are shown.
+  const [selectedMachineIds, setSelectedMachineIds] = useState<string[] | null>(null);
   const [selectedAnalyses, setSelectedAnalyses] =
     useState<AnalysisKey[]>(DEFAULT_ANALYSES);
+  const [analyticsState, setAnalyticsState] = useState<AnalyticsState>({
+    status: "loading",
+    data: null,
+    error: null,
+  });
+  const [reloadKey, setReloadKey] = useState(0);
 
-  const buckets = buildBuckets(period, aggregation, 0);
-  const previousBuckets = buildBuckets(period, aggregation, 1);
-  const allMachines = DUMMY_MACHINES;
-  const selectedMachines = allMachines.filter((machine) =>
-    selectedMachineIds.includes(machine.id),
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchAnalytics() {
+      // Keep the previous numbers on screen while the next period loads.
+      setAnalyticsState((prev) => ({ status: "loading", data: prev.data, error: null }));
+
+      try {
+        const params = new URLSearchParams({ period, aggregation });
+        const response = await fetch(`/api/machines/analytics?${params.toString()}`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as Partial<MachineAnalyticsData> & {
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok || !Array.isArray(payload.machines) || !Array.isArray(payload.buckets)) {
+          setAnalyticsState({
+            status: "error",
+            data: null,
+            error: payload.error ?? "Kunne ikke hente maskinanalyse",
+          });
+          return;
+        }
+
+        setAnalyticsState({
+          status: "ready",
+          data: payload as MachineAnalyticsData,
+          error: null,
+        });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente maskinanalyse";
+        setAnalyticsState({ status: "error", data: null, error: message });
+      }
+    }
+
+    fetchAnalytics();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [period, aggregation, reloadKey]);
+
+  const analytics = analyticsState.data;
+  const isLoading = analyticsState.status === "loading";
+
+  const buckets = useMemo(
+    () => (analytics?.buckets ?? []).map((bucket) => toBucket(bucket, analytics?.aggregation ?? "week")),
+    [analytics],
   );
+  const allMachines = useMemo(
+    () => (analytics?.machines ?? []).map((entry) => toDashboardMachine(entry)),
+    [analytics],
+  );
+  const defaultSelection = useMemo(
+    () =>
+      [...allMachines]
+        .sort((a, b) => b.totals.usageHours - a.totals.usageHours)
+        .slice(0, DEFAULT_SELECTION_SIZE)
+        .map((machine) => machine.id),
+    [allMachines],
+  );
+  const selectedIds = selectedMachineIds ?? defaultSelection;
+  const selectedMachines = useMemo(
+    () => allMachines.filter((machine) => selectedIds.includes(machine.id)),
+    [allMachines, selectedIds],
+  );
+  const mapMachines = useMemo(
+    () => selectedMachines.filter(isLocated),
+    [selectedMachines],
+  );
+
   const currentSeries = buildFleetSeries(selectedMachines, buckets);
-  const previousSeries = buildFleetSeries(selectedMachines, previousBuckets);
   const summary = summarizeSeries(currentSeries);
-  const previousSummary = summarizeSeries(previousSeries);
+  const previousTotals = sumPreviousTotals(selectedMachines);
   const filteredMachineRows = buildMachineRows(allMachines, buckets).sort((a, b) => {
-    const aSelected = selectedMachineIds.includes(a.machine.id) ? 1 : 0;
-    const bSelected = selectedMachineIds.includes(b.machine.id) ? 1 : 0;
+    const aSelected = selectedIds.includes(a.machine.id) ? 1 : 0;
+    const bSelected = selectedIds.includes(b.machine.id) ? 1 : 0;
     if (aSelected !== bSelected) return bSelected - aSelected;
     return b.summary.totalUsageHours - a.summary.totalUsageHours;
   });
@@ -1870,6 +1703,11 @@ export default function MachinesDashboard() {
     (a, b) => b.summary.totalUsageHours - a.summary.totalUsageHours,
   );
   const selectedMachineCount = selectedMachines.length;
+  const periodDays = buckets.reduce((sum, bucket) => sum + bucket.bucketDays, 0);
+  const utilisationRate =
+    selectedMachineCount > 0 && periodDays > 0
+      ? summary.totalActiveDays / (selectedMachineCount * periodDays)
+      : 0;
   const aggregationLabel =
     AGGREGATION_OPTIONS.find((option) => option.key === aggregation)
       ?.unitLabel ?? "per uke";
@@ -1878,24 +1716,33 @@ export default function MachinesDashboard() {
     "usageHours",
     currentSeries,
     summary,
-    previousSummary,
+    previousTotals,
     aggregationLabel,
   );
-  const energyMetric = buildMetricCardData(
-    "energyKwh",
+  const idleMetric = buildMetricCardData(
+    "idleHours",
     currentSeries,
     summary,
-    previousSummary,
+    previousTotals,
     aggregationLabel,
   );
-  const co2Metric = buildMetricCardData(
-    "co2Kg",
+  const distanceMetric = buildMetricCardData(
+    "distanceKm",
     currentSeries,
     summary,
-    previousSummary,
+    previousTotals,
     aggregationLabel,
   );
 
+  const toggleMachine = (machineId: string) => {
+    setSelectedMachineIds((prev) => {
+      const current = prev ?? defaultSelection;
+      return current.includes(machineId)
+        ? current.filter((id) => id !== machineId)
+        : [...current, machineId];
+    });
+  };
+
   const toggleAnalysis = (analysisKey: AnalysisKey) => {
     setSelectedAnalyses((prev) =>
       prev.includes(analysisKey)
@@ -1908,11 +1755,11 @@ export default function MachinesDashboard() {
   if (selectedAnalyses.includes("usage")) {
     dashboardCards.push(<MetricTrendCard key="usage" {...usageMetric} />);
   }
-  if (selectedAnalyses.includes("energy")) {
-    dashboardCards.push(<MetricTrendCard key="energy" {...energyMetric} />);
+  if (selectedAnalyses.includes("idle")) {
+    dashboardCards.push(<MetricTrendCard key="idle" {...idleMetric} />);
   }
-  if (selectedAnalyses.includes("co2")) {
-    dashboardCards.push(<MetricTrendCard key="co2" {...co2Metric} />);
+  if (selectedAnalyses.includes("distance")) {
+    dashboardCards.push(<MetricTrendCard key="distance" {...distanceMetric} />);
   }
   if (selectedAnalyses.includes("contribution")) {
     dashboardCards.push(
@@ -1920,8 +1767,8 @@ export default function MachinesDashboard() {
         key="contribution"
         rows={selectedMachineRows}
         totalUsageHours={summary.totalUsageHours}
-        totalEnergyKwh={summary.totalEnergyKwh}
-        totalCo2Kg={summary.totalCo2Kg}
+        totalIdleHours={summary.totalIdleHours}
+        totalDistanceKm={summary.totalDistanceKm}
       />,
     );
   }
@@ -1930,6 +1777,27 @@ export default function MachinesDashboard() {
     <div className="space-y-6">
       <SectionDivider label="Input" />
 
+      {analyticsState.status === "error" ? (
+        <section className="flex flex-col gap-3 rounded-[24px] border border-rose-200 bg-rose-50 px-5 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start gap-3">
+            <IconAlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-rose-600" />
+            <div>
+              <p className="text-sm font-semibold text-rose-900">
+                Kunne ikke hente maskindata
+              </p>
+              <p className="mt-1 text-sm text-rose-700">{analyticsState.error}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setReloadKey((key) => key + 1)}
+            className="cursor-pointer rounded-full border border-rose-300 bg-white px-3.5 py-2 text-sm font-semibold text-rose-700 transition hover:bg-rose-100"
+          >
+            Prøv igjen
+          </button>
+        </section>
+      ) : null}
+
       <section className="grid gap-6 xl:grid-cols-[1.12fr_0.88fr]">
         <section className="rounded-[26px] border border-slate-200 bg-white shadow-sm">
           <div className="border-b border-slate-100 px-6 py-5">
@@ -1949,18 +1817,24 @@ export default function MachinesDashboard() {
           <div className="px-4 py-4">
             <div className="h-[22rem] overflow-y-auto pr-1">
               <div className="space-y-2.5">
-                {filteredMachineRows.length === 0 ? (
+                {filteredMachineRows.length === 0 && isLoading ? (
+                  <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50 px-5 py-10 text-center">
+                    <p className="text-sm font-semibold text-slate-700">
+                      Henter maskiner…
+                    </p>
+                  </div>
+                ) : filteredMachineRows.length === 0 ? (
                   <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50 px-5 py-10 text-center">
                     <p className="text-sm font-semibold text-slate-700">
                       Ingen maskiner tilgjengelig.
                     </p>
                     <p className="mt-2 text-sm text-slate-500">
-                      Ingen maskiner tilgjengelig i denne prototypen.
+                      Ingen maskiner er knyttet til avtalene dine ennå.
                     </p>
                   </div>
                 ) : (
                   filteredMachineRows.map((row) => {
-                    const selected = selectedMachineIds.includes(row.machine.id);
+                    const selected = selectedIds.includes(row.machine.id);
                     return (
                       <div
                         key={row.machine.id}
@@ -1978,13 +1852,7 @@ export default function MachinesDashboard() {
                                 ? `Fjern ${row.machine.name} fra utvalget`
                                 : `Legg til ${row.machine.name} i utvalget`
                             }
-                            onClick={() =>
-                              setSelectedMachineIds((prev) =>
-                                prev.includes(row.machine.id)
-                                  ? prev.filter((id) => id !== row.machine.id)
-                                  : [...prev, row.machine.id],
-                              )
-                            }
+                            onClick={() => toggleMachine(row.machine.id)}
                             className={`flex h-5 w-5 shrink-0 cursor-pointer items-center justify-center rounded-md border transition ${
                               selected
                                 ? "border-emerald-200 bg-emerald-500 text-white"
@@ -2008,14 +1876,14 @@ export default function MachinesDashboard() {
                               >
                                 {row.machine.name}
                               </span>
-                              <StatusBadge status={row.machine.status} />
+                              <StatusBadge status={getMachineStatus(row.machine)} />
                             </div>
                             <p
                               className={`truncate text-[11px] ${
                                 selected ? "text-slate-500" : "text-slate-400"
                               }`}
                             >
-                              {row.machine.category}
+                              {row.machine.category ?? "Ukjent kategori"}
                             </p>
                           </div>
 
@@ -2026,8 +1894,8 @@ export default function MachinesDashboard() {
                               selected={selected}
                             />
                             <MachineRowMetric
-                              label="Energi"
-                              value={formatEnergy(row.summary.totalEnergyKwh)}
+                              label="Tomgang"
+                              value={formatHours(row.summary.totalIdleHours)}
                               selected={selected}
                             />
                           </div>
@@ -2045,7 +1913,7 @@ export default function MachinesDashboard() {
           <div className="min-h-[22rem] flex-1 overflow-hidden rounded-[24px] border border-slate-200 shadow-inner">
             <div className="relative h-full w-full">
               <SelectedMachinesMiniMap
-                machines={selectedMachineRows.map((row) => row.machine)}
+                machines={mapMachines}
                 blurred={selectedMachineRows.length === 0}
               />
               {selectedMachineRows.length === 0 ? (
@@ -2120,43 +1988,43 @@ export default function MachinesDashboard() {
           value={formatHours(summary.totalUsageHours)}
           helper={buildChangeLabel(
             summary.totalUsageHours,
-            previousSummary.totalUsageHours,
+            previousTotals.usageHours,
           )}
           accentClass="bg-emerald-500"
           iconWrapClass="bg-emerald-50"
         />
         <KpiCard
-          icon={<IconBolt className="h-5 w-5 text-sky-600" />}
-          label="Energibruk"
-          value={formatEnergy(summary.totalEnergyKwh)}
+          icon={<IconPlayerPause className="h-5 w-5 text-amber-600" />}
+          label="Tomgang"
+          value={formatHours(summary.totalIdleHours)}
+          helper={`${formatPercent(summary.idleShare, 0)} tomgangsandel`}
+          accentClass="bg-amber-500"
+          iconWrapClass="bg-amber-50"
+        />
+        <KpiCard
+          icon={<IconRoute className="h-5 w-5 text-sky-600" />}
+          label="Kjørelengde"
+          value={formatDistance(summary.totalDistanceKm)}
           helper={buildChangeLabel(
-            summary.totalEnergyKwh,
-            previousSummary.totalEnergyKwh,
+            summary.totalDistanceKm,
+            previousTotals.distanceKm,
           )}
           accentClass="bg-sky-500"
           iconWrapClass="bg-sky-50"
         />
         <KpiCard
-          icon={<IconLeaf className="h-5 w-5 text-amber-600" />}
-          label="CO2-utslipp"
-          value={formatCo2(summary.totalCo2Kg)}
-          helper={`${formatPercent(summary.idleShare, 0)} tomgangsandel`}
-          accentClass="bg-amber-500"
-          iconWrapClass="bg-amber-50"
-        />
-        <KpiCard
-          icon={<IconChartAreaLine className="h-5 w-5 text-violet-600" />}
+          icon={<IconGauge className="h-5 w-5 text-violet-600" />}
           label={
             <span
               lang="nb"
               className="block whitespace-normal break-normal"
               style={{ hyphens: "auto", WebkitHyphens: "auto" }}
             >
-              Elektrifiseringsgrad
+              Utnyttelsesgrad
             </span>
           }
-          value={formatPercent(summary.electrificationRate, 0)}
-          helper={`${formatCo2(summary.avoidedCo2Kg)} spart mot dieselreferanse`}
+          value={formatPercent(utilisationRate, 0)}
+          helper={`${formatNumber(summary.totalActiveDays)} aktive maskindager`}
           accentClass="bg-violet-500"
           iconWrapClass="bg-violet-50"
         />
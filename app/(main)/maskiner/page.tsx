@@ -7,7 +7,7 @@ export default function MaskinerPage() {
         <div>
           <h1 className="text-3xl font-semibold text-slate-900">Maskiner</h1>
           <p className="mt-2 text-slate-600">
-            Velg maskiner og analyseoppsett for å se et samlet dashboard for drift, energi og utslipp.
+            Velg maskiner og analyseoppsett for å se et samlet dashboard for drift, tomgang og kjørelengde.
           </p>
         </div>
       </header>
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { IconCalendarEvent, IconCopy } from "@tabler/icons-react";
+import { destructiveButtonClass, standardButtonClass } from "@/lib/buttonStyles";
+import { formatDate } from "@/lib/formatters";
+import type { CalendarFeedStatus } from "@/lib/calendar-feed";
+
+export default function CalendarFeedSection({
+  initialStatus,
+}: {
+  initialStatus: CalendarFeedStatus | null;
+}) {
+  const [status, setStatus] = useState(initialStatus);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!status) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white px-6 py-6 text-sm text-slate-600 shadow-sm">
+        Kunne ikke hente kalenderinnstillingene akkurat nå.
+      </section>
+    );
+  }
+
+  async function createLink() {
+    if (
+      status?.active &&
+      !window.confirm("Den gamle lenken slutter å virke, og må byttes ut i kalenderen din. Fortsette?")
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setCopied(false);
+
+    try {
+      const response = await fetch("/api/profile/calendar", { method: "POST" });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke lage kalenderlenke");
+      }
+
+      setStatus(payload.status as CalendarFeedStatus);
+      setFeedUrl(`${window.location.origin}${payload.path as string}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Kunne ikke lage kalenderlenke");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function revokeLink() {
+    if (!window.confirm("Kalenderen din slutter å oppdateres med avtaler. Slette lenken?")) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/profile/calendar", { method: "DELETE" });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke slette kalenderlenken");
+      }
+
+      setStatus({ active: false, createdAt: null, lastUsedAt: null });
+      setFeedUrl(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Kunne ikke slette kalenderlenken");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function copyLink() {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      setError("Kunne ikke kopiere lenken. Marker og kopier den manuelt.");
+    }
+  }
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-start gap-3 px-6 py-4">
+        <IconCalendarEvent className="h-5 w-5 shrink-0 text-slate-400" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-sm font-semibold text-slate-900">Kalenderabonnement</p>
+          <p className="text-xs text-slate-500">
+            {status.active
+              ? `Aktiv lenke laget ${formatDate(status.createdAt) ?? "-"}${
+                  status.lastUsedAt ? `, sist hentet ${formatDate(status.lastUsedAt)}` : ", ikke hentet ennå"
+                }.`
+              : "Legg til start- og sluttdatoer for avtalene dine i Outlook eller Google Kalender."}
+          </p>
+        </div>
+      </div>
+
+      {feedUrl ? (
+        <div className="space-y-2 border-t border-slate-100 px-6 py-4">
+          <p className="text-xs text-slate-600">
+            Lim inn lenken under «Legg til kalender fra URL» i kalenderen din. Den vises bare nå, og alle som
+            har den kan se avtalene dine.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(event) => event.target.select()}
+              className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 font-mono text-xs text-slate-700"
+            />
+            <button
+              type="button"
+              onClick={copyLink}
+              className="inline-flex cursor-pointer items-center gap-1 rounded-lg border border-slate-200 px-3 py-2 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+            >
+              <IconCopy className="h-4 w-4" />
+              {copied ? "Kopiert" : "Kopier"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 bg-slate-50 px-6 py-4">
+        <button type="button" onClick={createLink} disabled={saving} className={standardButtonClass}>
+          {status.active ? "Lag ny lenke" : "Lag kalenderlenke"}
+        </button>
+        {status.active ? (
+          <button type="button" onClick={revokeLink} disabled={saving} className={destructiveButtonClass}>
+            Slett lenke
+          </button>
+        ) : null}
+      </div>
+      {error && (
+        <div className="border-t border-slate-100 px-6 py-3 text-sm text-rose-600">{error}</div>
+      )}
+    </section>
+  );
+}
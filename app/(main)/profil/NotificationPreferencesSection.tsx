@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { IconMail, IconMessage } from "@tabler/icons-react";
+import type { NotificationPreferences } from "@/lib/notifications";
+
+type PreferenceKey = "emailEnabled" | "smsEnabled";
+
+export default function NotificationPreferencesSection({
+  initialPreferences,
+}: {
+  initialPreferences: NotificationPreferences | null;
+}) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [savingKey, setSavingKey] = useState<PreferenceKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!preferences) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white px-6 py-6 text-sm text-slate-600 shadow-sm">
+        Kunne ikke hente varslingsinnstillingene akkurat nå.
+      </section>
+    );
+  }
+
+  async function toggle(key: PreferenceKey) {
+    if (!preferences) return;
+    const nextValue = !preferences[key];
+
+    setSavingKey(key);
+    setError(null);
+    setPreferences({ ...preferences, [key]: nextValue });
+
+    try {
+      const response = await fetch("/api/profile/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [key]: nextValue }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke lagre varslingsinnstillinger");
+      }
+
+      setPreferences(payload.preferences as NotificationPreferences);
+    } catch (err) {
+      setPreferences((prev) => (prev ? { ...prev, [key]: !nextValue } : prev));
+      setError(err instanceof Error ? err.message : "Kunne ikke lagre varslingsinnstillinger");
+    } finally {
+      setSavingKey(null);
+    }
+  }
+
+  const channels = [
+    {
+      key: "emailEnabled" as const,
+      icon: <IconMail className="h-5 w-5 text-slate-400" />,
+      label: "E-post",
+      target: preferences.email,
+      missing: "Du har ingen e-postadresse registrert, så vi kan ikke sende e-post.",
+    },
+    {
+      key: "smsEnabled" as const,
+      icon: <IconMessage className="h-5 w-5 text-slate-400" />,
+      label: "SMS",
+      target: preferences.phone,
+      missing: "Du har ikke registrert telefonnummer, så vi kan ikke sende SMS.",
+    },
+  ];
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <ul className="divide-y divide-slate-100">
+        {channels.map((channel) => {
+          const enabled = preferences[channel.key];
+          return (
+            <li key={channel.key} className="flex items-center justify-between gap-4 px-6 py-4">
+              <div className="flex items-start gap-3">
+                {channel.icon}
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">{channel.label}</p>
+                  <p className="mt-0.5 text-xs text-slate-500">
+                    {channel.target ? `Sendes til ${channel.target}` : channel.missing}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={enabled}
+                aria-label={`${channel.label}-varsler`}
+                onClick={() => toggle(channel.key)}
+                disabled={savingKey !== null}
+                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full transition disabled:cursor-not-allowed disabled:opacity-60 ${
+                  enabled ? "bg-slate-900" : "bg-slate-200"
+                }`}
+              >
+                <span
+                  className={`inline-block h-5 w-5 rounded-full bg-white shadow transition ${
+                    enabled ? "translate-x-5" : "translate-x-0.5"
+                  }`}
+                />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {error && (
+        <div className="border-t border-slate-100 px-6 py-3 text-sm text-rose-600">{error}</div>
+      )}
+    </section>
+  );
+}
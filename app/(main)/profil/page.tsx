@@ -21,6 +21,10 @@ import {
 } from "@/lib/formatters";
 import ProfileCompaniesSection from "./ProfileCompaniesSection";
 import ProfileActions from "./ProfileActions";
+import NotificationPreferencesSection from "./NotificationPreferencesSection";
+import CalendarFeedSection from "./CalendarFeedSection";
+import { getNotificationPreferences } from "@/lib/notifications";
+import { getCalendarFeedStatus } from "@/lib/calendar-feed";
 import type { CompanyCardState } from "./profileTypes";
 
 const GLOBAL_ADMIN_TEST_COMPANY_IDS = [2228, 1075] as const;
@@ -73,6 +77,7 @@ export default async function ProfilPage() {
 
   const role = typeof user.role === "string" ? user.role : null;
   const isGlobalAdmin = role?.toLowerCase() === "super_admin";
+  const canSubscribeToCalendar = isGlobalAdmin || role === "customer";
   const userAccessesRaw = user.accesses;
   const sessionAccesses: SessionAccessEntry[] = Array.isArray(userAccessesRaw)
     ? (userAccessesRaw as SessionAccessEntry[])
@@ -196,6 +201,34 @@ export default async function ProfilPage() {
           </section>
         </div>
 
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">Varsler</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Velg hvordan vi kan nå deg om nye tilganger, avtaler som løper ut og andre hendelser.
+            </p>
+          </div>
+
+          <Suspense fallback={<NotificationPreferencesLoading />}>
+            <NotificationPreferencesServer userId={user.id} />
+          </Suspense>
+        </div>
+
+        {canSubscribeToCalendar && (
+          <div className="space-y-3">
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900">Kalender</h2>
+              <p className="mt-1 text-sm text-slate-600">
+                Abonner på avtaleperiodene dine i Outlook eller Google Kalender med en personlig lenke.
+              </p>
+            </div>
+
+            <Suspense fallback={<CalendarFeedLoading />}>
+              <CalendarFeedServer userId={user.id} />
+            </Suspense>
+          </div>
+        )}
+
         <div className="space-y-3">
           <div>
             <h2 className="text-xl font-semibold text-slate-900">Selskapsprofil</h2>
@@ -258,6 +291,50 @@ async function ProfileCompaniesSectionServer({
   );
 }
 
+async function NotificationPreferencesServer({ userId }: { userId: string }) {
+  let preferences = null;
+  try {
+    preferences = await getNotificationPreferences(userId);
+  } catch (error) {
+    console.error(`Failed to load notification preferences for user ${userId}`, error);
+  }
+
+  return <NotificationPreferencesSection initialPreferences={preferences} />;
+}
+
+function NotificationPreferencesLoading() {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center gap-3 px-6 py-6 text-sm text-slate-600">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+        Laster varslingsinnstillinger...
+      </div>
+    </section>
+  );
+}
+
+async function CalendarFeedServer({ userId }: { userId: string }) {
+  let status = null;
+  try {
+    status = await getCalendarFeedStatus(userId);
+  } catch (error) {
+    console.error(`Failed to load calendar feed for user ${userId}`, error);
+  }
+
+  return <CalendarFeedSection initialStatus={status} />;
+}
+
+function CalendarFeedLoading() {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center gap-3 px-6 py-6 text-sm text-slate-600">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-blue-600" />
+        Laster kalenderinnstillinger...
+      </div>
+    </section>
+  );
+}
+
 function ProfileCompaniesLoading() {
   return (
     <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listAgreementHistory } from "@/lib/agreement-history";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ agreementId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "super_admin" && role !== "customer") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { agreementId } = await params;
+  if (!agreementId || !/^\d+$/.test(agreementId)) {
+    return NextResponse.json({ error: "Ugyldig avtale-id" }, { status: 400 });
+  }
+
+  try {
+    const history = await listAgreementHistory(agreementId, {
+      userId: session.user.id,
+      isAdmin: role === "super_admin",
+    });
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error(`Failed to load history for agreement ${agreementId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente historikk" },
+      { status: 500 },
+    );
+  }
+}
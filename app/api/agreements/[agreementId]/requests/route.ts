@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { fetchAgreementsForUser } from "@/lib/agreements";
+import {
+  createRentalRequest,
+  listRentalRequestsForAgreement,
+  parseRentalRequestInput,
+} from "@/lib/rental-requests";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ agreementId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { agreementId } = await params;
+  if (!agreementId || !/^\d+$/.test(agreementId)) {
+    return NextResponse.json({ error: "Ugyldig avtale-id" }, { status: 400 });
+  }
+
+  try {
+    const requests = await listRentalRequestsForAgreement(agreementId, {
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error(`Failed to list rental requests for agreement ${agreementId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente forespørsler" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ agreementId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "super_admin" && role !== "customer") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { agreementId } = await params;
+  if (!agreementId || !/^\d+$/.test(agreementId)) {
+    return NextResponse.json({ error: "Ugyldig avtale-id" }, { status: 400 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const parsed = parseRentalRequestInput(payload);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // The agreement is looked up through the same API call as /avtaler, so customers can
+  // only raise requests for agreements they can see.
+  let agreement;
+  try {
+    const agreements = await fetchAgreementsForUser(session.user.id, role);
+    agreement = agreements.find((entry) => entry.id === agreementId);
+  } catch (error) {
+    console.error(`Failed to fetch agreement ${agreementId} for rental request`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente avtalen" },
+      { status: 502 },
+    );
+  }
+
+  if (!agreement) {
+    return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+  }
+
+  try {
+    const result = await createRentalRequest(agreement, parsed.input, {
+      userId: session.user.id,
+      name: session.user.name ?? null,
+    });
+
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (result.status === "pending_exists") {
+      return NextResponse.json(
+        { error: "Det finnes allerede en ubehandlet forespørsel av denne typen for avtalen" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ request: result.request }, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to create rental request for agreement ${agreementId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke sende forespørselen" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  createBookingRequest,
+  listBookingRequests,
+  parseBookingRequestInput,
+} from "@/lib/booking-requests";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const requests = await listBookingRequests({
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error("Failed to list booking requests", error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente bestillinger" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "super_admin" && role !== "customer") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const parsed = parseBookingRequestInput(payload);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await createBookingRequest(parsed.input, {
+      userId: session.user.id,
+      isAdmin: role === "super_admin",
+      name: session.user.name ?? null,
+    });
+
+    if (result.status === "forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ request: result.request }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create booking request", error);
+    return NextResponse.json(
+      { error: "Kunne ikke sende bestillingen" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { fetchAgreementsForUser } from "@/lib/agreements";
+import { renderAgreementsCalendar, resolveCalendarFeedToken } from "@/lib/calendar-feed";
+
+// Calendar clients cannot hold a session, so this route is exempt from the login
+// redirect in middleware.ts and authenticates with the secret token in the URL.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token: rawToken } = await params;
+  const token = (rawToken ?? "").replace(/\.ics$/i, "");
+
+  let owner;
+  try {
+    owner = await resolveCalendarFeedToken(token);
+  } catch (error) {
+    console.error("Failed to resolve calendar feed token", error);
+    return NextResponse.json({ error: "Kunne ikke hente kalenderen" }, { status: 500 });
+  }
+
+  if (!owner) {
+    return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+  }
+
+  if (owner.role !== "super_admin" && owner.role !== "customer") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const agreements = await fetchAgreementsForUser(owner.userId, owner.role);
+    const body = renderAgreementsCalendar(agreements);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="bjugstad-avtaler.ics"',
+        "Cache-Control": "private, no-store",
+        "X-Robots-Tag": "noindex",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to build calendar feed for user ${owner.userId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente avtaler" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getFileStorage } from "@/lib/file-storage";
+import {
+  canDisplayCustomerAttachmentInline,
+  deleteCustomerAttachment,
+  getCustomerAttachmentFile,
+} from "@/lib/customer-attachments";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ attachmentId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { attachmentId } = await params;
+  if (!/^\d+$/.test(attachmentId ?? "")) {
+    return NextResponse.json({ error: "Ugyldig fil-id" }, { status: 400 });
+  }
+
+  try {
+    const attachment = await getCustomerAttachmentFile(attachmentId, {
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    if (!attachment) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+
+    const file = await getFileStorage().get(attachment.storageKey);
+    if (!file) {
+      return NextResponse.json({ error: "Filen finnes ikke lenger" }, { status: 404 });
+    }
+
+    const fileName = attachment.fileName.replace(/[\\/\r\n"]/g, "_");
+    const disposition = canDisplayCustomerAttachmentInline(attachment.contentType) ? "inline" : "attachment";
+    const headers = new Headers();
+    headers.set("Content-Type", attachment.contentType);
+    headers.set(
+      "Content-Disposition",
+      `${disposition}; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    );
+    headers.set("Cache-Control", "private, max-age=3600");
+    headers.set("X-Content-Type-Options", "nosniff");
+    if (file.size != null) {
+      headers.set("Content-Length", String(file.size));
+    }
+
+    return new NextResponse(file.body, { status: 200, headers });
+  } catch (error) {
+    console.error(`Failed to fetch customer attachment ${attachmentId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente filen" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ attachmentId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { attachmentId } = await params;
+  if (!/^\d+$/.test(attachmentId ?? "")) {
+    return NextResponse.json({ error: "Ugyldig fil-id" }, { status: 400 });
+  }
+
+  try {
+    const result = await deleteCustomerAttachment(attachmentId, {
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    if (result === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result === "forbidden") {
+      return NextResponse.json(
+        { error: "Du kan bare slette filer du har lastet opp selv" },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(`Failed to delete customer attachment ${attachmentId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke slette filen" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { enqueueNotification } from "@/lib/notifications";
 
 export async function GET(
   _request: Request,
@@ -123,6 +124,11 @@ export async function PATCH(
   }
 
   try {
+    const previous = await prisma.userCustomerAccess.findMany({
+      where: { customerId },
+      select: { userId: true },
+    });
+
     await prisma.$transaction([
       prisma.userCustomerAccess.deleteMany({
         where: { customerId },
@@ -140,6 +146,12 @@ export async function PATCH(
         : []),
     ]);
 
+    await notifyNewAccesses(
+      customerId,
+      normalized.filter((entry) => !previous.some((access) => access.userId === entry.userId)),
+      session.user.name ?? null,
+    );
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error(
@@ -152,3 +164,40 @@ export async function PATCH(
     );
   }
 }
+
+// Role changes and removals are not announced; only users who just got access are told.
+async function notifyNewAccesses(
+  customerId: number,
+  granted: UpdateAccess[],
+  grantedBy: string | null,
+) {
+  if (!granted.length) return;
+
+  try {
+    const [customer, users] = await Promise.all([
+      prisma.customer.findUnique({
+        where: { customer_id: customerId },
+        select: { name: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: granted.map((entry) => entry.userId) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    for (const entry of granted) {
+      await enqueueNotification({
+        userId: entry.userId,
+        template: "access_granted",
+        data: {
+          name: users.find((user) => user.id === entry.userId)?.name ?? null,
+          customerName: customer?.name ?? `kunde ${customerId}`,
+          role: entry.role,
+          grantedBy,
+        },
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to notify new accesses for customer ${customerId}`, error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listBookingContactPersons } from "@/lib/booking-requests";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ customerId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const resolvedParams = await params;
+  const customerId = Number.parseInt(resolvedParams.customerId, 10);
+  if (!Number.isInteger(customerId) || customerId <= 0) {
+    return NextResponse.json({ error: "Ugyldig kunde-id" }, { status: 400 });
+  }
+
+  try {
+    const contactPersons = await listBookingContactPersons(customerId, {
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    if (!contactPersons) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json({ contactPersons });
+  } catch (error) {
+    console.error(`Failed to list contact persons for customer ${customerId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente kontaktpersoner" },
+      { status: 500 },
+    );
+  }
+}
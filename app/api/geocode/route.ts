@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { geocodeAddress } from "@/lib/geocoding";
+
+export async function GET(request: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const search = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  if (search.length < 3) {
+    return NextResponse.json({ results: [] });
+  }
+  if (search.length > 200) {
+    return NextResponse.json({ error: "Søket er for langt" }, { status: 400 });
+  }
+
+  try {
+    const results = await geocodeAddress(search);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Failed to geocode address", error);
+    return NextResponse.json(
+      { error: "Kunne ikke slå opp adressen" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getGeofenceForUser, listGeofenceEvents } from "@/lib/geofences";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ geofenceId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { geofenceId } = await params;
+  if (!geofenceId || !/^\d+$/.test(geofenceId)) {
+    return NextResponse.json({ error: "Ugyldig geofence-id" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGeofenceForUser(session.user, geofenceId);
+    if (access.status === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+
+    const events = await listGeofenceEvents(session.user, geofenceId);
+    return NextResponse.json({ geofence: access.geofence, events });
+  } catch (error) {
+    console.error(`Failed to fetch events for geofence ${geofenceId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente hendelser for geofence" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { deleteGeofence } from "@/lib/geofences";
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ geofenceId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { geofenceId } = await params;
+  if (!geofenceId || !/^\d+$/.test(geofenceId)) {
+    return NextResponse.json({ error: "Ugyldig geofence-id" }, { status: 400 });
+  }
+
+  try {
+    const result = await deleteGeofence(session.user, geofenceId);
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result.status === "forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(`Failed to delete geofence ${geofenceId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke slette geofence" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createGeofence, listGeofencesForUser, parseGeofenceInput } from "@/lib/geofences";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const geofences = await listGeofencesForUser(session.user);
+    return NextResponse.json({ geofences });
+  } catch (error) {
+    console.error("Failed to list geofences", error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente geofencer" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const parsed = parseGeofenceInput(payload);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await createGeofence(
+      session.user,
+      parsed.input,
+      session.user.name ?? session.user.id ?? null,
+    );
+
+    if (result.status === "forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (result.status === "invalid") {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ geofence: result.geofence }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create geofence", error);
+    return NextResponse.json(
+      { error: "Kunne ikke lagre geofence" },
+      { status: 500 },
+    );
+  }
+}
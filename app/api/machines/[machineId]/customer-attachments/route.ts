@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listMachineAgreements, resolveMachineAccess } from "@/lib/machine-access";
+import {
+  createCustomerAttachments,
+  listMachineCustomerAttachments,
+  parseCustomerAttachmentForm,
+} from "@/lib/customer-attachments";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  try {
+    const attachments = await listMachineCustomerAttachments(normalizedId, {
+      userId: session.user.id,
+      isAdmin: role === "super_admin",
+    });
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error(`Failed to list customer attachments for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente opplastede filer" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig skjema" }, { status: 400 });
+  }
+
+  const parsed = parseCustomerAttachmentForm(form);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // Files always belong to an agreement that includes the machine. Customers can upload
+  // against their active agreements; super admins against any of them.
+  let agreement;
+  try {
+    const access = await resolveMachineAccess(session.user, normalizedId, {
+      includeHistorical: true,
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const agreements = await listMachineAgreements(session.user, normalizedId);
+    agreement = agreements.find((entry) => entry.id === parsed.input.agreementId);
+    if (!agreement || (!access.isAdmin && !agreement.isActive)) {
+      return NextResponse.json(
+        { error: "Avtalen gjelder ikke denne maskinen" },
+        { status: 400 },
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
+  try {
+    const result = await createCustomerAttachments(
+      normalizedId,
+      parsed.input,
+      { id: agreement.id, customerId: agreement.customerId ?? null },
+      { userId: session.user.id, name: session.user.name ?? null },
+      { userId: session.user.id, isAdmin: role === "super_admin" },
+    );
+
+    if (result.status === "rejected") {
+      return NextResponse.json({ error: result.message }, { status: 422 });
+    }
+    if (result.status === "scan_unavailable") {
+      return NextResponse.json(
+        { error: "Virusskanningen er ikke tilgjengelig akkurat nå. Prøv igjen senere." },
+        { status: 503 },
+      );
+    }
+
+    return NextResponse.json({ attachments: result.attachments }, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to store customer attachments for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke laste opp filene" },
+      { status: 500 },
+    );
+  }
+}
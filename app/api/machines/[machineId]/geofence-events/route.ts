@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listMachineGeofenceEvents } from "@/lib/geofences";
+import { resolveMachineAccess, type MachineAccess } from "@/lib/machine-access";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  let access: MachineAccess;
+  try {
+    access = await resolveMachineAccess(session.user, normalizedId, {
+      includeHistorical: true,
+    });
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
+  if (!access.allowed) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const events = await listMachineGeofenceEvents(session.user, normalizedId, access.windows);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error(`Failed to fetch geofence events for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente geofence-hendelser" },
+      { status: 500 },
+    );
+  }
+}
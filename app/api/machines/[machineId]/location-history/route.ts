@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getMachineLocationHistoryById } from "@/lib/machines";
+import {
+  getMachineLocationHistoryById,
+  getMachineLocationHistoryForWindows,
+} from "@/lib/machines";
+import { resolveMachineAccess, type MachineAccess } from "@/lib/machine-access";
 
 export async function GET(
   _request: Request,
@@ -23,9 +27,29 @@ export async function GET(
     return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
   }
 
+  let access: MachineAccess;
   try {
-    const history = await getMachineLocationHistoryById(normalizedId);
-    return NextResponse.json({ history });
+    access = await resolveMachineAccess(session.user, normalizedId, {
+      includeHistorical: true,
+    });
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
+  if (!access.allowed) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    // Customers only get the positions reported while they were renting the machine.
+    const history = access.isAdmin
+      ? await getMachineLocationHistoryById(normalizedId)
+      : await getMachineLocationHistoryForWindows(normalizedId, access.windows);
+    return NextResponse.json({ history, windows: access.windows });
   } catch (error) {
     console.error("Failed to fetch machine location history", error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { getMachineLocationById } from "@/lib/machines";
+import { resolveMachineAccess } from "@/lib/machine-access";
 
 export async function GET(
   _request: Request,
@@ -23,6 +24,19 @@ export async function GET(
     return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
   }
 
+  try {
+    const access = await resolveMachineAccess(session.user, normalizedId);
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
   try {
     const location = await getMachineLocationById(normalizedId);
     if (!location) {
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listMachineMovementAlerts } from "@/lib/movement-alerts";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  try {
+    const alerts = await listMachineMovementAlerts(normalizedId);
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error(`Failed to fetch movement alerts for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente bevegelsesalarmer" },
+      { status: 500 },
+    );
+  }
+}
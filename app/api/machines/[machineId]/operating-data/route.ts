@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getMachineOperatingDataById } from "@/lib/machines";
+import { resolveMachineAccess } from "@/lib/machine-access";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  try {
+    const access = await resolveMachineAccess(session.user, normalizedId);
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
+  try {
+    const operatingData = await getMachineOperatingDataById(normalizedId);
+    return NextResponse.json({ operatingData });
+  } catch (error) {
+    console.error("Failed to fetch machine operating data", error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente driftsdata" },
+      { status: 500 },
+    );
+  }
+}
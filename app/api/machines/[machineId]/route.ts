@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { resolveMachineAccess } from "@/lib/machine-access";
+import { getControlAlerts } from "@/lib/machine-compliance";
+import type { MachineControlAlert } from "@/types/machines";
 
 type MachineResponse = {
   machineId: number;
@@ -16,6 +19,8 @@ type MachineResponse = {
   trainingVideos?: string[] | null;
   documentedTrainingVideoUri?: string | null;
   englishDocumentedTrainingVideoUri?: string | null;
+  /** Added by us from the control dates, not part of the Bjugstad response. */
+  controlAlerts?: MachineControlAlert[];
 };
 
 export async function GET(
@@ -37,6 +42,21 @@ export async function GET(
     return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
   }
 
+  try {
+    const access = await resolveMachineAccess(session.user, machineId, {
+      includeHistorical: true,
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${machineId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
   const apiKey =
     process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
     process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
@@ -75,6 +95,7 @@ export async function GET(
     }
 
     const machine = (await response.json()) as MachineResponse;
+    machine.controlAlerts = getControlAlerts(machine);
     return NextResponse.json({ machine });
   } catch (error) {
     console.error("Unexpected error while fetching machine", error);
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listMachineAgreements, resolveMachineAccess } from "@/lib/machine-access";
+import {
+  createServiceTicket,
+  listOpenMachineServiceTickets,
+  parseServiceTicketForm,
+} from "@/lib/service-tickets";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  try {
+    const tickets = await listOpenMachineServiceTickets(normalizedId, {
+      userId: session.user.id,
+      isAdmin: role === "super_admin",
+    });
+    return NextResponse.json({ tickets });
+  } catch (error) {
+    console.error(`Failed to list service tickets for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente servicesaker" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ machineId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { machineId } = await params;
+  const normalizedId = typeof machineId === "string" ? machineId.trim() : "";
+  if (!normalizedId) {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig skjema" }, { status: 400 });
+  }
+
+  const parsed = parseServiceTicketForm(form);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // Customers can only report machines they are renting right now. The ticket is tied to
+  // the chosen agreement, or to the machine's current agreement when none is given.
+  let agreement;
+  try {
+    const access = await resolveMachineAccess(session.user, normalizedId);
+    if (!access.allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const agreements = await listMachineAgreements(session.user, normalizedId);
+    const requestedAgreementId = String(form.get("agreementId") ?? "").trim();
+    if (requestedAgreementId) {
+      agreement = agreements.find((entry) => entry.id === requestedAgreementId);
+      if (!agreement || (!access.isAdmin && !agreement.isActive)) {
+        return NextResponse.json(
+          { error: "Avtalen gjelder ikke denne maskinen" },
+          { status: 400 },
+        );
+      }
+    } else {
+      agreement = agreements.find((entry) => entry.isActive);
+    }
+  } catch (error) {
+    console.error(`Failed to resolve access to machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke kontrollere tilgang til maskinen" },
+      { status: 502 },
+    );
+  }
+
+  try {
+    const result = await createServiceTicket(
+      normalizedId,
+      parsed.input,
+      agreement
+        ? {
+            id: agreement.id,
+            customerId: agreement.customerId ?? null,
+            customerName: agreement.customerName ?? null,
+          }
+        : null,
+      { userId: session.user.id, name: session.user.name ?? null },
+    );
+
+    if (result.status === "rejected") {
+      return NextResponse.json({ error: result.message }, { status: 422 });
+    }
+    if (result.status === "scan_unavailable") {
+      return NextResponse.json(
+        { error: "Virusskanningen er ikke tilgjengelig akkurat nå. Prøv igjen senere." },
+        { status: 503 },
+      );
+    }
+
+    return NextResponse.json({ ticket: result.ticket }, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to create service ticket for machine ${normalizedId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke registrere feilmeldingen" },
+      { status: 500 },
+    );
+  }
+}
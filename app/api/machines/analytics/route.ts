@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  getMachineAnalyticsForUser,
+  isMachineAnalyticsAggregation,
+  isMachineAnalyticsPeriod,
+} from "@/lib/machine-analytics";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const period = searchParams.get("period") ?? "12w";
+  const aggregation = searchParams.get("aggregation") ?? "week";
+
+  if (!isMachineAnalyticsPeriod(period)) {
+    return NextResponse.json({ error: "Ugyldig periode" }, { status: 400 });
+  }
+
+  if (!isMachineAnalyticsAggregation(aggregation)) {
+    return NextResponse.json({ error: "Ugyldig gruppering" }, { status: 400 });
+  }
+
+  try {
+    const analytics = await getMachineAnalyticsForUser(session.user, period, aggregation);
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error("Failed to build machine analytics", error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente maskinanalyse" },
+      { status: 500 },
+    );
+  }
+}
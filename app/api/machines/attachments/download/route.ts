@@ -1,5 +1,13 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { verifyAttachmentToken } from "@/lib/attachment-tokens";
+import {
+  appendSasToken,
+  fetchMachineAttachmentRecords,
+  getAttachmentSasSource,
+  isAllowedBlobUrl,
+  resolveSasToken,
+} from "@/lib/machine-attachments";
 
 const INLINE_CONTENT_TYPES = new Set([
   "application/pdf",
@@ -12,17 +20,6 @@ const INLINE_CONTENT_TYPES = new Set([
   "text/csv",
 ]);
 
-function appendSasToken(filePath: string, sasToken?: string) {
-  const normalizedFilePath = filePath.trim();
-  const normalizedSasToken = sasToken?.trim().replace(/^\?/, "");
-
-  if (!normalizedFilePath || !normalizedSasToken) {
-    return normalizedFilePath;
-  }
-
-  return `${normalizedFilePath}${normalizedFilePath.includes("?") ? "&" : "?"}${normalizedSasToken}`;
-}
-
 function sanitizeFileName(fileName?: string | null) {
   return (fileName?.trim() || "attachment").replace(/[\\/\r\n"]/g, "_");
 }
@@ -61,16 +58,6 @@ function canDisplayInline(contentType: string) {
   return INLINE_CONTENT_TYPES.has(normalizedContentType);
 }
 
-function isAllowedBlobUrl(fileUrl: URL) {
-  return fileUrl.protocol === "https:" && fileUrl.hostname.endsWith(".blob.core.windows.net");
-}
-
-function resolveSasToken(sasSource: string) {
-  return sasSource === "rail"
-    ? process.env.AZURE_BLOB_SAS_TOKEN_RAIL
-    : process.env.AZURE_BLOB_SAS_TOKEN;
-}
-
 function getErrorMessage(error: unknown) {
   if (error instanceof Error && error.message.trim()) {
     return error.message.trim();
@@ -90,22 +77,69 @@ export async function GET(request: Request) {
   }
 
   const { searchParams } = new URL(request.url);
-  const rawFilePath = searchParams.get("filePath")?.trim() || "";
-  const requestedName = sanitizeFileName(searchParams.get("name"));
-  const sasSource = searchParams.get("sasSource")?.trim() === "rail" ? "rail" : "default";
-  const sasToken = resolveSasToken(sasSource);
+  const token = searchParams.get("token")?.trim() || "";
 
-  if (!rawFilePath) {
+  if (!token) {
     return NextResponse.json(
-      { error: "Mangler filsti for vedlegget i foresporselen." },
+      { error: "Mangler nedlastingslenke for vedlegget i foresporselen." },
       { status: 400 },
     );
   }
 
+  // Links are issued by the attachment listing for one user and expire; anything else is
+  // refused, so customers can only fetch attachments they have been shown.
+  let verified: ReturnType<typeof verifyAttachmentToken>;
+  try {
+    verified = verifyAttachmentToken(token);
+  } catch (error) {
+    console.error("Failed to verify machine attachment token", error);
+    return NextResponse.json(
+      { error: `Kunne ikke kontrollere nedlastingslenken: ${getErrorMessage(error)}` },
+      { status: 500 },
+    );
+  }
+  if (verified.status === "expired") {
+    return NextResponse.json(
+      { error: "Nedlastingslenken har utlopt. Last inn siden pa nytt og prov igjen." },
+      { status: 410 },
+    );
+  }
+  if (verified.status !== "ok" || verified.payload.userId !== session.user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // The token only carries ids; the blob URL is looked up again (from the Bjugstad cache),
+  // and internal attachments are left out for customers.
+  const { payload } = verified;
+  let records: Awaited<ReturnType<typeof fetchMachineAttachmentRecords>>;
+  try {
+    records = await fetchMachineAttachmentRecords(payload.machineId, {
+      includeInternal: session.user.role === "super_admin",
+    });
+  } catch (error) {
+    console.error(`Failed to look up attachment ${payload.attachmentId} for machine ${payload.machineId}`, error);
+    return NextResponse.json(
+      { error: `Kunne ikke hente vedlegget: ${getErrorMessage(error)}` },
+      { status: 502 },
+    );
+  }
+  if (records.status === "error") {
+    return NextResponse.json({ error: records.message }, { status: records.httpStatus });
+  }
+
+  const attachment = records.attachments.find((item) => item.id === payload.attachmentId);
+  if (!attachment) {
+    return NextResponse.json({ error: "Vedlegget finnes ikke lenger." }, { status: 404 });
+  }
+
+  const requestedName = sanitizeFileName(attachment.name?.trim() || attachment.fileName);
+  const sasSource = getAttachmentSasSource(attachment.type);
+  const sasToken = resolveSasToken(sasSource);
+
   let sourceUrl: URL;
 
   try {
-    sourceUrl = new URL(rawFilePath);
+    sourceUrl = new URL(attachment.filePath);
   } catch {
     return NextResponse.json(
       { error: `Ugyldig filsti for vedlegget "${requestedName}".` },
@@ -140,6 +174,8 @@ export async function GET(request: Request) {
 
     console.log("Machine attachment upstream response", {
       fileName: requestedName,
+      machineId: payload.machineId,
+      attachmentId: payload.attachmentId,
       sourceUrl: sourceUrl.toString(),
       sasSource,
       status: blobResponse.status,
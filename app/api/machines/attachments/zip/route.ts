@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { fetchAgreementsForUser } from "@/lib/agreements";
+import { resolveMachineAccess } from "@/lib/machine-access";
+import {
+  collectAgreementArchive,
+  collectMachineArchive,
+  getAttachmentZipMaxBytes,
+  toZipEntries,
+  validateArchive,
+  type AttachmentArchiveResult,
+} from "@/lib/attachment-archive";
+import { createZipStream } from "@/lib/zip";
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message.trim();
+  }
+
+  return "Ukjent feil";
+}
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "customer" && session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const machineId = searchParams.get("machineId")?.trim() || "";
+  const agreementId = searchParams.get("agreementId")?.trim() || "";
+
+  if (!machineId === !agreementId) {
+    return NextResponse.json(
+      { error: "Oppgi enten maskin-id eller avtale-id." },
+      { status: 400 },
+    );
+  }
+
+  let collected: AttachmentArchiveResult;
+
+  try {
+    if (machineId) {
+      const access = await resolveMachineAccess(session.user, machineId, {
+        includeHistorical: true,
+      });
+      if (!access.allowed) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      collected = await collectMachineArchive(machineId);
+    } else {
+      const agreements = await fetchAgreementsForUser(session.user.id, session.user.role);
+      const agreement = agreements.find((item) => item.id === agreementId);
+      if (!agreement) {
+        return NextResponse.json({ error: "Fant ikke avtalen" }, { status: 404 });
+      }
+
+      collected = await collectAgreementArchive(agreement);
+    }
+  } catch (error) {
+    console.error("Unexpected error while collecting attachments for ZIP download", error);
+    return NextResponse.json(
+      { error: `Uventet feil ved henting av vedlegg: ${getErrorMessage(error)}` },
+      { status: 500 },
+    );
+  }
+
+  if (collected.status === "error") {
+    return NextResponse.json({ error: collected.message }, { status: collected.httpStatus });
+  }
+
+  const { archive } = collected;
+  if (archive.attachments.length === 0) {
+    return NextResponse.json({ error: "Fant ingen vedlegg å laste ned." }, { status: 404 });
+  }
+
+  const maxBytes = getAttachmentZipMaxBytes();
+  if (archive.reportedBytes > maxBytes) {
+    return NextResponse.json(
+      {
+        error: `Vedleggene er til sammen større enn ${Math.round(maxBytes / (1024 * 1024))} MB. Last dem ned enkeltvis.`,
+      },
+      { status: 413 },
+    );
+  }
+
+  const invalid = validateArchive(archive);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const stream = createZipStream(toZipEntries(archive), {
+    maxBytes,
+    onEntryError: (entry, error) => {
+      // A missing blob should not cost the user the rest of the pack.
+      console.error(`Skipping ${entry.name} in attachment ZIP`, error);
+      return true;
+    },
+  });
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${archive.fileName}"; filename*=UTF-8''${encodeURIComponent(archive.fileName)}`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { parseAvailabilitySearch, searchMachineAvailability } from "@/lib/machine-availability";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "customer" && role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = parseAvailabilitySearch(searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const candidates = await searchMachineAvailability(parsed.input, { isAdmin: role === "super_admin" });
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    console.error("Failed to search machine availability", error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente ledige maskiner" },
+      { status: 500 },
+    );
+  }
+}
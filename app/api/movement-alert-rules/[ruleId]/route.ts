@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { deleteMovementAlertRule, setMovementAlertRuleActive } from "@/lib/movement-alerts";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ ruleId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { ruleId } = await params;
+  if (!ruleId || !/^\d+$/.test(ruleId)) {
+    return NextResponse.json({ error: "Ugyldig regel-id" }, { status: 400 });
+  }
+
+  let payload: { active?: unknown };
+  try {
+    payload = (await request.json()) as { active?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  if (typeof payload.active !== "boolean") {
+    return NextResponse.json({ error: "Ugyldig status" }, { status: 400 });
+  }
+
+  try {
+    const rule = await setMovementAlertRuleActive(ruleId, payload.active);
+    if (!rule) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error(`Failed to update movement alert rule ${ruleId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke oppdatere regelen" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ ruleId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { ruleId } = await params;
+  if (!ruleId || !/^\d+$/.test(ruleId)) {
+    return NextResponse.json({ error: "Ugyldig regel-id" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteMovementAlertRule(ruleId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(`Failed to delete movement alert rule ${ruleId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke slette regelen" },
+      { status: 500 },
+    );
+  }
+}
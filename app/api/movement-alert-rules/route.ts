@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createMovementAlertRule, parseMovementAlertRuleInput } from "@/lib/movement-alerts";
+
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const parsed = parseMovementAlertRuleInput(payload);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await createMovementAlertRule(
+      parsed.input,
+      session.user.name ?? session.user.id ?? null,
+    );
+
+    if (result.status === "customer_not_found") {
+      return NextResponse.json({ error: "Fant ingen kunde med denne id-en" }, { status: 400 });
+    }
+    if (result.status === "machine_not_found") {
+      return NextResponse.json({ error: "Fant ingen maskin med dette nummeret" }, { status: 400 });
+    }
+
+    return NextResponse.json({ rule: result.rule }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create movement alert rule", error);
+    return NextResponse.json(
+      { error: "Kunne ikke lagre regelen" },
+      { status: 500 },
+    );
+  }
+}
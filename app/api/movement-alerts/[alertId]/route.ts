@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { updateMovementAlertStatus, type MovementAlertAction } from "@/lib/movement-alerts";
+
+const ACTIONS: MovementAlertAction[] = ["acknowledge", "resolve"];
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ alertId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { alertId } = await params;
+  if (!alertId || !/^\d+$/.test(alertId)) {
+    return NextResponse.json({ error: "Ugyldig alarm-id" }, { status: 400 });
+  }
+
+  let payload: { action?: unknown };
+  try {
+    payload = (await request.json()) as { action?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const action = payload.action as MovementAlertAction;
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ error: "Ugyldig handling" }, { status: 400 });
+  }
+
+  try {
+    const result = await updateMovementAlertStatus(
+      alertId,
+      action,
+      session.user.name ?? session.user.id ?? null,
+    );
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result.status === "already_resolved") {
+      return NextResponse.json({ error: "Alarmen er allerede lukket" }, { status: 409 });
+    }
+
+    return NextResponse.json({ alert: result.alert });
+  } catch (error) {
+    console.error(`Failed to update movement alert ${alertId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke oppdatere alarmen" },
+      { status: 500 },
+    );
+  }
+}
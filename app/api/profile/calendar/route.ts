@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  createCalendarFeedToken,
+  getCalendarFeedStatus,
+  revokeCalendarFeedToken,
+} from "@/lib/calendar-feed";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const status = await getCalendarFeedStatus(session.user.id);
+    return NextResponse.json({ status });
+  } catch (error) {
+    console.error(`Failed to fetch calendar feed for user ${session.user.id}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente kalenderlenken" },
+      { status: 500 },
+    );
+  }
+}
+
+// Creates the feed, or replaces the token so the previous URL stops working.
+export async function POST() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = session.user.role;
+  if (role !== "super_admin" && role !== "customer") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const { path, status } = await createCalendarFeedToken(session.user.id);
+    return NextResponse.json({ path, status });
+  } catch (error) {
+    console.error(`Failed to create calendar feed for user ${session.user.id}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke lage kalenderlenke" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await revokeCalendarFeedToken(session.user.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(`Failed to revoke calendar feed for user ${session.user.id}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke slette kalenderlenken" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getNotificationPreferences, updateNotificationPreferences } from "@/lib/notifications";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const preferences = await getNotificationPreferences(session.user.id);
+    if (!preferences) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error(`Failed to fetch notification preferences for user ${session.user.id}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente varslingsinnstillinger" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: { emailEnabled?: unknown; smsEnabled?: unknown };
+  try {
+    payload = (await request.json()) as { emailEnabled?: unknown; smsEnabled?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const { emailEnabled, smsEnabled } = payload;
+  if (
+    (emailEnabled !== undefined && typeof emailEnabled !== "boolean") ||
+    (smsEnabled !== undefined && typeof smsEnabled !== "boolean")
+  ) {
+    return NextResponse.json({ error: "Ugyldige innstillinger" }, { status: 400 });
+  }
+
+  try {
+    const preferences = await updateNotificationPreferences(session.user.id, { emailEnabled, smsEnabled });
+    if (!preferences) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error(`Failed to update notification preferences for user ${session.user.id}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke lagre varslingsinnstillinger" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { updateRentalRequest, type RentalRequestAction } from "@/lib/rental-requests";
+
+const ACTIONS: RentalRequestAction[] = ["approve", "reject", "forward"];
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ requestId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { requestId } = await params;
+  if (!requestId || !/^\d+$/.test(requestId)) {
+    return NextResponse.json({ error: "Ugyldig forespørsel-id" }, { status: 400 });
+  }
+
+  let payload: { action?: unknown; comment?: unknown };
+  try {
+    payload = (await request.json()) as { action?: unknown; comment?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const action = payload.action as RentalRequestAction;
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ error: "Ugyldig handling" }, { status: 400 });
+  }
+
+  const comment = typeof payload.comment === "string" ? payload.comment.trim() : "";
+  if (comment.length > 1000) {
+    return NextResponse.json(
+      { error: "Kommentaren kan ikke være lengre enn 1000 tegn" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await updateRentalRequest(
+      requestId,
+      action,
+      session.user.name ?? session.user.id ?? null,
+      comment || null,
+    );
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result.status === "already_decided") {
+      return NextResponse.json({ error: "Forespørselen er allerede behandlet" }, { status: 409 });
+    }
+    if (result.status === "not_forwardable") {
+      return NextResponse.json(
+        { error: "Bare godkjente forespørsler som ikke er videresendt, og som ikke sendes nå, kan sendes på nytt" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ request: result.request });
+  } catch (error) {
+    console.error(`Failed to update rental request ${requestId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke oppdatere forespørselen" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getFileStorage } from "@/lib/file-storage";
+import { getServiceTicketPhotoFile } from "@/lib/service-tickets";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ ticketId: string; photoId: string }> },
+) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { ticketId, photoId } = await params;
+  if (!/^\d+$/.test(ticketId ?? "") || !/^\d+$/.test(photoId ?? "")) {
+    return NextResponse.json({ error: "Ugyldig bilde-id" }, { status: 400 });
+  }
+
+  try {
+    const photo = await getServiceTicketPhotoFile(ticketId, photoId, {
+      userId: session.user.id,
+      isAdmin: session.user.role === "super_admin",
+    });
+    if (!photo) {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+
+    const file = await getFileStorage().get(photo.storageKey);
+    if (!file) {
+      return NextResponse.json({ error: "Bildet finnes ikke lenger" }, { status: 404 });
+    }
+
+    const fileName = photo.fileName.replace(/[\\/\r\n"]/g, "_");
+    const headers = new Headers();
+    headers.set("Content-Type", photo.contentType);
+    headers.set(
+      "Content-Disposition",
+      `inline; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    );
+    headers.set("Cache-Control", "private, max-age=3600");
+    headers.set("X-Content-Type-Options", "nosniff");
+    if (file.size != null) {
+      headers.set("Content-Length", String(file.size));
+    }
+
+    return new NextResponse(file.body, { status: 200, headers });
+  } catch (error) {
+    console.error(`Failed to fetch photo ${photoId} for service ticket ${ticketId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke hente bildet" },
+      { status: 500 },
+    );
+  }
+}
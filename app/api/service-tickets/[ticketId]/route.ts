@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { updateServiceTicketStatus } from "@/lib/service-tickets";
+import type { ServiceTicketStatus } from "@/types/machines";
+
+const STATUSES: ServiceTicketStatus[] = ["open", "in_progress", "resolved"];
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ ticketId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { ticketId } = await params;
+  if (!ticketId || !/^\d+$/.test(ticketId)) {
+    return NextResponse.json({ error: "Ugyldig sak-id" }, { status: 400 });
+  }
+
+  let payload: { status?: unknown; note?: unknown };
+  try {
+    payload = (await request.json()) as { status?: unknown; note?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  const status = payload.status as ServiceTicketStatus;
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json({ error: "Ugyldig status" }, { status: 400 });
+  }
+
+  const note = typeof payload.note === "string" ? payload.note.trim() : "";
+  if (note.length > 1000) {
+    return NextResponse.json(
+      { error: "Kommentaren kan ikke være lengre enn 1000 tegn" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await updateServiceTicketStatus(
+      ticketId,
+      status,
+      note || null,
+      session.user.name ?? session.user.id ?? null,
+    );
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result.status === "invalid_transition") {
+      return NextResponse.json(
+        { error: "Saken kan ikke flyttes til denne statusen" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ ticket: result.ticket });
+  } catch (error) {
+    console.error(`Failed to update service ticket ${ticketId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke oppdatere saken" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { updateTelemetryLink } from "@/lib/telemetry-links";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ linkId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user || session.user.role !== "super_admin") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+  }
+
+  const { linkId } = await params;
+  if (!linkId || !/^\d+$/.test(linkId)) {
+    return NextResponse.json({ error: "Ugyldig enhets-id" }, { status: 400 });
+  }
+
+  let payload: { machineId?: unknown };
+  try {
+    payload = (await request.json()) as { machineId?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Ugyldig payload" }, { status: 400 });
+  }
+
+  if (payload.machineId !== null && typeof payload.machineId !== "string") {
+    return NextResponse.json({ error: "Ugyldig maskin-id" }, { status: 400 });
+  }
+  const machineId = payload.machineId?.trim() || null;
+
+  try {
+    const result = await updateTelemetryLink(
+      linkId,
+      machineId,
+      session.user.name ?? session.user.id ?? null,
+    );
+
+    if (result.status === "link_not_found") {
+      return NextResponse.json({ error: "Ikke funnet" }, { status: 404 });
+    }
+    if (result.status === "machine_not_found") {
+      return NextResponse.json({ error: "Fant ingen maskin med dette nummeret" }, { status: 400 });
+    }
+
+    return NextResponse.json({ link: result.link });
+  } catch (error) {
+    console.error(`Failed to update telemetry link ${linkId}`, error);
+    return NextResponse.json(
+      { error: "Kunne ikke oppdatere koblingen" },
+      { status: 500 },
+    );
+  }
+}
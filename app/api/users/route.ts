@@ -3,6 +3,7 @@ import { CompanyRole, GlobalRole, Prisma } from "@prisma/client";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { loadUsersForAdmin } from "@/lib/users";
+import { enqueueNotification } from "@/lib/notifications";
 
 type RelationshipInput = {
   companyId: number | string;
@@ -87,11 +88,12 @@ export async function POST(request: Request) {
       );
     }
 
+    let companyNames: string[] = [];
     if (normalizedRelationships.length) {
       const companyIds = [...new Set(normalizedRelationships.map((rel) => rel.customerId))];
       const foundCompanies = await prisma.customer.findMany({
         where: { customer_id: { in: companyIds } },
-        select: { customer_id: true },
+        select: { customer_id: true, name: true },
       });
 
       const missingCompanies = companyIds.filter(
@@ -106,6 +108,10 @@ export async function POST(request: Request) {
           { status: 400 },
         );
       }
+
+      companyNames = foundCompanies
+        .map((company) => company.name?.trim())
+        .filter((name): name is string => Boolean(name));
     }
 
     const createdUser = await prisma.user.create({
@@ -135,6 +141,12 @@ export async function POST(request: Request) {
       },
     });
 
+    await enqueueNotification({
+      userId: createdUser.id,
+      template: "user_created",
+      data: { customers: companyNames, phone: createdUser.phone },
+    });
+
     return NextResponse.json({ user: createdUser }, { status: 201 });
   } catch (error) {
     console.error("Failed to create user", error);
@@ -0,0 +1,114 @@
+// azure/function/src/functions/timer_aemp.ts
+// Polls every OEM listed in AEMP_OEMS (comma separated, e.g. "volvo,komatsu,jcb")
+// through the generic ISO 15143-3 connector. Units are resolved to machines through
+// machine_telemetry_links, with the OEM key as source.
+import { app, InvocationContext, Timer } from "@azure/functions";
+import {
+    MachineOperatingTelemetryRow,
+    insertMachineOperatingData,
+    SyncRunCounts,
+    resolveTelemetryLinks,
+    trackSyncRun,
+    updateMachineTelemetry,
+} from "../shared/db";
+import { optionalConfig } from "../shared/kv";
+import {
+    AempConnector,
+    createAempConnector,
+    loadAempConfig,
+    toAempFaultCodeRows,
+    toAempOperatingTelemetryRow,
+    toAempTelemetryRow,
+    toAempTelemetryUnit,
+} from "../services/aemp";
+
+// Keep connectors between invocations so OAuth tokens are reused until they expire.
+const connectors = new Map<string, AempConnector>();
+
+async function getConnector(oem: string): Promise<AempConnector> {
+    const existing = connectors.get(oem);
+    if (existing) return existing;
+
+    const connector = createAempConnector(await loadAempConfig(oem));
+    connectors.set(oem, connector);
+    return connector;
+}
+
+async function syncOem(oem: string, ctx: InvocationContext): Promise<SyncRunCounts> {
+    const connector = await getConnector(oem);
+    const equipment = await connector.fetchFleet();
+
+    const links = await resolveTelemetryLinks(connector.source, equipment.map(toAempTelemetryUnit));
+    const missingMappings: string[] = [];
+
+    const mapped = equipment.flatMap((item) => {
+        const unit = toAempTelemetryUnit(item);
+        if (!unit.external_id) return [];
+
+        const internalId = links.get(unit.external_id);
+        if (!internalId) {
+            missingMappings.push(unit.external_id);
+            return [];
+        }
+
+        return [{ internalId, item }];
+    });
+
+    const rows = mapped.map(({ internalId, item }) =>
+        toAempTelemetryRow(internalId, connector.source, item));
+    const operatingRows = mapped
+        .map(({ internalId, item }) => toAempOperatingTelemetryRow(internalId, connector.source, item))
+        .filter((row): row is MachineOperatingTelemetryRow => row != null);
+    const faultRows = mapped.flatMap(({ internalId, item }) =>
+        toAempFaultCodeRows(internalId, connector.source, item));
+
+    if (missingMappings.length) {
+        ctx.log(
+            `AEMP ${oem}: ${missingMappings.length} unlinked machine(s), link them under Telemetri in the portal: ${missingMappings.join(", ")}`
+        );
+    }
+
+    const updated = await updateMachineTelemetry(rows);
+    const operating = await insertMachineOperatingData(operatingRows, faultRows);
+    ctx.log(
+        `AEMP ${oem}: fetched ${equipment.length}; telemetry rows updated ${updated}; ` +
+        `operating readings ${operating.telemetry}; fault codes ${operating.faults}.`
+    );
+
+    return { fetched: equipment.length, updated, unmatched: missingMappings.length };
+}
+
+app.timer("timer_aemp", {
+    // every 15 minutes, offset from the CAT timer
+    schedule: "0 5-59/15 * * * *",
+    runOnStartup: false,
+    handler: async (_: Timer, ctx: InvocationContext): Promise<void> => {
+        const stamp = new Date().toISOString();
+        ctx.log(`timer_aemp fired at ${stamp}`);
+
+        const oems = ((await optionalConfig("AEMP_OEMS")) ?? "")
+            .split(",")
+            .map((oem) => oem.trim().toLowerCase())
+            .filter(Boolean);
+
+        if (!oems.length) {
+            ctx.log("AEMP: no OEMs configured in AEMP_OEMS; nothing to do.");
+            return;
+        }
+
+        // One failing portal must not stop the others from syncing.
+        const failed: string[] = [];
+        for (const oem of oems) {
+            try {
+                await trackSyncRun(oem, () => syncOem(oem, ctx));
+            } catch (err: any) {
+                failed.push(oem);
+                ctx.error?.(`timer_aemp ${oem} error: ${err?.message || err}`);
+            }
+        }
+
+        if (failed.length) {
+            throw new Error(`timer_aemp failed for ${failed.join(", ")}`);
+        }
+    },
+});
@@ -0,0 +1,38 @@
+// azure/function/src/functions/timer_agreement_reminders.ts
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { fetchRentals } from "../services/bjugstad";
+import { trackSyncRun } from "../shared/db";
+import { optionalConfig } from "../shared/kv";
+import { parseHorizonDays, sendAgreementReminders } from "../shared/agreement-reminders";
+
+app.timer("timer_agreement_reminders", {
+    // Azure Functions cron format: {second} {minute} {hour} {day} {month} {day-of-week}
+    // Run every day at 05:30 UTC, before the working day starts in Norway:
+    schedule: "0 30 5 * * *",
+    runOnStartup: false,
+
+    handler: async (_: Timer, ctx: InvocationContext): Promise<void> => {
+        const stamp = new Date().toISOString();
+        ctx.log(`timer_agreement_reminders fired at ${stamp}`);
+
+        try {
+            await trackSyncRun("agreement_reminders", async () => {
+                // Comma separated days before the end date, e.g. "14,3,1".
+                const horizons = parseHorizonDays(await optionalConfig("AGREEMENT_REMINDER_DAYS"));
+                const rentals = await fetchRentals();
+                ctx.log(`Fetched ${rentals.length} rentals; reminder horizons=${horizons.join(",")}`);
+
+                const result = await sendAgreementReminders(rentals, horizons);
+                ctx.log(
+                    `Agreement reminders due=${result.due}; sent=${result.sent}; notifications queued=${result.notifications}`,
+                );
+
+                return { fetched: rentals.length, updated: result.sent };
+            });
+        } catch (err: any) {
+            const message = err?.message || String(err);
+            ctx.error?.(`timer_agreement_reminders error: ${message}`);
+            throw (err instanceof Error ? err : new Error(String(err)));
+        }
+    },
+});
@@ -1,16 +1,19 @@
 // azure/function/src/functions/timer_cat.ts
 import { app, InvocationContext, Timer } from "@azure/functions";
-import { MachineTelemetryRow, updateMachineTelemetry } from "../shared/db";
+import {
+    MachineOperatingTelemetryRow,
+    MachineTelemetryRow,
+    insertMachineOperatingData,
+    resolveTelemetryLinks,
+    trackSyncRun,
+    updateMachineTelemetry,
+} from "../shared/db";
 import { fetchAllCatMachines } from "../services/cat";
-
-const CAT_SERIAL_TO_INTERNAL_ID: Record<string, string> = {
-    "JWL00225": "2013",
-    "HZ600664": "2039",
-    "XNB40273": "2443",
-    "ELW00179": "1712",
-    "GWT01546": "1713",
-    "XNB20376": "1946",
-};
+import {
+    toAempFaultCodeRows,
+    toAempOperatingTelemetryRow,
+    toAempTelemetryUnit,
+} from "../services/aemp";
 
 app.timer("timer_cat", {
     // run every 15 minutes at second 0 to de-sync from Hydrema’s second 0
@@ -21,23 +24,26 @@ app.timer("timer_cat", {
         ctx.log(`timer_cat fired at ${stamp}`);
 
         try {
-            const machines = await fetchAllCatMachines();
-            const missingMappings: string[] = [];
+            await trackSyncRun("cat", async () => {
+                const machines = await fetchAllCatMachines();
+                const missingMappings: string[] = [];
 
-            const rows: MachineTelemetryRow[] = machines
-                .map((asset): MachineTelemetryRow | null => {
-                    const equipmentHeader = asset.EquipmentHeader;
-                    if (!equipmentHeader) return null;
+                const links = await resolveTelemetryLinks("cat", machines.map(toAempTelemetryUnit));
 
-                    const serialNumber = equipmentHeader.SerialNumber ?? null;
-                    if (!serialNumber) return null;
+                const mapped = machines.flatMap((asset) => {
+                    const { external_id: externalId } = toAempTelemetryUnit(asset);
+                    if (!externalId) return [];
 
-                    const internalId = CAT_SERIAL_TO_INTERNAL_ID[serialNumber];
+                    const internalId = links.get(externalId);
                     if (!internalId) {
-                        missingMappings.push(serialNumber);
-                        return null;
+                        missingMappings.push(externalId);
+                        return [];
                     }
 
+                    return [{ internalId, asset }];
+                });
+
+                const rows: MachineTelemetryRow[] = mapped.map(({ internalId, asset }) => {
                     const loc = asset.Location;
                     const last_pos_reported_at = loc?.Datetime ? new Date(loc.Datetime) : null;
 
@@ -48,17 +54,28 @@ app.timer("timer_cat", {
                         last_pos_latitude: loc?.Latitude ?? null,
                         last_pos_longitude: loc?.Longitude ?? null,
                     };
-                })
-                .filter((row): row is MachineTelemetryRow => row != null);
+                });
+
+                const operatingRows = mapped
+                    .map(({ internalId, asset }) => toAempOperatingTelemetryRow(internalId, "cat", asset))
+                    .filter((row): row is MachineOperatingTelemetryRow => row != null);
+                const faultRows = mapped.flatMap(({ internalId, asset }) => toAempFaultCodeRows(internalId, "cat", asset));
+
+                if (missingMappings.length) {
+                    ctx.log(
+                        `CAT: ${missingMappings.length} unlinked machine(s), link them under Telemetri in the portal: ${missingMappings.join(", ")}`
+                    );
+                }
 
-            if (missingMappings.length) {
+                const updated = await updateMachineTelemetry(rows);
+                const operating = await insertMachineOperatingData(operatingRows, faultRows);
                 ctx.log(
-                    `CAT: missing mapping for ${missingMappings.length} machine(s): ${missingMappings.join(", ")}`
+                    `CAT: fetched ${machines.length}; telemetry rows updated ${updated}; ` +
+                    `operating readings ${operating.telemetry}; fault codes ${operating.faults}.`
                 );
-            }
 
-            const updated = await updateMachineTelemetry(rows);
-            ctx.log(`CAT: fetched ${machines.length}; telemetry rows updated ${updated}.`);
+                return { fetched: machines.length, updated, unmatched: missingMappings.length };
+            });
         } catch (err: any) {
             ctx.error?.(`timer_cat error: ${err?.message || err}`);
             throw (err instanceof Error ? err : new Error(String(err)));
@@ -0,0 +1,43 @@
+// azure/function/src/functions/timer_control_notices.ts
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { fetchRentals } from "../services/bjugstad";
+import { trackSyncRun } from "../shared/db";
+import { optionalConfig } from "../shared/kv";
+import { parseIntervalMonths, sendControlNotices } from "../shared/control-notices";
+
+app.timer("timer_control_notices", {
+    // Azure Functions cron format: {second} {minute} {hour} {day} {month} {day-of-week}
+    // Run every day at 05:45 UTC, after the agreement reminders:
+    schedule: "0 45 5 * * *",
+    runOnStartup: false,
+
+    handler: async (_: Timer, ctx: InvocationContext): Promise<void> => {
+        const stamp = new Date().toISOString();
+        ctx.log(`timer_control_notices fired at ${stamp}`);
+
+        try {
+            await trackSyncRun("control_notices", async () => {
+                // Months between inspections; must match the web app's settings.
+                const intervals = {
+                    control: parseIntervalMonths(await optionalConfig("CONTROL_INTERVAL_MONTHS")),
+                    rail_control: parseIntervalMonths(await optionalConfig("RAIL_CONTROL_INTERVAL_MONTHS")),
+                };
+                const rentals = await fetchRentals();
+                ctx.log(
+                    `Fetched ${rentals.length} rentals; control interval=${intervals.control}m; rail control interval=${intervals.rail_control}m`,
+                );
+
+                const result = await sendControlNotices(rentals, intervals);
+                ctx.log(
+                    `Control notices overdue=${result.overdue}; newly reported=${result.reported}; notifications queued=${result.notifications}`,
+                );
+
+                return { fetched: rentals.length, updated: result.reported };
+            });
+        } catch (err: any) {
+            const message = err?.message || String(err);
+            ctx.error?.(`timer_control_notices error: ${message}`);
+            throw (err instanceof Error ? err : new Error(String(err)));
+        }
+    },
+});
@@ -1,6 +1,6 @@
 import { app, InvocationContext, Timer } from "@azure/functions";
 import { BjugstadMachineFull, fetchMachinesFull } from "../services/bjugstad";
-import { MachineRow, upsertMachines } from "../shared/db";
+import { MachineRow, trackSyncRun, upsertMachines } from "../shared/db";
 
 const MAX_START_DELAY_MS = 45_000;
 
@@ -72,27 +72,31 @@ app.timer("timer_get_all_machines", {
         }
 
         try {
-            const machines = await fetchMachinesFull();
-            ctx.log(`Fetched ${machines.length} machines from Bjugstad GetMachinesFull`);
-
-            const rows: MachineRow[] = [];
-            let skippedInvalid = 0;
-
-            for (const machine of machines) {
-                const row = toMachineRow(machine);
-                if (!row) {
-                    skippedInvalid += 1;
-                    ctx.warn?.(`Skipping machine with invalid machineId: ${JSON.stringify(machine)}`);
-                    continue;
+            await trackSyncRun("bjugstad_machines", async () => {
+                const machines = await fetchMachinesFull();
+                ctx.log(`Fetched ${machines.length} machines from Bjugstad GetMachinesFull`);
+
+                const rows: MachineRow[] = [];
+                let skippedInvalid = 0;
+
+                for (const machine of machines) {
+                    const row = toMachineRow(machine);
+                    if (!row) {
+                        skippedInvalid += 1;
+                        ctx.warn?.(`Skipping machine with invalid machineId: ${JSON.stringify(machine)}`);
+                        continue;
+                    }
+                    rows.push(row);
                 }
-                rows.push(row);
-            }
 
-            const affected = await upsertMachines(rows);
+                const affected = await upsertMachines(rows);
 
-            ctx.log(
-                `Machines fetched=${machines.length}; valid=${rows.length}; skipped_invalid=${skippedInvalid}; upserted=${affected}`,
-            );
+                ctx.log(
+                    `Machines fetched=${machines.length}; valid=${rows.length}; skipped_invalid=${skippedInvalid}; upserted=${affected}`,
+                );
+
+                return { fetched: machines.length, updated: affected, unmatched: skippedInvalid };
+            });
         } catch (err: any) {
             const message = err?.message || String(err);
             ctx.error?.(`timer_get_all_machines error: ${message}`);
@@ -5,6 +5,7 @@ import {
     CustomerContactRow,
     CustomerRow,
     replaceCustomerContacts,
+    trackSyncRun,
     upsertCustomers,
 } from "../shared/db";
 
@@ -21,72 +22,76 @@ app.timer("timer_get_customers", {
         ctx.log(`timer_get_customers fired at ${startedAt}`);
 
         try {
-            const customers = await fetchCustomers();
-            ctx.log(`Fetched ${customers.length} customers from external API`);
+            await trackSyncRun("bjugstad_customers", async () => {
+                const customers = await fetchCustomers();
+                ctx.log(`Fetched ${customers.length} customers from external API`);
 
-            const customerMap = new Map<number, CustomerRow>();
-            const contactMap = new Map<string, CustomerContactRow>();
+                const customerMap = new Map<number, CustomerRow>();
+                const contactMap = new Map<string, CustomerContactRow>();
 
-            for (const customer of customers) {
-                const customer_id = asNumber(customer?.customerId);
+                for (const customer of customers) {
+                    const customer_id = asNumber(customer?.customerId);
 
-                if (customer_id === null) {
-                    ctx.warn?.(`Skipping customer with invalid id: ${customer?.customerId}`);
-                    continue;
-                }
+                    if (customer_id === null) {
+                        ctx.warn?.(`Skipping customer with invalid id: ${customer?.customerId}`);
+                        continue;
+                    }
 
-                customerMap.set(customer_id, {
-                    customer_id: customer_id,
-                    name: customer.name ?? null,
-                    email: customer.email ?? null,
-                    address: customer.address ?? null,
-                    postal_code: customer.postalCode ?? null,
-                    city: customer.city ?? null,
-                    contact: customer.contact ?? null,
-                    telephone_number: customer.telephoneNumber ?? null,
-                    organization_number: customer.organizationNumber ?? null,
-                    customer_number: asNumber(customer.customerNumber),
-                    phone_normalized: normalizePhone(customer.telephoneNumber),
-                });
-
-                const contacts = Array.isArray(customer.contactPersons) ? customer.contactPersons : [];
-                for (const person of contacts) {
-                    const contactId = asNumber(person?.contactPersonId);
-                    if (contactId === null) continue;
-                    const key = `${customer_id}:${contactId}`;
-                    contactMap.set(key, {
+                    customerMap.set(customer_id, {
                         customer_id: customer_id,
-                        contact_person_id: contactId,
-                        name: person.name ?? null,
-                        telephone_number: person.telephoneNumber ?? null,
-                        email: person.email ?? null,
-                        phone_normalized: normalizePhone(person.telephoneNumber),
+                        name: customer.name ?? null,
+                        email: customer.email ?? null,
+                        address: customer.address ?? null,
+                        postal_code: customer.postalCode ?? null,
+                        city: customer.city ?? null,
+                        contact: customer.contact ?? null,
+                        telephone_number: customer.telephoneNumber ?? null,
+                        organization_number: customer.organizationNumber ?? null,
+                        customer_number: asNumber(customer.customerNumber),
+                        phone_normalized: normalizePhone(customer.telephoneNumber),
                     });
+
+                    const contacts = Array.isArray(customer.contactPersons) ? customer.contactPersons : [];
+                    for (const person of contacts) {
+                        const contactId = asNumber(person?.contactPersonId);
+                        if (contactId === null) continue;
+                        const key = `${customer_id}:${contactId}`;
+                        contactMap.set(key, {
+                            customer_id: customer_id,
+                            contact_person_id: contactId,
+                            name: person.name ?? null,
+                            telephone_number: person.telephoneNumber ?? null,
+                            email: person.email ?? null,
+                            phone_normalized: normalizePhone(person.telephoneNumber),
+                        });
+                    }
                 }
-            }
 
-            const customerRows = Array.from(customerMap.values());
-            const contactRows = Array.from(contactMap.values());
-            const customerIds = Array.from(customerMap.keys());
+                const customerRows = Array.from(customerMap.values());
+                const contactRows = Array.from(contactMap.values());
+                const customerIds = Array.from(customerMap.keys());
 
-            let upsertedCustomers = 0;
-            let affectedContacts = 0;
+                let upsertedCustomers = 0;
+                let affectedContacts = 0;
 
-            if (customerRows.length) {
-                upsertedCustomers = await upsertCustomers(customerRows);
-            }
+                if (customerRows.length) {
+                    upsertedCustomers = await upsertCustomers(customerRows);
+                }
+
+                if (customerIds.length) {
+                    affectedContacts = await replaceCustomerContacts(customerIds, contactRows);
+                }
 
-            if (customerIds.length) {
-                affectedContacts = await replaceCustomerContacts(customerIds, contactRows);
-            }
+                ctx.log(
+                    `Customers upserted=${upsertedCustomers}, contact-person rows synced=${affectedContacts}`,
+                );
 
-            ctx.log(
-                `Customers upserted=${upsertedCustomers}, contact-person rows synced=${affectedContacts}`,
-            );
+                ctx.log(
+                    `Customers fetched=${customers.length}; upserted=${upsertedCustomers}; contact-person rows synced=${affectedContacts}`,
+                );
 
-            ctx.log(
-                `Customers fetched=${customers.length}; upserted=${upsertedCustomers}; contact-person rows synced=${affectedContacts}`,
-            );
+                return { fetched: customers.length, updated: upsertedCustomers };
+            });
         } catch (err: any) {
             const message = err?.message || String(err);
             ctx.error?.(`timer_get_customers error: ${message}`);
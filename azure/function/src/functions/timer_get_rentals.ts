@@ -0,0 +1,35 @@
+// azure/function/src/functions/timer_get_rentals.ts
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { fetchRentals } from "../services/bjugstad";
+import { trackSyncRun } from "../shared/db";
+import { syncRentals } from "../shared/rentals";
+
+app.timer("timer_get_rentals", {
+    // Azure Functions cron format: {second} {minute} {hour} {day} {month} {day-of-week}
+    // Run every 15 minutes; the web app falls back to the live API when the mirror is older:
+    schedule: "0 */15 * * * *",
+    runOnStartup: false,
+
+    handler: async (_: Timer, ctx: InvocationContext): Promise<void> => {
+        const stamp = new Date().toISOString();
+        ctx.log(`timer_get_rentals fired at ${stamp}`);
+
+        try {
+            await trackSyncRun("bjugstad_rentals", async () => {
+                const rentals = await fetchRentals();
+                ctx.log(`Fetched ${rentals.length} rentals from external API`);
+
+                const result = await syncRentals(rentals);
+                ctx.log(
+                    `Rentals upserted=${result.rentals}; machine rows=${result.machines}; removed=${result.removed}; snapshots=${result.snapshots}; skipped=${result.skipped}`,
+                );
+
+                return { fetched: rentals.length, updated: result.rentals, unmatched: result.skipped };
+            });
+        } catch (err: any) {
+            const message = err?.message || String(err);
+            ctx.error?.(`timer_get_rentals error: ${message}`);
+            throw (err instanceof Error ? err : new Error(String(err)));
+        }
+    },
+});
@@ -0,0 +1,36 @@
+// azure/function/src/functions/timer_notifications.ts
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { trackSyncRun } from "../shared/db";
+import { dispatchNotifications } from "../shared/notifications";
+
+app.timer("timer_notifications", {
+    // Azure Functions cron format: {second} {minute} {hour} {day} {month} {day-of-week}
+    // Run at second 20, every 5th minute:
+    schedule: "20 */5 * * * *",
+    runOnStartup: false,
+
+    handler: async (_: Timer, ctx: InvocationContext): Promise<void> => {
+        const stamp = new Date().toISOString();
+        ctx.log(`timer_notifications fired at ${stamp}`);
+
+        try {
+            await trackSyncRun("notifications", async () => {
+                const result = await dispatchNotifications();
+                ctx.log(
+                    `Notifications claimed=${result.claimed}; sent=${result.sent}; retried=${result.retried}; failed=${result.failed}`,
+                );
+
+                // Nothing got through: surface the transport error on the Integrasjoner page.
+                if (result.claimed > 0 && result.sent === 0 && result.lastError) {
+                    throw new Error(result.lastError);
+                }
+
+                return { fetched: result.claimed, updated: result.sent, unmatched: result.failed };
+            });
+        } catch (err: any) {
+            const message = err?.message || String(err);
+            ctx.error?.(`timer_notifications error: ${message}`);
+            throw (err instanceof Error ? err : new Error(String(err)));
+        }
+    },
+});
@@ -1,5 +1,10 @@
 import { app, InvocationContext, Timer } from "@azure/functions";
-import { updateTrackunitTelemetry, TrackunitTelemetryRow } from "../shared/db";
+import {
+    MachineTelemetryRow,
+    resolveTelemetryLinks,
+    trackSyncRun,
+    updateMachineTelemetry,
+} from "../shared/db";
 import { fetchAllTrackunitUnits, TrackunitUnit } from "../services/trackunit";
 
 const API_CALL_DELAY_MS = 20_000;
@@ -21,12 +26,14 @@ function parseReportedAt(unit: TrackunitUnit): Date | null {
     return Number.isNaN(parsed.getTime()) ? null : parsed;
 }
 
-function toTelemetryRow(unit: TrackunitUnit): TrackunitTelemetryRow | null {
-    const trackunitId = String(unit.serialNumber ?? "").trim();
-    if (!trackunitId) return null;
+function getTrackunitId(unit: TrackunitUnit): string {
+    return String(unit.serialNumber ?? "").trim();
+}
 
+function toTelemetryRow(unit: TrackunitUnit, machineId: string): MachineTelemetryRow {
     return {
-        trackunit_id: trackunitId,
+        id: machineId,
+        telemetry_source: "trackunit",
         last_pos_reported_at: parseReportedAt(unit),
         last_pos_latitude: asNumber(unit.location?.latitude),
         last_pos_longitude: asNumber(unit.location?.longitude),
@@ -50,23 +57,46 @@ app.timer("timer_trackunit", {
         }
 
         try {
-            const units = await fetchAllTrackunitUnits();
-            const rows: TrackunitTelemetryRow[] = [];
-            let skippedInvalid = 0;
+            await trackSyncRun("trackunit", async () => {
+                const units = await fetchAllTrackunitUnits();
+
+                // Resolve unit serials through machine_telemetry_links (auto-matched on machines.trackunit_id)
+                const links = await resolveTelemetryLinks(
+                    "trackunit",
+                    units.map((unit) => ({ external_id: getTrackunitId(unit) })),
+                );
+
+                const rows: MachineTelemetryRow[] = [];
+                const missingMappings: string[] = [];
+                let skippedInvalid = 0;
 
-            for (const unit of units) {
-                const row = toTelemetryRow(unit);
-                if (!row) {
-                    skippedInvalid += 1;
-                    continue;
+                for (const unit of units) {
+                    const trackunitId = getTrackunitId(unit);
+                    if (!trackunitId) {
+                        skippedInvalid += 1;
+                        continue;
+                    }
+                    const machineId = links.get(trackunitId);
+                    if (!machineId) {
+                        missingMappings.push(trackunitId);
+                        continue;
+                    }
+                    rows.push(toTelemetryRow(unit, machineId));
                 }
-                rows.push(row);
-            }
 
-            const updated = await updateTrackunitTelemetry(rows);
-            ctx.log(
-                `Trackunit units fetched=${units.length}; valid=${rows.length}; skipped_invalid=${skippedInvalid}; matched_rows_updated=${updated}`,
-            );
+                if (missingMappings.length) {
+                    ctx.log(
+                        `TRACKUNIT: ${missingMappings.length} unlinked unit(s), link them under Telemetri in the portal: ${missingMappings.join(", ")}`
+                    );
+                }
+
+                const updated = await updateMachineTelemetry(rows);
+                ctx.log(
+                    `Trackunit units fetched=${units.length}; linked=${rows.length}; skipped_invalid=${skippedInvalid}; rows_updated=${updated}`,
+                );
+
+                return { fetched: units.length, updated, unmatched: missingMappings.length };
+            });
         } catch (err: any) {
             const message = err?.message || String(err);
             ctx.error?.(`timer_trackunit error: ${message}`);
@@ -0,0 +1,367 @@
+// azure/function/src/services/aemp.ts
+// Standard: ISO 15143-3 (AEMP 2.0) Fleet/Snapshot API
+// Purpose: Configurable connector for OEM portals that expose the AEMP snapshot API
+// (Volvo, Komatsu, JCB, Kubota, ...). One connector is created per OEM key, and all
+// settings come from shared/kv.ts under the AEMP_<OEM>_* prefix:
+//
+//   AEMP_<OEM>_API_BASEURL     required, e.g. https://api.example.com/aemp/v2
+//   AEMP_<OEM>_FLEET_PATH      first fleet page, defaults to /Fleet/1
+//   AEMP_<OEM>_AUTH            "oauth" (client credentials, default) or "basic"
+//   AEMP_<OEM>_TOKEN_URL, AEMP_<OEM>_CLIENT_ID, AEMP_<OEM>_CLIENT_SECRET, AEMP_<OEM>_SCOPE
+//   AEMP_<OEM>_USERNAME, AEMP_<OEM>_PASSWORD
+//   AEMP_<OEM>_PAGE_SIZE       optional pageSize query parameter for the first page
+//   AEMP_<OEM>_MAX_PAGES       safety limit on followed "next" links, defaults to 500
+import axios, {
+    AxiosHeaders,
+    AxiosInstance,
+    InternalAxiosRequestConfig,
+    isAxiosError,
+} from "axios";
+import { optionalConfig, requireConfig } from "../shared/kv";
+import type {
+    MachineFaultCodeRow,
+    MachineOperatingTelemetryRow,
+    MachineTelemetryRow,
+    TelemetryUnit,
+} from "../shared/db";
+
+type TokenResp = { access_token: string; token_type?: string; expires_in?: number };
+
+type AempAuth =
+    | { type: "oauth"; tokenUrl: string; clientId: string; clientSecret: string; scope: string | null }
+    | { type: "basic"; username: string; password: string };
+
+export type AempConnectorConfig = {
+    /** Lower-case OEM key, also used as telemetry source on stored rows. */
+    source: string;
+    baseURL: string;
+    fleetPath: string;
+    auth: AempAuth;
+    pageSize: number | null;
+    maxPages: number;
+};
+
+export type AempFaultCode = {
+    CodeIdentifier?: string;
+    CodeDescription?: string;
+    CodeSeverity?: string;
+    CodeSource?: string;
+    Datetime?: string;
+};
+
+/** Snapshot record as defined by AEMP 2.0. OEMs add extra keys freely. */
+export type AempEquipment = {
+    EquipmentHeader?: {
+        OEMName?: string;
+        Model?: string;
+        EquipmentID?: string;
+        SerialNumber?: string;
+    };
+    Location?: {
+        Latitude?: number;
+        Longitude?: number;
+        Altitude?: number;
+        AltitudeUnits?: string;
+        Datetime?: string;
+    };
+    CumulativeOperatingHours?: { Hour?: number; Datetime?: string };
+    CumulativeIdleHours?: { Hour?: number; Datetime?: string };
+    Distance?: { OdometerUnits?: string; Odometer?: number; Datetime?: string };
+    FuelUsed?: { FuelUnits?: string; FuelConsumed?: number; Datetime?: string };
+    FuelRemaining?: { Percent?: number; Datetime?: string };
+    DEFRemaining?: { Percent?: number; Datetime?: string };
+    FaultCodes?: AempFaultCode[];
+    [k: string]: unknown;
+};
+
+type AempLink = { Rel?: string; Href?: string; rel?: string; href?: string };
+
+type AempFleetPage = {
+    Links?: AempLink[];
+    Equipment?: AempEquipment[];
+    Version?: string;
+    SnapshotTime?: string;
+};
+
+export type AempConnector = {
+    source: string;
+    fetchFleet(): Promise<AempEquipment[]>;
+};
+
+const DEFAULT_FLEET_PATH = "/Fleet/1";
+const DEFAULT_MAX_PAGES = 500;
+const MILES_TO_KM = 1.609344;
+
+function toPositiveInt(value: string | null): number | null {
+    if (!value) return null;
+    const num = Number(value);
+    return Number.isInteger(num) && num > 0 ? num : null;
+}
+
+export async function loadAempConfig(oem: string): Promise<AempConnectorConfig> {
+    const key = oem.trim().toUpperCase();
+    const prefix = `AEMP_${key}_`;
+
+    const baseURL = await requireConfig(`${prefix}API_BASEURL`);
+    const fleetPath = (await optionalConfig(`${prefix}FLEET_PATH`)) || DEFAULT_FLEET_PATH;
+    const authType = ((await optionalConfig(`${prefix}AUTH`)) || "oauth").toLowerCase();
+
+    let auth: AempAuth;
+    if (authType === "basic") {
+        auth = {
+            type: "basic",
+            username: await requireConfig(`${prefix}USERNAME`),
+            password: await requireConfig(`${prefix}PASSWORD`),
+        };
+    } else if (authType === "oauth") {
+        auth = {
+            type: "oauth",
+            tokenUrl: await requireConfig(`${prefix}TOKEN_URL`),
+            clientId: await requireConfig(`${prefix}CLIENT_ID`),
+            clientSecret: await requireConfig(`${prefix}CLIENT_SECRET`),
+            scope: await optionalConfig(`${prefix}SCOPE`),
+        };
+    } else {
+        throw new Error(`Config "${prefix}AUTH" must be "oauth" or "basic", got "${authType}".`);
+    }
+
+    return {
+        source: key.toLowerCase(),
+        baseURL,
+        fleetPath,
+        auth,
+        pageSize: toPositiveInt(await optionalConfig(`${prefix}PAGE_SIZE`)),
+        maxPages: toPositiveInt(await optionalConfig(`${prefix}MAX_PAGES`)) ?? DEFAULT_MAX_PAGES,
+    };
+}
+
+export function createAempConnector(config: AempConnectorConfig): AempConnector {
+    const tag = `[aemp:${config.source}]`;
+    let tokenCache: { token?: string; exp?: number } = {};
+    let http: AxiosInstance | null = null;
+
+    async function getToken(auth: Extract<AempAuth, { type: "oauth" }>): Promise<string> {
+        const now = Math.floor(Date.now() / 1000);
+        if (tokenCache.token && tokenCache.exp && tokenCache.exp - 60 > now) return tokenCache.token;
+
+        const body = new URLSearchParams({
+            grant_type: "client_credentials",
+            client_id: auth.clientId,
+            client_secret: auth.clientSecret,
+        });
+        if (auth.scope) body.set("scope", auth.scope);
+
+        const resp = await axios.post<TokenResp>(auth.tokenUrl, body.toString(), {
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            timeout: 20000,
+            validateStatus: () => true,
+        });
+
+        if (resp.status >= 400) {
+            const bodyTxt = typeof resp.data === "string" ? resp.data : JSON.stringify(resp.data);
+            throw new Error(`${tag} TOKEN ${auth.tokenUrl} -> ${resp.status} ${bodyTxt}`);
+        }
+
+        const { access_token, expires_in } = resp.data;
+        tokenCache = { token: access_token, exp: now + (expires_in || 3600) };
+        console.log(`${tag} token ok len=${access_token?.length ?? 0}`);
+        return access_token;
+    }
+
+    function getHttp(): AxiosInstance {
+        if (http) return http;
+
+        http = axios.create({ baseURL: config.baseURL, timeout: 25000 });
+
+        http.interceptors.request.use(async (cfg: InternalAxiosRequestConfig) => {
+            const headers = AxiosHeaders.from(cfg.headers);
+            const { auth } = config;
+            if (auth.type === "oauth") {
+                headers.set("Authorization", `Bearer ${await getToken(auth)}`);
+            } else {
+                const basic = Buffer.from(`${auth.username}:${auth.password}`).toString("base64");
+                headers.set("Authorization", `Basic ${basic}`);
+            }
+            headers.set("Accept", "application/json");
+            cfg.headers = headers;
+            console.log(`${tag} -> ${cfg.method?.toUpperCase()} ${cfg.url}`);
+            return cfg;
+        });
+
+        return http;
+    }
+
+    async function fetchFleet(): Promise<AempEquipment[]> {
+        const client = getHttp();
+        const out: AempEquipment[] = [];
+        const visited = new Set<string>();
+
+        let url: string | null = config.fleetPath;
+        let params: Record<string, number> | undefined =
+            config.pageSize ? { pageSize: config.pageSize } : undefined;
+        let pageNum = 0;
+
+        while (url) {
+            if (++pageNum > config.maxPages) {
+                console.warn(`${tag} pagination safety break after ${config.maxPages} pages`);
+                break;
+            }
+            visited.add(url);
+
+            try {
+                const resp = await client.get<AempFleetPage>(url, { params, validateStatus: () => true });
+                console.log(`${tag} <- ${resp.status} for ${url}`);
+
+                if (resp.status >= 400) {
+                    const bodyTxt = typeof resp.data === "string" ? resp.data : JSON.stringify(resp.data);
+                    throw new Error(`${tag} GET ${url} failed ${resp.status}: ${bodyTxt}`);
+                }
+
+                for (const raw of resp.data?.Equipment ?? []) {
+                    const equipment = asAempEquipment(raw);
+                    if (equipment) out.push(equipment);
+                }
+
+                // "next" links already carry any paging parameters the OEM needs.
+                const next = nextFromLinks(resp.data?.Links);
+                url = next && !visited.has(next) ? next : null;
+                params = undefined;
+            } catch (e: any) {
+                if (isAxiosError(e)) {
+                    const data = e.response?.data;
+                    console.error(
+                        `${tag} axios error: status=${e.response?.status} msg=${e.message} body=${typeof data === "string" ? data : JSON.stringify(data)}`
+                    );
+                }
+                throw e;
+            }
+        }
+
+        console.log(`${tag} fetched total ${out.length} machines over ${pageNum} page(s)`);
+        return out;
+    }
+
+    return { source: config.source, fetchFleet };
+}
+
+function asAempEquipment(e: any): AempEquipment | null {
+    if (!e || typeof e !== "object") return null;
+    const h = e?.EquipmentHeader;
+    // Require at least one identifier to avoid junk rows
+    if (!h?.SerialNumber && !h?.EquipmentID) return null;
+    return e as AempEquipment;
+}
+
+function nextFromLinks(links?: AempLink[]): string | null {
+    if (!Array.isArray(links)) return null;
+    const next = links.find((link) => String(link?.Rel ?? link?.rel ?? "").toLowerCase() === "next");
+    const href = next?.Href ?? next?.href;
+    return href ? String(href) : null;
+}
+
+function parseDatetime(value?: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toKilometres(distance: AempEquipment["Distance"]): number | null {
+    const value = distance?.Odometer;
+    if (typeof value !== "number" || !Number.isFinite(value)) return null;
+
+    const units = String(distance?.OdometerUnits ?? "kilometre").toLowerCase();
+    if (units.startsWith("mile")) return value * MILES_TO_KM;
+    if (units.startsWith("kilomet") || units === "km") return value;
+    return null;
+}
+
+/**
+ * Units are keyed on serial number, which AEMP always carries; EquipmentID is an
+ * owner-assigned label that is often empty.
+ */
+export function toAempTelemetryUnit(equipment: AempEquipment): TelemetryUnit {
+    const header = equipment.EquipmentHeader;
+    const serialNumber = header?.SerialNumber?.trim() || null;
+
+    return {
+        external_id: serialNumber ?? header?.EquipmentID?.trim() ?? "",
+        serial_number: serialNumber,
+        oem_name: header?.OEMName ?? null,
+        model: header?.Model ?? null,
+    };
+}
+
+export function toAempTelemetryRow(
+    internalId: string,
+    source: string,
+    equipment: AempEquipment,
+): MachineTelemetryRow {
+    const loc = equipment.Location;
+
+    return {
+        id: internalId,
+        telemetry_source: source,
+        last_pos_reported_at: parseDatetime(loc?.Datetime),
+        last_pos_latitude: loc?.Latitude ?? null,
+        last_pos_longitude: loc?.Longitude ?? null,
+        altitude: loc?.Altitude ?? null,
+        km: toKilometres(equipment.Distance),
+    };
+}
+
+/**
+ * Each AEMP field carries its own Datetime. The reading is stored under the most
+ * recent of them so a new snapshot only produces a row when something changed.
+ */
+export function toAempOperatingTelemetryRow(
+    internalId: string,
+    source: string,
+    equipment: AempEquipment,
+): MachineOperatingTelemetryRow | null {
+    const operating = equipment.CumulativeOperatingHours;
+    const idle = equipment.CumulativeIdleHours;
+    const fuelUsed = equipment.FuelUsed;
+    const fuelRemaining = equipment.FuelRemaining;
+    const defRemaining = equipment.DEFRemaining;
+
+    const timestamps = [operating, idle, fuelUsed, fuelRemaining, defRemaining]
+        .map((field) => parseDatetime(field?.Datetime)?.getTime())
+        .filter((value): value is number => value != null);
+    if (!timestamps.length) return null;
+
+    return {
+        machine_id: internalId,
+        source,
+        reported_at: new Date(Math.max(...timestamps)),
+        operating_hours: operating?.Hour ?? null,
+        idle_hours: idle?.Hour ?? null,
+        fuel_used: fuelUsed?.FuelConsumed ?? null,
+        fuel_units: fuelUsed?.FuelUnits ?? null,
+        fuel_remaining_percent: fuelRemaining?.Percent ?? null,
+        def_remaining_percent: defRemaining?.Percent ?? null,
+    };
+}
+
+export function toAempFaultCodeRows(
+    internalId: string,
+    source: string,
+    equipment: AempEquipment,
+): MachineFaultCodeRow[] {
+    const faultCodes = Array.isArray(equipment.FaultCodes) ? equipment.FaultCodes : [];
+
+    return faultCodes.flatMap((fault) => {
+        const code = fault?.CodeIdentifier?.trim();
+        const reportedAt = parseDatetime(fault?.Datetime);
+        if (!code || !reportedAt) return [];
+
+        return [{
+            machine_id: internalId,
+            source,
+            code,
+            reported_at: reportedAt,
+            description: fault.CodeDescription ?? null,
+            severity: fault.CodeSeverity ?? null,
+            code_source: fault.CodeSource ?? null,
+        }];
+    });
+}
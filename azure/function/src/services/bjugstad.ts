@@ -147,3 +147,42 @@ export async function fetchMachinesFull(): Promise<BjugstadMachineFull[]> {
 
     return data as BjugstadMachineFull[];
 }
+
+export type BjugstadRental = {
+    rentalId?: number;
+    customerId?: number;
+    customerName?: string | null;
+    startDate?: string | null;
+    endDate?: string | null;
+    machines?: Array<{
+        machineId?: number;
+        make?: string | null;
+        model?: string | null;
+        number?: string | null;
+    }> | null;
+    comments?: string | null;
+    projectNumber?: string | null;
+    location?: string | null;
+    contactPerson?: string | null;
+    contactPersonTelephoneNumber?: string | null;
+    contactPersonEmail?: string | null;
+    customerContactPersonId?: number | null;
+    customerContactPersonName?: string | null;
+    customerContactPersonTelephoneNumber?: string | null;
+    customerContactPersonEmail?: string | null;
+    insuranceIncluded?: boolean | null;
+    contractPrice?: boolean | null;
+    userName?: string | null;
+    userTelephoneNumber?: string | null;
+};
+
+export async function fetchRentals(): Promise<BjugstadRental[]> {
+    const data = await apiGet<unknown>("/GetRentals");
+    if (!Array.isArray(data)) {
+        throw new Error(
+            `Unexpected GetRentals response type: ${typeof data === "object" ? "object" : typeof data}`
+        );
+    }
+
+    return data as BjugstadRental[];
+}
@@ -99,6 +99,15 @@ async function getHttp(): Promise<AxiosInstance> {
     return http;
 }
 
+/** Active fault code as reported in the AEMP snapshot. */
+export type CatFaultCode = {
+    CodeIdentifier?: string;
+    CodeDescription?: string;
+    CodeSeverity?: string;
+    CodeSource?: string;
+    Datetime?: string;
+};
+
 /**
  * Minimal AEMP-ish asset + optional embedded geo.
  * Different OEMs vary; we keep this permissive.
@@ -131,6 +140,8 @@ export type CatMachine = {
     FuelUsedLast24?: { FuelUnits?: string; FuelConsumed?: number; Datetime?: string };
     FuelRemaining?: { Percent?: number; Datetime?: string };
 
+    FaultCodes?: CatFaultCode[];
+
     // If CAT adds extra keys, this keeps us future-proof.
     [k: string]: unknown;
 };
@@ -0,0 +1,37 @@
+// azure/function/src/services/sms.ts
+// Purpose: Send SMS through an HTTP gateway. The gateway receives a JSON POST of
+// { from, to, message } with a bearer token, which is what our provider's REST endpoint
+// accepts; a different provider only needs an adapter here.
+import axios, { isAxiosError } from "axios";
+
+export type SmsGatewayConfig = {
+    url: string;
+    token: string;
+    /** Alphanumeric sender id shown to the recipient, e.g. "Bjugstad". */
+    sender: string;
+};
+
+export async function sendSms(config: SmsGatewayConfig, to: string, message: string): Promise<void> {
+    try {
+        await axios.post(
+            config.url,
+            { from: config.sender, to, message },
+            {
+                timeout: 20000,
+                headers: {
+                    Authorization: `Bearer ${config.token}`,
+                    "Content-Type": "application/json",
+                    Accept: "application/json",
+                },
+            },
+        );
+    } catch (error) {
+        if (isAxiosError(error) && error.response) {
+            const details = typeof error.response.data === "string"
+                ? error.response.data
+                : JSON.stringify(error.response.data ?? {});
+            throw new Error(`SMS gateway responded ${error.response.status}: ${details.slice(0, 500)}`);
+        }
+        throw error;
+    }
+}
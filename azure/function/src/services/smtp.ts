@@ -0,0 +1,199 @@
+// azure/function/src/services/smtp.ts
+// Purpose: Minimal SMTP client for the notification timer. Sends one plain-text UTF-8
+// message per connection, over implicit TLS (port 465) or STARTTLS when the server
+// offers it, with optional AUTH PLAIN. When credentials are configured the connection must
+// be encrypted: without implicit TLS or STARTTLS the send fails before AUTH, so the
+// password is never sent in cleartext.
+import net from "net";
+import tls from "tls";
+import os from "os";
+import crypto from "crypto";
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export type SmtpConfig = {
+    host: string;
+    port: number;
+    /** Implicit TLS from the first byte. Otherwise STARTTLS is used when offered, and required with a user. */
+    secure: boolean;
+    user?: string | null;
+    password?: string | null;
+    /** "Bjugstad <noreply@bjugstad.no>" or a bare address. */
+    from: string;
+};
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+type SmtpResponse = { code: number; text: string };
+
+type SmtpReader = {
+    read(): Promise<SmtpResponse>;
+    detach(): void;
+};
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+    let socket = await openSocket(config);
+    let reader = createReader(socket);
+
+    const command = async (line: string | null, expected: number[]): Promise<SmtpResponse> => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const response = await reader.read();
+        if (!expected.includes(response.code)) {
+            const shown = line?.startsWith("AUTH") ? "AUTH" : line ?? "greeting";
+            throw new Error(`SMTP ${shown} failed: ${response.code} ${response.text}`);
+        }
+        return response;
+    };
+
+    try {
+        await command(null, [220]);
+        let hello = await command(`EHLO ${os.hostname()}`, [250]);
+        let encrypted = config.secure;
+
+        if (!config.secure && /^STARTTLS$/im.test(hello.text)) {
+            await command("STARTTLS", [220]);
+            reader.detach();
+            socket = await upgradeSocket(socket, config.host);
+            reader = createReader(socket);
+            hello = await command(`EHLO ${os.hostname()}`, [250]);
+            encrypted = true;
+        }
+
+        if (config.user) {
+            if (!encrypted) {
+                throw new Error("SMTP server did not offer STARTTLS; refusing to send credentials unencrypted");
+            }
+            const token = Buffer.from(`\0${config.user}\0${config.password ?? ""}`, "utf8").toString("base64");
+            await command(`AUTH PLAIN ${token}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250]);
+        await command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+        await command("DATA", [354]);
+        await command(`${buildMessage(config.from, message)}\r\n.`, [250]);
+        await command("QUIT", [221]).catch(() => undefined);
+    } finally {
+        reader.detach();
+        socket.destroy();
+    }
+}
+
+function openSocket(config: SmtpConfig): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = config.secure
+            ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+            : net.connect({ host: config.host, port: config.port });
+
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+        socket.once("error", reject);
+        socket.once(config.secure ? "secureConnect" : "connect", () => {
+            socket.off("error", reject);
+            resolve(socket);
+        });
+    });
+}
+
+function upgradeSocket(socket: net.Socket, host: string): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const secured = tls.connect({ socket, servername: host });
+        secured.setTimeout(SMTP_TIMEOUT_MS, () => secured.destroy(new Error("SMTP connection timed out")));
+        secured.once("error", reject);
+        secured.once("secureConnect", () => {
+            secured.off("error", reject);
+            resolve(secured);
+        });
+    });
+}
+
+// Multi-line replies ("250-...") end with a line whose code is followed by a space.
+function createReader(socket: net.Socket): SmtpReader {
+    let buffer = "";
+    let failure: Error | null = null;
+    let pending: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+
+    const flush = () => {
+        if (!pending) return;
+        if (failure) {
+            pending.reject(failure);
+            pending = null;
+            return;
+        }
+
+        const lines = buffer.split("\r\n");
+        for (let i = 0; i < lines.length - 1; i++) {
+            if (!/^\d{3}(?: |$)/.test(lines[i])) continue;
+            const reply = lines.slice(0, i + 1);
+            buffer = lines.slice(i + 1).join("\r\n");
+            const resolve = pending.resolve;
+            pending = null;
+            resolve({
+                code: Number(lines[i].slice(0, 3)),
+                text: reply.map((line) => line.slice(4)).join("\n"),
+            });
+            return;
+        }
+    };
+
+    const onData = (chunk: Buffer) => {
+        buffer += chunk.toString("utf8");
+        flush();
+    };
+    const onError = (error: Error) => {
+        failure = error;
+        flush();
+    };
+    const onClose = () => onError(failure ?? new Error("SMTP connection closed"));
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+
+    return {
+        read: () =>
+            new Promise<SmtpResponse>((resolve, reject) => {
+                pending = { resolve, reject };
+                flush();
+            }),
+        detach: () => {
+            socket.off("data", onData);
+            socket.off("error", onError);
+            socket.off("close", onClose);
+        },
+    };
+}
+
+function envelopeAddress(value: string): string {
+    const match = /<([^>]+)>/.exec(value);
+    return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// The body is base64 encoded, so no line can start with the "." that ends DATA.
+function buildMessage(from: string, message: MailMessage): string {
+    const domain = envelopeAddress(from).split("@")[1] || os.hostname();
+    const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+        .toString("base64")
+        .replace(/.{76}/g, "$&\r\n");
+
+    return [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        body,
+    ].join("\r\n");
+}
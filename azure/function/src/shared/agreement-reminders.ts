@@ -0,0 +1,188 @@
+// azure/function/src/shared/agreement-reminders.ts
+// Purpose: Warn before a rental ends. timer_agreement_reminders hands every agreement from
+// GetRentals to sendAgreementReminders, which finds the ones ending within one of the
+// configured horizons and queues a notification for the customer's company admins and
+// the Bjugstad contact on the agreement. agreement_reminders records every reminder, so
+// each horizon is sent once per agreement and end date.
+import { PoolClient } from "pg";
+import { BjugstadRental } from "../services/bjugstad";
+import { withClient } from "./db";
+import { enqueueDirectNotification, enqueueUserNotification, NotificationRequest } from "./notifications";
+
+const REMINDER_TIME_ZONE = "Europe/Oslo";
+const DEFAULT_HORIZON_DAYS = [14, 3, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const calendarDateFormatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: REMINDER_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+});
+
+export type AgreementReminderResult = {
+    due: number;
+    sent: number;
+    notifications: number;
+};
+
+/** "14,3,1" -> [1, 3, 14]. Falls back to the defaults when nothing valid is configured. */
+export function parseHorizonDays(value: string | null | undefined): number[] {
+    const days = (value ?? "")
+        .split(",")
+        .map((part) => Number(part.trim()))
+        .filter((day) => Number.isInteger(day) && day >= 0);
+    return [...new Set(days.length ? days : DEFAULT_HORIZON_DAYS)].sort((a, b) => a - b);
+}
+
+/**
+ * The reminder that is due for an agreement ending in daysLeft calendar days: the
+ * tightest horizon that has been reached. An agreement registered three days before it
+ * ends therefore gets the 3-day reminder only, not the 14-day one as well.
+ */
+export function dueHorizon(daysLeft: number, horizons: number[]): number | null {
+    if (daysLeft < 0) return null;
+    return horizons.find((horizon) => daysLeft <= horizon) ?? null;
+}
+
+export async function sendAgreementReminders(
+    rentals: BjugstadRental[],
+    horizons: number[],
+    now = new Date(),
+): Promise<AgreementReminderResult> {
+    const today = toCalendarDate(now);
+    const result: AgreementReminderResult = { due: 0, sent: 0, notifications: 0 };
+    if (!today) return result;
+
+    const due = rentals
+        .map((rental) => {
+            const endDate = toCalendarDate(rental.endDate);
+            if (rental.rentalId == null || !endDate) return null;
+            const daysLeft = Math.round((Date.parse(endDate) - Date.parse(today)) / DAY_MS);
+            const horizon = dueHorizon(daysLeft, horizons);
+            return horizon == null ? null : { rental, endDate, daysLeft, horizon };
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    result.due = due.length;
+    if (!due.length) return result;
+
+    await withClient(async (client) => {
+        for (const entry of due) {
+            await client.query("BEGIN");
+            try {
+                const count = await remindOnce(client, entry.rental, entry.endDate, entry.daysLeft, entry.horizon);
+                await client.query("COMMIT");
+                if (count != null) {
+                    result.sent++;
+                    result.notifications += count;
+                }
+            } catch (error: any) {
+                await client.query("ROLLBACK");
+                console.error(
+                    `[agreement-reminders] reminder for rental ${entry.rental.rentalId} failed: ${error?.message || error}`,
+                );
+            }
+        }
+    });
+
+    return result;
+}
+
+// Returns the number of queued messages, or null when this reminder was already sent.
+async function remindOnce(
+    client: PoolClient,
+    rental: BjugstadRental,
+    endDate: string,
+    daysLeft: number,
+    horizon: number,
+): Promise<number | null> {
+    const customerId = rental.customerId ?? null;
+    const claimed = await client.query<{ id: string }>(
+        `
+        INSERT INTO agreement_reminders (rental_id, customer_id, end_date, horizon_days)
+        VALUES ($1, $2, $3::date, $4)
+        ON CONFLICT (rental_id, end_date, horizon_days) DO NOTHING
+        RETURNING id::text AS id
+        `,
+        [rental.rentalId, customerId, endDate, horizon],
+    );
+    const reminderId = claimed.rows[0]?.id;
+    if (!reminderId) return null;
+
+    const data = {
+        agreementId: String(rental.rentalId),
+        customerName: rental.customerName ?? null,
+        endDate,
+        daysLeft,
+        projectNumber: rental.projectNumber ?? null,
+        machines: (rental.machines ?? [])
+            .map((machine) => [machine.make, machine.model, machine.number].filter(Boolean).join(" ").trim()
+                || (machine.machineId != null ? `Maskin ${machine.machineId}` : ""))
+            .filter(Boolean),
+    };
+    const dedupeKey = `agreement_expiring:${rental.rentalId}:${endDate}:${horizon}`;
+    let queued = 0;
+
+    if (customerId != null) {
+        const { rows: admins } = await client.query<{ id: string; name: string | null }>(
+            `
+            SELECT u.id, u.name
+            FROM user_customer_accesses a
+            JOIN users u ON u.id = a.user_id
+            WHERE a.customer_id = $1
+              AND a.role = 'admin'
+            `,
+            [customerId],
+        );
+
+        for (const admin of admins) {
+            const request: NotificationRequest = {
+                template: "agreement_expiring",
+                data: { ...data, audience: "customer", name: admin.name },
+                dedupeKey,
+            };
+            queued += await enqueueUserNotification(client, admin.id, request);
+        }
+    }
+
+    // The Bjugstad contact is reached by e-mail, or by SMS to whoever registered the
+    // agreement when no contact e-mail is set.
+    const staffRequest: NotificationRequest = {
+        template: "agreement_expiring",
+        data: { ...data, audience: "staff", name: rental.contactPerson ?? rental.userName ?? null },
+        dedupeKey,
+    };
+    const contactEmail = rental.contactPersonEmail?.trim();
+    const creatorPhone = normalizeStaffPhone(rental.userTelephoneNumber);
+    if (contactEmail) {
+        queued += await enqueueDirectNotification(client, "email", contactEmail, staffRequest);
+    } else if (creatorPhone) {
+        queued += await enqueueDirectNotification(client, "sms", creatorPhone, staffRequest);
+    }
+
+    await client.query(
+        `UPDATE agreement_reminders SET notification_count = $2 WHERE id = $1::bigint`,
+        [reminderId, queued],
+    );
+    return queued;
+}
+
+// Calendar date (YYYY-MM-DD) in Norwegian time. Dates without a time are taken as-is.
+function toCalendarDate(value: string | Date | null | undefined): string | null {
+    if (!value) return null;
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.slice(0, 10)) && !/[zZ]|[+-]\d{2}:?\d{2}$/.test(value)) {
+        return value.slice(0, 10);
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    return calendarDateFormatter.format(date);
+}
+
+function normalizeStaffPhone(raw: string | null | undefined): string | null {
+    const digits = (raw ?? "").replace(/[\s\-().]/g, "");
+    if (/^\+\d{7,}$/.test(digits)) return digits;
+    if (/^00\d{7,}$/.test(digits)) return `+${digits.slice(2)}`;
+    if (/^\d{8}$/.test(digits)) return `+47${digits}`;
+    return null;
+}
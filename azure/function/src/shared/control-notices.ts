@@ -0,0 +1,180 @@
+// azure/function/src/shared/control-notices.ts
+// Purpose: Tell super admins when a machine that is out on an active agreement has an
+// overdue periodic inspection or rail control. machines.control_date and
+// rail_control_date hold the last time each check was done; the next one is due the
+// configured number of months later (same rules as lib/machine-compliance.ts in the web
+// app). control_notices records every overdue check we have reported, so each one is sent
+// once, in a single digest per admin.
+import { BjugstadRental } from "../services/bjugstad";
+import { query, withClient } from "./db";
+import { enqueueUserNotification } from "./notifications";
+
+const NOTICE_TIME_ZONE = "Europe/Oslo";
+const DEFAULT_INTERVAL_MONTHS = 12;
+
+const calendarDateFormatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: NOTICE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+});
+
+type ControlKind = "control" | "rail_control";
+
+export type ControlIntervals = Record<ControlKind, number>;
+
+export type ControlNoticeResult = {
+    overdue: number;
+    reported: number;
+    notifications: number;
+};
+
+type OverdueControl = {
+    machineId: string;
+    machineName: string;
+    kind: ControlKind;
+    dueDate: string;
+    rental: BjugstadRental;
+};
+
+/** "12" -> 12. Falls back to a yearly inspection when nothing valid is configured. */
+export function parseIntervalMonths(value: string | null | undefined): number {
+    const months = Number(value?.trim());
+    return Number.isInteger(months) && months > 0 ? months : DEFAULT_INTERVAL_MONTHS;
+}
+
+export async function sendControlNotices(
+    rentals: BjugstadRental[],
+    intervals: ControlIntervals,
+    now = new Date(),
+): Promise<ControlNoticeResult> {
+    const result: ControlNoticeResult = { overdue: 0, reported: 0, notifications: 0 };
+    const today = toCalendarDate(now);
+    if (!today) return result;
+
+    const rentalByMachine = new Map<string, BjugstadRental>();
+    for (const rental of rentals) {
+        const start = toCalendarDate(rental.startDate);
+        const end = toCalendarDate(rental.endDate);
+        if (rental.rentalId == null || (start && start > today) || (end && end < today)) continue;
+        for (const machine of rental.machines ?? []) {
+            if (machine.machineId != null) rentalByMachine.set(String(machine.machineId), rental);
+        }
+    }
+    if (!rentalByMachine.size) return result;
+
+    const { rows } = await query<{
+        id: string;
+        name: string | null;
+        control_date: Date | null;
+        rail_control_date: Date | null;
+    }>(
+        `
+        SELECT id, name, control_date, rail_control_date
+        FROM machines
+        WHERE id = ANY($1::text[])
+          AND (control_date IS NOT NULL OR rail_control_date IS NOT NULL)
+        `,
+        [[...rentalByMachine.keys()]],
+    );
+
+    const overdue: OverdueControl[] = [];
+    for (const row of rows) {
+        const checks: Array<[ControlKind, Date | null]> = [
+            ["control", row.control_date],
+            ["rail_control", row.rail_control_date],
+        ];
+        for (const [kind, lastDone] of checks) {
+            const done = toCalendarDate(lastDone);
+            if (!done) continue;
+            const dueDate = addMonths(done, intervals[kind]);
+            if (dueDate >= today) continue;
+            overdue.push({
+                machineId: row.id,
+                machineName: row.name ?? `Maskin ${row.id}`,
+                kind,
+                dueDate,
+                rental: rentalByMachine.get(row.id)!,
+            });
+        }
+    }
+
+    result.overdue = overdue.length;
+    if (!overdue.length) return result;
+
+    await withClient(async (client) => {
+        await client.query("BEGIN");
+        try {
+            const claimed: Array<OverdueControl & { noticeId: string }> = [];
+            for (const entry of overdue) {
+                const res = await client.query<{ id: string }>(
+                    `
+                    INSERT INTO control_notices (machine_id, kind, due_date, rental_id, customer_id)
+                    VALUES ($1, $2, $3::date, $4, $5)
+                    ON CONFLICT (machine_id, kind, due_date) DO NOTHING
+                    RETURNING id::text AS id
+                    `,
+                    [entry.machineId, entry.kind, entry.dueDate, entry.rental.rentalId, entry.rental.customerId ?? null],
+                );
+                if (res.rows[0]) claimed.push({ ...entry, noticeId: res.rows[0].id });
+            }
+
+            if (claimed.length) {
+                const { rows: admins } = await client.query<{ id: string; name: string | null }>(
+                    `SELECT id, name FROM users WHERE role = 'super_admin'`,
+                );
+                const machines = claimed.map((entry) => ({
+                    machineId: entry.machineId,
+                    machineName: entry.machineName,
+                    kind: entry.kind,
+                    dueDate: entry.dueDate,
+                    agreementId: String(entry.rental.rentalId),
+                    customerName: entry.rental.customerName ?? null,
+                }));
+
+                // No dedupe key: the claimed control_notices rows already make sure each
+                // overdue check is reported only once.
+                for (const admin of admins) {
+                    result.notifications += await enqueueUserNotification(client, admin.id, {
+                        template: "control_overdue",
+                        data: { name: admin.name, machines },
+                    });
+                }
+
+                await client.query(
+                    `UPDATE control_notices SET notification_count = $2 WHERE id = ANY($1::bigint[])`,
+                    [claimed.map((entry) => entry.noticeId), result.notifications],
+                );
+            }
+
+            await client.query("COMMIT");
+            result.reported = claimed.length;
+        } catch (error) {
+            await client.query("ROLLBACK");
+            result.notifications = 0;
+            throw error;
+        }
+    });
+
+    return result;
+}
+
+// "2025-01-31" + 1 month -> "2025-02-28": the day is clamped to the end of the month.
+function addMonths(calendarDate: string, months: number): string {
+    const [year, month, day] = calendarDate.split("-").map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+// Calendar date (YYYY-MM-DD) in Norwegian time. Dates without a time are taken as-is.
+function toCalendarDate(value: string | Date | null | undefined): string | null {
+    if (!value) return null;
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.slice(0, 10)) && !/[zZ]|[+-]\d{2}:?\d{2}$/.test(value)) {
+        return value.slice(0, 10);
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    return calendarDateFormatter.format(date);
+}
@@ -1,5 +1,7 @@
 // azure/function/src/shared/db.ts
 import { Pool, PoolClient, QueryResult } from "pg";
+import { evaluateGeofences } from "./geofences";
+import { evaluateMovementRules, MovementPosition } from "./movement-alerts";
 
 type SSLMode = "disable" | "allow" | "prefer" | "require" | "verify-ca" | "verify-full";
 
@@ -66,17 +68,6 @@ export type MachineRow = {
     telemetry_source?: string | null;
 };
 
-export type TrackunitTelemetryRow = {
-    trackunit_id: string;
-    last_pos_reported_at?: Date | null;
-    last_pos_latitude?: number | null;
-    last_pos_longitude?: number | null;
-    altitude?: number | null;
-    speed?: number | null;
-    heading?: number | null;
-    km?: number | null;
-};
-
 type MachineHistorySourceRow = Pick<
     MachineRow,
     | "id"
@@ -182,13 +173,19 @@ async function insertMachinePositionHistory(
     )
     VALUES ${placeholders.join(", ")}
     ON CONFLICT (machine_id, source, reported_at) DO NOTHING
+    RETURNING machine_id, source, reported_at, latitude, longitude, speed
   `;
 
-    const res = await client.query(sql, values);
+    const res = await client.query<MovementPosition>(sql, values);
+
+    // Only positions that were new to the history can move a machine in or out of a
+    // geofence or break a movement rule.
+    await evaluateGeofences(client, res.rows);
+    await evaluateMovementRules(client, res.rows);
     return res.rowCount ?? 0;
 }
 
-function buildTelemetryUpdateSql(placeholders: string[], keyColumn: "id" | "trackunit_id") {
+function buildTelemetryUpdateSql(placeholders: string[]) {
     return `
     UPDATE machines AS m
        SET last_updated = now(),
@@ -237,7 +234,7 @@ function buildTelemetryUpdateSql(placeholders: string[], keyColumn: "id" | "trac
       FROM (
         VALUES ${placeholders.join(", ")}
       ) AS v(
-        ${keyColumn},
+        id,
         last_pos_reported_at,
         last_pos_latitude,
         last_pos_longitude,
@@ -246,7 +243,7 @@ function buildTelemetryUpdateSql(placeholders: string[], keyColumn: "id" | "trac
         heading,
         km
       )
-     WHERE m.${keyColumn} = v.${keyColumn}
+     WHERE m.id = v.id
   `;
 }
 
@@ -474,7 +471,7 @@ export async function updateMachineTelemetry(rows: MachineTelemetryRow[]): Promi
         );
     });
 
-    const sql = buildTelemetryUpdateSql(placeholders, "id");
+    const sql = buildTelemetryUpdateSql(placeholders);
 
     return withClient(async (client) => {
         await client.query("BEGIN");
@@ -514,100 +511,264 @@ export async function updateMachineTelemetry(rows: MachineTelemetryRow[]): Promi
     });
 }
 
-export async function updateTrackunitTelemetry(rows: TrackunitTelemetryRow[]): Promise<number> {
-    if (!rows.length) return 0;
+export type TelemetryUnit = {
+    external_id: string;
+    serial_number?: string | null;
+    oem_name?: string | null;
+    model?: string | null;
+};
 
-    const cols = [
-        "trackunit_id",
-        "last_pos_reported_at",
-        "last_pos_latitude",
-        "last_pos_longitude",
-        "altitude",
-        "speed",
-        "heading",
-        "km",
-    ];
+/**
+ * Register the units a telemetry source reported and return external id -> machine id
+ * for the ones that are linked. Units are auto-matched when their serial number points at
+ * exactly one machine, and Trackunit units when their id is the trackunit_id of exactly one
+ * machine; the rest wait for an admin to link them in the portal. Auto-matches are checked
+ * again on every run. Links an admin set or removed (matched_by = 'manual') are left alone.
+ */
+export async function resolveTelemetryLinks(
+    source: string,
+    units: TelemetryUnit[],
+): Promise<Map<string, string>> {
+    const byExternalId = new Map<string, TelemetryUnit>();
+    units.forEach((unit) => {
+        const externalId = String(unit.external_id ?? "").trim();
+        if (externalId) byExternalId.set(externalId, { ...unit, external_id: externalId });
+    });
+    if (!byExternalId.size) return new Map();
 
+    const cols = ["source", "external_id", "serial_number", "oem_name", "model"];
     const values: any[] = [];
     const placeholders: string[] = [];
 
-    rows.forEach((r, i) => {
+    [...byExternalId.values()].forEach((unit, i) => {
         const offset = i * cols.length;
         values.push(
-            r.trackunit_id,
-            r.last_pos_reported_at ?? null,
-            r.last_pos_latitude ?? null,
-            r.last_pos_longitude ?? null,
-            r.altitude ?? null,
-            r.speed ?? null,
-            r.heading ?? null,
-            r.km ?? null,
+            source,
+            unit.external_id,
+            unit.serial_number?.trim() || null,
+            unit.oem_name ?? null,
+            unit.model ?? null,
         );
         placeholders.push(
-            `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`
+            `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`
         );
     });
 
-    const sql = buildTelemetryUpdateSql(placeholders, "trackunit_id");
+    const externalIds = [...byExternalId.keys()];
 
     return withClient(async (client) => {
         await client.query("BEGIN");
 
         try {
-            const trackunitIds = [...new Set(
-                rows
-                    .filter((row) =>
-                        !!row.trackunit_id &&
-                        !!row.last_pos_reported_at &&
-                        isFiniteNumber(row.last_pos_latitude) &&
-                        isFiniteNumber(row.last_pos_longitude),
-                    )
-                    .map((row) => row.trackunit_id as string),
-            )];
+            await client.query(
+                `
+                INSERT INTO machine_telemetry_links (${cols.join(", ")})
+                VALUES ${placeholders.join(", ")}
+                ON CONFLICT (source, external_id) DO UPDATE
+                   SET serial_number = COALESCE(EXCLUDED.serial_number, machine_telemetry_links.serial_number),
+                       oem_name = COALESCE(EXCLUDED.oem_name, machine_telemetry_links.oem_name),
+                       model = COALESCE(EXCLUDED.model, machine_telemetry_links.model),
+                       last_seen_at = now()
+                `,
+                values,
+            );
 
-            if (trackunitIds.length) {
-                const { rows: matchedRows } = await client.query<{
-                    id: string;
-                    trackunit_id: string;
-                }>(
-                    `
-                    SELECT id, trackunit_id
-                    FROM machines
-                    WHERE trackunit_id = ANY($1::text[])
-                    `,
-                    [trackunitIds],
-                );
+            // Links not set by hand follow the machine data on every run, so moving a serial
+            // number or trackunit_id to another machine moves the unit too. A Trackunit id
+            // wins over the serial number; no unique match leaves the unit unlinked.
+            await client.query(
+                `
+                UPDATE machine_telemetry_links AS l
+                   SET machine_id = r.machine_id,
+                       matched_by = r.matched_by,
+                       linked_at = CASE WHEN r.machine_id IS NULL THEN NULL ELSE now() END
+                  FROM (
+                    SELECT
+                        l2.id,
+                        COALESCE(t.machine_id, s.machine_id) AS machine_id,
+                        CASE
+                            WHEN t.machine_id IS NOT NULL THEN 'trackunit_id'
+                            WHEN s.machine_id IS NOT NULL THEN 'serial'
+                        END AS matched_by
+                    FROM machine_telemetry_links l2
+                    LEFT JOIN (
+                        SELECT UPPER(TRIM(serial_number)) AS serial, MIN(id) AS machine_id
+                        FROM machines
+                        WHERE NULLIF(TRIM(serial_number), '') IS NOT NULL
+                        GROUP BY UPPER(TRIM(serial_number))
+                        HAVING COUNT(*) = 1
+                    ) AS s ON UPPER(TRIM(l2.serial_number)) = s.serial
+                    LEFT JOIN (
+                        SELECT UPPER(TRIM(trackunit_id)) AS trackunit_id, MIN(id) AS machine_id
+                        FROM machines
+                        WHERE NULLIF(TRIM(trackunit_id), '') IS NOT NULL
+                        GROUP BY UPPER(TRIM(trackunit_id))
+                        HAVING COUNT(*) = 1
+                    ) AS t ON l2.source = 'trackunit' AND UPPER(TRIM(l2.external_id)) = t.trackunit_id
+                    WHERE l2.source = $1
+                      AND l2.external_id = ANY($2::text[])
+                      AND l2.matched_by IS DISTINCT FROM 'manual'
+                  ) AS r
+                 WHERE l.id = r.id
+                   AND (l.machine_id IS DISTINCT FROM r.machine_id OR l.matched_by IS DISTINCT FROM r.matched_by)
+                `,
+                [source, externalIds],
+            );
 
-                const machineIdByTrackunitId = new Map(
-                    matchedRows.map((matched) => [matched.trackunit_id, matched.id]),
-                );
+            const { rows } = await client.query<{ external_id: string; machine_id: string }>(
+                `
+                SELECT external_id, machine_id
+                FROM machine_telemetry_links
+                WHERE source = $1
+                  AND external_id = ANY($2::text[])
+                  AND machine_id IS NOT NULL
+                `,
+                [source, externalIds],
+            );
 
-                const resolvedHistoryRows = rows.flatMap((row) => {
-                    if (!row.last_pos_reported_at) return [];
-                    if (!isFiniteNumber(row.last_pos_latitude) || !isFiniteNumber(row.last_pos_longitude)) return [];
-
-                    const machineId = machineIdByTrackunitId.get(row.trackunit_id);
-                    if (!machineId) return [];
-
-                    return [{
-                        machine_id: machineId,
-                        source: "trackunit",
-                        reported_at: row.last_pos_reported_at,
-                        latitude: row.last_pos_latitude,
-                        longitude: row.last_pos_longitude,
-                        altitude: row.altitude ?? null,
-                        speed: row.speed ?? null,
-                        heading: row.heading ?? null,
-                        km: row.km ?? null,
-                    }];
-                });
+            await client.query("COMMIT");
+            return new Map(rows.map((row) => [row.external_id, row.machine_id]));
+        } catch (error) {
+            await client.query("ROLLBACK");
+            throw error;
+        }
+    });
+}
 
-                await insertMachinePositionHistory(client, resolvedHistoryRows);
-            }
+export type SyncRunCounts = {
+    fetched?: number | null;
+    updated?: number | null;
+    unmatched?: number | null;
+};
+
+// Runs older than this are pruned when the same source records a new run.
+const SYNC_RUN_RETENTION_DAYS = 90;
+
+/**
+ * Run one timer sync and record the outcome in integration_sync_runs so the portal can
+ * show provider health. The sync's own error is rethrown after it has been recorded,
+ * and a failure to record is only logged so it never hides the real result.
+ */
+export async function trackSyncRun(
+    source: string,
+    run: () => Promise<SyncRunCounts>,
+): Promise<SyncRunCounts> {
+    const startedAt = new Date();
+
+    try {
+        const counts = await run();
+        await recordSyncRun(source, startedAt, "success", counts, null);
+        return counts;
+    } catch (err: any) {
+        await recordSyncRun(source, startedAt, "failed", {}, err?.message || String(err));
+        throw err;
+    }
+}
+
+async function recordSyncRun(
+    source: string,
+    startedAt: Date,
+    status: "success" | "failed",
+    counts: SyncRunCounts,
+    errorMessage: string | null,
+): Promise<void> {
+    try {
+        await query(
+            `
+            INSERT INTO integration_sync_runs (
+              source, status, started_at, finished_at,
+              fetched_count, updated_count, unmatched_count, error_message
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            `,
+            [
+                source,
+                status,
+                startedAt,
+                new Date(),
+                counts.fetched ?? null,
+                counts.updated ?? null,
+                counts.unmatched ?? null,
+                errorMessage ? errorMessage.slice(0, 2000) : null,
+            ],
+        );
+        await query(
+            `
+            DELETE FROM integration_sync_runs
+            WHERE source = $1
+              AND started_at < now() - ($2::int * interval '1 day')
+            `,
+            [source, SYNC_RUN_RETENTION_DAYS],
+        );
+    } catch (error: any) {
+        console.error(`[sync-runs] failed to record ${status} run for ${source}: ${error?.message || error}`);
+    }
+}
+
+export type MachineOperatingTelemetryRow = {
+    machine_id: string;
+    source: string;
+    reported_at: Date;
+    operating_hours?: number | null;
+    idle_hours?: number | null;
+    fuel_used?: number | null;
+    fuel_units?: string | null;
+    fuel_remaining_percent?: number | null;
+    def_remaining_percent?: number | null;
+};
+
+export type MachineFaultCodeRow = {
+    machine_id: string;
+    source: string;
+    code: string;
+    reported_at: Date;
+    description?: string | null;
+    severity?: string | null;
+    code_source?: string | null;
+};
+
+/**
+ * Append engine-hour/fuel readings and fault codes reported by an OEM:
+ * - rows for machines we do not know are dropped
+ * - readings already stored for the same machine/source/time are ignored
+ */
+export async function insertMachineOperatingData(
+    telemetryRows: MachineOperatingTelemetryRow[],
+    faultRows: MachineFaultCodeRow[],
+): Promise<{ telemetry: number; faults: number }> {
+    if (!telemetryRows.length && !faultRows.length) return { telemetry: 0, faults: 0 };
+
+    return withClient(async (client) => {
+        await client.query("BEGIN");
+
+        try {
+            const machineIds = [...new Set(
+                [...telemetryRows, ...faultRows]
+                    .filter((row) => String(row.machine_id ?? "").trim())
+                    .map((row) => String(row.machine_id)),
+            )];
+
+            const { rows: matchedRows } = await client.query<{ id: string }>(
+                `
+                SELECT id
+                FROM machines
+                WHERE id = ANY($1::text[])
+                `,
+                [machineIds],
+            );
+            const matchedIds = new Set(matchedRows.map((row) => row.id));
+
+            const telemetry = await insertMachineOperatingTelemetry(
+                client,
+                telemetryRows.filter((row) => matchedIds.has(String(row.machine_id))),
+            );
+            const faults = await insertMachineFaultCodes(
+                client,
+                faultRows.filter((row) => matchedIds.has(String(row.machine_id))),
+            );
 
-            const res = await client.query(sql, values);
             await client.query("COMMIT");
-            return res.rowCount ?? 0;
+            return { telemetry, faults };
         } catch (error) {
             await client.query("ROLLBACK");
             throw error;
@@ -615,6 +776,118 @@ export async function updateTrackunitTelemetry(rows: TrackunitTelemetryRow[]): P
     });
 }
 
+async function insertMachineOperatingTelemetry(
+    client: PoolClient,
+    rows: MachineOperatingTelemetryRow[],
+): Promise<number> {
+    if (!rows.length) return 0;
+
+    const cols = [
+        "machine_id",
+        "source",
+        "reported_at",
+        "operating_hours",
+        "idle_hours",
+        "fuel_used",
+        "fuel_units",
+        "fuel_remaining_percent",
+        "def_remaining_percent",
+    ];
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    rows.forEach((row, i) => {
+        const offset = i * cols.length;
+        values.push(
+            row.machine_id,
+            row.source,
+            row.reported_at,
+            row.operating_hours ?? null,
+            row.idle_hours ?? null,
+            row.fuel_used ?? null,
+            row.fuel_units ?? null,
+            row.fuel_remaining_percent ?? null,
+            row.def_remaining_percent ?? null,
+        );
+        placeholders.push(
+            `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9})`
+        );
+    });
+
+    const sql = `
+    INSERT INTO machine_operating_telemetry (
+      machine_id,
+      source,
+      reported_at,
+      operating_hours,
+      idle_hours,
+      fuel_used,
+      fuel_units,
+      fuel_remaining_percent,
+      def_remaining_percent
+    )
+    VALUES ${placeholders.join(", ")}
+    ON CONFLICT (machine_id, source, reported_at) DO NOTHING
+  `;
+
+    const res = await client.query(sql, values);
+    return res.rowCount ?? 0;
+}
+
+async function insertMachineFaultCodes(
+    client: PoolClient,
+    rows: MachineFaultCodeRow[],
+): Promise<number> {
+    if (!rows.length) return 0;
+
+    const cols = [
+        "machine_id",
+        "source",
+        "code",
+        "reported_at",
+        "description",
+        "severity",
+        "code_source",
+    ];
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    rows.forEach((row, i) => {
+        const offset = i * cols.length;
+        values.push(
+            row.machine_id,
+            row.source,
+            row.code,
+            row.reported_at,
+            row.description ?? null,
+            row.severity ?? null,
+            row.code_source ?? null,
+        );
+        placeholders.push(
+            `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`
+        );
+    });
+
+    const sql = `
+    INSERT INTO machine_fault_codes (
+      machine_id,
+      source,
+      code,
+      reported_at,
+      description,
+      severity,
+      code_source
+    )
+    VALUES ${placeholders.join(", ")}
+    ON CONFLICT (machine_id, source, code, reported_at) DO NOTHING
+  `;
+
+    const res = await client.query(sql, values);
+    return res.rowCount ?? 0;
+}
+
 export async function upsertCustomers(rows: CustomerRow[]): Promise<number> {
     if (!rows.length) return 0;
 
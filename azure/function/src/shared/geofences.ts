@@ -0,0 +1,234 @@
+// azure/function/src/shared/geofences.ts
+// Purpose: Turn newly ingested positions into geofence enter/exit events. Every telemetry
+// timer goes through insertMachinePositionHistory, which hands the rows it actually
+// inserted to evaluateGeofences inside the same transaction. The last inside/outside
+// state per geofence and machine lives in geofence_machine_states; an event is written
+// whenever a newer position flips that state.
+import { PoolClient } from "pg";
+
+const EARTH_RADIUS_M = 6371008.8;
+
+export type GeofencePosition = {
+    machine_id: string;
+    source: string;
+    reported_at: Date;
+    latitude: number;
+    longitude: number;
+};
+
+type GeofenceRow = {
+    id: string;
+    kind: string;
+    polygon: unknown;
+    center_latitude: number | null;
+    center_longitude: number | null;
+    radius_m: number | null;
+};
+
+type GeofenceStateRow = {
+    geofence_id: string;
+    machine_id: string;
+    inside: boolean;
+    reported_at: Date;
+};
+
+type GeofenceEventRow = {
+    geofence_id: string;
+    machine_id: string;
+    event_type: "enter" | "exit";
+    occurred_at: Date;
+    latitude: number;
+    longitude: number;
+    source: string;
+};
+
+/** Ray casting against a closed or open ring of [lng, lat] pairs. */
+export function isInsidePolygon(lng: number, lat: number, ring: [number, number][]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        const crosses = (yi > lat) !== (yj > lat)
+            && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+        if (crosses) inside = !inside;
+    }
+    return inside;
+}
+
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+function toRing(polygon: unknown): [number, number][] | null {
+    if (!Array.isArray(polygon)) return null;
+    const ring = polygon.filter((point): point is [number, number] =>
+        Array.isArray(point)
+        && point.length >= 2
+        && Number.isFinite(point[0])
+        && Number.isFinite(point[1]));
+    return ring.length >= 3 ? ring : null;
+}
+
+function containsPosition(geofence: GeofenceRow, position: GeofencePosition): boolean | null {
+    if (geofence.kind === "circle") {
+        if (geofence.center_latitude == null || geofence.center_longitude == null || geofence.radius_m == null) {
+            return null;
+        }
+        return distanceMeters(
+            geofence.center_latitude,
+            geofence.center_longitude,
+            position.latitude,
+            position.longitude,
+        ) <= geofence.radius_m;
+    }
+
+    const ring = toRing(geofence.polygon);
+    return ring ? isInsidePolygon(position.longitude, position.latitude, ring) : null;
+}
+
+/**
+ * Compare the positions against every geofence and record state changes. Positions older
+ * than the stored state are ignored, so late or replayed telemetry cannot produce events
+ * out of order. The first position seen for a geofence only counts as an enter event
+ * when it is inside; a machine first seen outside just gets its state recorded.
+ */
+export async function evaluateGeofences(
+    client: PoolClient,
+    positions: GeofencePosition[],
+): Promise<number> {
+    if (!positions.length) return 0;
+
+    const { rows: geofences } = await client.query<GeofenceRow>(
+        `
+        SELECT id::text AS id, kind, polygon, center_latitude, center_longitude, radius_m
+        FROM geofences
+        `,
+    );
+    if (!geofences.length) return 0;
+
+    const machineIds = [...new Set(positions.map((position) => position.machine_id))];
+    const { rows: stateRows } = await client.query<GeofenceStateRow>(
+        `
+        SELECT geofence_id::text AS geofence_id, machine_id, inside, reported_at
+        FROM geofence_machine_states
+        WHERE machine_id = ANY($1::text[])
+        `,
+        [machineIds],
+    );
+
+    const states = new Map<string, GeofenceStateRow>();
+    for (const row of stateRows) {
+        states.set(`${row.geofence_id}:${row.machine_id}`, row);
+    }
+
+    const sorted = [...positions].sort((a, b) => a.reported_at.getTime() - b.reported_at.getTime());
+    const events: GeofenceEventRow[] = [];
+    const changedStates = new Map<string, GeofenceStateRow>();
+
+    for (const geofence of geofences) {
+        for (const position of sorted) {
+            const inside = containsPosition(geofence, position);
+            if (inside == null) break;
+
+            const key = `${geofence.id}:${position.machine_id}`;
+            const previous = states.get(key);
+            if (previous && previous.reported_at.getTime() >= position.reported_at.getTime()) continue;
+
+            if (previous ? previous.inside !== inside : inside) {
+                events.push({
+                    geofence_id: geofence.id,
+                    machine_id: position.machine_id,
+                    event_type: inside ? "enter" : "exit",
+                    occurred_at: position.reported_at,
+                    latitude: position.latitude,
+                    longitude: position.longitude,
+                    source: position.source,
+                });
+            }
+
+            const next = {
+                geofence_id: geofence.id,
+                machine_id: position.machine_id,
+                inside,
+                reported_at: position.reported_at,
+            };
+            states.set(key, next);
+            changedStates.set(key, next);
+        }
+    }
+
+    await upsertGeofenceStates(client, [...changedStates.values()]);
+    return insertGeofenceEvents(client, events);
+}
+
+async function upsertGeofenceStates(client: PoolClient, rows: GeofenceStateRow[]): Promise<void> {
+    if (!rows.length) return;
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    rows.forEach((row, i) => {
+        const offset = i * 4;
+        values.push(row.geofence_id, row.machine_id, row.inside, row.reported_at);
+        placeholders.push(`($${offset + 1}::bigint, $${offset + 2}, $${offset + 3}, $${offset + 4})`);
+    });
+
+    await client.query(
+        `
+        INSERT INTO geofence_machine_states (geofence_id, machine_id, inside, reported_at)
+        VALUES ${placeholders.join(", ")}
+        ON CONFLICT (geofence_id, machine_id) DO UPDATE
+          SET inside = EXCLUDED.inside,
+              reported_at = EXCLUDED.reported_at
+        WHERE EXCLUDED.reported_at > geofence_machine_states.reported_at
+        `,
+        values,
+    );
+}
+
+async function insertGeofenceEvents(client: PoolClient, rows: GeofenceEventRow[]): Promise<number> {
+    if (!rows.length) return 0;
+
+    const cols = 7;
+    const values: any[] = [];
+    const placeholders: string[] = [];
+
+    rows.forEach((row, i) => {
+        const offset = i * cols;
+        values.push(
+            row.geofence_id,
+            row.machine_id,
+            row.event_type,
+            row.occurred_at,
+            row.latitude,
+            row.longitude,
+            row.source,
+        );
+        placeholders.push(
+            `($${offset + 1}::bigint, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`
+        );
+    });
+
+    const res = await client.query(
+        `
+        INSERT INTO geofence_events (
+          geofence_id,
+          machine_id,
+          event_type,
+          occurred_at,
+          latitude,
+          longitude,
+          source
+        )
+        VALUES ${placeholders.join(", ")}
+        ON CONFLICT (geofence_id, machine_id, occurred_at, event_type) DO NOTHING
+        `,
+        values,
+    );
+    return res.rowCount ?? 0;
+}
@@ -0,0 +1,294 @@
+// azure/function/src/shared/movement-alerts.ts
+// Purpose: Theft and after-hours detection. insertMachinePositionHistory hands the rows it
+// inserted to evaluateMovementRules, which checks each position against the active rules
+// in movement_alert_rules and records offending positions in movement_alerts. A rule
+// applies to one machine, to the machines a customer is renting at the time of the
+// position, or to every machine when neither is set. Customer rentals come from the rentals
+// mirror written by timer_get_rentals, so evaluation never waits on the Bjugstad API while
+// the position transaction is open.
+import { PoolClient } from "pg";
+import { distanceMeters } from "./geofences";
+
+const RULE_TIME_ZONE = "Europe/Oslo";
+// An alert keeps the most recent offending positions only.
+const MAX_ALERT_POSITIONS = 200;
+
+export type MovementPosition = {
+    machine_id: string;
+    source: string;
+    reported_at: Date;
+    latitude: number;
+    longitude: number;
+    speed?: number | null;
+};
+
+type MovementRuleRow = {
+    id: string;
+    name: string;
+    customer_id: number | null;
+    machine_id: string | null;
+    weekdays: number[];
+    start_minute: number;
+    end_minute: number;
+    min_distance_m: number | null;
+    min_speed_kmh: number | null;
+};
+
+type AlertPosition = {
+    reported_at: string;
+    latitude: number;
+    longitude: number;
+    speed_kmh: number | null;
+    distance_m: number;
+};
+
+type RentalWindow = { start: number; end: number | null };
+
+const weekdayFormatter = new Intl.DateTimeFormat("en-GB", {
+    timeZone: RULE_TIME_ZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+});
+const WEEKDAY_NUMBERS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+/**
+ * True when the instant falls inside the rule's local time window. The window opens at
+ * start_minute on each of the listed ISO weekdays (1 = Monday) and closes at end_minute,
+ * the next morning when end_minute <= start_minute. Equal minutes cover the whole day.
+ */
+export function isInRuleWindow(
+    rule: Pick<MovementRuleRow, "weekdays" | "start_minute" | "end_minute">,
+    at: Date,
+): boolean {
+    const parts = Object.fromEntries(
+        weekdayFormatter.formatToParts(at).map((part) => [part.type, part.value]),
+    );
+    const weekday = WEEKDAY_NUMBERS[parts.weekday] ?? 0;
+    const minute = Number(parts.hour) * 60 + Number(parts.minute);
+    const previousDay = weekday === 1 ? 7 : weekday - 1;
+    const days = new Set(rule.weekdays.map(Number));
+
+    if (rule.start_minute === rule.end_minute) return days.has(weekday);
+    if (rule.start_minute < rule.end_minute) {
+        return days.has(weekday) && minute >= rule.start_minute && minute < rule.end_minute;
+    }
+    return (days.has(weekday) && minute >= rule.start_minute)
+        || (days.has(previousDay) && minute < rule.end_minute);
+}
+
+/**
+ * A position offends a rule when it is inside the window and either moved at least
+ * min_distance_m since the machine's previous position or reported (or implied) a speed
+ * of at least min_speed_kmh. Offending positions are appended to the unresolved alert
+ * for the rule and machine, or open a new one.
+ */
+export async function evaluateMovementRules(
+    client: PoolClient,
+    positions: MovementPosition[],
+): Promise<number> {
+    if (!positions.length) return 0;
+
+    const { rows: rules } = await client.query<MovementRuleRow>(
+        `
+        SELECT id::text AS id, name, customer_id, machine_id, weekdays, start_minute, end_minute,
+               min_distance_m, min_speed_kmh
+        FROM movement_alert_rules
+        WHERE active
+          AND (min_distance_m IS NOT NULL OR min_speed_kmh IS NOT NULL)
+        `,
+    );
+    if (!rules.length) return 0;
+
+    const byMachine = new Map<string, MovementPosition[]>();
+    for (const position of positions) {
+        const list = byMachine.get(position.machine_id) ?? [];
+        list.push(position);
+        byMachine.set(position.machine_id, list);
+    }
+    byMachine.forEach((list) => list.sort((a, b) => a.reported_at.getTime() - b.reported_at.getTime()));
+
+    const previous = await loadPreviousPositions(client, byMachine);
+    const rentals = await loadCustomerRentals(client, rules);
+
+    const offenses = new Map<string, { rule: MovementRuleRow; machineId: string; positions: AlertPosition[] }>();
+
+    byMachine.forEach((list, machineId) => {
+        let prev = previous.get(machineId) ?? null;
+
+        for (const position of list) {
+            const distance = prev
+                ? distanceMeters(prev.latitude, prev.longitude, position.latitude, position.longitude)
+                : 0;
+            const hours = prev ? (position.reported_at.getTime() - prev.reported_at.getTime()) / 3_600_000 : 0;
+            const speed = position.speed != null
+                ? Number(position.speed)
+                : hours > 0 ? distance / 1000 / hours : null;
+
+            for (const rule of rules) {
+                if (!appliesTo(rule, machineId, position.reported_at, rentals)) continue;
+                if (!isInRuleWindow(rule, position.reported_at)) continue;
+
+                const movedFar = rule.min_distance_m != null && distance >= rule.min_distance_m;
+                const movedFast = rule.min_speed_kmh != null && speed != null && speed >= rule.min_speed_kmh;
+                if (!movedFar && !movedFast) continue;
+
+                const key = `${rule.id}:${machineId}`;
+                const offense = offenses.get(key) ?? { rule, machineId, positions: [] };
+                offense.positions.push({
+                    reported_at: position.reported_at.toISOString(),
+                    latitude: position.latitude,
+                    longitude: position.longitude,
+                    speed_kmh: speed != null ? Math.round(speed * 10) / 10 : null,
+                    distance_m: Math.round(distance),
+                });
+                offenses.set(key, offense);
+            }
+
+            prev = position;
+        }
+    });
+
+    if (!offenses.size) return 0;
+
+    const values: any[] = [];
+    const placeholders: string[] = [];
+    let i = 0;
+
+    offenses.forEach(({ rule, machineId, positions: offending }) => {
+        const offset = i++ * 8;
+        const speeds = offending.map((p) => p.speed_kmh).filter((s): s is number => s != null);
+        values.push(
+            rule.id,
+            rule.name,
+            machineId,
+            new Date(offending[0].reported_at),
+            new Date(offending[offending.length - 1].reported_at),
+            offending.reduce((sum, p) => sum + p.distance_m, 0),
+            speeds.length ? Math.max(...speeds) : null,
+            JSON.stringify(offending.slice(-MAX_ALERT_POSITIONS)),
+        );
+        placeholders.push(
+            `($${offset + 1}::bigint, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}::jsonb)`
+        );
+    });
+
+    const res = await client.query(
+        `
+        INSERT INTO movement_alerts (
+          rule_id,
+          rule_name,
+          machine_id,
+          first_position_at,
+          last_position_at,
+          distance_m,
+          max_speed_kmh,
+          positions
+        )
+        VALUES ${placeholders.join(", ")}
+        ON CONFLICT (rule_id, machine_id) WHERE status <> 'resolved' DO UPDATE
+          SET first_position_at = LEAST(movement_alerts.first_position_at, EXCLUDED.first_position_at),
+              last_position_at = GREATEST(movement_alerts.last_position_at, EXCLUDED.last_position_at),
+              distance_m = movement_alerts.distance_m + EXCLUDED.distance_m,
+              max_speed_kmh = GREATEST(movement_alerts.max_speed_kmh, EXCLUDED.max_speed_kmh),
+              positions = (
+                SELECT COALESCE(jsonb_agg(t.position ORDER BY t.ord), '[]'::jsonb)
+                FROM jsonb_array_elements(movement_alerts.positions || EXCLUDED.positions)
+                  WITH ORDINALITY AS t(position, ord)
+                WHERE t.ord > jsonb_array_length(movement_alerts.positions || EXCLUDED.positions) - ${MAX_ALERT_POSITIONS}
+              ),
+              updated_at = now()
+        `,
+        values,
+    );
+    return res.rowCount ?? 0;
+}
+
+function appliesTo(
+    rule: MovementRuleRow,
+    machineId: string,
+    at: Date,
+    rentals: Map<number, Map<string, RentalWindow[]>>,
+): boolean {
+    if (rule.machine_id) return rule.machine_id === machineId;
+    if (rule.customer_id == null) return true;
+
+    const windows = rentals.get(rule.customer_id)?.get(machineId) ?? [];
+    const time = at.getTime();
+    return windows.some((window) => time >= window.start && (window.end == null || time <= window.end));
+}
+
+// The last stored position before each machine's first new one, so the first new
+// position also gets a distance and speed.
+async function loadPreviousPositions(
+    client: PoolClient,
+    byMachine: Map<string, MovementPosition[]>,
+): Promise<Map<string, MovementPosition>> {
+    const machineIds = [...byMachine.keys()];
+    const firstAt = machineIds.map((id) => byMachine.get(id)![0].reported_at);
+
+    const { rows } = await client.query<MovementPosition>(
+        `
+        SELECT DISTINCT ON (h.machine_id)
+            h.machine_id, h.source, h.reported_at, h.latitude, h.longitude, h.speed
+        FROM machine_position_history h
+        JOIN unnest($1::text[], $2::timestamp[]) AS n(machine_id, first_at)
+          ON h.machine_id = n.machine_id
+         AND h.reported_at < n.first_at
+        ORDER BY h.machine_id, h.reported_at DESC
+        `,
+        [machineIds, firstAt],
+    );
+
+    return new Map(rows.map((row) => [row.machine_id, row]));
+}
+
+// Rental windows per machine for every customer that has an active customer rule. The
+// mirror stores Norwegian wall-clock times; an end at midnight covers that whole day.
+async function loadCustomerRentals(
+    client: PoolClient,
+    rules: MovementRuleRow[],
+): Promise<Map<number, Map<string, RentalWindow[]>>> {
+    const customerIds = [...new Set(
+        rules
+            .filter((rule) => !rule.machine_id && rule.customer_id != null)
+            .map((rule) => Number(rule.customer_id)),
+    )];
+    const rentals = new Map<number, Map<string, RentalWindow[]>>();
+    if (!customerIds.length) return rentals;
+
+    const { rows } = await client.query<{
+        customer_id: number;
+        machine_id: string;
+        start_ms: string;
+        end_ms: string | null;
+    }>(
+        `
+        SELECT
+            r.customer_id,
+            rm.machine_id,
+            EXTRACT(EPOCH FROM r.start_date AT TIME ZONE $2) * 1000 AS start_ms,
+            EXTRACT(EPOCH FROM (
+                CASE WHEN r.end_date = date_trunc('day', r.end_date)
+                     THEN r.end_date + interval '1 day' - interval '1 millisecond'
+                     ELSE r.end_date
+                END
+            ) AT TIME ZONE $2) * 1000 AS end_ms
+        FROM rentals r
+        JOIN rental_machines rm ON rm.rental_id = r.rental_id
+        WHERE r.customer_id = ANY($1::int[])
+          AND r.start_date IS NOT NULL
+        `,
+        [customerIds, RULE_TIME_ZONE],
+    );
+
+    for (const row of rows) {
+        const byMachine = rentals.get(row.customer_id) ?? new Map<string, RentalWindow[]>();
+        const window = { start: Number(row.start_ms), end: row.end_ms != null ? Number(row.end_ms) : null };
+        byMachine.set(row.machine_id, [...(byMachine.get(row.machine_id) ?? []), window]);
+        rentals.set(row.customer_id, byMachine);
+    }
+
+    return rentals;
+}
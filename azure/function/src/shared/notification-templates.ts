@@ -0,0 +1,216 @@
+// azure/function/src/shared/notification-templates.ts
+// Purpose: Norwegian texts for every notification template. Producers only store the
+// template key and its data in the notifications outbox; the text is rendered when the
+// message is sent, so wording changes also apply to messages still waiting for a retry.
+
+export type RenderedNotification = {
+    subject: string;
+    /** E-mail body. */
+    text: string;
+    /** Short version for SMS. */
+    sms: string;
+};
+
+export type TemplateContext = {
+    /** Public URL of the portal, e.g. "https://utleie.bjugstad.no". Null when not configured. */
+    portalUrl: string | null;
+};
+
+type TemplateData = Record<string, unknown>;
+
+const SIGNATURE = "Vennlig hilsen\nBjugstad";
+
+const ROLE_LABELS: Record<string, string> = {
+    admin: "selskapsadministrator",
+    user: "bruker",
+};
+
+const CONTROL_KIND_LABELS: Record<string, string> = {
+    control: "periodisk kontroll",
+    rail_control: "jernbanekontroll",
+};
+
+const templates: Record<string, (data: TemplateData, context: TemplateContext) => RenderedNotification> = {
+    user_created: (data, context) => {
+        const customers = asStringList(data.customers);
+        const companies = customers.length ? ` for ${joinNames(customers)}` : "";
+        const phone = asString(data.phone);
+        return {
+            subject: "Du har fått tilgang til Bjugstad utleieportal",
+            text: [
+                greeting(data.name),
+                `Det er opprettet en bruker til deg i Bjugstad utleieportal${companies}.`,
+                phone ? `Du logger inn med Vipps på telefonnummeret ${phone}.` : "Du logger inn med Vipps.",
+                context.portalUrl ? `Logg inn her: ${context.portalUrl}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: withLink(`Du har fått tilgang til Bjugstad utleieportal${companies}. Logg inn med Vipps.`, context),
+        };
+    },
+
+    access_granted: (data, context) => {
+        const customer = asString(data.customerName) ?? "et selskap";
+        const role = ROLE_LABELS[asString(data.role) ?? ""] ?? "bruker";
+        const grantedBy = asString(data.grantedBy);
+        return {
+            subject: `Ny tilgang til ${customer}`,
+            text: [
+                greeting(data.name),
+                `Du er lagt til som ${role} for ${customer} i Bjugstad utleieportal${grantedBy ? ` av ${grantedBy}` : ""}.`,
+                "Du ser nå selskapets avtaler, maskiner og dokumenter når du logger inn.",
+                context.portalUrl ? `Logg inn her: ${context.portalUrl}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: withLink(`Du er lagt til som ${role} for ${customer} i Bjugstad utleieportal.`, context),
+        };
+    },
+
+    agreement_expiring: (data, context) => {
+        const agreementId = asString(data.agreementId) ?? "";
+        const customer = asString(data.customerName) ?? "kunden";
+        const endDate = formatDate(asString(data.endDate));
+        const daysLeft = Number(data.daysLeft);
+        const when = daysLeft <= 0 ? "i dag" : daysLeft === 1 ? "i morgen" : `om ${daysLeft} dager`;
+        const machines = asStringList(data.machines);
+        const project = asString(data.projectNumber);
+        const link = context.portalUrl && agreementId
+            ? `${context.portalUrl}/avtaler?avtale=${encodeURIComponent(agreementId)}`
+            : null;
+        const forStaff = data.audience === "staff";
+
+        return {
+            subject: `Avtale ${agreementId} med ${customer} utløper ${when}`,
+            text: [
+                greeting(data.name),
+                `Leieavtale ${agreementId}${forStaff ? ` med ${customer}` : ""} utløper ${when} (${endDate}).`,
+                machines.length ? `Maskiner: ${machines.join(", ")}` : null,
+                project ? `Prosjektnummer: ${project}` : null,
+                forStaff
+                    ? "Ta kontakt med kunden hvis leien skal forlenges eller maskinene hentes."
+                    : "Ønsker dere å forlenge leien eller avtale retur, ta kontakt med oss.",
+                link ? `Se avtalen: ${link}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: [
+                `Leieavtale ${agreementId}${forStaff ? ` med ${customer}` : ""} utløper ${when} (${endDate}).`,
+                link,
+            ].filter(Boolean).join(" "),
+        };
+    },
+
+    rental_request_decided: (data, context) => {
+        const agreementId = asString(data.agreementId) ?? "";
+        const isReturn = data.type === "return";
+        const approved = data.status === "approved";
+        const desiredDate = formatDate(asString(data.desiredDate));
+        const decisionComment = asString(data.decisionComment);
+        const what = isReturn
+            ? `Returmeldingen for avtale ${agreementId} (${desiredDate})`
+            : `Forespørselen om forlengelse av avtale ${agreementId} til ${desiredDate}`;
+        const outcome = approved ? "er godkjent" : "er avvist";
+        const link = context.portalUrl && agreementId
+            ? `${context.portalUrl}/avtaler?avtale=${encodeURIComponent(agreementId)}`
+            : null;
+
+        return {
+            subject: `${isReturn ? "Retur" : "Forlengelse"} av avtale ${agreementId} ${outcome}`,
+            text: [
+                greeting(data.name),
+                `${what} ${outcome}.`,
+                decisionComment ? `Kommentar fra Bjugstad: ${decisionComment}` : null,
+                approved ? null : "Ta kontakt med oss hvis du har spørsmål.",
+                link ? `Se avtalen: ${link}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: [`${what} ${outcome}.`, link].filter(Boolean).join(" "),
+        };
+    },
+
+    booking_request_decided: (data, context) => {
+        const machine = asString(data.machine);
+        const period = `${formatDate(asString(data.startDate))}–${formatDate(asString(data.endDate))}`;
+        const approved = data.status === "approved";
+        const rentalId = asString(data.rentalId);
+        const decisionComment = asString(data.decisionComment);
+        const what = `Bestillingen${machine ? ` av ${machine}` : ""} for ${period}`;
+        const outcome = approved ? "er godkjent" : "er avvist";
+        const link = context.portalUrl ? `${context.portalUrl}/bestilling` : null;
+
+        return {
+            subject: `Bestilling ${outcome}`,
+            text: [
+                greeting(data.name),
+                `${what} ${outcome}.`,
+                approved && rentalId ? `Avtalenummer: ${rentalId}` : null,
+                decisionComment ? `Kommentar fra Bjugstad: ${decisionComment}` : null,
+                approved ? null : "Ta kontakt med oss hvis du har spørsmål.",
+                link ? `Se bestillingene dine: ${link}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: [`${what} ${outcome}.`, link].filter(Boolean).join(" "),
+        };
+    },
+
+    control_overdue: (data, context) => {
+        const machines = Array.isArray(data.machines) ? (data.machines as TemplateData[]) : [];
+        const count = machines.length;
+        const summary = `${count} ${count === 1 ? "utleid maskin har" : "utleide maskiner har"} forfalt kontroll`;
+        const lines = machines.map((machine) => {
+            const kind = CONTROL_KIND_LABELS[asString(machine.kind) ?? ""] ?? "kontroll";
+            const customer = asString(machine.customerName);
+            return `- ${asString(machine.machineName) ?? "Maskin"}: ${kind} forfalt ${formatDate(asString(machine.dueDate))}`
+                + ` (avtale ${asString(machine.agreementId) ?? "-"}${customer ? ` med ${customer}` : ""})`;
+        });
+        const link = context.portalUrl ? `${context.portalUrl}/kontroller` : null;
+
+        return {
+            subject: summary.charAt(0).toUpperCase() + summary.slice(1),
+            text: [
+                greeting(data.name),
+                "Disse maskinene er ute på aktive avtaler, men har ikke fått gjennomført kontroll i tide:",
+                lines.join("\n"),
+                link ? `Se alle kontroller: ${link}` : null,
+                SIGNATURE,
+            ].filter(Boolean).join("\n\n"),
+            sms: [`${summary}.`, link].filter(Boolean).join(" "),
+        };
+    },
+};
+
+export function renderNotification(
+    template: string,
+    data: unknown,
+    context: TemplateContext,
+): RenderedNotification | null {
+    const render = templates[template];
+    if (!render) return null;
+    return render((data && typeof data === "object" ? data : {}) as TemplateData, context);
+}
+
+function greeting(name: unknown): string {
+    const first = asString(name)?.split(/\s+/)[0];
+    return first ? `Hei ${first},` : "Hei,";
+}
+
+// Dates from the Bjugstad API are calendar dates; show them as dd.mm.yyyy.
+function formatDate(value: string | null): string {
+    const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    return match ? `${match[3]}.${match[2]}.${match[1]}` : value ?? "";
+}
+
+function withLink(message: string, context: TemplateContext): string {
+    return context.portalUrl ? `${message} ${context.portalUrl}` : message;
+}
+
+function joinNames(names: string[]): string {
+    if (names.length <= 1) return names.join("");
+    return `${names.slice(0, -1).join(", ")} og ${names[names.length - 1]}`;
+}
+
+function asString(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function asStringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(asString).filter((item): item is string => item !== null) : [];
+}
@@ -0,0 +1,295 @@
+// azure/function/src/shared/notifications.ts
+// Purpose: Deliver the notifications outbox. The portal and the timers enqueue one row per
+// user and channel; timer_notifications claims due rows, renders their template and hands
+// them to the configured transport for the channel. Failed sends are retried with backoff
+// until MAX_ATTEMPTS, after which the row is left as failed for inspection.
+//
+// Transports are chosen per channel with NOTIFY_EMAIL_TRANSPORT (smtp | file | console)
+// and NOTIFY_SMS_TRANSPORT (http | file | console). Without an explicit choice the live
+// transport is used when it is configured, and console otherwise, so local runs never
+// send real messages by accident.
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { PoolClient } from "pg";
+import { query } from "./db";
+import { optionalConfig, requireConfig } from "./kv";
+import { renderNotification, TemplateContext } from "./notification-templates";
+import { sendMail } from "../services/smtp";
+import { sendSms } from "../services/sms";
+
+export type NotificationChannel = "email" | "sms";
+
+type OutboxRow = {
+    id: string;
+    channel: NotificationChannel;
+    recipient: string;
+    template: string;
+    data: unknown;
+    attempts: number;
+};
+
+type OutgoingNotification = {
+    id: string;
+    channel: NotificationChannel;
+    recipient: string;
+    subject: string;
+    text: string;
+};
+
+type Transport = {
+    name: string;
+    send: (message: OutgoingNotification) => Promise<void>;
+};
+
+export type NotificationRequest = {
+    template: string;
+    data: Record<string, unknown>;
+    /** Sends the message at most once per recipient and channel. */
+    dedupeKey?: string | null;
+};
+
+export type DispatchResult = {
+    claimed: number;
+    sent: number;
+    retried: number;
+    failed: number;
+    lastError: string | null;
+};
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 6;
+// Delay before attempt n + 1, indexed by the attempts made so far.
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+// A row stuck in "sending" this long belongs to an invocation that died mid-send.
+const STALE_LOCK_MINUTES = 15;
+
+const transports = new Map<NotificationChannel, Promise<Transport>>();
+
+/**
+ * Queue a message for a portal user on every channel they have enabled and have contact
+ * details for. Same rules as enqueueNotification in lib/notifications.ts.
+ */
+export async function enqueueUserNotification(
+    client: PoolClient,
+    userId: string,
+    request: NotificationRequest,
+): Promise<number> {
+    const res = await client.query(
+        `
+        INSERT INTO notifications (user_id, channel, recipient, template, data, dedupe_key)
+        SELECT u.id, c.channel, c.recipient, $2::text, $3::jsonb, $4::text
+        FROM users u
+        LEFT JOIN notification_preferences p ON p.user_id = u.id
+        CROSS JOIN LATERAL (
+            VALUES
+                ('email', NULLIF(TRIM(u.email), ''), COALESCE(p.email_enabled, true)),
+                ('sms', NULLIF(TRIM(u.phone), ''), COALESCE(p.sms_enabled, true))
+        ) AS c(channel, recipient, enabled)
+        WHERE u.id = $1
+          AND c.enabled
+          AND c.recipient IS NOT NULL
+        ON CONFLICT (user_id, channel, dedupe_key) DO NOTHING
+        `,
+        [userId, request.template, JSON.stringify(request.data), request.dedupeKey ?? null],
+    );
+    return res.rowCount ?? 0;
+}
+
+/**
+ * Queue a message for an address outside the portal, such as a Bjugstad employee. These
+ * rows have no user and are not deduplicated; the producer keeps its own record.
+ */
+export async function enqueueDirectNotification(
+    client: PoolClient,
+    channel: NotificationChannel,
+    recipient: string,
+    request: NotificationRequest,
+): Promise<number> {
+    const res = await client.query(
+        `
+        INSERT INTO notifications (user_id, channel, recipient, template, data, dedupe_key)
+        VALUES (NULL, $1, $2, $3, $4::jsonb, $5)
+        `,
+        [channel, recipient, request.template, JSON.stringify(request.data), request.dedupeKey ?? null],
+    );
+    return res.rowCount ?? 0;
+}
+
+export async function dispatchNotifications(): Promise<DispatchResult> {
+    const { rows } = await query<OutboxRow>(
+        `
+        UPDATE notifications
+           SET status = 'sending',
+               locked_at = now(),
+               attempts = attempts + 1,
+               updated_at = now()
+         WHERE id IN (
+            SELECT id
+            FROM notifications
+            WHERE (status = 'pending' AND next_attempt_at <= now())
+               OR (status = 'sending' AND locked_at < now() - ($2::int * interval '1 minute'))
+            ORDER BY next_attempt_at
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+         )
+        RETURNING id::text AS id, channel, recipient, template, data, attempts
+        `,
+        [BATCH_SIZE, STALE_LOCK_MINUTES],
+    );
+
+    const result: DispatchResult = { claimed: rows.length, sent: 0, retried: 0, failed: 0, lastError: null };
+    if (!rows.length) return result;
+
+    const context: TemplateContext = {
+        portalUrl: (await optionalConfig("PORTAL_BASE_URL"))?.trim().replace(/\/$/, "") || null,
+    };
+
+    for (const row of rows) {
+        const rendered = renderNotification(row.template, row.data, context);
+        if (!rendered) {
+            await markFailed(row.id, `Unknown template "${row.template}"`);
+            result.failed++;
+            continue;
+        }
+
+        try {
+            const transport = await getTransport(row.channel);
+            await transport.send({
+                id: row.id,
+                channel: row.channel,
+                recipient: row.recipient,
+                subject: rendered.subject,
+                text: row.channel === "sms" ? rendered.sms : rendered.text,
+            });
+            await markSent(row.id);
+            result.sent++;
+        } catch (error: any) {
+            const message = error?.message || String(error);
+            result.lastError = message;
+            console.error(`[notifications] ${row.channel} notification ${row.id} failed: ${message}`);
+
+            if (row.attempts >= MAX_ATTEMPTS) {
+                await markFailed(row.id, message);
+                result.failed++;
+            } else {
+                await markRetry(row.id, message, RETRY_DELAYS_MINUTES[row.attempts - 1] ?? 240);
+                result.retried++;
+            }
+        }
+    }
+
+    return result;
+}
+
+async function markSent(id: string): Promise<void> {
+    await query(
+        `
+        UPDATE notifications
+           SET status = 'sent', sent_at = now(), locked_at = NULL, last_error = NULL, updated_at = now()
+         WHERE id = $1::bigint
+        `,
+        [id],
+    );
+}
+
+async function markRetry(id: string, error: string, delayMinutes: number): Promise<void> {
+    await query(
+        `
+        UPDATE notifications
+           SET status = 'pending',
+               next_attempt_at = now() + ($3::int * interval '1 minute'),
+               locked_at = NULL,
+               last_error = $2,
+               updated_at = now()
+         WHERE id = $1::bigint
+        `,
+        [id, error.slice(0, 2000), delayMinutes],
+    );
+}
+
+async function markFailed(id: string, error: string): Promise<void> {
+    await query(
+        `
+        UPDATE notifications
+           SET status = 'failed', locked_at = NULL, last_error = $2, updated_at = now()
+         WHERE id = $1::bigint
+        `,
+        [id, error.slice(0, 2000)],
+    );
+}
+
+function getTransport(channel: NotificationChannel): Promise<Transport> {
+    let transport = transports.get(channel);
+    if (!transport) {
+        transport = createTransport(channel);
+        transports.set(channel, transport);
+        transport.catch(() => transports.delete(channel));
+    }
+    return transport;
+}
+
+async function createTransport(channel: NotificationChannel): Promise<Transport> {
+    const setting = channel === "email" ? "NOTIFY_EMAIL_TRANSPORT" : "NOTIFY_SMS_TRANSPORT";
+    const liveKey = channel === "email" ? "SMTP_HOST" : "SMS_GATEWAY_URL";
+    const live = channel === "email" ? "smtp" : "http";
+    const kind = (await optionalConfig(setting))?.trim().toLowerCase()
+        || ((await optionalConfig(liveKey)) ? live : "console");
+
+    if (kind === "console") {
+        return {
+            name: "console",
+            send: async (message) => {
+                console.log(
+                    `[notifications] ${message.channel} to ${message.recipient}: ${message.subject}\n${message.text}`,
+                );
+            },
+        };
+    }
+
+    if (kind === "file") {
+        const dir = (await optionalConfig("NOTIFY_FILE_DIR")) || path.join(os.tmpdir(), "bjugstad-notifications");
+        await fs.mkdir(dir, { recursive: true });
+        return {
+            name: "file",
+            send: async (message) => {
+                const file = path.join(dir, `${Date.now()}-${message.id}-${message.channel}.txt`);
+                await fs.writeFile(
+                    file,
+                    `To: ${message.recipient}\nSubject: ${message.subject}\n\n${message.text}\n`,
+                    "utf8",
+                );
+            },
+        };
+    }
+
+    if (kind === "smtp" && channel === "email") {
+        const port = Number((await optionalConfig("SMTP_PORT")) || 587);
+        const config = {
+            host: await requireConfig("SMTP_HOST"),
+            port,
+            secure: ((await optionalConfig("SMTP_SECURE")) ?? String(port === 465)).toLowerCase() === "true",
+            user: await optionalConfig("SMTP_USER"),
+            password: await optionalConfig("SMTP_PASSWORD"),
+            from: await requireConfig("NOTIFY_EMAIL_FROM"),
+        };
+        return {
+            name: "smtp",
+            send: (message) => sendMail(config, { to: message.recipient, subject: message.subject, text: message.text }),
+        };
+    }
+
+    if (kind === "http" && channel === "sms") {
+        const config = {
+            url: await requireConfig("SMS_GATEWAY_URL"),
+            token: await requireConfig("SMS_GATEWAY_TOKEN"),
+            sender: (await optionalConfig("SMS_SENDER")) || "Bjugstad",
+        };
+        return {
+            name: "http",
+            send: (message) => sendSms(config, message.recipient, message.text),
+        };
+    }
+
+    throw new Error(`Unsupported ${setting} "${kind}" for ${channel}`);
+}
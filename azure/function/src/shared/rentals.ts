@@ -0,0 +1,267 @@
+// azure/function/src/shared/rentals.ts
+// Purpose: Mirror GetRentals into rentals and rental_machines so the web app can read
+// agreements from Postgres (lib/agreements.ts) and join them with machines and positions,
+// and customer movement rules (movement-alerts.ts) can match rentals without an API call.
+// Every run replaces the whole mirror in one transaction: rentals missing from the
+// response are deleted, and each rental's machine list is rewritten. Rentals whose content
+// changed since the last run also get a row in rental_snapshots, which the agreement
+// history in lib/agreement-history.ts diffs.
+import { BjugstadRental } from "../services/bjugstad";
+import { withClient } from "./db";
+
+export type RentalSyncResult = {
+    rentals: number;
+    machines: number;
+    removed: number;
+    snapshots: number;
+    skipped: number;
+};
+
+type RentalRow = {
+    rental_id: number;
+    customer_id: number | null;
+    customer_name: string | null;
+    start_date: string | null;
+    end_date: string | null;
+    comments: string | null;
+    project_number: string | null;
+    location: string | null;
+    contact_person: string | null;
+    contact_person_telephone_number: string | null;
+    contact_person_email: string | null;
+    customer_contact_person_id: number | null;
+    customer_contact_person_name: string | null;
+    customer_contact_person_telephone_number: string | null;
+    customer_contact_person_email: string | null;
+    insurance_included: boolean | null;
+    contract_price: boolean | null;
+    user_name: string | null;
+    user_telephone_number: string | null;
+};
+
+type RentalSnapshotRow = {
+    rental_id: number;
+    customer_id: number | null;
+    data: BjugstadRental;
+};
+
+type RentalMachineRow = {
+    rental_id: number;
+    machine_id: string;
+    make: string | null;
+    model: string | null;
+    number: string | null;
+    position: number;
+};
+
+export async function syncRentals(rentals: BjugstadRental[]): Promise<RentalSyncResult> {
+    const rentalRows = new Map<number, RentalRow>();
+    const machineRows = new Map<string, RentalMachineRow>();
+    const snapshotRows = new Map<number, RentalSnapshotRow>();
+    let skipped = 0;
+
+    for (const rental of rentals) {
+        const rentalId = asInteger(rental?.rentalId);
+        if (rentalId === null) {
+            skipped++;
+            continue;
+        }
+
+        const row = toRentalRow(rentalId, rental);
+        rentalRows.set(rentalId, row);
+        snapshotRows.set(rentalId, { rental_id: rentalId, customer_id: row.customer_id, data: toSnapshot(rental) });
+        (rental.machines ?? []).forEach((machine, position) => {
+            const machineId = asInteger(machine?.machineId);
+            if (machineId === null) return;
+            const key = `${rentalId}:${machineId}`;
+            if (machineRows.has(key)) return;
+            machineRows.set(key, {
+                rental_id: rentalId,
+                machine_id: String(machineId),
+                make: machine.make ?? null,
+                model: machine.model ?? null,
+                number: machine.number ?? null,
+                position,
+            });
+        });
+    }
+
+    // An empty or broken response must never wipe the mirror.
+    if (!rentalRows.size) {
+        throw new Error(`GetRentals returned no usable rentals (${rentals.length} items, ${skipped} without id)`);
+    }
+
+    return withClient(async (client) => {
+        await client.query("BEGIN");
+        try {
+            await client.query(
+                `
+                INSERT INTO rentals (
+                    rental_id, customer_id, customer_name, start_date, end_date, comments,
+                    project_number, location, contact_person, contact_person_telephone_number,
+                    contact_person_email, customer_contact_person_id, customer_contact_person_name,
+                    customer_contact_person_telephone_number, customer_contact_person_email,
+                    insurance_included, contract_price, user_name, user_telephone_number, synced_at
+                )
+                SELECT r.rental_id, r.customer_id, r.customer_name, r.start_date, r.end_date, r.comments,
+                       r.project_number, r.location, r.contact_person, r.contact_person_telephone_number,
+                       r.contact_person_email, r.customer_contact_person_id, r.customer_contact_person_name,
+                       r.customer_contact_person_telephone_number, r.customer_contact_person_email,
+                       r.insurance_included, r.contract_price, r.user_name, r.user_telephone_number, now()
+                FROM jsonb_to_recordset($1::jsonb) AS r(
+                    rental_id int, customer_id int, customer_name text, start_date timestamp,
+                    end_date timestamp, comments text, project_number text, location text,
+                    contact_person text, contact_person_telephone_number text, contact_person_email text,
+                    customer_contact_person_id int, customer_contact_person_name text,
+                    customer_contact_person_telephone_number text, customer_contact_person_email text,
+                    insurance_included boolean, contract_price boolean, user_name text,
+                    user_telephone_number text
+                )
+                ON CONFLICT (rental_id) DO UPDATE
+                  SET customer_id = EXCLUDED.customer_id,
+                      customer_name = EXCLUDED.customer_name,
+                      start_date = EXCLUDED.start_date,
+                      end_date = EXCLUDED.end_date,
+                      comments = EXCLUDED.comments,
+                      project_number = EXCLUDED.project_number,
+                      location = EXCLUDED.location,
+                      contact_person = EXCLUDED.contact_person,
+                      contact_person_telephone_number = EXCLUDED.contact_person_telephone_number,
+                      contact_person_email = EXCLUDED.contact_person_email,
+                      customer_contact_person_id = EXCLUDED.customer_contact_person_id,
+                      customer_contact_person_name = EXCLUDED.customer_contact_person_name,
+                      customer_contact_person_telephone_number = EXCLUDED.customer_contact_person_telephone_number,
+                      customer_contact_person_email = EXCLUDED.customer_contact_person_email,
+                      insurance_included = EXCLUDED.insurance_included,
+                      contract_price = EXCLUDED.contract_price,
+                      user_name = EXCLUDED.user_name,
+                      user_telephone_number = EXCLUDED.user_telephone_number,
+                      synced_at = now()
+                `,
+                [JSON.stringify([...rentalRows.values()])],
+            );
+
+            const removed = await client.query(
+                `DELETE FROM rentals WHERE NOT (rental_id = ANY($1::int[]))`,
+                [[...rentalRows.keys()]],
+            );
+
+            await client.query(`DELETE FROM rental_machines WHERE rental_id = ANY($1::int[])`, [
+                [...rentalRows.keys()],
+            ]);
+            const machines = machineRows.size
+                ? await client.query(
+                      `
+                      INSERT INTO rental_machines (rental_id, machine_id, make, model, number, position)
+                      SELECT m.rental_id, m.machine_id, m.make, m.model, m.number, m.position
+                      FROM jsonb_to_recordset($1::jsonb) AS m(
+                          rental_id int, machine_id text, make text, model text, number text, position int
+                      )
+                      `,
+                      [JSON.stringify([...machineRows.values()])],
+                  )
+                : null;
+
+            // jsonb equality ignores key order, so only real changes produce a snapshot.
+            const snapshots = await client.query(
+                `
+                INSERT INTO rental_snapshots (rental_id, customer_id, data, captured_at)
+                SELECT s.rental_id, s.customer_id, s.data, now()
+                FROM jsonb_to_recordset($1::jsonb) AS s(rental_id int, customer_id int, data jsonb)
+                LEFT JOIN LATERAL (
+                    SELECT p.data
+                    FROM rental_snapshots p
+                    WHERE p.rental_id = s.rental_id
+                    ORDER BY p.captured_at DESC, p.id DESC
+                    LIMIT 1
+                ) previous ON true
+                WHERE previous.data IS DISTINCT FROM s.data
+                `,
+                [JSON.stringify([...snapshotRows.values()])],
+            );
+
+            await client.query("COMMIT");
+            return {
+                rentals: rentalRows.size,
+                machines: machines?.rowCount ?? 0,
+                removed: removed.rowCount ?? 0,
+                snapshots: snapshots.rowCount ?? 0,
+                skipped,
+            };
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        }
+    });
+}
+
+function toRentalRow(rentalId: number, rental: BjugstadRental): RentalRow {
+    return {
+        rental_id: rentalId,
+        customer_id: asInteger(rental.customerId),
+        customer_name: rental.customerName ?? null,
+        start_date: asTimestamp(rental.startDate),
+        end_date: asTimestamp(rental.endDate),
+        comments: rental.comments ?? null,
+        project_number: rental.projectNumber ?? null,
+        location: rental.location ?? null,
+        contact_person: rental.contactPerson ?? null,
+        contact_person_telephone_number: rental.contactPersonTelephoneNumber ?? null,
+        contact_person_email: rental.contactPersonEmail ?? null,
+        customer_contact_person_id: asInteger(rental.customerContactPersonId),
+        customer_contact_person_name: rental.customerContactPersonName ?? null,
+        customer_contact_person_telephone_number: rental.customerContactPersonTelephoneNumber ?? null,
+        customer_contact_person_email: rental.customerContactPersonEmail ?? null,
+        insurance_included: typeof rental.insuranceIncluded === "boolean" ? rental.insuranceIncluded : null,
+        contract_price: typeof rental.contractPrice === "boolean" ? rental.contractPrice : null,
+        user_name: rental.userName ?? null,
+        user_telephone_number: rental.userTelephoneNumber ?? null,
+    };
+}
+
+// Only the fields agreements show, in a fixed shape, so fields the API adds later do not
+// show up as changes.
+function toSnapshot(rental: BjugstadRental): BjugstadRental {
+    const seen = new Set<number>();
+    const machines = (rental.machines ?? []).flatMap((machine) => {
+        const machineId = asInteger(machine?.machineId);
+        if (machineId === null || seen.has(machineId)) return [];
+        seen.add(machineId);
+        return [{ machineId, make: machine.make ?? null, model: machine.model ?? null, number: machine.number ?? null }];
+    });
+
+    return {
+        rentalId: asInteger(rental.rentalId) ?? undefined,
+        customerId: asInteger(rental.customerId) ?? undefined,
+        customerName: rental.customerName ?? null,
+        startDate: asTimestamp(rental.startDate),
+        endDate: asTimestamp(rental.endDate),
+        machines,
+        comments: rental.comments ?? null,
+        projectNumber: rental.projectNumber ?? null,
+        location: rental.location ?? null,
+        contactPerson: rental.contactPerson ?? null,
+        contactPersonTelephoneNumber: rental.contactPersonTelephoneNumber ?? null,
+        contactPersonEmail: rental.contactPersonEmail ?? null,
+        customerContactPersonId: asInteger(rental.customerContactPersonId),
+        customerContactPersonName: rental.customerContactPersonName ?? null,
+        customerContactPersonTelephoneNumber: rental.customerContactPersonTelephoneNumber ?? null,
+        customerContactPersonEmail: rental.customerContactPersonEmail ?? null,
+        insuranceIncluded: typeof rental.insuranceIncluded === "boolean" ? rental.insuranceIncluded : null,
+        contractPrice: typeof rental.contractPrice === "boolean" ? rental.contractPrice : null,
+        userName: rental.userName ?? null,
+        userTelephoneNumber: rental.userTelephoneNumber ?? null,
+    };
+}
+
+function asInteger(value: unknown): number | null {
+    if (value === null || value === undefined || value === "") return null;
+    const num = Number(value);
+    return Number.isInteger(num) ? num : null;
+}
+
+// "2025-03-01T00:00:00" is stored as given; anything Postgres cannot parse becomes null.
+function asTimestamp(value: unknown): string | null {
+    if (typeof value !== "string" || !value.trim()) return null;
+    return Number.isNaN(new Date(value).getTime()) ? null : value.trim();
+}
@@ -0,0 +1,27 @@
+// components/ControlStatusBadge.tsx
+"use client";
+
+import { MACHINE_CONTROL_KIND_LABELS } from "@/lib/constants";
+import { formatDate } from "@/lib/formatters";
+import type { MachineControlAlert } from "@/types/machines";
+
+export default function ControlStatusBadge({ alert }: { alert: MachineControlAlert }) {
+  const className =
+    alert.status === "overdue"
+      ? "border-rose-200 bg-rose-50 text-rose-800"
+      : "border-amber-200 bg-amber-50 text-amber-800";
+
+  return (
+    <span className={`inline-flex whitespace-nowrap rounded-full border px-3 py-1 text-xs font-medium ${className}`}>
+      {MACHINE_CONTROL_KIND_LABELS[alert.kind]} {formatControlDue(alert)}
+    </span>
+  );
+}
+
+/** "forfalt 12.03.2026" or "forfaller om 5 dager". */
+export function formatControlDue(alert: MachineControlAlert) {
+  const dueDate = formatDate(alert.due_date, { showTime: false }) ?? alert.due_date;
+  if (alert.status === "overdue") return `forfalt ${dueDate}`;
+  if (alert.days_left === 0) return "forfaller i dag";
+  return `forfaller om ${alert.days_left} ${alert.days_left === 1 ? "dag" : "dager"}`;
+}
@@ -20,6 +20,14 @@ import {
   IconLogout,
   IconClock,
   IconLoader2,
+  IconPlugConnected,
+  IconHeartbeat,
+  IconAlertTriangle,
+  IconInbox,
+  IconTool,
+  IconCalendarCheck,
+  IconCalendarSearch,
+  IconShoppingCart,
 } from "@tabler/icons-react";
 import { IS_DEV } from "@/lib/constants";
 
@@ -45,6 +53,8 @@ export default function ResponsiveNav() {
     { href: "/avtaler", label: "Avtaler", icon: <IconListDetails className="h-5 w-5" /> },
     { href: "/dokumenter", label: "Dokumenter", icon: <IconFileText className="h-5 w-5" /> },
     { href: "/maskiner", label: "Maskiner", icon: <IconBackhoe className="h-5 w-5" /> },
+    { href: "/ledige-maskiner", label: "Ledige maskiner", icon: <IconCalendarSearch className="h-5 w-5" /> },
+    { href: "/bestilling", label: "Bestilling", icon: <IconShoppingCart className="h-5 w-5" /> },
     { href: "/kart", label: "Kart", icon: <IconMap2 className="h-5 w-5" /> },
     { href: "/profil", label: "Min profil", icon: <IconUser className="h-5 w-5" /> },
   ];
@@ -54,6 +64,12 @@ export default function ResponsiveNav() {
     { href: "/brukere", label: "Brukere", icon: <IconUsers className="h-5 w-5" /> },
     { href: "/kunder", label: "Kunder", icon: <IconBuilding className="h-5 w-5" /> },
     { href: "/aktivitet", label: "Aktivitet", icon: <IconClock className="h-5 w-5" /> },
+    { href: "/telemetri", label: "Telemetri", icon: <IconPlugConnected className="h-5 w-5" /> },
+    { href: "/integrasjoner", label: "Integrasjoner", icon: <IconHeartbeat className="h-5 w-5" /> },
+    { href: "/alarmer", label: "Alarmer", icon: <IconAlertTriangle className="h-5 w-5" /> },
+    { href: "/foresporsler", label: "Forespørsler", icon: <IconInbox className="h-5 w-5" /> },
+    { href: "/servicesaker", label: "Servicesaker", icon: <IconTool className="h-5 w-5" /> },
+    { href: "/kontroller", label: "Kontroller", icon: <IconCalendarCheck className="h-5 w-5" /> },
   ];
 
   const renderLinks = (list: NavItem[]) =>
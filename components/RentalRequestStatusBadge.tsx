@@ -0,0 +1,27 @@
+// components/RentalRequestStatusBadge.tsx
+"use client";
+
+import { RENTAL_REQUEST_STATUS_LABELS, RENTAL_REQUEST_TYPE_LABELS } from "@/lib/constants";
+import type { RentalRequestEntry } from "@/lib/rental-requests";
+
+export default function RentalRequestStatusBadge({
+  request,
+  showType = false,
+}: {
+  request: Pick<RentalRequestEntry, "status"> & Partial<Pick<RentalRequestEntry, "type">>;
+  showType?: boolean;
+}) {
+  const className =
+    request.status === "pending"
+      ? "border-amber-200 bg-amber-50 text-amber-800"
+      : request.status === "approved"
+        ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+        : "border-rose-200 bg-rose-50 text-rose-800";
+
+  return (
+    <span className={`inline-flex whitespace-nowrap rounded-full border px-3 py-1 text-xs font-medium ${className}`}>
+      {showType && request.type ? `${RENTAL_REQUEST_TYPE_LABELS[request.type]}: ` : ""}
+      {RENTAL_REQUEST_STATUS_LABELS[request.status]}
+    </span>
+  );
+}
@@ -1,11 +1,29 @@
 "use client";
 
 import { IconCertificate, IconChevronLeft, IconLoader2, IconMinus, IconPlus, IconX } from "@tabler/icons-react";
+import Image from "next/image";
 import maplibregl from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
 import { getOEMLogo } from "@/lib/get_OEM_logo";
 import { isYoutubeUrl } from "@/lib/youtube";
+import {
+  CUSTOMER_ATTACHMENT_CATEGORY_LABELS,
+  MOVEMENT_ALERT_STATUS_LABELS,
+  SERVICE_TICKET_CATEGORY_LABELS,
+  SERVICE_TICKET_STATUS_LABELS,
+} from "@/lib/constants";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import ControlStatusBadge from "@/components/ControlStatusBadge";
+import type {
+  CustomerAttachmentCategory,
+  CustomerAttachmentEntry,
+  MachineControlAlert,
+  MachineOperatingData,
+  MovementAlertEntry,
+  ServiceTicketCategory,
+  ServiceTicketEntry,
+} from "@/types/machines";
 
 export type MachineDetails = {
   machineId: number;
@@ -19,6 +37,7 @@ export type MachineDetails = {
   location?: string | null;
   railControlDate?: string | null;
   controlDate?: string | null;
+  controlAlerts?: MachineControlAlert[] | null;
   trainingVideos?: string[] | null;
   documentedTrainingVideoUri?: string | null;
   englishDocumentedTrainingVideoUri?: string | null;
@@ -53,6 +72,12 @@ type AttachmentsState = {
   error: string | null;
 };
 
+type OperatingDataState = {
+  status: "idle" | "loading" | "ready" | "error";
+  data: MachineOperatingData | null;
+  error: string | null;
+};
+
 type VideoMetadata = {
   title: string | null;
   author: string | null;
@@ -123,6 +148,7 @@ export default function MachineDetailsDialog({
   const [localError, setLocalError] = useState<string | null>(error);
   const locationCacheRef = useRef<Record<number, MachineLocation | null>>({});
   const attachmentsCacheRef = useRef<Record<number, MachineAttachment[]>>({});
+  const operatingDataCacheRef = useRef<Record<number, MachineOperatingData>>({});
   const agreementsCacheRef = useRef<Record<number, MachineAgreementSummary[]>>({});
   const [locationState, setLocationState] = useState<LocationState>({
     status: "idle",
@@ -134,6 +160,11 @@ export default function MachineDetailsDialog({
     attachments: [],
     error: null,
   });
+  const [operatingDataState, setOperatingDataState] = useState<OperatingDataState>({
+    status: "idle",
+    data: null,
+    error: null,
+  });
   const [agreementsState, setAgreementsState] = useState<{
     status: "idle" | "loading" | "ready" | "error";
     agreements: MachineAgreementSummary[];
@@ -278,6 +309,68 @@ export default function MachineDetailsDialog({
     };
   }, [open, machineId]);
 
+  useEffect(() => {
+    if (!open || !machineId) return;
+    const currentMachineId = machineId;
+
+    if (operatingDataCacheRef.current[currentMachineId]) {
+      setOperatingDataState({
+        status: "ready",
+        data: operatingDataCacheRef.current[currentMachineId],
+        error: null,
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchOperatingData() {
+      setOperatingDataState({ status: "loading", data: null, error: null });
+
+      try {
+        const response = await fetch(`/api/machines/${currentMachineId}/operating-data`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          operatingData?: MachineOperatingData;
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok || !payload.operatingData) {
+          setOperatingDataState({
+            status: "error",
+            data: null,
+            error: payload.error ?? "Kunne ikke hente driftsdata",
+          });
+          return;
+        }
+
+        operatingDataCacheRef.current[currentMachineId] = payload.operatingData;
+        setOperatingDataState({
+          status: "ready",
+          data: payload.operatingData,
+          error: null,
+        });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente driftsdata";
+        setOperatingDataState({ status: "error", data: null, error: message });
+      }
+    }
+
+    fetchOperatingData();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [open, machineId]);
+
   useEffect(() => {
     if (!open || !machineId) return;
     const currentMachineId = machineId;
@@ -489,6 +582,18 @@ export default function MachineDetailsDialog({
               <MachineOverview
                 machine={localMachine}
               />
+              <OperatingDataSection state={operatingDataState} />
+              {viewerRole === "super_admin" && machineId ? (
+                <MovementAlertsSection machineId={machineId} />
+              ) : null}
+              {machineId ? (
+                <ServiceTicketsSection
+                  machineId={machineId}
+                  viewerRole={viewerRole}
+                  agreements={agreementsState.agreements}
+                  location={locationState.location}
+                />
+              ) : null}
               <MachineAgreementsSection
                 state={agreementsState}
                 viewerRole={viewerRole}
@@ -496,7 +601,14 @@ export default function MachineDetailsDialog({
                 onAgreementClick={onAgreementClick}
               />
               <TrainingVideosSection machine={localMachine} />
-              <AttachmentsSection state={attachmentsState} />
+              <AttachmentsSection state={attachmentsState} machineId={machineId} />
+              {machineId ? (
+                <CustomerAttachmentsSection
+                  machineId={machineId}
+                  viewerRole={viewerRole}
+                  agreements={agreementsState.agreements}
+                />
+              ) : null}
               <LocationMap machineLabel={machineLabel} state={locationState} />
             </>
           ) : (
@@ -531,6 +643,13 @@ function MachineOverview({
   return (
     <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
       <h3 className="text-sm font-semibold text-slate-900">Generelt</h3>
+      {machine.controlAlerts?.length ? (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {machine.controlAlerts.map((alert) => (
+            <ControlStatusBadge key={alert.kind} alert={alert} />
+          ))}
+        </div>
+      ) : null}
       <div className="mt-3 grid gap-4 sm:grid-cols-2 md:grid-cols-3">
         {infoRows.map((row) => (
           <div
@@ -548,6 +667,539 @@ function MachineOverview({
   );
 }
 
+function OperatingDataSection({ state }: { state: OperatingDataState }) {
+  const { status, data, error } = state;
+  const hasReading = Boolean(data?.reported_at);
+  const faultCodes = data?.fault_codes ?? [];
+  const infoRows = [
+    { label: "Driftstimer", value: formatMeasurement(data?.operating_hours, "t") },
+    { label: "Tomgangstimer", value: formatMeasurement(data?.idle_hours, "t") },
+    { label: "Drivstoff brukt", value: formatMeasurement(data?.fuel_used, formatFuelUnits(data?.fuel_units)) },
+    { label: "Drivstoffnivå", value: formatMeasurement(data?.fuel_remaining_percent, "%") },
+    { label: "AdBlue-nivå", value: formatMeasurement(data?.def_remaining_percent, "%") },
+    { label: "Sist rapportert", value: formatDateTime(data?.reported_at) },
+  ];
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <h3 className="text-sm font-semibold text-slate-900">Driftsdata</h3>
+      {status === "loading" ? (
+        <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500">
+          <IconLoader2 className="h-4 w-4 animate-spin text-blue-600" />
+          Laster driftsdata...
+        </div>
+      ) : status === "error" ? (
+        <p className="mt-1 text-xs text-slate-500">{error ?? "Kunne ikke hente driftsdata"}</p>
+      ) : !hasReading && faultCodes.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">
+          Ingen driftsdata rapportert for denne enheten.
+        </p>
+      ) : (
+        <>
+          {hasReading ? (
+            <div className="mt-3 grid gap-4 sm:grid-cols-2 md:grid-cols-3">
+              {infoRows.map((row) => (
+                <div
+                  key={row.label}
+                  className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2 shadow-sm"
+                >
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                    {row.label}
+                  </p>
+                  <p className="mt-1 text-sm font-medium text-slate-900">{row.value}</p>
+                </div>
+              ))}
+            </div>
+          ) : null}
+          <div className="mt-3">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+              Feilkoder siste 30 dager
+            </p>
+            {faultCodes.length === 0 ? (
+              <p className="mt-1 text-xs text-slate-500">Ingen feilkoder rapportert.</p>
+            ) : (
+              <ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-100">
+                {faultCodes.map((fault) => (
+                  <li
+                    key={`${fault.source}-${fault.code}`}
+                    className="flex items-start justify-between gap-3 px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-slate-900">{fault.code}</p>
+                      <p className="mt-0.5 text-xs text-slate-600">
+                        {fault.description || "Ingen beskrivelse"}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-1">
+                      {fault.severity ? (
+                        <span className="inline-flex items-center rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-semibold text-amber-700 ring-1 ring-amber-100">
+                          {fault.severity}
+                        </span>
+                      ) : null}
+                      <span className="text-[11px] text-slate-500">
+                        {formatDateTime(fault.reported_at)}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function MovementAlertsSection({ machineId }: { machineId: number }) {
+  const [state, setState] = useState<{
+    status: "loading" | "ready" | "error";
+    alerts: MovementAlertEntry[];
+    error: string | null;
+  }>({ status: "loading", alerts: [], error: null });
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchAlerts() {
+      setState({ status: "loading", alerts: [], error: null });
+
+      try {
+        const response = await fetch(`/api/machines/${machineId}/movement-alerts`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          alerts?: MovementAlertEntry[];
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok) {
+          setState({
+            status: "error",
+            alerts: [],
+            error: payload.error ?? "Kunne ikke hente bevegelsesalarmer",
+          });
+          return;
+        }
+
+        setState({ status: "ready", alerts: payload.alerts ?? [], error: null });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente bevegelsesalarmer";
+        setState({ status: "error", alerts: [], error: message });
+      }
+    }
+
+    fetchAlerts();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [machineId]);
+
+  async function updateAlert(alert: MovementAlertEntry, action: "acknowledge" | "resolve") {
+    setSavingId(alert.id);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/movement-alerts/${alert.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke oppdatere alarmen");
+      }
+
+      const updated = payload.alert as MovementAlertEntry;
+      setState((prev) => ({
+        ...prev,
+        alerts: prev.alerts.map((entry) => (entry.id === updated.id ? updated : entry)),
+      }));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Kunne ikke oppdatere alarmen");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <h3 className="text-sm font-semibold text-slate-900">Bevegelsesalarmer</h3>
+      {state.status === "loading" ? (
+        <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500">
+          <IconLoader2 className="h-4 w-4 animate-spin text-blue-600" />
+          Laster bevegelsesalarmer...
+        </div>
+      ) : state.status === "error" ? (
+        <p className="mt-1 text-xs text-slate-500">{state.error ?? "Kunne ikke hente bevegelsesalarmer"}</p>
+      ) : state.alerts.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">Ingen bevegelse utenfor arbeidstid registrert.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-100">
+          {state.alerts.map((alert) => (
+            <li key={alert.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-900">{alert.rule_name}</p>
+                <p className="mt-0.5 text-xs text-slate-600">
+                  {formatDateTime(alert.first_position_at)} – {formatDateTime(alert.last_position_at)} ·{" "}
+                  {formatMeasurement(Math.round(alert.distance_m), "m")}
+                  {alert.max_speed_kmh != null ? `, maks ${Math.round(alert.max_speed_kmh)} km/t` : ""}
+                </p>
+                {alert.acknowledged_at ? (
+                  <p className="mt-0.5 text-[11px] text-slate-500">
+                    Kvittert {formatDateTime(alert.acknowledged_at)}
+                    {alert.acknowledged_by ? ` av ${alert.acknowledged_by}` : ""}
+                  </p>
+                ) : null}
+                {alert.resolved_at ? (
+                  <p className="mt-0.5 text-[11px] text-slate-500">
+                    Lukket {formatDateTime(alert.resolved_at)}
+                    {alert.resolved_by ? ` av ${alert.resolved_by}` : ""}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex shrink-0 flex-col items-end gap-1">
+                <span
+                  className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold ring-1 ${
+                    alert.status === "open"
+                      ? "bg-rose-50 text-rose-700 ring-rose-100"
+                      : alert.status === "acknowledged"
+                        ? "bg-amber-50 text-amber-700 ring-amber-100"
+                        : "bg-emerald-50 text-emerald-700 ring-emerald-100"
+                  }`}
+                >
+                  {MOVEMENT_ALERT_STATUS_LABELS[alert.status]}
+                </span>
+                {alert.status !== "resolved" ? (
+                  <div className="flex items-center gap-2">
+                    {alert.status === "open" ? (
+                      <button
+                        type="button"
+                        onClick={() => updateAlert(alert, "acknowledge")}
+                        disabled={savingId === alert.id}
+                        className="cursor-pointer text-[11px] font-semibold text-blue-700 hover:underline disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Kvitter
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      onClick={() => updateAlert(alert, "resolve")}
+                      disabled={savingId === alert.id}
+                      className="cursor-pointer text-[11px] font-semibold text-blue-700 hover:underline disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Lukk
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {actionError ? <p className="mt-2 text-xs text-red-700">{actionError}</p> : null}
+    </div>
+  );
+}
+
+function ServiceTicketsSection({
+  machineId,
+  viewerRole,
+  agreements,
+  location,
+}: {
+  machineId: number;
+  viewerRole?: string | null;
+  agreements: MachineAgreementSummary[];
+  location: MachineLocation | null;
+}) {
+  const isAdmin = viewerRole === "super_admin";
+  const activeAgreements = agreements.filter((agreement) => agreement.isActive);
+  const canReport = isAdmin || activeAgreements.length > 0;
+  const [state, setState] = useState<{
+    status: "loading" | "ready" | "error";
+    tickets: ServiceTicketEntry[];
+    error: string | null;
+  }>({ status: "loading", tickets: [], error: null });
+  const [formOpen, setFormOpen] = useState(false);
+  const [category, setCategory] = useState<ServiceTicketCategory | "">("");
+  const [description, setDescription] = useState("");
+  const [agreementId, setAgreementId] = useState("");
+  const [includePosition, setIncludePosition] = useState(true);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const hasPosition = location?.lat != null && location?.lng != null;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchTickets() {
+      setState({ status: "loading", tickets: [], error: null });
+
+      try {
+        const response = await fetch(`/api/machines/${machineId}/service-tickets`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          tickets?: ServiceTicketEntry[];
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok) {
+          setState({
+            status: "error",
+            tickets: [],
+            error: payload.error ?? "Kunne ikke hente servicesaker",
+          });
+          return;
+        }
+
+        setState({ status: "ready", tickets: payload.tickets ?? [], error: null });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente servicesaker";
+        setState({ status: "error", tickets: [], error: message });
+      }
+    }
+
+    fetchTickets();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [machineId]);
+
+  function openForm() {
+    setFormOpen(true);
+    setCategory("");
+    setDescription("");
+    setAgreementId(activeAgreements[0]?.id ?? "");
+    setIncludePosition(true);
+    setPhotos([]);
+    setFormError(null);
+  }
+
+  async function submit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const form = new FormData();
+    form.set("category", category);
+    form.set("description", description);
+    form.set("includePosition", String(includePosition && hasPosition));
+    if (agreementId) form.set("agreementId", agreementId);
+    photos.forEach((photo) => form.append("photos", photo));
+
+    try {
+      const response = await fetch(`/api/machines/${machineId}/service-tickets`, {
+        method: "POST",
+        body: form,
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke sende feilmeldingen");
+      }
+
+      const created = payload.ticket as ServiceTicketEntry;
+      setState((prev) => ({ ...prev, tickets: [created, ...prev.tickets] }));
+      setFormOpen(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Kunne ikke sende feilmeldingen");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Feil og skader</h3>
+        {canReport && !formOpen ? (
+          <button
+            type="button"
+            onClick={openForm}
+            className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+          >
+            Meld feil/skade
+          </button>
+        ) : null}
+      </div>
+
+      {formOpen ? (
+        <form onSubmit={submit} className="mt-3 space-y-3 rounded-lg border border-slate-100 bg-slate-50 px-3 py-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Kategori
+              <select
+                required
+                value={category}
+                onChange={(event) => setCategory(event.target.value as ServiceTicketCategory)}
+                className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+              >
+                <option value="" disabled>
+                  Velg kategori
+                </option>
+                {Object.entries(SERVICE_TICKET_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {activeAgreements.length ? (
+              <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Avtale
+                <select
+                  value={agreementId}
+                  onChange={(event) => setAgreementId(event.target.value)}
+                  className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+                >
+                  {isAdmin ? <option value="">Ingen avtale</option> : null}
+                  {activeAgreements.map((agreement) => (
+                    <option key={agreement.id} value={agreement.id}>
+                      {agreement.id}
+                      {agreement.customerName ? ` – ${agreement.customerName}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+          </div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Beskrivelse
+            <textarea
+              required
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              rows={4}
+              maxLength={4000}
+              placeholder="Hva har skjedd, og kan maskinen brukes?"
+              className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+            />
+          </label>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Bilder (maks 6)
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+              multiple
+              onChange={(event) => setPhotos(Array.from(event.target.files ?? []).slice(0, 6))}
+              className="mt-1 block w-full text-sm font-normal normal-case tracking-normal text-slate-700"
+            />
+          </label>
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={includePosition && hasPosition}
+              disabled={!hasPosition}
+              onChange={(event) => setIncludePosition(event.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              {hasPosition
+                ? `Ta med maskinens posisjon (${location!.lat!.toFixed(5)}, ${location!.lng!.toFixed(5)}, rapportert ${formatDateTime(location!.last_pos_reported_at)})`
+                : "Ingen kjent posisjon for maskinen"}
+            </span>
+          </label>
+          {formError ? <p className="text-sm text-red-700">{formError}</p> : null}
+          <div className="flex items-center gap-2">
+            <button type="submit" disabled={saving} className={standardButtonCompactClass}>
+              {saving ? "Sender..." : "Send"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Avbryt
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {state.status === "loading" ? (
+        <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500">
+          <IconLoader2 className="h-4 w-4 animate-spin text-blue-600" />
+          Laster servicesaker...
+        </div>
+      ) : state.status === "error" ? (
+        <p className="mt-1 text-xs text-slate-500">{state.error ?? "Kunne ikke hente servicesaker"}</p>
+      ) : state.tickets.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">Ingen åpne saker på maskinen.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-100">
+          {state.tickets.map((ticket) => (
+            <li key={ticket.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-900">
+                  {SERVICE_TICKET_CATEGORY_LABELS[ticket.category]}
+                  {ticket.rental_id ? (
+                    <span className="font-normal text-slate-500"> · avtale {ticket.rental_id}</span>
+                  ) : null}
+                </p>
+                <p className="mt-0.5 whitespace-pre-line text-xs text-slate-600">{ticket.description}</p>
+                <p className="mt-0.5 text-[11px] text-slate-500">
+                  Meldt {formatDateTime(ticket.created_at)}
+                  {ticket.reported_by_name ? ` av ${ticket.reported_by_name}` : ""}
+                </p>
+                {ticket.status_note ? (
+                  <p className="mt-0.5 text-[11px] text-slate-500">Kommentar: {ticket.status_note}</p>
+                ) : null}
+                {ticket.photos.length ? (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {ticket.photos.map((photo) => (
+                      <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                        <Image
+                          src={photo.url}
+                          alt={photo.file_name}
+                          width={56}
+                          height={56}
+                          unoptimized
+                          className="h-14 w-14 rounded-md border border-slate-200 object-cover"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+              <span
+                className={`inline-flex shrink-0 items-center rounded-full px-2 py-0.5 text-[11px] font-semibold ring-1 ${
+                  ticket.status === "open"
+                    ? "bg-rose-50 text-rose-700 ring-rose-100"
+                    : "bg-amber-50 text-amber-700 ring-amber-100"
+                }`}
+              >
+                {SERVICE_TICKET_STATUS_LABELS[ticket.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function MachineAgreementsSection({
   state,
   viewerRole,
@@ -818,11 +1470,30 @@ function TrainingVideosSection({ machine }: { machine: MachineDetails }) {
   );
 }
 
-function AttachmentsSection({ state }: { state: AttachmentsState }) {
+function AttachmentsSection({
+  state,
+  machineId,
+}: {
+  state: AttachmentsState;
+  machineId?: number | null;
+}) {
   const { status, attachments, error } = state;
+  // The ZIP never contains internal attachments, so only offer it when there is something else.
+  const canDownloadAll =
+    machineId != null && status === "ready" && attachments.some((attachment) => !attachment.internal);
   return (
     <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
-      <h3 className="text-sm font-semibold text-slate-900">Vedlegg</h3>
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Vedlegg</h3>
+        {canDownloadAll ? (
+          <a
+            href={`/api/machines/attachments/zip?${new URLSearchParams({ machineId: String(machineId) })}`}
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-700 transition hover:border-slate-300"
+          >
+            Last ned alle (ZIP)
+          </a>
+        ) : null}
+      </div>
       {status === "loading" ? (
         <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500">
           <IconLoader2 className="h-4 w-4 animate-spin text-blue-600" />
@@ -874,6 +1545,303 @@ function AttachmentsSection({ state }: { state: AttachmentsState }) {
   );
 }
 
+// Mirrors the checks in lib/customer-attachments.ts; the server has the final say.
+const CUSTOMER_ATTACHMENT_ACCEPT = ".pdf,.jpg,.jpeg,.png,.webp,.heic,.heif,.docx,.xlsx";
+const CUSTOMER_ATTACHMENT_MAX_FILES = 5;
+
+function CustomerAttachmentsSection({
+  machineId,
+  viewerRole,
+  agreements,
+}: {
+  machineId: number;
+  viewerRole?: string | null;
+  agreements: MachineAgreementSummary[];
+}) {
+  const isAdmin = viewerRole === "super_admin";
+  const uploadAgreements = isAdmin ? agreements : agreements.filter((agreement) => agreement.isActive);
+  const [state, setState] = useState<{
+    status: "loading" | "ready" | "error";
+    attachments: CustomerAttachmentEntry[];
+    error: string | null;
+  }>({ status: "loading", attachments: [], error: null });
+  const [formOpen, setFormOpen] = useState(false);
+  const [category, setCategory] = useState<CustomerAttachmentCategory | "">("");
+  const [agreementId, setAgreementId] = useState("");
+  const [description, setDescription] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchAttachments() {
+      setState({ status: "loading", attachments: [], error: null });
+
+      try {
+        const response = await fetch(`/api/machines/${machineId}/customer-attachments`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          attachments?: CustomerAttachmentEntry[];
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok) {
+          setState({
+            status: "error",
+            attachments: [],
+            error: payload.error ?? "Kunne ikke hente opplastede filer",
+          });
+          return;
+        }
+
+        setState({ status: "ready", attachments: payload.attachments ?? [], error: null });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente opplastede filer";
+        setState({ status: "error", attachments: [], error: message });
+      }
+    }
+
+    fetchAttachments();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [machineId]);
+
+  function openForm() {
+    setFormOpen(true);
+    setCategory("");
+    setAgreementId(uploadAgreements[0]?.id ?? "");
+    setDescription("");
+    setFiles([]);
+    setFormError(null);
+  }
+
+  async function submit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const form = new FormData();
+    form.set("category", category);
+    form.set("agreementId", agreementId);
+    form.set("description", description);
+    files.forEach((file) => form.append("files", file));
+
+    try {
+      const response = await fetch(`/api/machines/${machineId}/customer-attachments`, {
+        method: "POST",
+        body: form,
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke laste opp filene");
+      }
+
+      const created = (payload.attachments ?? []) as CustomerAttachmentEntry[];
+      setState((prev) => ({ ...prev, attachments: [...created, ...prev.attachments] }));
+      setFormOpen(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Kunne ikke laste opp filene");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(attachment: CustomerAttachmentEntry) {
+    if (!window.confirm(`Slette "${attachment.file_name}"?`)) return;
+    setDeletingId(attachment.id);
+    setActionError(null);
+
+    try {
+      const response = await fetch(attachment.url, { method: "DELETE" });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke slette filen");
+      }
+      setState((prev) => ({
+        ...prev,
+        attachments: prev.attachments.filter((entry) => entry.id !== attachment.id),
+      }));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Kunne ikke slette filen");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Kundens dokumenter</h3>
+        {uploadAgreements.length && !formOpen ? (
+          <button
+            type="button"
+            onClick={openForm}
+            className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+          >
+            Last opp
+          </button>
+        ) : null}
+      </div>
+
+      {formOpen ? (
+        <form onSubmit={submit} className="mt-3 space-y-3 rounded-lg border border-slate-100 bg-slate-50 px-3 py-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Kategori
+              <select
+                required
+                value={category}
+                onChange={(event) => setCategory(event.target.value as CustomerAttachmentCategory)}
+                className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+              >
+                <option value="" disabled>
+                  Velg kategori
+                </option>
+                {Object.entries(CUSTOMER_ATTACHMENT_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Avtale
+              <select
+                required
+                value={agreementId}
+                onChange={(event) => setAgreementId(event.target.value)}
+                className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+              >
+                {uploadAgreements.map((agreement) => (
+                  <option key={agreement.id} value={agreement.id}>
+                    {agreement.id}
+                    {agreement.customerName ? ` – ${agreement.customerName}` : ""}
+                    {agreement.isActive ? "" : " (avsluttet)"}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Beskrivelse (valgfritt)
+            <input
+              type="text"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              maxLength={500}
+              placeholder="F.eks. daglig kontroll uke 42"
+              className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+            />
+          </label>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Filer (PDF, bilde, Word eller Excel, maks {CUSTOMER_ATTACHMENT_MAX_FILES} filer à 20 MB)
+            <input
+              type="file"
+              required
+              accept={CUSTOMER_ATTACHMENT_ACCEPT}
+              multiple
+              onChange={(event) =>
+                setFiles(Array.from(event.target.files ?? []).slice(0, CUSTOMER_ATTACHMENT_MAX_FILES))
+              }
+              className="mt-1 block w-full text-sm font-normal normal-case tracking-normal text-slate-700"
+            />
+          </label>
+          {formError ? <p className="text-sm text-red-700">{formError}</p> : null}
+          <div className="flex items-center gap-2">
+            <button type="submit" disabled={saving || !files.length} className={standardButtonCompactClass}>
+              {saving ? "Laster opp..." : "Last opp"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setFormOpen(false)}
+              disabled={saving}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Avbryt
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {state.status === "loading" ? (
+        <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500">
+          <IconLoader2 className="h-4 w-4 animate-spin text-blue-600" />
+          Laster opplastede filer...
+        </div>
+      ) : state.status === "error" ? (
+        <p className="mt-1 text-xs text-slate-500">{state.error ?? "Kunne ikke hente opplastede filer"}</p>
+      ) : state.attachments.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">Ingen filer lastet opp av kunden.</p>
+      ) : (
+        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+          {state.attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2 shadow-sm"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate text-sm font-medium text-slate-900">
+                      {attachment.description || attachment.file_name}
+                    </p>
+                    <span className="inline-flex shrink-0 items-center rounded-full bg-violet-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-violet-700 ring-1 ring-violet-100">
+                      Fra kunde
+                    </span>
+                  </div>
+                  <p className="mt-0.5 truncate text-xs text-slate-600">
+                    {CUSTOMER_ATTACHMENT_CATEGORY_LABELS[attachment.category]} · avtale {attachment.rental_id}
+                  </p>
+                  <p className="mt-0.5 text-[11px] text-slate-500">
+                    {formatDateTime(attachment.created_at)}
+                    {attachment.uploaded_by_name ? ` · ${attachment.uploaded_by_name}` : ""}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-col items-end gap-1">
+                  <a
+                    href={attachment.url}
+                    className="inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-blue-200 bg-blue-50 px-3 py-1.5 text-xs font-semibold text-blue-800 transition hover:border-blue-300"
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    Last ned
+                  </a>
+                  {attachment.can_delete ? (
+                    <button
+                      type="button"
+                      onClick={() => remove(attachment)}
+                      disabled={deletingId === attachment.id}
+                      className="cursor-pointer text-[11px] font-medium text-slate-500 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {deletingId === attachment.id ? "Sletter..." : "Slett"}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {actionError ? <p className="mt-2 text-xs text-red-700">{actionError}</p> : null}
+    </div>
+  );
+}
+
 function LocationMap({
   machineLabel,
   state,
@@ -1140,6 +2108,19 @@ function formatValue(value?: string | number | null) {
   return value;
 }
 
+function formatMeasurement(value: number | null | undefined, unit: string) {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "-";
+  const formatted = new Intl.NumberFormat("nb-NO", { maximumFractionDigits: 1 }).format(value);
+  return unit ? `${formatted} ${unit}` : formatted;
+}
+
+function formatFuelUnits(units?: string | null) {
+  const trimmed = units?.trim() ?? "";
+  const normalized = trimmed.toLowerCase();
+  if (normalized === "litre" || normalized === "liter" || normalized === "litres") return "l";
+  return trimmed;
+}
+
 function formatDateTime(value?: string | Date | null) {
   if (!value) return "-";
   const date = value instanceof Date ? value : new Date(value);
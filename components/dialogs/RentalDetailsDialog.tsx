@@ -1,9 +1,15 @@
 "use client";
 
 import { IconChevronLeft, IconLoader2, IconX } from "@tabler/icons-react";
-import { useEffect, useState } from "react";
+import { useEffect, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
 import { getOEMLogo } from "@/lib/get_OEM_logo";
 import { formatPhone, normalizePhone } from "@/lib/formatters";
+import { standardButtonCompactClass } from "@/lib/buttonStyles";
+import { RENTAL_REQUEST_TYPE_LABELS } from "@/lib/constants";
+import RentalRequestStatusBadge from "@/components/RentalRequestStatusBadge";
+import type { RentalRequestEntry, RentalRequestType } from "@/lib/rental-requests";
+import type { AgreementHistoryEntry } from "@/lib/agreement-history";
 
 export type RentalDetails = {
   rentalId: string | number | null;
@@ -153,6 +159,12 @@ export default function RentalDetailsDialog({
                 renterId={localRental.customerId ?? null}
                 onMachineClick={onMachineClick}
               />
+              {localRental.rentalId != null && /^\d+$/.test(String(localRental.rentalId)) ? (
+                <RentalRequestsSection rental={localRental} isActive={isActive} />
+              ) : null}
+              {localRental.rentalId != null && /^\d+$/.test(String(localRental.rentalId)) ? (
+                <RentalHistorySection rentalId={String(localRental.rentalId)} />
+              ) : null}
             </>
           ) : (
             <div className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
@@ -374,6 +386,347 @@ function MachinesIncludedCard({
   );
 }
 
+function RentalRequestsSection({ rental, isActive }: { rental: RentalDetails; isActive: boolean }) {
+  const router = useRouter();
+  const rentalId = String(rental.rentalId);
+  const machines = (rental.machines ?? []).filter((machine) => machine.id !== undefined);
+  const [state, setState] = useState<{
+    status: "loading" | "ready" | "error";
+    requests: RentalRequestEntry[];
+    error: string | null;
+  }>({ status: "loading", requests: [], error: null });
+  const [formType, setFormType] = useState<RentalRequestType | null>(null);
+  const [desiredDate, setDesiredDate] = useState("");
+  const [machineIds, setMachineIds] = useState<string[]>([]);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchRequests() {
+      setState({ status: "loading", requests: [], error: null });
+
+      try {
+        const response = await fetch(`/api/agreements/${rentalId}/requests`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          requests?: RentalRequestEntry[];
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok) {
+          setState({
+            status: "error",
+            requests: [],
+            error: payload.error ?? "Kunne ikke hente forespørsler",
+          });
+          return;
+        }
+
+        setState({ status: "ready", requests: payload.requests ?? [], error: null });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente forespørsler";
+        setState({ status: "error", requests: [], error: message });
+      }
+    }
+
+    fetchRequests();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [rentalId]);
+
+  const pendingTypes = new Set(
+    state.requests.filter((request) => request.status === "pending").map((request) => request.type),
+  );
+
+  function openForm(type: RentalRequestType) {
+    setFormType(type);
+    setDesiredDate("");
+    setMachineIds(machines.map((machine) => String(machine.id)));
+    setComment("");
+    setFormError(null);
+  }
+
+  function toggleMachine(id: string) {
+    setMachineIds((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]));
+  }
+
+  async function submit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!formType) return;
+    if (machines.length && !machineIds.length) {
+      setFormError("Velg minst én maskin");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch(`/api/agreements/${rentalId}/requests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: formType, desiredDate, machineIds, comment }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "Kunne ikke sende forespørselen");
+      }
+
+      const created = payload.request as RentalRequestEntry;
+      setState((prev) => ({ ...prev, requests: [created, ...prev.requests] }));
+      setFormType(null);
+      router.refresh();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Kunne ikke sende forespørselen");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const endDate = typeof rental.endDate === "string" ? rental.endDate.slice(0, 10) : null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Forlengelse og retur</h3>
+        {isActive && !formType ? (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => openForm("extension")}
+              disabled={pendingTypes.has("extension")}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Be om forlengelse
+            </button>
+            <button
+              type="button"
+              onClick={() => openForm("return")}
+              disabled={pendingTypes.has("return")}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Meld retur
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {formType ? (
+        <form onSubmit={submit} className="mt-3 space-y-3 rounded-lg border border-slate-100 bg-slate-50 px-3 py-3">
+          <p className="text-sm font-medium text-slate-900">
+            {formType === "extension" ? "Be om forlengelse" : "Meld retur"}
+          </p>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {formType === "extension" ? "Ny sluttdato" : "Maskinene kan hentes"}
+            <input
+              type="date"
+              required
+              value={desiredDate}
+              min={formType === "extension" && endDate ? nextDay(endDate) : undefined}
+              max={formType === "return" && endDate ? endDate : undefined}
+              onChange={(event) => setDesiredDate(event.target.value)}
+              className="mt-1 block w-full max-w-xs rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+            />
+          </label>
+          {machines.length > 1 ? (
+            <fieldset>
+              <legend className="text-xs font-semibold uppercase tracking-wide text-slate-500">Maskiner</legend>
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                {machines.map((machine) => {
+                  const id = String(machine.id);
+                  return (
+                    <label key={id} className="flex items-center gap-2 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={machineIds.includes(id)}
+                        onChange={() => toggleMachine(id)}
+                      />
+                      {machine.name?.trim() || `Maskin ${id}`}
+                    </label>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ) : null}
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Kommentar
+            <textarea
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="mt-1 block w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-900"
+            />
+          </label>
+          {formError ? <p className="text-sm text-rose-600">{formError}</p> : null}
+          <div className="flex items-center gap-2">
+            <button type="submit" disabled={saving} className={standardButtonCompactClass}>
+              {saving ? "Sender..." : "Send forespørsel"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setFormType(null)}
+              disabled={saving}
+              className="cursor-pointer rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Avbryt
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {state.status === "loading" ? (
+        <p className="mt-2 text-xs text-slate-500">Laster forespørsler...</p>
+      ) : state.status === "error" ? (
+        <p className="mt-2 text-xs text-rose-600">{state.error}</p>
+      ) : state.requests.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">Ingen forespørsler for denne avtalen.</p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {state.requests.map((request) => (
+            <li
+              key={request.id}
+              className="flex flex-wrap items-start justify-between gap-3 rounded-lg border border-slate-100 bg-slate-50 px-3 py-2 shadow-sm"
+            >
+              <div className="min-w-0 text-sm text-slate-900">
+                <p className="font-medium">
+                  {RENTAL_REQUEST_TYPE_LABELS[request.type]} · {formatDateOnly(request.desiredDate)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  Meldt {formatDateOnly(request.createdAt)}
+                  {request.requestedByName ? ` av ${request.requestedByName}` : ""}
+                </p>
+                {request.comment ? (
+                  <p className="mt-1 whitespace-pre-line text-xs text-slate-600">{request.comment}</p>
+                ) : null}
+                {request.decisionComment ? (
+                  <p className="mt-1 text-xs text-slate-600">Svar: {request.decisionComment}</p>
+                ) : null}
+              </div>
+              <RentalRequestStatusBadge request={request} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RentalHistorySection({ rentalId }: { rentalId: string }) {
+  const [state, setState] = useState<{
+    status: "loading" | "ready" | "error";
+    history: AgreementHistoryEntry[];
+    error: string | null;
+  }>({ status: "loading", history: [], error: null });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isCancelled = false;
+
+    async function fetchHistory() {
+      setState({ status: "loading", history: [], error: null });
+
+      try {
+        const response = await fetch(`/api/agreements/${rentalId}/history`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        const payload = (await response.json().catch(() => ({}))) as {
+          history?: AgreementHistoryEntry[];
+          error?: string;
+        };
+
+        if (isCancelled) return;
+
+        if (!response.ok) {
+          setState({
+            status: "error",
+            history: [],
+            error: payload.error ?? "Kunne ikke hente historikk",
+          });
+          return;
+        }
+
+        setState({ status: "ready", history: payload.history ?? [], error: null });
+      } catch (err) {
+        if (isCancelled) return;
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        const message = err instanceof Error ? err.message : "Kunne ikke hente historikk";
+        setState({ status: "error", history: [], error: message });
+      }
+    }
+
+    fetchHistory();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [rentalId]);
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-4 py-3">
+      <h3 className="text-sm font-semibold text-slate-900">Historikk</h3>
+      {state.status === "loading" ? (
+        <p className="mt-2 text-xs text-slate-500">Laster historikk...</p>
+      ) : state.status === "error" ? (
+        <p className="mt-2 text-xs text-rose-600">{state.error}</p>
+      ) : state.history.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">Ingen endringer registrert for denne avtalen.</p>
+      ) : (
+        <ol className="mt-3 space-y-3 border-l border-slate-200 pl-4">
+          {state.history.map((entry) => (
+            <li key={entry.capturedAt} className="relative">
+              <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-white bg-slate-400 ring-1 ring-slate-200" />
+              <p className="text-xs font-semibold text-slate-500">{formatDateTime(entry.capturedAt)}</p>
+              {entry.initial ? (
+                <p className="mt-0.5 text-sm text-slate-700">Avtalen ble registrert</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {entry.changes.map((change, index) => (
+                    <li key={`${change.field}-${index}`} className="text-sm text-slate-700">
+                      <span className="font-medium text-slate-900">{change.label}:</span>{" "}
+                      {change.field === "machines" ? (
+                        change.after ?? change.before
+                      ) : (
+                        <>
+                          <span className="text-slate-500 line-through">{formatValue(change.before)}</span>
+                          {" → "}
+                          <span>{formatValue(change.after)}</span>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function nextDay(date: string) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
 function formatDateOnly(value?: string | Date | null) {
   if (!value) return null;
   const date = value instanceof Date ? value : new Date(value);
@@ -385,6 +738,13 @@ function formatDateOnly(value?: string | Date | null) {
   return `${day}.${month}.${year}`;
 }
 
+function formatDateTime(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const time = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+  return `${formatDateOnly(date)} ${time}`;
+}
+
 function formatValue(value?: string | number | null) {
   if (value === null || value === undefined || value === "") {
     return "-";
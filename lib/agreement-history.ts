@@ -0,0 +1,137 @@
+// lib/agreement-history.ts
+// Purpose: Change history for agreements, shown as "Historikk" in the agreement dialog.
+// timer_get_rentals stores a snapshot in rental_snapshots whenever a rental changes; each
+// snapshot is mapped like a live agreement and compared field by field with the one
+// before it, so end dates moved, machines swapped or contacts replaced can be traced.
+import { query } from "@/lib/db";
+import { mapRentalToAgreement, type AgreementPayload, type Rental } from "@/lib/agreements";
+
+export type AgreementChange = {
+    field: keyof AgreementPayload;
+    label: string;
+    before: string | null;
+    after: string | null;
+};
+
+export type AgreementHistoryEntry = {
+    capturedAt: string;
+    /** The first time the agreement was seen; it has no changes. */
+    initial: boolean;
+    changes: AgreementChange[];
+};
+
+export type AgreementHistoryViewer = { userId: string; isAdmin: boolean };
+
+type FieldKind = "text" | "date" | "boolean";
+
+const TRACKED_FIELDS: Array<{ field: keyof AgreementPayload; label: string; kind: FieldKind }> = [
+    { field: "startDate", label: "Startdato", kind: "date" },
+    { field: "endDate", label: "Sluttdato", kind: "date" },
+    { field: "customerName", label: "Kunde", kind: "text" },
+    { field: "projectNumber", label: "Projektnummer", kind: "text" },
+    { field: "location", label: "Plassering", kind: "text" },
+    { field: "comment", label: "Kommentar", kind: "text" },
+    { field: "insuranceIncluded", label: "Vi forsikrer", kind: "boolean" },
+    { field: "contractPrice", label: "Kontraktpris", kind: "boolean" },
+    { field: "contactPersonName", label: "Avtalekontakt", kind: "text" },
+    { field: "contactPersonTelephoneNumber", label: "Avtalekontakt telefon", kind: "text" },
+    { field: "contactPersonEmail", label: "Avtalekontakt e-post", kind: "text" },
+    { field: "customerContactPersonName", label: "Kundekontakt", kind: "text" },
+    { field: "customerContactPersonTelephoneNumber", label: "Kundekontakt telefon", kind: "text" },
+    { field: "customerContactPersonEmail", label: "Kundekontakt e-post", kind: "text" },
+    { field: "createdBy", label: "Opprettet av", kind: "text" },
+];
+
+/**
+ * History for one agreement, newest first. Customers only see agreements whose current
+ * customer they have access to; anything else yields an empty list, as does an agreement
+ * the sync has not captured yet.
+ */
+export async function listAgreementHistory(
+    rentalId: string,
+    viewer: AgreementHistoryViewer,
+): Promise<AgreementHistoryEntry[]> {
+    const { rows } = await query(
+        `
+        WITH latest AS (
+            SELECT customer_id
+            FROM rental_snapshots
+            WHERE rental_id = $1::int
+            ORDER BY captured_at DESC, id DESC
+            LIMIT 1
+        )
+        SELECT s.data, s.captured_at
+        FROM rental_snapshots s
+        WHERE s.rental_id = $1::int
+          AND ($2::boolean OR (SELECT customer_id FROM latest) IN (
+              SELECT customer_id FROM user_customer_accesses WHERE user_id = $3
+          ))
+        ORDER BY s.captured_at ASC, s.id ASC;
+        `,
+        [rentalId, viewer.isAdmin, viewer.userId],
+    );
+
+    const entries: AgreementHistoryEntry[] = [];
+    let previous: AgreementPayload | null = null;
+
+    for (const row of rows) {
+        const current = mapRentalToAgreement(row.data as Rental);
+        const capturedAt = new Date(row.captured_at).toISOString();
+
+        if (!previous) {
+            entries.push({ capturedAt, initial: true, changes: [] });
+        } else {
+            const changes = diffAgreements(previous, current);
+            if (changes.length) entries.push({ capturedAt, initial: false, changes });
+        }
+        previous = current;
+    }
+
+    return entries.reverse();
+}
+
+/** Field-level changes from one version of an agreement to the next, in display order. */
+export function diffAgreements(before: AgreementPayload, after: AgreementPayload): AgreementChange[] {
+    const changes: AgreementChange[] = [];
+
+    for (const { field, label, kind } of TRACKED_FIELDS) {
+        const from = formatField(before[field], kind);
+        const to = formatField(after[field], kind);
+        if (from !== to) changes.push({ field, label, before: from, after: to });
+    }
+
+    const beforeMachines = machinesById(before);
+    const afterMachines = machinesById(after);
+    for (const [id, name] of afterMachines) {
+        if (!beforeMachines.has(id)) {
+            changes.push({ field: "machines", label: "Maskin lagt til", before: null, after: name });
+        }
+    }
+    for (const [id, name] of beforeMachines) {
+        if (!afterMachines.has(id)) {
+            changes.push({ field: "machines", label: "Maskin fjernet", before: name, after: null });
+        }
+    }
+
+    return changes;
+}
+
+function machinesById(agreement: AgreementPayload): Map<string, string> {
+    const machines = new Map<string, string>();
+    for (const machine of agreement.machines ?? []) {
+        const id = machine.id ?? machine.name ?? "";
+        if (id) machines.set(id, machine.name?.trim() || `Maskin ${id}`);
+    }
+    return machines;
+}
+
+function formatField(value: unknown, kind: FieldKind): string | null {
+    if (value === null || value === undefined || value === "") return null;
+    if (kind === "boolean") return value ? "Ja" : "Nei";
+    if (kind === "date") {
+        // The API sends wall-clock timestamps; only the calendar date is shown in the dialog.
+        const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(value));
+        return match ? `${match[3]}.${match[2]}.${match[1]}` : String(value);
+    }
+    return String(value).trim() || null;
+}
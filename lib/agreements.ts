@@ -1,5 +1,11 @@
+import { createHash } from "crypto";
 import { prisma } from "@/lib/prisma";
+import { query } from "@/lib/db";
 import { normalizeError, type AppError } from "@/lib/errors";
+import { cachedBjugstadRequest } from "@/lib/bjugstad-cache";
+
+// The timer runs every 15 minutes; past this the mirror is ignored and the API is used.
+const DEFAULT_RENTALS_MIRROR_MAX_AGE_MINUTES = 60;
 
 type RentalMachine = {
     machineId?: number;
@@ -8,7 +14,7 @@ type RentalMachine = {
     number?: string | null;
 };
 
-type Rental = {
+export type Rental = {
     rentalId?: number;
     customerId?: number;
     customerName?: string | null;
@@ -66,30 +72,30 @@ export async function fetchAgreementsForUser(userId: string, role?: string | nul
         throw new Error("Forbidden");
     }
 
-    const apiKey =
-        process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
-        process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
-    const baseUrl = process.env.BJUGSTAD_API_BASEURL?.trim();
+    let customerIds: number[] | null = null;
+    if (!isAdmin) {
+        const accessibleCustomers = await prisma.userCustomerAccess.findMany({
+            where: { userId },
+            select: { customerId: true },
+        });
 
-    if (!apiKey || !baseUrl) {
-        throw new Error("Mangler konfigurasjon for Bjugstad API");
-    }
+        customerIds = [...new Set(accessibleCustomers.map((c) => c.customerId).filter(Boolean))];
 
-    if (isAdmin) {
-        return fetchAllAgreements(baseUrl, apiKey);
+        if (!customerIds.length) {
+            return [];
+        }
     }
 
-    const accessibleCustomers = await prisma.userCustomerAccess.findMany({
-        where: { userId },
-        select: { customerId: true },
-    });
-
-    const customerIds = [...new Set(accessibleCustomers.map((c) => c.customerId).filter(Boolean))];
+    if (!customerIds) {
+        return fetchFleetAgreements();
+    }
 
-    if (!customerIds.length) {
-        return [];
+    const mirrored = await fetchMirroredAgreements(customerIds);
+    if (mirrored) {
+        return mirrored;
     }
 
+    const { baseUrl, apiKey } = getApiConfig();
     const results = await Promise.all(
         customerIds.map((customerId) => fetchCustomerAgreements(baseUrl, apiKey, customerId)),
     );
@@ -97,6 +103,21 @@ export async function fetchAgreementsForUser(userId: string, role?: string | nul
     return results.flat();
 }
 
+/**
+ * Every agreement across all customers, regardless of viewer. Callers must not pass the
+ * result on to customers as-is; it backs admin views and fleet-wide calculations such as
+ * machine availability.
+ */
+export async function fetchFleetAgreements(): Promise<AgreementPayload[]> {
+    const mirrored = await fetchMirroredAgreements(null);
+    if (mirrored) {
+        return mirrored;
+    }
+
+    const { baseUrl, apiKey } = getApiConfig();
+    return fetchAllAgreements(baseUrl, apiKey);
+}
+
 export async function loadAgreementsForUser(
     userId: string,
     role?: string | null,
@@ -135,18 +156,113 @@ export function splitAgreementsByStatus(agreements: AgreementPayload[]) {
     return { active, historical };
 }
 
+function getApiConfig() {
+    const apiKey =
+        process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
+        process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
+    const baseUrl = process.env.BJUGSTAD_API_BASEURL?.trim();
+
+    if (!apiKey || !baseUrl) {
+        throw new Error("Mangler konfigurasjon for Bjugstad API");
+    }
+
+    return { baseUrl, apiKey };
+}
+
+/**
+ * Agreements from the rentals mirror written by timer_get_rentals, or null when the mirror
+ * is missing, stale or unreadable so the caller falls back to the live API. customerIds
+ * null means the whole rental book (admins).
+ *
+ * A fresh mirror wins over the Bjugstad cache, so invalidateCustomerCache does not make
+ * changes visible here; they show up after the next timer_get_rentals run.
+ */
+async function fetchMirroredAgreements(customerIds: number[] | null): Promise<AgreementPayload[] | null> {
+    try {
+        const freshness = await query(
+            `
+            SELECT MAX(finished_at) >= now() - make_interval(mins => $1) AS fresh
+            FROM integration_sync_runs
+            WHERE source = 'bjugstad_rentals' AND status = 'success';
+            `,
+            [getRentalsMirrorMaxAgeMinutes()],
+        );
+        if (!freshness.rows[0]?.fresh) {
+            return null;
+        }
+
+        const { rows } = await query(
+            `
+            SELECT
+                r.rental_id AS "rentalId",
+                r.customer_id AS "customerId",
+                r.customer_name AS "customerName",
+                to_char(r.start_date, 'YYYY-MM-DD"T"HH24:MI:SS') AS "startDate",
+                to_char(r.end_date, 'YYYY-MM-DD"T"HH24:MI:SS') AS "endDate",
+                r.comments,
+                r.project_number AS "projectNumber",
+                r.location,
+                r.contact_person AS "contactPerson",
+                r.contact_person_telephone_number AS "contactPersonTelephoneNumber",
+                r.contact_person_email AS "contactPersonEmail",
+                r.customer_contact_person_id AS "customerContactPersonId",
+                r.customer_contact_person_name AS "customerContactPersonName",
+                r.customer_contact_person_telephone_number AS "customerContactPersonTelephoneNumber",
+                r.customer_contact_person_email AS "customerContactPersonEmail",
+                r.insurance_included AS "insuranceIncluded",
+                r.contract_price AS "contractPrice",
+                r.user_name AS "userName",
+                r.user_telephone_number AS "userTelephoneNumber",
+                COALESCE(
+                    (
+                        SELECT json_agg(
+                            json_build_object(
+                                'machineId', rm.machine_id::int,
+                                'make', rm.make,
+                                'model', rm.model,
+                                'number', rm.number
+                            )
+                            ORDER BY rm.position
+                        )
+                        FROM rental_machines rm
+                        WHERE rm.rental_id = r.rental_id
+                    ),
+                    '[]'::json
+                ) AS machines
+            FROM rentals r
+            WHERE $1::int[] IS NULL OR r.customer_id = ANY($1::int[])
+            ORDER BY r.start_date DESC NULLS LAST, r.rental_id DESC;
+            `,
+            [customerIds],
+        );
+
+        return (rows as Rental[]).map((rental) => mapRentalToAgreement(rental));
+    } catch (error) {
+        console.error("Failed to read agreements from the rentals mirror; using the Bjugstad API", error);
+        return null;
+    }
+}
+
+function getRentalsMirrorMaxAgeMinutes(): number {
+    const minutes = Number(process.env.RENTALS_MIRROR_MAX_AGE_MINUTES);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RENTALS_MIRROR_MAX_AGE_MINUTES;
+}
+
 async function fetchAllAgreements(baseUrl: string, apiKey: string) {
     const url = `${baseUrl.replace(/\/$/, "")}/GetRentals`;
-    const rentals = await requestRentals(url, apiKey, "Failed to fetch agreements for admin");
+    // The whole rental book; by far the most expensive call, so it is always cached.
+    const rentals = await cachedBjugstadRequest("GetRentals", { tags: ["rentals:all"] }, () =>
+        requestRentals(url, apiKey, "Failed to fetch agreements for admin"),
+    );
     return rentals.map((rental) => mapRentalToAgreement(rental));
 }
 
 async function fetchCustomerAgreements(baseUrl: string, apiKey: string, customerId: number) {
     const url = `${baseUrl.replace(/\/$/, "")}/GetRentalsByCustomerId?customerId=${customerId}`;
-    const rentals = await requestRentals(
-        url,
-        apiKey,
-        `Failed to fetch agreements for customer ${customerId}`,
+    const rentals = await cachedBjugstadRequest(
+        `GetRentalsByCustomerId:${customerId}`,
+        { tags: [`customer:${customerId}`] },
+        () => requestRentals(url, apiKey, `Failed to fetch agreements for customer ${customerId}`),
     );
     return rentals.map((rental) => mapRentalToAgreement(rental, customerId));
 }
@@ -169,10 +285,12 @@ async function requestRentals(url: string, apiKey: string, errorPrefix: string):
     return Array.isArray(data) ? data : [];
 }
 
-function mapRentalToAgreement(rental: Rental, fallbackCustomerId?: number): AgreementPayload {
+export function mapRentalToAgreement(rental: Rental, fallbackCustomerId?: number): AgreementPayload {
     const customerId = rental.customerId ?? fallbackCustomerId;
+    // Rentals without an id get one derived from their content, so it stays the same
+    // between requests as long as the rental does.
     const idSeed = customerId ?? "rental";
-    const fallbackId = `${idSeed}-${Math.random().toString(36).slice(2, 8)}`;
+    const fallbackId = `${idSeed}-${createHash("sha1").update(JSON.stringify(rental)).digest("hex").slice(0, 12)}`;
 
     return {
         id: String(rental.rentalId ?? fallbackId),
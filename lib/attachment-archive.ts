@@ -0,0 +1,150 @@
+// lib/attachment-archive.ts
+// Purpose: Collect the non-internal attachments for a machine or an agreement and turn them
+// into ZIP entries (see lib/zip.ts). Blobs are fetched one at a time while the archive is
+// streamed, using the same SAS token selection and blob host check as the single download.
+import type { AgreementPayload } from "@/lib/agreements";
+import {
+    appendSasToken,
+    fetchMachineAttachmentRecords,
+    getAttachmentSasSource,
+    isAllowedBlobUrl,
+    resolveSasToken,
+    type MachineAttachment,
+} from "@/lib/machine-attachments";
+import { toZipFileName, type ZipEntry } from "@/lib/zip";
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+const AGREEMENT_FOLDER = "Avtaledokumenter";
+
+export type AttachmentArchive = {
+    fileName: string;
+    attachments: Array<{ folder: string | null; attachment: MachineAttachment }>;
+    /** Sum of the sizes reported by GetMachineAttachments; the real size is checked while streaming. */
+    reportedBytes: number;
+};
+
+export type AttachmentArchiveResult =
+    | { status: "ok"; archive: AttachmentArchive }
+    | { status: "error"; httpStatus: number; message: string };
+
+export function getAttachmentZipMaxBytes(): number {
+    const raw = Number(process.env.ATTACHMENT_ZIP_MAX_BYTES);
+    return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : DEFAULT_MAX_BYTES;
+}
+
+export async function collectMachineArchive(machineId: string): Promise<AttachmentArchiveResult> {
+    const result = await fetchMachineAttachmentRecords(machineId, { includeInternal: false });
+    if (result.status === "error") return result;
+
+    return {
+        status: "ok",
+        archive: toArchive(
+            `vedlegg-maskin-${machineId}.zip`,
+            result.attachments.map((attachment) => ({ folder: null, attachment })),
+        ),
+    };
+}
+
+/**
+ * Agreement documents go in one folder and each machine's own attachments in a folder per
+ * machine. Documents registered on other rentals of the same machines are left out.
+ */
+export async function collectAgreementArchive(agreement: AgreementPayload): Promise<AttachmentArchiveResult> {
+    const collected: AttachmentArchive["attachments"] = [];
+    const agreementDocuments = new Map<string, MachineAttachment>();
+    const seenMachines = new Set<string>();
+
+    for (const machine of agreement.machines ?? []) {
+        const machineId = machine.id?.trim();
+        if (!machineId || seenMachines.has(machineId)) continue;
+        seenMachines.add(machineId);
+
+        const result = await fetchMachineAttachmentRecords(machineId, { includeInternal: false });
+        if (result.status === "error") {
+            if (result.httpStatus === 404) continue;
+            return result;
+        }
+
+        const folder = toZipFileName(`${machine.name?.trim() || "Maskin"} (${machineId})`);
+        for (const attachment of result.attachments) {
+            if (attachment.rentalId == null) {
+                collected.push({ folder, attachment });
+            } else if (String(attachment.rentalId) === agreement.id) {
+                // The same rental document can be attached to several of its machines.
+                agreementDocuments.set(attachment.filePath, attachment);
+            }
+        }
+    }
+
+    return {
+        status: "ok",
+        archive: toArchive(`dokumenter-avtale-${agreement.id}.zip`, [
+            ...[...agreementDocuments.values()].map((attachment) => ({ folder: AGREEMENT_FOLDER, attachment })),
+            ...collected,
+        ]),
+    };
+}
+
+/** Every blob URL must be on Azure Blob Storage and have a SAS token configured before streaming starts. */
+export function validateArchive(archive: AttachmentArchive): string | null {
+    for (const { attachment } of archive.attachments) {
+        const name = attachment.name || attachment.fileName || "vedlegg";
+        let url: URL;
+        try {
+            url = new URL(attachment.filePath?.trim() ?? "");
+        } catch {
+            return `Ugyldig filsti for vedlegget "${name}".`;
+        }
+        if (!isAllowedBlobUrl(url)) {
+            return `Blob-URLen for vedlegget "${name}" er ikke tillatt.`;
+        }
+        const sasSource = getAttachmentSasSource(attachment.type);
+        if (!resolveSasToken(sasSource)?.trim()) {
+            return sasSource === "rail"
+                ? "AZURE_BLOB_SAS_TOKEN_RAIL mangler i serverkonfigurasjonen."
+                : "AZURE_BLOB_SAS_TOKEN mangler i serverkonfigurasjonen.";
+        }
+    }
+    return null;
+}
+
+export function toZipEntries(archive: AttachmentArchive): ZipEntry[] {
+    return archive.attachments.map(({ folder, attachment }) => {
+        const fileName = toZipFileName(attachment.fileName || attachment.name || "vedlegg");
+        return {
+            name: folder ? `${folder}/${fileName}` : fileName,
+            modifiedAt: attachment.uploadedDate ? new Date(attachment.uploadedDate) : null,
+            open: () => openAttachmentBlob(attachment),
+        };
+    });
+}
+
+async function openAttachmentBlob(attachment: MachineAttachment): Promise<ReadableStream<Uint8Array>> {
+    const url = new URL(attachment.filePath.trim());
+    if (!isAllowedBlobUrl(url)) {
+        throw new Error(`Blob-URLen for vedlegget ${attachment.id} er ikke tillatt`);
+    }
+
+    const sasToken = resolveSasToken(getAttachmentSasSource(attachment.type));
+    const response = await fetch(appendSasToken(url.toString(), sasToken), {
+        cache: "no-store",
+        redirect: "follow",
+    });
+
+    if (!response.ok || !response.body) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new Error(`Blob-lagringen svarte med status ${response.status} for vedlegget ${attachment.id}`);
+    }
+    return response.body;
+}
+
+function toArchive(fileName: string, attachments: AttachmentArchive["attachments"]): AttachmentArchive {
+    return {
+        fileName: toZipFileName(fileName),
+        attachments,
+        reportedBytes: attachments.reduce(
+            (sum, { attachment }) => sum + (Number.isFinite(attachment.fileSize) ? attachment.fileSize : 0),
+            0,
+        ),
+    };
+}
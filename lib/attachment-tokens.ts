@@ -0,0 +1,76 @@
+// lib/attachment-tokens.ts
+// Purpose: Signed, short-lived download tokens for machine attachments. The listing route
+// issues one per attachment it shows, bound to the user, machine and attachment, and the
+// download proxy only accepts those. The payload is signed but not encrypted, so it only
+// carries ids; the proxy looks the blob URL up again on the server.
+import { createHmac, timingSafeEqual } from "crypto";
+
+const DEFAULT_TTL_MINUTES = 60;
+
+export type AttachmentTokenPayload = {
+    userId: string;
+    machineId: string;
+    attachmentId: number;
+    /** Unix time in seconds. */
+    expiresAt: number;
+};
+
+export type AttachmentTokenResult =
+    | { status: "ok"; payload: AttachmentTokenPayload }
+    | { status: "invalid" }
+    | { status: "expired" };
+
+export function getAttachmentTokenTtlSeconds(): number {
+    const minutes = Number(process.env.ATTACHMENT_TOKEN_TTL_MINUTES);
+    return Math.round((Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES) * 60);
+}
+
+export function signAttachmentToken(payload: Omit<AttachmentTokenPayload, "expiresAt">): string {
+    const body = Buffer.from(
+        JSON.stringify({
+            ...payload,
+            expiresAt: Math.floor(Date.now() / 1000) + getAttachmentTokenTtlSeconds(),
+        }),
+    ).toString("base64url");
+    return `${body}.${sign(body)}`;
+}
+
+export function verifyAttachmentToken(token: string): AttachmentTokenResult {
+    const [body, signature, ...rest] = token.split(".");
+    if (!body || !signature || rest.length) return { status: "invalid" };
+
+    const expected = Buffer.from(sign(body), "base64url");
+    const actual = Buffer.from(signature, "base64url");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return { status: "invalid" };
+    }
+
+    let payload: AttachmentTokenPayload;
+    try {
+        payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    } catch {
+        return { status: "invalid" };
+    }
+    if (
+        !payload?.userId ||
+        !payload.machineId ||
+        !Number.isInteger(payload.attachmentId) ||
+        typeof payload.expiresAt !== "number"
+    ) {
+        return { status: "invalid" };
+    }
+    if (payload.expiresAt < Date.now() / 1000) return { status: "expired" };
+
+    return { status: "ok", payload };
+}
+
+function sign(body: string): string {
+    const secret =
+        process.env.ATTACHMENT_TOKEN_SECRET?.trim() ||
+        process.env.AUTH_SECRET?.trim() ||
+        process.env.NEXTAUTH_SECRET?.trim();
+    if (!secret) {
+        throw new Error("ATTACHMENT_TOKEN_SECRET eller AUTH_SECRET må være satt for vedleggsnedlasting");
+    }
+    return createHmac("sha256", secret).update(body).digest("base64url");
+}
@@ -0,0 +1,227 @@
+// lib/bjugstad-cache.ts
+// Purpose: Cache Bjugstad API responses (rentals, machine attachments). Entries are fresh
+// for BJUGSTAD_CACHE_TTL_SECONDS; after that they are still served for up to
+// BJUGSTAD_CACHE_STALE_SECONDS while one background request refreshes them. Concurrent
+// misses for the same key share one upstream request.
+//
+// The store is chosen with BJUGSTAD_CACHE_BACKEND (memory | postgres | none), memory by
+// default. Postgres shares the cache and invalidations between instances. A failing store
+// never fails the request: the API is called directly instead.
+//
+// Entries carry tags ("customer:123", "machine:456") so writes can invalidate everything
+// that mentions a customer or machine. Refreshes already running when a tag is invalidated
+// in this process do not store their result; with the postgres store, a refresh running on
+// another instance can still write back once.
+import { query } from "@/lib/db";
+
+const DEFAULT_TTL_SECONDS = 120;
+const DEFAULT_STALE_SECONDS = 15 * 60;
+const MEMORY_MAX_ENTRIES = 500;
+
+export type CacheEntry = {
+    value: unknown;
+    tags: string[];
+    freshUntil: number;
+    staleUntil: number;
+};
+
+export type BjugstadCacheStore = {
+    name: "memory" | "postgres" | "none";
+    get: (key: string) => Promise<CacheEntry | null>;
+    set: (key: string, entry: CacheEntry) => Promise<void>;
+    deleteByTags: (tags: string[]) => Promise<void>;
+};
+
+export type CachedRequestOptions = {
+    tags: string[];
+    ttlSeconds?: number;
+};
+
+const inFlight = new Map<string, { request: Promise<unknown>; tags: string[] }>();
+// When each tag was last invalidated in this process. A refresh that started before an
+// invalidation of one of its tags must not write its (possibly old) value back.
+const tagInvalidatedAt = new Map<string, number>();
+let store: BjugstadCacheStore | null = null;
+
+export function getBjugstadCacheStore(): BjugstadCacheStore {
+    if (store) return store;
+
+    const kind = process.env.BJUGSTAD_CACHE_BACKEND?.trim().toLowerCase() || "memory";
+    if (kind === "memory") {
+        store = createMemoryStore();
+    } else if (kind === "postgres") {
+        store = createPostgresStore();
+    } else if (kind === "none") {
+        store = {
+            name: "none",
+            get: async () => null,
+            set: async () => undefined,
+            deleteByTags: async () => undefined,
+        };
+    } else {
+        throw new Error(`Ukjent BJUGSTAD_CACHE_BACKEND "${kind}"`);
+    }
+
+    return store;
+}
+
+/**
+ * Return the cached value for key, or load it. Stale values are returned immediately and
+ * refreshed in the background; loader errors are only thrown when nothing usable is cached.
+ */
+export async function cachedBjugstadRequest<T>(
+    key: string,
+    options: CachedRequestOptions,
+    loader: () => Promise<T>,
+): Promise<T> {
+    const cache = getBjugstadCacheStore();
+    const entry = await cache.get(key).catch((error) => {
+        console.error(`Bjugstad cache lookup failed for ${key}`, error);
+        return null;
+    });
+    const now = Date.now();
+
+    if (entry && entry.freshUntil > now) {
+        return entry.value as T;
+    }
+
+    if (entry && entry.staleUntil > now) {
+        refresh(key, options, loader).catch((error) => {
+            console.error(`Background refresh of ${key} failed; serving stale data`, error);
+        });
+        return entry.value as T;
+    }
+
+    return refresh(key, options, loader);
+}
+
+/** Drop everything cached for the customer, including the full rental book. */
+export async function invalidateCustomerCache(customerId: number | string): Promise<void> {
+    await invalidateTags([`customer:${customerId}`, "rentals:all"]);
+}
+
+export async function invalidateMachineCache(machineId: number | string): Promise<void> {
+    await invalidateTags([`machine:${machineId}`]);
+}
+
+async function invalidateTags(tags: string[]) {
+    const now = Date.now();
+    for (const tag of tags) tagInvalidatedAt.set(tag, now);
+    // Later callers must start a new request instead of joining one that may return old data.
+    for (const [key, pending] of inFlight) {
+        if (pending.tags.some((tag) => tags.includes(tag))) inFlight.delete(key);
+    }
+
+    try {
+        await getBjugstadCacheStore().deleteByTags(tags);
+    } catch (error) {
+        console.error(`Failed to invalidate Bjugstad cache for ${tags.join(", ")}`, error);
+    }
+}
+
+function refresh<T>(key: string, options: CachedRequestOptions, loader: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending.request as Promise<T>;
+
+    const startedAt = Date.now();
+    const request = (async () => {
+        const value = await loader();
+        if (options.tags.some((tag) => (tagInvalidatedAt.get(tag) ?? 0) >= startedAt)) {
+            return value;
+        }
+        const ttlMs = (options.ttlSeconds ?? readSeconds("BJUGSTAD_CACHE_TTL_SECONDS", DEFAULT_TTL_SECONDS)) * 1000;
+        const staleMs = readSeconds("BJUGSTAD_CACHE_STALE_SECONDS", DEFAULT_STALE_SECONDS) * 1000;
+        const now = Date.now();
+        await getBjugstadCacheStore()
+            .set(key, { value, tags: options.tags, freshUntil: now + ttlMs, staleUntil: now + ttlMs + staleMs })
+            .catch((error) => {
+                console.error(`Failed to store ${key} in Bjugstad cache`, error);
+            });
+        return value;
+    })();
+
+    const current = { request, tags: options.tags };
+    inFlight.set(key, current);
+    const done = () => {
+        if (inFlight.get(key) === current) inFlight.delete(key);
+    };
+    request.then(done, done);
+    return request;
+}
+
+function readSeconds(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function createMemoryStore(): BjugstadCacheStore {
+    const entries = new Map<string, CacheEntry>();
+
+    return {
+        name: "memory",
+        get: async (key) => {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (entry.staleUntil <= Date.now()) {
+                entries.delete(key);
+                return null;
+            }
+            return entry;
+        },
+        set: async (key, entry) => {
+            entries.delete(key);
+            entries.set(key, entry);
+            // Map keeps insertion order, so the first key is the least recently written.
+            while (entries.size > MEMORY_MAX_ENTRIES) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+        deleteByTags: async (tags) => {
+            for (const [key, entry] of entries) {
+                if (entry.tags.some((tag) => tags.includes(tag))) entries.delete(key);
+            }
+        },
+    };
+}
+
+function createPostgresStore(): BjugstadCacheStore {
+    return {
+        name: "postgres",
+        get: async (key) => {
+            const { rows } = await query(
+                `
+                SELECT value, tags, fresh_until, stale_until
+                FROM bjugstad_api_cache
+                WHERE key = $1 AND stale_until > now();
+                `,
+                [key],
+            );
+            const row = rows[0];
+            if (!row) return null;
+            return {
+                value: row.value,
+                tags: row.tags ?? [],
+                freshUntil: new Date(row.fresh_until).getTime(),
+                staleUntil: new Date(row.stale_until).getTime(),
+            };
+        },
+        set: async (key, entry) => {
+            await query(
+                `
+                INSERT INTO bjugstad_api_cache (key, value, tags, fresh_until, stale_until, updated_at)
+                VALUES ($1, $2::jsonb, $3::text[], $4, $5, now())
+                ON CONFLICT (key) DO UPDATE
+                   SET value = EXCLUDED.value,
+                       tags = EXCLUDED.tags,
+                       fresh_until = EXCLUDED.fresh_until,
+                       stale_until = EXCLUDED.stale_until,
+                       updated_at = now();
+                `,
+                [key, JSON.stringify(entry.value), entry.tags, new Date(entry.freshUntil), new Date(entry.staleUntil)],
+            );
+        },
+        deleteByTags: async (tags) => {
+            await query(`DELETE FROM bjugstad_api_cache WHERE tags && $1::text[] OR stale_until <= now()`, [tags]);
+        },
+    };
+}
@@ -0,0 +1,100 @@
+// lib/booking-request-forwarding.ts
+// Purpose: Turn approved booking requests into rentals in the Bjugstad system. The adapter
+// is chosen with BOOKING_REQUEST_FORWARDER (bjugstad | log) and defaults to log, like the
+// extension and return forwarding in lib/rental-request-forwarding.ts, so local and test
+// environments never create rentals by accident. The log adapter reports its results as
+// stubbed, so they are never shown as created rentals.
+import type { BookingRequestEntry } from "@/lib/booking-requests";
+
+export type BookingRequestForwardResult = {
+    /** Id of the new rental on the Bjugstad side, when the API returns one. */
+    reference: string | null;
+    /** Nothing was sent; the adapter only logged the request. */
+    stubbed?: boolean;
+};
+
+export type BookingRequestForwarder = {
+    name: string;
+    forward: (request: BookingRequestEntry) => Promise<BookingRequestForwardResult>;
+};
+
+const DEFAULT_BJUGSTAD_PATH = "/RentalBookings";
+const FORWARD_TIMEOUT_MS = 30_000;
+
+export function getBookingRequestForwarder(): BookingRequestForwarder {
+    const kind = process.env.BOOKING_REQUEST_FORWARDER?.trim().toLowerCase() || "log";
+
+    if (kind === "log") {
+        return {
+            name: "log",
+            forward: async (request) => {
+                console.log(
+                    `[booking-requests] request ${request.id} for customer ${request.customerId} ` +
+                        `(${request.startDate}–${request.endDate}) approved; no rental created because ` +
+                        "BOOKING_REQUEST_FORWARDER=log",
+                );
+                return { reference: null, stubbed: true };
+            },
+        };
+    }
+
+    if (kind === "bjugstad") {
+        return { name: "bjugstad", forward: forwardToBjugstad };
+    }
+
+    throw new Error(`Ukjent BOOKING_REQUEST_FORWARDER "${kind}"`);
+}
+
+async function forwardToBjugstad(request: BookingRequestEntry): Promise<BookingRequestForwardResult> {
+    const apiKey =
+        process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
+        process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
+    const baseUrl = process.env.BJUGSTAD_API_BASEURL?.trim();
+
+    if (!apiKey || !baseUrl) {
+        throw new Error("Mangler konfigurasjon for Bjugstad API");
+    }
+
+    const path = process.env.BJUGSTAD_BOOKING_REQUEST_PATH?.trim() || DEFAULT_BJUGSTAD_PATH;
+    const url = `${baseUrl.replace(/\/$/, "")}/${path.replace(/^\//, "")}`;
+    const machineId = request.machineId != null ? Number(request.machineId) : NaN;
+
+    // The key stays the same across retries, so a retry after a lost response does not
+    // create a second rental.
+    const response = await fetch(url, {
+        method: "POST",
+        cache: "no-store",
+        signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+        headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            "Ocp-Apim-Subscription-Key": apiKey,
+            "Idempotency-Key": `booking-request-${request.id}`,
+        },
+        body: JSON.stringify({
+            portalRequestId: request.id,
+            customerId: request.customerId,
+            machineId: Number.isFinite(machineId) ? machineId : null,
+            category: request.category,
+            startDate: request.startDate,
+            endDate: request.endDate,
+            deliveryAddress: request.deliveryAddress,
+            deliveryLatitude: request.deliveryLat,
+            deliveryLongitude: request.deliveryLng,
+            projectNumber: request.projectNumber,
+            customerContactPersonId: request.contactPerson?.id ?? null,
+            comment: request.comment,
+            requestedBy: request.requestedByName,
+            approvedBy: request.decidedBy,
+        }),
+    });
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`Bjugstad API svarte ${response.status} ${body}`.trim());
+    }
+
+    const data = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+    const reference = data?.rentalId ?? data?.id ?? null;
+    return { reference: reference != null ? String(reference) : null };
+}
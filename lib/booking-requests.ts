@@ -0,0 +1,603 @@
+// lib/booking-requests.ts
+// Purpose: Requests for new rentals raised from /bestilling. A company user picks a
+// category or a specific machine, the period, a delivery address and one of the company's
+// contact persons. Super admins approve or reject them in the Forespørsler queue, and
+// approved requests are created as rentals through the adapter in
+// lib/booking-request-forwarding.ts. Requesters see their own requests; company admins see
+// every request for their companies.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { invalidateCustomerCache } from "@/lib/bjugstad-cache";
+import { normalizeError, type AppError } from "@/lib/errors";
+import { getMachineLocationById } from "@/lib/machines";
+import { enqueueNotification } from "@/lib/notifications";
+import { getBookingRequestForwarder } from "@/lib/booking-request-forwarding";
+
+// Decided requests older than this are left out of the queue.
+const DECIDED_LOOKBACK_DAYS = 90;
+const COMMENT_MAX_LENGTH = 1000;
+const ADDRESS_MAX_LENGTH = 300;
+const PROJECT_NUMBER_MAX_LENGTH = 50;
+const MAX_PERIOD_DAYS = 730;
+const LIST_LIMIT = 200;
+// A claim older than this is assumed to belong to a request that died mid-forward and may be
+// retried. Well above the adapter's request timeout.
+const FORWARD_CLAIM_STALE_SECONDS = 5 * 60;
+const FORWARD_STATUSES: BookingRequestForwardStatus[] = ["forwarding", "forwarded", "stubbed", "failed"];
+
+export type BookingRequestStatus = "pending" | "approved" | "rejected";
+/**
+ * forwarding: a request is creating the rental right now. stubbed: the log adapter ran, so
+ * no rental exists yet.
+ */
+export type BookingRequestForwardStatus = "forwarding" | "forwarded" | "stubbed" | "failed";
+export type BookingRequestAction = "approve" | "reject" | "forward";
+
+export type BookingContactPerson = {
+    id: number;
+    name: string | null;
+    phone: string | null;
+    email: string | null;
+};
+
+export type BookingCompany = { id: number; name: string };
+
+export type BookingRequestEntry = {
+    id: string;
+    customerId: number;
+    customerName: string | null;
+    category: string | null;
+    machineId: string | null;
+    machineName: string | null;
+    /** Calendar dates (YYYY-MM-DD), both inclusive. */
+    startDate: string;
+    endDate: string;
+    deliveryAddress: string;
+    deliveryLat: number | null;
+    deliveryLng: number | null;
+    projectNumber: string | null;
+    contactPerson: BookingContactPerson | null;
+    comment: string | null;
+    requestedByName: string | null;
+    status: BookingRequestStatus;
+    decidedAt: string | null;
+    decidedBy: string | null;
+    decisionComment: string | null;
+    forwardStatus: BookingRequestForwardStatus | null;
+    forwardReference: string | null;
+    forwardError: string | null;
+    forwardedAt: string | null;
+    createdAt: string;
+};
+
+export type BookingRequestInput = {
+    customerId: number;
+    category: string | null;
+    machineId: string | null;
+    startDate: string;
+    endDate: string;
+    deliveryAddress: string;
+    deliveryLat: number | null;
+    deliveryLng: number | null;
+    projectNumber: string | null;
+    contactPersonId: number | null;
+    comment: string | null;
+};
+
+export type BookingRequestViewer = { userId: string; isAdmin: boolean };
+
+export type BookingRequestsResult = {
+    requests: BookingRequestEntry[];
+    error: AppError | null;
+};
+
+export type BookingRequestCreateResult =
+    | { status: "ok"; request: BookingRequestEntry }
+    | { status: "invalid"; error: string }
+    | { status: "forbidden" };
+
+export type BookingRequestUpdateResult =
+    | { status: "ok"; request: BookingRequestEntry }
+    | { status: "not_found" }
+    | { status: "already_decided" }
+    | { status: "not_forwardable" };
+
+const REQUEST_COLUMNS = `
+    b.id,
+    b.customer_id,
+    b.customer_name,
+    b.category,
+    b.machine_id,
+    b.machine_name,
+    to_char(b.start_date, 'YYYY-MM-DD') AS start_date,
+    to_char(b.end_date, 'YYYY-MM-DD') AS end_date,
+    b.delivery_address,
+    b.delivery_lat,
+    b.delivery_lng,
+    b.project_number,
+    b.contact_person_id,
+    b.contact_person_name,
+    b.contact_person_phone,
+    b.contact_person_email,
+    b.comment,
+    b.requested_by_name,
+    b.status,
+    b.decided_at,
+    b.decided_by,
+    b.decision_comment,
+    b.forward_status,
+    b.forward_reference,
+    b.forward_error,
+    b.forwarded_at,
+    b.created_at
+`;
+
+// Customers see their own requests, and company admins every request for their companies.
+const VISIBLE_TO_VIEWER = `
+    ($1::boolean OR b.requested_by_user_id = $2 OR b.customer_id IN (
+        SELECT customer_id FROM user_customer_accesses WHERE user_id = $2 AND role = 'admin'
+    ))
+`;
+
+/** Companies the viewer can order for: every customer for super admins, otherwise their own. */
+export async function listBookingCompanies(viewer: BookingRequestViewer): Promise<BookingCompany[]> {
+    const { rows } = await query(
+        `
+        SELECT c.customer_id, c.name
+        FROM customers c
+        WHERE $1::boolean OR c.customer_id IN (
+            SELECT customer_id FROM user_customer_accesses WHERE user_id = $2
+        )
+        ORDER BY c.name NULLS LAST, c.customer_id;
+        `,
+        [viewer.isAdmin, viewer.userId],
+    );
+    return rows.map((row) => ({
+        id: Number(row.customer_id),
+        name: row.name ? String(row.name) : `Kunde ${row.customer_id}`,
+    }));
+}
+
+/** Contact persons of a company, or null when the viewer cannot order for it. */
+export async function listBookingContactPersons(
+    customerId: number,
+    viewer: BookingRequestViewer,
+): Promise<BookingContactPerson[] | null> {
+    if (!(await canBookFor(customerId, viewer))) return null;
+
+    const { rows } = await query(
+        `
+        SELECT contact_person_id, name, telephone_number, email
+        FROM customer_contact_persons
+        WHERE customer_id = $1
+        ORDER BY name NULLS LAST, contact_person_id;
+        `,
+        [customerId],
+    );
+    return rows.map((row) => toContactPerson(row));
+}
+
+export async function listBookingRequests(viewer: BookingRequestViewer): Promise<BookingRequestEntry[]> {
+    const { rows } = await query(
+        `
+        SELECT ${REQUEST_COLUMNS}
+        FROM booking_requests b
+        WHERE ${VISIBLE_TO_VIEWER}
+        ORDER BY b.created_at DESC
+        LIMIT $3;
+        `,
+        [viewer.isAdmin, viewer.userId, LIST_LIMIT],
+    );
+    return rows.map((row) => toBookingRequestEntry(row));
+}
+
+export async function loadBookingRequestsForAdmin(): Promise<BookingRequestsResult> {
+    try {
+        const { rows } = await query(
+            `
+            SELECT ${REQUEST_COLUMNS}
+            FROM booking_requests b
+            WHERE b.status = 'pending'
+               OR b.decided_at >= now() - ($1::int * interval '1 day')
+            ORDER BY (b.status <> 'pending'), b.created_at DESC;
+            `,
+            [DECIDED_LOOKBACK_DAYS],
+        );
+        return { requests: rows.map((row) => toBookingRequestEntry(row)), error: null };
+    } catch (error) {
+        return {
+            requests: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente bestillinger",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente bestillingene akkurat nå.",
+            }),
+        };
+    }
+}
+
+/**
+ * Validate a booking payload from /bestilling. Dates are calendar dates (YYYY-MM-DD); the
+ * checks against the company, machine and contact person happen in createBookingRequest.
+ */
+export function parseBookingRequestInput(
+    payload: unknown,
+): { input: BookingRequestInput } | { error: string } {
+    const body = (payload ?? {}) as Record<string, unknown>;
+
+    const customerId = Number(body.customerId);
+    if (!Number.isInteger(customerId) || customerId <= 0) return { error: "Velg selskap" };
+
+    const category = readText(body.category);
+    const machineId = readText(body.machineId);
+    if (!category && !machineId) return { error: "Velg kategori eller maskin" };
+
+    const startDate = readText(body.startDate) ?? "";
+    const endDate = readText(body.endDate) ?? "";
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) return { error: "Ugyldig periode" };
+    if (endDate < startDate) return { error: "Sluttdato kan ikke være før startdato" };
+    if (daysBetween(startDate, endDate) + 1 > MAX_PERIOD_DAYS) {
+        return { error: `Perioden kan være maks ${MAX_PERIOD_DAYS} dager` };
+    }
+
+    const deliveryAddress = readText(body.deliveryAddress);
+    if (!deliveryAddress) return { error: "Fyll inn leveringsadresse" };
+    if (deliveryAddress.length > ADDRESS_MAX_LENGTH) {
+        return { error: `Leveringsadressen kan ikke være lengre enn ${ADDRESS_MAX_LENGTH} tegn` };
+    }
+
+    let deliveryLat: number | null = null;
+    let deliveryLng: number | null = null;
+    if (body.deliveryLat != null || body.deliveryLng != null) {
+        deliveryLat = Number(body.deliveryLat);
+        deliveryLng = Number(body.deliveryLng);
+        if (
+            !Number.isFinite(deliveryLat) || deliveryLat < -90 || deliveryLat > 90 ||
+            !Number.isFinite(deliveryLng) || deliveryLng < -180 || deliveryLng > 180
+        ) {
+            return { error: "Ugyldig posisjon for leveringsadressen" };
+        }
+    }
+
+    const projectNumber = readText(body.projectNumber);
+    if (projectNumber && projectNumber.length > PROJECT_NUMBER_MAX_LENGTH) {
+        return { error: `Prosjektnummeret kan ikke være lengre enn ${PROJECT_NUMBER_MAX_LENGTH} tegn` };
+    }
+
+    let contactPersonId: number | null = null;
+    if (body.contactPersonId != null && body.contactPersonId !== "") {
+        contactPersonId = Number(body.contactPersonId);
+        if (!Number.isInteger(contactPersonId)) return { error: "Ugyldig kontaktperson" };
+    }
+
+    const comment = readText(body.comment);
+    if (comment && comment.length > COMMENT_MAX_LENGTH) {
+        return { error: `Kommentaren kan ikke være lengre enn ${COMMENT_MAX_LENGTH} tegn` };
+    }
+
+    return {
+        input: {
+            customerId,
+            category,
+            machineId,
+            startDate,
+            endDate,
+            deliveryAddress,
+            deliveryLat,
+            deliveryLng,
+            projectNumber,
+            contactPersonId,
+            comment,
+        },
+    };
+}
+
+/**
+ * Store a pending booking request for a company the requester can order for. The start
+ * date cannot be in the past, a chosen machine must exist, and the contact person must
+ * belong to the company. Contact details are copied onto the request.
+ */
+export async function createBookingRequest(
+    input: BookingRequestInput,
+    requestedBy: BookingRequestViewer & { name: string | null },
+): Promise<BookingRequestCreateResult> {
+    if (!(await canBookFor(input.customerId, requestedBy))) return { status: "forbidden" };
+
+    if (input.startDate < todayInOslo()) {
+        return { status: "invalid", error: "Startdato kan ikke være tilbake i tid" };
+    }
+
+    let machineName: string | null = null;
+    let category = input.category;
+    if (input.machineId) {
+        const machine = await getMachineLocationById(input.machineId);
+        if (!machine) return { status: "invalid", error: `Fant ikke maskin ${input.machineId}` };
+        machineName = machine.name;
+        category = category ?? machine.category ?? null;
+    }
+
+    let contactPerson: BookingContactPerson | null = null;
+    if (input.contactPersonId != null) {
+        const { rows } = await query(
+            `
+            SELECT contact_person_id, name, telephone_number, email
+            FROM customer_contact_persons
+            WHERE customer_id = $1 AND contact_person_id = $2;
+            `,
+            [input.customerId, input.contactPersonId],
+        );
+        if (!rows[0]) return { status: "invalid", error: "Kontaktpersonen hører ikke til selskapet" };
+        contactPerson = toContactPerson(rows[0]);
+    }
+
+    const { rows } = await query(
+        `
+        WITH inserted AS (
+            INSERT INTO booking_requests (
+                customer_id, customer_name, category, machine_id, machine_name,
+                start_date, end_date, delivery_address, delivery_lat, delivery_lng,
+                project_number, contact_person_id, contact_person_name, contact_person_phone,
+                contact_person_email, comment, requested_by_user_id, requested_by_name
+            )
+            VALUES (
+                $1::int, (SELECT name FROM customers WHERE customer_id = $1::int), $2, $3, $4,
+                $5::date, $6::date, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
+            )
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}
+        FROM inserted b;
+        `,
+        [
+            input.customerId,
+            category,
+            input.machineId,
+            machineName,
+            input.startDate,
+            input.endDate,
+            input.deliveryAddress,
+            input.deliveryLat,
+            input.deliveryLng,
+            input.projectNumber,
+            contactPerson?.id ?? null,
+            contactPerson?.name ?? null,
+            contactPerson?.phone ?? null,
+            contactPerson?.email ?? null,
+            input.comment,
+            requestedBy.userId,
+            requestedBy.name,
+        ],
+    );
+
+    return { status: "ok", request: toBookingRequestEntry(rows[0]) };
+}
+
+/**
+ * Approve or reject a pending booking request, or retry creating the rental for an
+ * approved one. Approving forwards the request straight away; a forwarding failure is
+ * recorded on the request rather than undoing the approval. Both paths claim the row
+ * (forward_status = 'forwarding') in the same UPDATE that checks it, so concurrent clicks
+ * cannot create the rental twice.
+ */
+export async function updateBookingRequest(
+    requestId: string,
+    action: BookingRequestAction,
+    decidedBy: string | null,
+    decisionComment: string | null,
+): Promise<BookingRequestUpdateResult> {
+    const { rows: existing } = await query(
+        `SELECT status, forward_status FROM booking_requests WHERE id = $1::bigint`,
+        [requestId],
+    );
+    if (!existing[0]) return { status: "not_found" };
+
+    if (action === "forward") {
+        const { rows } = await query(
+            `
+            WITH claimed AS (
+                UPDATE booking_requests
+                   SET forward_status = 'forwarding',
+                       updated_at = now()
+                 WHERE id = $1::bigint
+                   AND status = 'approved'
+                   AND forward_status IS DISTINCT FROM 'forwarded'
+                   AND (
+                       forward_status IS DISTINCT FROM 'forwarding'
+                       OR updated_at < now() - make_interval(secs => $2)
+                   )
+                RETURNING *
+            )
+            SELECT ${REQUEST_COLUMNS}
+            FROM claimed b;
+            `,
+            [requestId, FORWARD_CLAIM_STALE_SECONDS],
+        );
+        if (!rows[0]) return { status: "not_forwardable" };
+        return { status: "ok", request: await forwardBookingRequest(toBookingRequestEntry(rows[0])) };
+    }
+
+    if (existing[0].status !== "pending") return { status: "already_decided" };
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE booking_requests
+               SET status = $2,
+                   decided_at = now(),
+                   decided_by = $3,
+                   decision_comment = $4,
+                   forward_status = CASE WHEN $2 = 'approved' THEN 'forwarding' ELSE forward_status END,
+                   updated_at = now()
+             WHERE id = $1::bigint
+               AND status = 'pending'
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}, b.requested_by_user_id
+        FROM updated b;
+        `,
+        [requestId, action === "approve" ? "approved" : "rejected", decidedBy, decisionComment],
+    );
+    if (!rows[0]) return { status: "already_decided" };
+
+    let request = toBookingRequestEntry(rows[0]);
+    if (request.status === "approved") {
+        request = await forwardBookingRequest(request);
+    }
+
+    if (rows[0].requested_by_user_id) {
+        await enqueueNotification({
+            userId: String(rows[0].requested_by_user_id),
+            template: "booking_request_decided",
+            data: {
+                name: request.requestedByName,
+                requestId: request.id,
+                customerName: request.customerName,
+                machine: request.machineName ?? request.category,
+                startDate: request.startDate,
+                endDate: request.endDate,
+                status: request.status === "approved" ? "approved" : "rejected",
+                rentalId: request.forwardReference,
+                decisionComment: request.decisionComment,
+            },
+            dedupeKey: `booking_request_decided:${request.id}`,
+        });
+    }
+
+    return { status: "ok", request };
+}
+
+async function forwardBookingRequest(request: BookingRequestEntry): Promise<BookingRequestEntry> {
+    let forwardStatus: BookingRequestForwardStatus;
+    let reference: string | null = null;
+    let forwardError: string | null = null;
+
+    try {
+        const forwarder = getBookingRequestForwarder();
+        const result = await forwarder.forward(request);
+        reference = result.reference;
+        forwardStatus = result.stubbed ? "stubbed" : "forwarded";
+        // Only clears the live API cache; while the rentals mirror is fresh, the new rental
+        // shows up on /avtaler after the next sync (at most about 15 minutes).
+        await invalidateCustomerCache(request.customerId);
+    } catch (error) {
+        console.error(`Failed to forward booking request ${request.id}`, error);
+        forwardStatus = "failed";
+        forwardError = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    }
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE booking_requests
+               SET forward_status = $2,
+                   forward_reference = COALESCE($3, forward_reference),
+                   forward_error = $4,
+                   forwarded_at = CASE WHEN $2 = 'forwarded' THEN now() ELSE forwarded_at END,
+                   updated_at = now()
+             WHERE id = $1::bigint
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}
+        FROM updated b;
+        `,
+        [request.id, forwardStatus, reference, forwardError],
+    );
+    return rows[0] ? toBookingRequestEntry(rows[0]) : request;
+}
+
+async function canBookFor(customerId: number, viewer: BookingRequestViewer): Promise<boolean> {
+    const { rowCount } = await query(
+        viewer.isAdmin
+            ? `SELECT 1 FROM customers WHERE customer_id = $1`
+            : `SELECT 1 FROM user_customer_accesses WHERE customer_id = $1 AND user_id = $2`,
+        viewer.isAdmin ? [customerId] : [customerId, viewer.userId],
+    );
+    return Boolean(rowCount);
+}
+
+function readText(value: unknown): string | null {
+    if (typeof value !== "string" && typeof value !== "number") return null;
+    return String(value).trim() || null;
+}
+
+function isCalendarDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function todayInOslo(): string {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone: "Europe/Oslo",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(new Date());
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+    if (value == null) return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+function toContactPerson(row: QueryResultRow): BookingContactPerson {
+    return {
+        id: Number(row.contact_person_id),
+        name: row.name ?? null,
+        phone: row.telephone_number ?? null,
+        email: row.email ?? null,
+    };
+}
+
+function toBookingRequestEntry(row: QueryResultRow): BookingRequestEntry {
+    const status: BookingRequestStatus =
+        row.status === "approved" || row.status === "rejected" ? row.status : "pending";
+    const forwardStatus: BookingRequestForwardStatus | null =
+        FORWARD_STATUSES.includes(row.forward_status) ? row.forward_status : null;
+
+    return {
+        id: String(row.id),
+        customerId: Number(row.customer_id),
+        customerName: row.customer_name ?? null,
+        category: row.category ?? null,
+        machineId: row.machine_id ?? null,
+        machineName: row.machine_name ?? null,
+        startDate: String(row.start_date),
+        endDate: String(row.end_date),
+        deliveryAddress: String(row.delivery_address ?? ""),
+        deliveryLat: toNumberOrNull(row.delivery_lat),
+        deliveryLng: toNumberOrNull(row.delivery_lng),
+        projectNumber: row.project_number ?? null,
+        contactPerson:
+            row.contact_person_id != null
+                ? {
+                    id: Number(row.contact_person_id),
+                    name: row.contact_person_name ?? null,
+                    phone: row.contact_person_phone ?? null,
+                    email: row.contact_person_email ?? null,
+                }
+                : null,
+        comment: row.comment ?? null,
+        requestedByName: row.requested_by_name ?? null,
+        status,
+        decidedAt: toIso(row.decided_at),
+        decidedBy: row.decided_by ?? null,
+        decisionComment: row.decision_comment ?? null,
+        forwardStatus,
+        forwardReference: row.forward_reference ?? null,
+        forwardError: row.forward_error ?? null,
+        forwardedAt: toIso(row.forwarded_at),
+        createdAt: toIso(row.created_at) ?? "",
+    };
+}
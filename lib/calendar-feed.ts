@@ -0,0 +1,162 @@
+// lib/calendar-feed.ts
+// Purpose: Personal iCalendar feed of agreement periods for Outlook/Google Calendar.
+// Calendar clients cannot log in with Vipps, so the feed URL carries a secret token
+// instead of a session. Each user has at most one token; only its hash is stored, so the
+// URL is shown once when created, and regenerating or revoking it from /profil stops the
+// old URL from working.
+import { createHash, randomBytes } from "crypto";
+import { query } from "@/lib/db";
+import type { AgreementPayload } from "@/lib/agreements";
+import { renderCalendar, type CalendarEvent } from "@/lib/ical";
+
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+// Calendar clients poll on their own schedule; this is the hint we give them.
+const REFRESH_MINUTES = 60;
+const UID_DOMAIN = "bjugstad.no";
+
+export type CalendarFeedStatus = {
+    active: boolean;
+    createdAt: string | null;
+    lastUsedAt: string | null;
+};
+
+export type CalendarFeedOwner = { userId: string; role: string | null };
+
+export async function getCalendarFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const { rows } = await query(
+        `SELECT created_at, last_used_at FROM calendar_feed_tokens WHERE user_id = $1;`,
+        [userId],
+    );
+    const row = rows[0];
+    return {
+        active: Boolean(row),
+        createdAt: row ? toIso(row.created_at) : null,
+        lastUsedAt: row ? toIso(row.last_used_at) : null,
+    };
+}
+
+/** Issue a new token for the user, replacing any previous one. The token is only returned here. */
+export async function createCalendarFeedToken(
+    userId: string,
+): Promise<{ path: string; status: CalendarFeedStatus }> {
+    const token = randomBytes(TOKEN_BYTES).toString("base64url");
+    const { rows } = await query(
+        `
+        INSERT INTO calendar_feed_tokens (user_id, token_hash, created_at, last_used_at)
+        VALUES ($1, $2, now(), NULL)
+        ON CONFLICT (user_id) DO UPDATE
+           SET token_hash = EXCLUDED.token_hash,
+               created_at = now(),
+               last_used_at = NULL
+        RETURNING created_at;
+        `,
+        [userId, hashToken(token)],
+    );
+
+    return {
+        path: getCalendarFeedPath(token),
+        status: { active: true, createdAt: toIso(rows[0]?.created_at), lastUsedAt: null },
+    };
+}
+
+export async function revokeCalendarFeedToken(userId: string): Promise<void> {
+    await query(`DELETE FROM calendar_feed_tokens WHERE user_id = $1;`, [userId]);
+}
+
+/** The user a feed token belongs to, or null for malformed, unknown or revoked tokens. */
+export async function resolveCalendarFeedToken(token: string): Promise<CalendarFeedOwner | null> {
+    if (!TOKEN_PATTERN.test(token)) return null;
+
+    const { rows } = await query(
+        `
+        UPDATE calendar_feed_tokens t
+           SET last_used_at = now()
+          FROM users u
+         WHERE t.token_hash = $1
+           AND u.id = t.user_id
+        RETURNING t.user_id, u.role;
+        `,
+        [hashToken(token)],
+    );
+    const row = rows[0];
+    return row ? { userId: row.user_id, role: row.role ?? null } : null;
+}
+
+export function getCalendarFeedPath(token: string): string {
+    return `/api/calendar/${token}.ics`;
+}
+
+export function renderAgreementsCalendar(agreements: AgreementPayload[]): string {
+    const events = agreements
+        .map((agreement) => toCalendarEvent(agreement))
+        .filter((event): event is CalendarEvent => event !== null);
+
+    return renderCalendar(events, { name: "Bjugstad avtaler", refreshMinutes: REFRESH_MINUTES });
+}
+
+function toCalendarEvent(agreement: AgreementPayload): CalendarEvent | null {
+    const startDate = toDateOnly(agreement.startDate);
+    if (!startDate) return null;
+
+    // All-day events end exclusively; open-ended agreements show on the start day only.
+    const endDate = toDateOnly(agreement.endDate);
+    const exclusiveEnd = addDays(endDate && endDate >= startDate ? endDate : startDate, 1);
+
+    const machines = (agreement.machines ?? [])
+        .map((machine) => machine.name?.trim() || (machine.id ? `Maskin ${machine.id}` : null))
+        .filter((name): name is string => Boolean(name));
+
+    const summaryParts = [
+        machines.length === 1 ? machines[0] : machines.length ? `${machines.length} maskiner` : "Leieavtale",
+        agreement.customerName?.trim() || null,
+    ].filter(Boolean);
+
+    const contact = [
+        agreement.contactPersonName,
+        agreement.contactPersonTelephoneNumber,
+        agreement.contactPersonEmail,
+    ]
+        .map((part) => part?.trim())
+        .filter(Boolean)
+        .join(", ");
+
+    const description = [
+        `Avtale ${agreement.id}`,
+        agreement.projectNumber ? `Prosjektnummer: ${agreement.projectNumber}` : null,
+        endDate ? null : "Ingen sluttdato registrert",
+        machines.length ? `Maskiner:\n${machines.map((name) => `- ${name}`).join("\n")}` : null,
+        contact ? `Kontakt hos Bjugstad: ${contact}` : null,
+    ]
+        .filter(Boolean)
+        .join("\n");
+
+    return {
+        uid: `avtale-${agreement.id}@${UID_DOMAIN}`,
+        summary: summaryParts.join(" – "),
+        startDate,
+        endDate: exclusiveEnd,
+        location: agreement.location?.trim() || null,
+        description,
+    };
+}
+
+// The API sends wall-clock timestamps ("2025-03-01T00:00:00"); the calendar date is what counts.
+function toDateOnly(value?: string | null): string | null {
+    const match = value ? /^(\d{4}-\d{2}-\d{2})/.exec(value) : null;
+    return match ? match[1] : null;
+}
+
+function addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().slice(0, 10);
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
@@ -42,3 +42,72 @@ export const SESSION_USER_FIELDS = [
     "acceptedTermsVersion",
     "lastLoginAt",
 ] as const;
+
+// Display names for the sources the Azure timers sync from. AEMP OEMs not listed here
+// fall back to their capitalised source key.
+export const INTEGRATION_SOURCE_LABELS: Record<string, string> = {
+    cat: "CAT",
+    hydrema: "Hydrema",
+    trackunit: "Trackunit",
+    bjugstad_machines: "Bjugstad maskiner",
+    bjugstad_customers: "Bjugstad kunder",
+    bjugstad_rentals: "Bjugstad avtaler",
+    notifications: "Varsler (e-post/SMS)",
+    agreement_reminders: "Avtalepåminnelser",
+    control_notices: "Kontrollvarsler",
+};
+
+// Display names for movement alert states, shared by the Alarmer inbox and the machine dialog.
+export const MOVEMENT_ALERT_STATUS_LABELS: Record<string, string> = {
+    open: "Åpen",
+    acknowledged: "Kvittert",
+    resolved: "Lukket",
+};
+
+// Display names for extension and return requests, shared by the agreement dialog,
+// the Avtaler table and the Forespørsler queue. Booking requests use the same statuses.
+export const RENTAL_REQUEST_TYPE_LABELS: Record<string, string> = {
+    extension: "Forlengelse",
+    return: "Retur",
+};
+
+export const RENTAL_REQUEST_STATUS_LABELS: Record<string, string> = {
+    pending: "Venter",
+    approved: "Godkjent",
+    rejected: "Avvist",
+};
+
+// Display names for service and damage tickets, shared by the machine dialog and the
+// Servicesaker admin page.
+export const SERVICE_TICKET_CATEGORY_LABELS: Record<string, string> = {
+    breakdown: "Driftsstans",
+    damage: "Skade",
+    service: "Service/vedlikehold",
+    other: "Annet",
+};
+
+export const SERVICE_TICKET_STATUS_LABELS: Record<string, string> = {
+    open: "Ny",
+    in_progress: "Under arbeid",
+    resolved: "Løst",
+};
+
+// Categories for files customers upload against a machine on one of their agreements.
+export const CUSTOMER_ATTACHMENT_CATEGORY_LABELS: Record<string, string> = {
+    inspection: "Daglig kontroll",
+    sja: "SJA",
+    photo: "Bilde",
+    other: "Annet",
+};
+
+// Display names for periodic inspections, shared by the Kontroller page, the map popup and
+// the machine dialog.
+export const MACHINE_CONTROL_KIND_LABELS: Record<string, string> = {
+    control: "Periodisk kontroll",
+    rail_control: "Jernbanekontroll",
+};
+
+export const MACHINE_CONTROL_STATUS_LABELS: Record<string, string> = {
+    overdue: "Forfalt",
+    due_soon: "Forfaller snart",
+};
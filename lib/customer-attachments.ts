@@ -0,0 +1,324 @@
+// lib/customer-attachments.ts
+// Purpose: Files customers upload against a machine on one of their agreements (daily
+// inspection checklists, SJA forms, photos). Unlike the attachments from
+// GetMachineAttachments these are ours: the file goes through lib/file-storage.ts, the
+// metadata lives in customer_attachments, and every upload is checked for type, size and
+// viruses (lib/upload-scan.ts) before it is stored.
+import { randomUUID } from "crypto";
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { getFileStorage, toStorageFileName } from "@/lib/file-storage";
+import { getUploadScanner, hasFileSignature } from "@/lib/upload-scan";
+import type { CustomerAttachmentCategory, CustomerAttachmentEntry } from "@/types/machines";
+
+const MAX_FILES = 5;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const DESCRIPTION_MAX_LENGTH = 500;
+
+const CATEGORIES: CustomerAttachmentCategory[] = ["inspection", "sja", "photo", "other"];
+
+// Accepted formats. The declared type is not trusted on its own: the first bytes of the
+// file must match the format too (hasFileSignature).
+const FILE_TYPES: Array<{
+    contentType: string;
+    /** Other types browsers report for the same format. */
+    aliases?: string[];
+    extensions: string[];
+}> = [
+    { contentType: "application/pdf", extensions: [".pdf"] },
+    { contentType: "image/jpeg", extensions: [".jpg", ".jpeg"] },
+    { contentType: "image/png", extensions: [".png"] },
+    { contentType: "image/webp", extensions: [".webp"] },
+    { contentType: "image/heic", aliases: ["image/heif"], extensions: [".heic", ".heif"] },
+    {
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        extensions: [".docx"],
+    },
+    {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extensions: [".xlsx"],
+    },
+];
+
+export type CustomerAttachmentViewer = { userId: string; isAdmin: boolean };
+
+export type CustomerAttachmentInput = {
+    category: CustomerAttachmentCategory;
+    description: string | null;
+    agreementId: string;
+    files: File[];
+};
+
+export type CustomerAttachmentAgreement = {
+    id: string;
+    customerId: number | null;
+};
+
+export type CustomerAttachmentUploadResult =
+    | { status: "ok"; attachments: CustomerAttachmentEntry[] }
+    | { status: "rejected"; message: string }
+    | { status: "scan_unavailable" };
+
+export type CustomerAttachmentFile = {
+    storageKey: string;
+    fileName: string;
+    contentType: string;
+};
+
+const ATTACHMENT_COLUMNS = `
+    a.id,
+    a.machine_id,
+    a.rental_id,
+    a.customer_id,
+    a.category,
+    a.description,
+    a.file_name,
+    a.content_type,
+    a.size_bytes,
+    a.uploaded_by_user_id,
+    a.uploaded_by_name,
+    a.created_at
+`;
+
+// Customers only see files for companies they have access to.
+const VISIBLE_TO_VIEWER = `
+    ($2::boolean OR a.customer_id IN (
+        SELECT customer_id FROM user_customer_accesses WHERE user_id = $3
+    ))
+`;
+
+export async function listMachineCustomerAttachments(
+    machineId: string,
+    viewer: CustomerAttachmentViewer,
+): Promise<CustomerAttachmentEntry[]> {
+    const { rows } = await query(
+        `
+        SELECT ${ATTACHMENT_COLUMNS}
+        FROM customer_attachments a
+        WHERE a.machine_id = $1
+          AND ${VISIBLE_TO_VIEWER}
+        ORDER BY a.created_at DESC;
+        `,
+        [machineId, viewer.isAdmin, viewer.userId],
+    );
+    return rows.map((row) => toCustomerAttachmentEntry(row, viewer));
+}
+
+/** Validate the multipart form from the machine dialog. File contents are checked on upload. */
+export function parseCustomerAttachmentForm(
+    form: FormData,
+): { input: CustomerAttachmentInput } | { error: string } {
+    const category = String(form.get("category") ?? "") as CustomerAttachmentCategory;
+    if (!CATEGORIES.includes(category)) return { error: "Velg en kategori" };
+
+    const agreementId = String(form.get("agreementId") ?? "").trim();
+    if (!/^\d+$/.test(agreementId)) return { error: "Velg hvilken avtale filene gjelder" };
+
+    const description = String(form.get("description") ?? "").trim();
+    if (description.length > DESCRIPTION_MAX_LENGTH) {
+        return { error: `Beskrivelsen kan ikke være lengre enn ${DESCRIPTION_MAX_LENGTH} tegn` };
+    }
+
+    const files = form
+        .getAll("files")
+        .filter((entry): entry is File => typeof entry === "object" && entry !== null && entry.size > 0);
+    if (!files.length) return { error: "Velg minst én fil" };
+    if (files.length > MAX_FILES) return { error: `Du kan laste opp maks ${MAX_FILES} filer om gangen` };
+    for (const file of files) {
+        if (!findFileType(file)) {
+            return { error: `"${file.name}" har et filformat som ikke støttes (PDF, bilde, Word eller Excel)` };
+        }
+        if (file.size > MAX_FILE_BYTES) {
+            return { error: `"${file.name}" er større enn ${MAX_FILE_BYTES / (1024 * 1024)} MB` };
+        }
+    }
+
+    return {
+        input: {
+            category,
+            description: description || null,
+            agreementId,
+            files,
+        },
+    };
+}
+
+/**
+ * Check and store the files, then write the rows in one statement. Nothing is stored
+ * unless every file passes; uploads are removed again if the insert fails.
+ */
+export async function createCustomerAttachments(
+    machineId: string,
+    input: CustomerAttachmentInput,
+    agreement: CustomerAttachmentAgreement,
+    uploadedBy: { userId: string; name: string | null },
+    viewer: CustomerAttachmentViewer,
+): Promise<CustomerAttachmentUploadResult> {
+    const scanner = getUploadScanner();
+    const checked: Array<{ file: File; data: ArrayBuffer; contentType: string; scanStatus: string }> = [];
+
+    for (const file of input.files) {
+        const data = await file.arrayBuffer();
+        const fileType = findFileType(file);
+        if (!fileType || !hasFileSignature(fileType.contentType, data)) {
+            return { status: "rejected", message: `Innholdet i "${file.name}" samsvarer ikke med filtypen` };
+        }
+
+        let scan;
+        try {
+            scan = await scanner.scan(file.name, data);
+        } catch (error) {
+            console.error(`Virus scan failed for upload "${file.name}" on machine ${machineId}`, error);
+            return { status: "scan_unavailable" };
+        }
+        if (scan.status === "infected") {
+            console.warn(`Rejected infected upload "${file.name}" on machine ${machineId}`, scan.signature);
+            return { status: "rejected", message: `"${file.name}" ble stoppet av virusskanningen` };
+        }
+
+        checked.push({ file, data, contentType: fileType.contentType, scanStatus: scan.status });
+    }
+
+    const storage = getFileStorage();
+    const folder = `customer-attachments/${toStorageFileName(machineId)}/${randomUUID()}`;
+    const uploaded: Array<{
+        storage_key: string;
+        file_name: string;
+        content_type: string;
+        size_bytes: number;
+        scan_status: string;
+    }> = [];
+
+    try {
+        for (const [index, { file, data, contentType, scanStatus }] of checked.entries()) {
+            const storageKey = `${folder}/${index + 1}-${toStorageFileName(file.name)}`;
+            await storage.put(storageKey, data, contentType);
+            uploaded.push({
+                storage_key: storageKey,
+                file_name: file.name || `fil-${index + 1}`,
+                content_type: contentType,
+                size_bytes: file.size,
+                scan_status: scanStatus,
+            });
+        }
+
+        const { rows } = await query(
+            `
+            INSERT INTO customer_attachments (
+                machine_id, rental_id, customer_id, category, description, storage_key, file_name,
+                content_type, size_bytes, scan_status, uploaded_by_user_id, uploaded_by_name
+            )
+            SELECT $1, $2::int, $3, $4, $5, f.storage_key, f.file_name,
+                   f.content_type, f.size_bytes, f.scan_status, $6, $7
+            FROM jsonb_to_recordset($8::jsonb)
+                AS f(storage_key text, file_name text, content_type text, size_bytes int, scan_status text)
+            RETURNING id, machine_id, rental_id, customer_id, category, description, file_name,
+                      content_type, size_bytes, uploaded_by_user_id, uploaded_by_name, created_at;
+            `,
+            [
+                machineId,
+                agreement.id,
+                agreement.customerId,
+                input.category,
+                input.description,
+                uploadedBy.userId,
+                uploadedBy.name,
+                JSON.stringify(uploaded),
+            ],
+        );
+
+        return { status: "ok", attachments: rows.map((row) => toCustomerAttachmentEntry(row, viewer)) };
+    } catch (error) {
+        await Promise.all(
+            uploaded.map((file) =>
+                storage.delete(file.storage_key).catch((cleanupError) => {
+                    console.error(`Failed to remove orphaned upload ${file.storage_key}`, cleanupError);
+                }),
+            ),
+        );
+        throw error;
+    }
+}
+
+/** Storage details for a file, or null when it does not exist or the viewer cannot see it. */
+export async function getCustomerAttachmentFile(
+    attachmentId: string,
+    viewer: CustomerAttachmentViewer,
+): Promise<CustomerAttachmentFile | null> {
+    const { rows } = await query(
+        `
+        SELECT a.storage_key, a.file_name, a.content_type
+        FROM customer_attachments a
+        WHERE a.id = $1::bigint
+          AND ${VISIBLE_TO_VIEWER};
+        `,
+        [attachmentId, viewer.isAdmin, viewer.userId],
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return { storageKey: row.storage_key, fileName: row.file_name, contentType: row.content_type };
+}
+
+/** Uploaders can remove their own files and super admins any file. */
+export async function deleteCustomerAttachment(
+    attachmentId: string,
+    viewer: CustomerAttachmentViewer,
+): Promise<"ok" | "not_found" | "forbidden"> {
+    const { rows } = await query(
+        `
+        SELECT a.storage_key, a.uploaded_by_user_id
+        FROM customer_attachments a
+        WHERE a.id = $1::bigint
+          AND ${VISIBLE_TO_VIEWER};
+        `,
+        [attachmentId, viewer.isAdmin, viewer.userId],
+    );
+    const row = rows[0];
+    if (!row) return "not_found";
+    if (!viewer.isAdmin && row.uploaded_by_user_id !== viewer.userId) return "forbidden";
+
+    await query(`DELETE FROM customer_attachments WHERE id = $1::bigint`, [attachmentId]);
+    await getFileStorage()
+        .delete(row.storage_key)
+        .catch((error) => {
+            console.error(`Failed to remove stored file ${row.storage_key}`, error);
+        });
+    return "ok";
+}
+
+export function canDisplayCustomerAttachmentInline(contentType: string) {
+    return contentType === "application/pdf" || contentType.startsWith("image/");
+}
+
+function findFileType(file: File) {
+    const declared = file.type.toLowerCase();
+    const name = file.name.toLowerCase();
+    return FILE_TYPES.find(
+        (type) =>
+            type.extensions.some((extension) => name.endsWith(extension)) &&
+            (!declared ||
+                declared === "application/octet-stream" ||
+                declared === type.contentType ||
+                type.aliases?.includes(declared)),
+    );
+}
+
+function toCustomerAttachmentEntry(row: QueryResultRow, viewer: CustomerAttachmentViewer): CustomerAttachmentEntry {
+    const id = String(row.id);
+    const category: CustomerAttachmentCategory = CATEGORIES.includes(row.category) ? row.category : "other";
+    return {
+        id,
+        machine_id: String(row.machine_id),
+        rental_id: String(row.rental_id),
+        customer_id: row.customer_id != null ? Number(row.customer_id) : null,
+        category,
+        description: row.description ?? null,
+        file_name: row.file_name,
+        content_type: row.content_type,
+        size_bytes: Number(row.size_bytes),
+        uploaded_by_name: row.uploaded_by_name ?? null,
+        created_at: row.created_at ? new Date(row.created_at).toISOString() : "",
+        can_delete: viewer.isAdmin || row.uploaded_by_user_id === viewer.userId,
+        url: `/api/customer-attachments/${id}`,
+    };
+}
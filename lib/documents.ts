@@ -0,0 +1,272 @@
+// lib/documents.ts
+// Purpose: Build the Dokumenter library: every document a user can see, grouped by
+// agreement and machine. Machine attachments come from GetMachineAttachments for the
+// machines on the user's agreements; attachments registered on a rental are shown as
+// agreement documents, the rest under each machine. Downloads go through the same signed
+// SAS proxy links as the machine dialog (see lib/machine-attachments.ts).
+import { prisma } from "@/lib/prisma";
+import { normalizeError, type AppError } from "@/lib/errors";
+import { LATEST_TERMS_VERSION } from "@/lib/constants";
+import {
+    fetchAgreementsForUser,
+    splitAgreementsByStatus,
+    type AgreementPayload,
+} from "@/lib/agreements";
+import { fetchMachineAttachments, type MachineAttachment } from "@/lib/machine-attachments";
+
+// Parallel GetMachineAttachments calls per page load.
+const ATTACHMENT_FETCH_CONCURRENCY = 5;
+const TERMS_PATH = "/terms.pdf";
+
+export type DocumentKind = "agreement" | "machine" | "terms";
+export type DocumentFileType = "pdf" | "image" | "other";
+
+export type LibraryDocument = {
+    /**
+     * Stable across groups, so the same file selected twice is downloaded once. Download
+     * links are signed per machine and cannot be used for this.
+     */
+    key: string;
+    kind: DocumentKind;
+    name: string;
+    fileName: string;
+    description: string | null;
+    uploadedDate: string | null;
+    fileSize: number | null;
+    fileType: DocumentFileType;
+    downloadUrl: string;
+    /** Only ever true for super admins; customers never receive internal attachments. */
+    internal: boolean;
+};
+
+export type DocumentMachineGroup = {
+    machineId: string;
+    name: string;
+    documents: LibraryDocument[];
+};
+
+export type DocumentAgreementGroup = {
+    agreementId: string;
+    customerId: number | null;
+    customerName: string | null;
+    startDate: string | null;
+    endDate: string | null;
+    isActive: boolean;
+    projectNumber: string | null;
+    location: string | null;
+    documents: LibraryDocument[];
+    machines: DocumentMachineGroup[];
+};
+
+export type DocumentCustomerOption = { id: number; name: string };
+
+export type DocumentLibraryResult = {
+    customers: DocumentCustomerOption[];
+    /** Null means every customer the user has access to. */
+    customerId: number | null;
+    /** Super admins see every customer, so they pick one before anything is fetched. */
+    requiresCustomer: boolean;
+    general: LibraryDocument[];
+    groups: DocumentAgreementGroup[];
+    /** Machines whose attachments could not be fetched; the rest of the library still loads. */
+    warnings: string[];
+    error: AppError | null;
+};
+
+export async function loadDocumentLibrary(
+    user: { id: string; role?: string | null },
+    customerId: number | null,
+): Promise<DocumentLibraryResult> {
+    const isAdmin = user.role === "super_admin";
+    const result: DocumentLibraryResult = {
+        customers: [],
+        customerId,
+        requiresCustomer: false,
+        general: [],
+        groups: [],
+        warnings: [],
+        error: null,
+    };
+
+    try {
+        result.general = await loadGeneralDocuments(user.id);
+
+        const agreements = await fetchAgreementsForUser(user.id, user.role);
+        result.customers = listCustomers(agreements);
+
+        if (customerId != null && !result.customers.some((customer) => customer.id === customerId)) {
+            result.customerId = null;
+        }
+        if (isAdmin && result.customerId == null) {
+            result.requiresCustomer = true;
+            return result;
+        }
+
+        const { active, historical } = splitAgreementsByStatus(agreements);
+        const activeIds = new Set(active.map((agreement) => agreement.id));
+        const visible = [...active, ...historical].filter(
+            (agreement) => result.customerId == null || agreement.customerId === result.customerId,
+        );
+
+        const machineIds = [
+            ...new Set(
+                visible.flatMap((agreement) =>
+                    (agreement.machines ?? []).map((machine) => machine.id?.trim()).filter((id): id is string => !!id),
+                ),
+            ),
+        ];
+
+        const attachmentsByMachine = new Map<string, MachineAttachment[]>();
+        await forEachWithConcurrency(machineIds, ATTACHMENT_FETCH_CONCURRENCY, async (machineId) => {
+            try {
+                const fetched = await fetchMachineAttachments(machineId, {
+                    includeInternal: isAdmin,
+                    userId: user.id,
+                });
+                if (fetched.status === "ok") {
+                    attachmentsByMachine.set(machineId, fetched.attachments);
+                } else if (fetched.httpStatus !== 404) {
+                    result.warnings.push(fetched.message);
+                }
+            } catch (error) {
+                console.error(`Failed to fetch attachments for machine ${machineId}`, error);
+                result.warnings.push(`Kunne ikke hente vedlegg for maskin ${machineId}.`);
+            }
+        });
+
+        result.groups = visible.map((agreement) =>
+            toAgreementGroup(agreement, activeIds.has(agreement.id), attachmentsByMachine),
+        );
+        return result;
+    } catch (error) {
+        return {
+            ...result,
+            groups: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente dokumenter",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Ukjent feil under lasting av dokumenter.",
+            }),
+        };
+    }
+}
+
+async function loadGeneralDocuments(userId: string): Promise<LibraryDocument[]> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { acceptedTermsAt: true, acceptedTermsVersion: true },
+    });
+    const acceptedAt = user?.acceptedTermsAt?.toISOString() ?? null;
+
+    return [
+        {
+            key: `terms:${LATEST_TERMS_VERSION}`,
+            kind: "terms",
+            name: `Vilkår og betingelser (${LATEST_TERMS_VERSION})`,
+            fileName: "terms.pdf",
+            description: acceptedAt
+                ? `Akseptert ${user?.acceptedTermsVersion ?? LATEST_TERMS_VERSION}`
+                : "Ikke akseptert",
+            uploadedDate: acceptedAt,
+            fileSize: null,
+            fileType: "pdf",
+            downloadUrl: TERMS_PATH,
+            internal: false,
+        },
+    ];
+}
+
+function listCustomers(agreements: AgreementPayload[]): DocumentCustomerOption[] {
+    const customers = new Map<number, string>();
+    for (const agreement of agreements) {
+        if (agreement.customerId == null || customers.has(agreement.customerId)) continue;
+        customers.set(agreement.customerId, agreement.customerName?.trim() || `Kunde ${agreement.customerId}`);
+    }
+    return [...customers.entries()]
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name, "nb-NO", { sensitivity: "base" }));
+}
+
+function toAgreementGroup(
+    agreement: AgreementPayload,
+    isActive: boolean,
+    attachmentsByMachine: Map<string, MachineAttachment[]>,
+): DocumentAgreementGroup {
+    const documents = new Map<string, LibraryDocument>();
+    const machines: DocumentMachineGroup[] = [];
+
+    for (const machine of agreement.machines ?? []) {
+        const machineId = machine.id?.trim();
+        if (!machineId) continue;
+
+        const machineDocuments: LibraryDocument[] = [];
+        for (const attachment of attachmentsByMachine.get(machineId) ?? []) {
+            if (attachment.rentalId == null) {
+                machineDocuments.push(toLibraryDocument(attachment, "machine"));
+            } else if (String(attachment.rentalId) === agreement.id) {
+                // The same rental document can be attached to several of its machines.
+                const document = toLibraryDocument(attachment, "agreement");
+                documents.set(document.key, document);
+            }
+        }
+
+        machines.push({
+            machineId,
+            name: machine.name?.trim() || `Maskin ${machineId}`,
+            documents: machineDocuments,
+        });
+    }
+
+    return {
+        agreementId: agreement.id,
+        customerId: agreement.customerId ?? null,
+        customerName: agreement.customerName ?? null,
+        startDate: agreement.startDate ?? null,
+        endDate: agreement.endDate ?? null,
+        isActive,
+        projectNumber: agreement.projectNumber ?? null,
+        location: agreement.location ?? null,
+        documents: [...documents.values()],
+        machines,
+    };
+}
+
+function toLibraryDocument(attachment: MachineAttachment, kind: DocumentKind): LibraryDocument {
+    const fileName = attachment.fileName || attachment.name || "vedlegg";
+    return {
+        key: `attachment:${attachment.id}`,
+        kind,
+        name: attachment.name || fileName,
+        fileName,
+        description: attachment.description ?? null,
+        uploadedDate: attachment.uploadedDate ?? null,
+        fileSize: Number.isFinite(attachment.fileSize) ? attachment.fileSize : null,
+        fileType: toFileType(fileName),
+        downloadUrl: attachment.filePath,
+        internal: attachment.internal === true,
+    };
+}
+
+function toFileType(fileName: string): DocumentFileType {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith(".pdf")) return "pdf";
+    if (/\.(png|jpe?g|gif|webp|svg|heic|heif)$/.test(lower)) return "image";
+    return "other";
+}
+
+async function forEachWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T) => Promise<void>,
+): Promise<void> {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+        while (next < items.length) {
+            const item = items[next++];
+            await fn(item);
+        }
+    });
+    await Promise.all(workers);
+}
@@ -0,0 +1,137 @@
+// lib/file-storage.ts
+// Purpose: Store files uploaded through the portal (service ticket photos and similar).
+// The backend is chosen with FILE_STORAGE_BACKEND (blob | local). Without an explicit
+// choice Azure Blob Storage is used when UPLOAD_BLOB_CONTAINER_URL is set, and the local
+// filesystem otherwise, so development never writes to the shared container.
+//
+// Files are always served back through our own API routes after an access check; blob
+// URLs and SAS tokens never reach the browser.
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+
+export type StoredFile = {
+    body: ReadableStream<Uint8Array>;
+    contentType: string | null;
+    size: number | null;
+};
+
+export type FileStorage = {
+    name: "blob" | "local";
+    put: (key: string, data: ArrayBuffer, contentType: string) => Promise<void>;
+    /** Returns null when the file does not exist. */
+    get: (key: string) => Promise<StoredFile | null>;
+    delete: (key: string) => Promise<void>;
+};
+
+let storage: FileStorage | null = null;
+
+export function getFileStorage(): FileStorage {
+    if (storage) return storage;
+
+    const containerUrl = process.env.UPLOAD_BLOB_CONTAINER_URL?.trim();
+    const kind =
+        process.env.FILE_STORAGE_BACKEND?.trim().toLowerCase() || (containerUrl ? "blob" : "local");
+
+    if (kind === "blob") {
+        const sasToken = process.env.UPLOAD_BLOB_SAS_TOKEN?.trim().replace(/^\?/, "");
+        if (!containerUrl || !sasToken) {
+            throw new Error("UPLOAD_BLOB_CONTAINER_URL og UPLOAD_BLOB_SAS_TOKEN må være satt for blob-lagring");
+        }
+        storage = createBlobStorage(containerUrl.replace(/\/$/, ""), sasToken);
+    } else if (kind === "local") {
+        const root = path.resolve(process.env.UPLOAD_LOCAL_DIR?.trim() || path.join(process.cwd(), ".uploads"));
+        storage = createLocalStorage(root);
+    } else {
+        throw new Error(`Ukjent FILE_STORAGE_BACKEND "${kind}"`);
+    }
+
+    return storage;
+}
+
+/** "Skade foran.JPG" -> "Skade_foran.JPG". Keeps keys readable and safe in URLs and paths. */
+export function toStorageFileName(fileName: string): string {
+    const cleaned = fileName
+        .normalize("NFKD")
+        .replace(/[^\w.-]+/g, "_")
+        .replace(/_+/g, "_")
+        .replace(/^[_.]+/, "");
+    return cleaned.slice(-120) || "fil";
+}
+
+function createBlobStorage(containerUrl: string, sasToken: string): FileStorage {
+    const blobUrl = (key: string) =>
+        `${containerUrl}/${key.split("/").map(encodeURIComponent).join("/")}?${sasToken}`;
+
+    return {
+        name: "blob",
+        put: async (key, data, contentType) => {
+            const response = await fetch(blobUrl(key), {
+                method: "PUT",
+                cache: "no-store",
+                headers: {
+                    "x-ms-blob-type": "BlockBlob",
+                    "x-ms-blob-content-type": contentType,
+                    "Content-Type": contentType,
+                },
+                body: data,
+            });
+            if (!response.ok) {
+                const body = await response.text().catch(() => "");
+                throw new Error(`Blob-lagringen svarte ${response.status} ved opplasting: ${body}`.trim());
+            }
+        },
+        get: async (key) => {
+            const response = await fetch(blobUrl(key), { cache: "no-store" });
+            if (response.status === 404) return null;
+            if (!response.ok || !response.body) {
+                throw new Error(`Blob-lagringen svarte ${response.status} ved henting av ${key}`);
+            }
+            const size = Number(response.headers.get("content-length"));
+            return {
+                body: response.body,
+                contentType: response.headers.get("content-type"),
+                size: Number.isFinite(size) ? size : null,
+            };
+        },
+        delete: async (key) => {
+            const response = await fetch(blobUrl(key), { method: "DELETE", cache: "no-store" });
+            if (!response.ok && response.status !== 404) {
+                throw new Error(`Blob-lagringen svarte ${response.status} ved sletting av ${key}`);
+            }
+        },
+    };
+}
+
+function createLocalStorage(root: string): FileStorage {
+    const resolve = (key: string) => {
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Ugyldig filnøkkel ${key}`);
+        }
+        return filePath;
+    };
+
+    return {
+        name: "local",
+        put: async (key, data) => {
+            const filePath = resolve(key);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, Buffer.from(data));
+        },
+        get: async (key) => {
+            const filePath = resolve(key);
+            const stat = await fs.stat(filePath).catch(() => null);
+            if (!stat?.isFile()) return null;
+            return {
+                body: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+                contentType: null,
+                size: stat.size,
+            };
+        },
+        delete: async (key) => {
+            await fs.rm(resolve(key), { force: true });
+        },
+    };
+}
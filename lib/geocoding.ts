@@ -0,0 +1,52 @@
+// lib/geocoding.ts
+// Purpose: Look up Norwegian addresses for the delivery address on /bestilling. Uses the
+// open address search from Kartverket (ws.geonorge.no), which needs no API key and returns
+// WGS84 coordinates. Results are only suggestions; the user can still move the pin.
+
+export type GeocodeResult = {
+    label: string;
+    lat: number;
+    lng: number;
+};
+
+const DEFAULT_GEOCODER_URL = "https://ws.geonorge.no/adresser/v1/sok";
+const MAX_RESULTS = 5;
+const TIMEOUT_MS = 5000;
+
+export async function geocodeAddress(search: string): Promise<GeocodeResult[]> {
+    const url = new URL(process.env.GEOCODER_URL?.trim() || DEFAULT_GEOCODER_URL);
+    url.searchParams.set("sok", search);
+    url.searchParams.set("fuzzy", "true");
+    url.searchParams.set("treffPerSide", String(MAX_RESULTS));
+    url.searchParams.set("utkoordsys", "4258");
+
+    const response = await fetch(url, {
+        cache: "no-store",
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new Error(`Adressesøket svarte ${response.status}`);
+    }
+
+    const data = (await response.json().catch(() => null)) as { adresser?: unknown } | null;
+    const addresses = Array.isArray(data?.adresser) ? (data.adresser as Record<string, unknown>[]) : [];
+
+    const results: GeocodeResult[] = [];
+    for (const address of addresses) {
+        const point = (address.representasjonspunkt ?? null) as { lat?: unknown; lon?: unknown } | null;
+        const lat = Number(point?.lat);
+        const lng = Number(point?.lon);
+        if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+        const street = typeof address.adressetekst === "string" ? address.adressetekst.trim() : "";
+        const place = [address.postnummer, address.poststed]
+            .filter((part) => typeof part === "string" && part.trim())
+            .join(" ");
+        const label = [street, place].filter(Boolean).join(", ");
+        if (!label) continue;
+
+        results.push({ label, lat, lng });
+    }
+    return results;
+}
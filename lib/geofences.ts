@@ -0,0 +1,449 @@
+// lib/geofences.ts
+// Purpose: Geofences drawn on the Kart map and the enter/exit events the telemetry
+// ingestion writes for them (see azure/function/src/shared/geofences.ts). Super admins
+// see and manage every geofence. Customers see the geofences of their companies, company
+// admins may create and delete them, and events are only shown for positions reported
+// inside the customer's own agreement windows.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { fetchAgreementsForUser } from "@/lib/agreements";
+import { resolveMachineWindows } from "@/lib/machine-access";
+import { toAgreementTimestamp } from "@/lib/machines";
+import type {
+    GeofenceEntry,
+    GeofenceEventEntry,
+    GeofenceKind,
+    MachineHistoryWindow,
+} from "@/types/machines";
+
+// Keeps a single request from storing an unreasonably detailed outline.
+const MAX_POLYGON_POINTS = 500;
+const MIN_RADIUS_M = 10;
+const MAX_RADIUS_M = 50_000;
+const EVENT_LIMIT = 500;
+
+type GeofenceUser = { id?: string | null; role?: string | null } | null | undefined;
+
+export type GeofenceInput = {
+    name: string;
+    customerId: number | null;
+    kind: GeofenceKind;
+    polygon: [number, number][] | null;
+    centerLat: number | null;
+    centerLng: number | null;
+    radiusM: number | null;
+    agreementId: string | null;
+    projectNumber: string | null;
+};
+
+export type GeofenceAccess =
+    | { status: "ok"; geofence: GeofenceEntry }
+    | { status: "not_found" };
+
+export type GeofenceCreateResult =
+    | { status: "ok"; geofence: GeofenceEntry }
+    | { status: "forbidden" }
+    | { status: "invalid"; error: string };
+
+export type GeofenceDeleteResult = { status: "ok" } | { status: "not_found" } | { status: "forbidden" };
+
+const GEOFENCE_COLUMNS = `
+    g.id,
+    g.name,
+    g.customer_id,
+    c.name AS customer_name,
+    g.kind,
+    g.polygon,
+    g.center_latitude,
+    g.center_longitude,
+    g.radius_m,
+    g.agreement_id,
+    g.project_number,
+    g.created_by,
+    g.created_at
+`;
+
+const EVENT_COLUMNS = `
+    e.id,
+    e.geofence_id,
+    g.name AS geofence_name,
+    e.machine_id,
+    m.name AS machine_name,
+    e.event_type,
+    e.occurred_at,
+    e.latitude AS lat,
+    e.longitude AS lng,
+    e.source
+`;
+
+export async function listGeofencesForUser(user: GeofenceUser): Promise<GeofenceEntry[]> {
+    if (!user?.id) return [];
+
+    if (user.role === "super_admin") {
+        const { rows } = await query(
+            `
+            SELECT ${GEOFENCE_COLUMNS}
+            FROM geofences g
+            LEFT JOIN customers c ON c.customer_id = g.customer_id
+            ORDER BY g.name ASC, g.id ASC;
+            `,
+        );
+        return rows.map((row) => toGeofenceEntry(row, true));
+    }
+
+    const companies = await loadCompanyRoles(user.id);
+    if (!companies.size) return [];
+
+    const { rows } = await query(
+        `
+        SELECT ${GEOFENCE_COLUMNS}
+        FROM geofences g
+        LEFT JOIN customers c ON c.customer_id = g.customer_id
+        WHERE g.customer_id = ANY($1::int[])
+        ORDER BY g.name ASC, g.id ASC;
+        `,
+        [[...companies.keys()]],
+    );
+    return rows.map((row) => toGeofenceEntry(row, companies.get(Number(row.customer_id)) === "admin"));
+}
+
+export async function getGeofenceForUser(user: GeofenceUser, geofenceId: string): Promise<GeofenceAccess> {
+    if (!user?.id || !/^\d+$/.test(geofenceId)) return { status: "not_found" };
+
+    const { rows } = await query(
+        `
+        SELECT ${GEOFENCE_COLUMNS}
+        FROM geofences g
+        LEFT JOIN customers c ON c.customer_id = g.customer_id
+        WHERE g.id = $1::bigint;
+        `,
+        [geofenceId],
+    );
+    if (!rows[0]) return { status: "not_found" };
+
+    if (user.role === "super_admin") {
+        return { status: "ok", geofence: toGeofenceEntry(rows[0], true) };
+    }
+
+    // Customers cannot tell a geofence of another company apart from a missing one.
+    const companies = await loadCompanyRoles(user.id);
+    const role = rows[0].customer_id != null ? companies.get(Number(rows[0].customer_id)) : undefined;
+    if (!role) return { status: "not_found" };
+
+    return { status: "ok", geofence: toGeofenceEntry(rows[0], role === "admin") };
+}
+
+export async function createGeofence(
+    user: GeofenceUser,
+    input: GeofenceInput,
+    createdBy: string | null,
+): Promise<GeofenceCreateResult> {
+    if (!user?.id) return { status: "forbidden" };
+
+    if (user.role !== "super_admin") {
+        const companies = await loadCompanyRoles(user.id);
+        if (input.customerId == null || companies.get(input.customerId) !== "admin") {
+            return { status: "forbidden" };
+        }
+    }
+
+    const linkError = await checkAgreementLink(user.id, user.role, input);
+    if (linkError) return { status: "invalid", error: linkError };
+
+    const { rows } = await query(
+        `
+        WITH inserted AS (
+            INSERT INTO geofences (
+                name, customer_id, kind, polygon, center_latitude, center_longitude,
+                radius_m, agreement_id, project_number, created_by
+            )
+            VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10)
+            RETURNING *
+        )
+        SELECT ${GEOFENCE_COLUMNS}
+        FROM inserted g
+        LEFT JOIN customers c ON c.customer_id = g.customer_id;
+        `,
+        [
+            input.name,
+            input.customerId,
+            input.kind,
+            input.polygon ? JSON.stringify(input.polygon) : null,
+            input.centerLat,
+            input.centerLng,
+            input.radiusM,
+            input.agreementId,
+            input.projectNumber,
+            createdBy,
+        ],
+    );
+
+    return { status: "ok", geofence: toGeofenceEntry(rows[0], true) };
+}
+
+export async function deleteGeofence(user: GeofenceUser, geofenceId: string): Promise<GeofenceDeleteResult> {
+    const access = await getGeofenceForUser(user, geofenceId);
+    if (access.status !== "ok") return access;
+    if (!access.geofence.can_edit) return { status: "forbidden" };
+
+    // Events and machine states go with it through ON DELETE CASCADE.
+    await query(`DELETE FROM geofences WHERE id = $1::bigint`, [geofenceId]);
+    return { status: "ok" };
+}
+
+// Events for one geofence the user already has access to. Customers only get events for
+// machines on their agreements, inside each agreement's rental window.
+export async function listGeofenceEvents(
+    user: GeofenceUser,
+    geofenceId: string,
+): Promise<GeofenceEventEntry[]> {
+    if (user?.role === "super_admin") {
+        const { rows } = await query(
+            `
+            SELECT ${EVENT_COLUMNS}
+            FROM geofence_events e
+            JOIN geofences g ON g.id = e.geofence_id
+            LEFT JOIN machines m ON m.id = e.machine_id
+            WHERE e.geofence_id = $1::bigint
+            ORDER BY e.occurred_at DESC, e.id DESC
+            LIMIT $2;
+            `,
+            [geofenceId, EVENT_LIMIT],
+        );
+        return rows.map((row) => toGeofenceEventEntry(row));
+    }
+
+    const { windows } = await resolveMachineWindows(user, { includeHistorical: true });
+    const bounds = [...windows.entries()].flatMap(([machineId, machineWindows]) =>
+        toWindowBounds(machineWindows).map((bound) => ({ machineId, ...bound })));
+    if (!bounds.length) return [];
+
+    const { rows } = await query(
+        `
+        SELECT DISTINCT ON (e.occurred_at, e.id) ${EVENT_COLUMNS}
+        FROM geofence_events e
+        JOIN geofences g ON g.id = e.geofence_id
+        LEFT JOIN machines m ON m.id = e.machine_id
+        JOIN unnest($2::text[], $3::timestamp[], $4::timestamp[])
+            AS w(machine_id, window_start, window_end)
+          ON w.machine_id = e.machine_id
+         AND e.occurred_at >= w.window_start
+         AND (w.window_end IS NULL OR e.occurred_at <= w.window_end)
+        WHERE e.geofence_id = $1::bigint
+        ORDER BY e.occurred_at DESC, e.id DESC
+        LIMIT $5;
+        `,
+        [
+            geofenceId,
+            bounds.map((bound) => bound.machineId),
+            bounds.map((bound) => bound.start),
+            bounds.map((bound) => bound.end),
+            EVENT_LIMIT,
+        ],
+    );
+    return rows.map((row) => toGeofenceEventEntry(row));
+}
+
+// Events for one machine across the geofences the user can see. `windows` comes from
+// resolveMachineAccess and is empty for super admins, who are not scoped.
+export async function listMachineGeofenceEvents(
+    user: GeofenceUser,
+    machineId: string,
+    windows: MachineHistoryWindow[],
+): Promise<GeofenceEventEntry[]> {
+    if (!user?.id) return [];
+
+    if (user.role === "super_admin") {
+        const { rows } = await query(
+            `
+            SELECT ${EVENT_COLUMNS}
+            FROM geofence_events e
+            JOIN geofences g ON g.id = e.geofence_id
+            LEFT JOIN machines m ON m.id = e.machine_id
+            WHERE e.machine_id = $1
+            ORDER BY e.occurred_at DESC, e.id DESC
+            LIMIT $2;
+            `,
+            [machineId, EVENT_LIMIT],
+        );
+        return rows.map((row) => toGeofenceEventEntry(row));
+    }
+
+    const companies = await loadCompanyRoles(user.id);
+    const bounds = toWindowBounds(windows);
+    if (!companies.size || !bounds.length) return [];
+
+    const { rows } = await query(
+        `
+        SELECT DISTINCT ON (e.occurred_at, e.id) ${EVENT_COLUMNS}
+        FROM geofence_events e
+        JOIN geofences g ON g.id = e.geofence_id
+        LEFT JOIN machines m ON m.id = e.machine_id
+        JOIN unnest($3::timestamp[], $4::timestamp[]) AS w(window_start, window_end)
+          ON e.occurred_at >= w.window_start
+         AND (w.window_end IS NULL OR e.occurred_at <= w.window_end)
+        WHERE e.machine_id = $1
+          AND g.customer_id = ANY($2::int[])
+        ORDER BY e.occurred_at DESC, e.id DESC
+        LIMIT $5;
+        `,
+        [
+            machineId,
+            [...companies.keys()],
+            bounds.map((bound) => bound.start),
+            bounds.map((bound) => bound.end),
+            EVENT_LIMIT,
+        ],
+    );
+    return rows.map((row) => toGeofenceEventEntry(row));
+}
+
+/**
+ * Validate a create payload from the map. Returns a Norwegian error message for the
+ * first problem found, so the route can pass it straight back to the user.
+ */
+export function parseGeofenceInput(payload: unknown): { input: GeofenceInput } | { error: string } {
+    const body = (payload ?? {}) as Record<string, unknown>;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) return { error: "Geofence må ha et navn" };
+    if (name.length > 120) return { error: "Navnet kan ikke være lengre enn 120 tegn" };
+
+    let customerId: number | null = null;
+    if (body.customerId != null && body.customerId !== "") {
+        customerId = Number(body.customerId);
+        if (!Number.isInteger(customerId) || customerId <= 0) return { error: "Ugyldig kunde-id" };
+    }
+
+    const agreementId = toOptionalText(body.agreementId);
+    const projectNumber = toOptionalText(body.projectNumber);
+    const base = { name, customerId, agreementId, projectNumber };
+
+    if (body.kind === "circle") {
+        const centerLat = Number(body.centerLat);
+        const centerLng = Number(body.centerLng);
+        const radiusM = Number(body.radiusM);
+        if (!isLatitude(centerLat) || !isLongitude(centerLng)) return { error: "Ugyldig sentrum" };
+        if (!Number.isFinite(radiusM) || radiusM < MIN_RADIUS_M || radiusM > MAX_RADIUS_M) {
+            return { error: `Radius må være mellom ${MIN_RADIUS_M} og ${MAX_RADIUS_M} meter` };
+        }
+        return {
+            input: { ...base, kind: "circle", polygon: null, centerLat, centerLng, radiusM },
+        };
+    }
+
+    if (body.kind === "polygon") {
+        const points = Array.isArray(body.polygon) ? body.polygon : [];
+        const polygon = points.flatMap((point): [number, number][] => {
+            if (!Array.isArray(point)) return [];
+            const lng = Number(point[0]);
+            const lat = Number(point[1]);
+            return isLongitude(lng) && isLatitude(lat) ? [[lng, lat]] : [];
+        });
+        if (polygon.length !== points.length || polygon.length < 3) {
+            return { error: "Et område må ha minst tre gyldige punkter" };
+        }
+        if (polygon.length > MAX_POLYGON_POINTS) {
+            return { error: `Et område kan ha maks ${MAX_POLYGON_POINTS} punkter` };
+        }
+        return {
+            input: { ...base, kind: "polygon", polygon, centerLat: null, centerLng: null, radiusM: null },
+        };
+    }
+
+    return { error: "Ugyldig type geofence" };
+}
+
+// The agreement and project number must belong to the geofence's customer, so a company
+// admin cannot attach a geofence to another customer's rental.
+async function checkAgreementLink(
+    userId: string,
+    role: string | null | undefined,
+    input: GeofenceInput,
+): Promise<string | null> {
+    if (!input.agreementId && !input.projectNumber) return null;
+
+    const agreements = (await fetchAgreementsForUser(userId, role)).filter(
+        (agreement) => input.customerId == null || agreement.customerId === input.customerId,
+    );
+    if (input.agreementId && !agreements.some((agreement) => agreement.id === input.agreementId)) {
+        return "Avtalen tilhører ikke kunden";
+    }
+    if (
+        input.projectNumber &&
+        !agreements.some((agreement) => agreement.projectNumber?.trim() === input.projectNumber)
+    ) {
+        return "Prosjektnummeret finnes ikke på kundens avtaler";
+    }
+    return null;
+}
+
+async function loadCompanyRoles(userId: string): Promise<Map<number, string>> {
+    const { rows } = await query(
+        `
+        SELECT customer_id, role
+        FROM user_customer_accesses
+        WHERE user_id = $1;
+        `,
+        [userId],
+    );
+    return new Map(rows.map((row) => [Number(row.customer_id), String(row.role)]));
+}
+
+function toWindowBounds(windows: MachineHistoryWindow[]) {
+    return windows.flatMap((window) => {
+        const start = toAgreementTimestamp(window.startDate, "start");
+        if (start == null) return [];
+        const end = toAgreementTimestamp(window.endDate, "end");
+        return [{ start: new Date(start), end: end != null ? new Date(end) : null }];
+    });
+}
+
+function toOptionalText(value: unknown) {
+    if (typeof value !== "string" && typeof value !== "number") return null;
+    const text = String(value).trim();
+    return text ? text.slice(0, 120) : null;
+}
+
+function isLatitude(value: number) {
+    return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+function isLongitude(value: number) {
+    return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+function toGeofenceEntry(row: QueryResultRow, canEdit: boolean): GeofenceEntry {
+    const toNumber = (value: unknown) => (value != null ? Number(value) : null);
+
+    return {
+        id: String(row.id),
+        name: String(row.name),
+        customer_id: toNumber(row.customer_id),
+        customer_name: row.customer_name ?? null,
+        kind: row.kind === "circle" ? "circle" : "polygon",
+        polygon: Array.isArray(row.polygon) ? (row.polygon as [number, number][]) : null,
+        center_lat: toNumber(row.center_latitude),
+        center_lng: toNumber(row.center_longitude),
+        radius_m: toNumber(row.radius_m),
+        agreement_id: row.agreement_id ?? null,
+        project_number: row.project_number ?? null,
+        created_by: row.created_by ?? null,
+        created_at: new Date(row.created_at).toISOString(),
+        can_edit: canEdit,
+    };
+}
+
+function toGeofenceEventEntry(row: QueryResultRow): GeofenceEventEntry {
+    return {
+        id: String(row.id),
+        geofence_id: String(row.geofence_id),
+        geofence_name: String(row.geofence_name),
+        machine_id: String(row.machine_id),
+        machine_name: row.machine_name ?? null,
+        event_type: row.event_type === "exit" ? "exit" : "enter",
+        occurred_at: new Date(row.occurred_at).toISOString(),
+        lat: Number(row.lat),
+        lng: Number(row.lng),
+        source: String(row.source),
+    };
+}
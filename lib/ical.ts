@@ -0,0 +1,92 @@
+// lib/ical.ts
+// Purpose: Minimal iCalendar (RFC 5545) writer for the calendar feeds. Handles text
+// escaping, line folding at 75 octets and CRLF line endings; only the properties the
+// feeds use are supported.
+
+export type CalendarEvent = {
+    uid: string;
+    summary: string;
+    /** All-day start, YYYY-MM-DD. */
+    startDate: string;
+    /** All-day end, YYYY-MM-DD, exclusive as required by iCalendar. */
+    endDate: string;
+    description?: string | null;
+    location?: string | null;
+};
+
+export type CalendarOptions = {
+    name: string;
+    /** How often clients should poll, in minutes. */
+    refreshMinutes?: number;
+};
+
+export function renderCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+    const stamp = formatTimestamp(new Date());
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Bjugstad//Kundeportal//NO",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(options.name)}`,
+    ];
+
+    if (options.refreshMinutes) {
+        lines.push(
+            `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+            `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+        );
+    }
+
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${escapeText(event.uid)}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${event.startDate.replace(/-/g, "")}`,
+            `DTEND;VALUE=DATE:${event.endDate.replace(/-/g, "")}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+        );
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+function formatTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space. Splits
+// happen between code points so multi-byte characters (æ, ø, å) stay intact.
+function foldLine(line: string): string {
+    if (Buffer.byteLength(line, "utf8") <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+        const bytes = Buffer.byteLength(char, "utf8");
+        const limit = parts.length ? 74 : 75;
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
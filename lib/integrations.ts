@@ -0,0 +1,238 @@
+// lib/integrations.ts
+// Purpose: Health of the Azure sync timers for the Integrasjoner admin page. Reads the
+// run log the timers write to integration_sync_runs, plus how fresh the last reported
+// positions are for the machines each telemetry source is responsible for.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { normalizeError, type AppError } from "@/lib/errors";
+import { INTEGRATION_SOURCE_LABELS } from "@/lib/constants";
+
+// How often each timer is scheduled to run. A source whose last success is older than
+// STALE_AFTER_INTERVALS of these is flagged as delayed even if no run has failed.
+const EXPECTED_INTERVAL_MINUTES: Record<string, number> = {
+    bjugstad_machines: 4 * 60,
+    bjugstad_customers: 24 * 60,
+    bjugstad_rentals: 15,
+    notifications: 5,
+    agreement_reminders: 24 * 60,
+    control_notices: 24 * 60,
+};
+const DEFAULT_INTERVAL_MINUTES = 15;
+const STALE_AFTER_INTERVALS = 3;
+
+const RECENT_RUN_LIMIT = 200;
+
+export type IntegrationSourceStatus = "ok" | "delayed" | "failing";
+
+export type IntegrationSourceHealth = {
+    source: string;
+    label: string;
+    status: IntegrationSourceStatus;
+    lastRunAt: string;
+    lastRunStatus: "success" | "failed";
+    lastSuccessAt: string | null;
+    /** Failed runs since the last successful one. */
+    failureStreak: number;
+    lastError: string | null;
+    lastFetched: number | null;
+    lastUpdated: number | null;
+    lastUnmatched: number | null;
+};
+
+export type TelemetryFreshness = {
+    source: string;
+    label: string;
+    machines: number;
+    within1h: number;
+    within24h: number;
+    within7d: number;
+    never: number;
+    newestAt: string | null;
+};
+
+export type IntegrationRun = {
+    id: string;
+    source: string;
+    label: string;
+    status: "success" | "failed";
+    startedAt: string;
+    finishedAt: string;
+    fetched: number | null;
+    updated: number | null;
+    unmatched: number | null;
+    error: string | null;
+};
+
+export type IntegrationHealthResult = {
+    sources: IntegrationSourceHealth[];
+    freshness: TelemetryFreshness[];
+    runs: IntegrationRun[];
+    error: AppError | null;
+};
+
+export function formatIntegrationSource(source: string) {
+    return INTEGRATION_SOURCE_LABELS[source] ?? source.charAt(0).toUpperCase() + source.slice(1);
+}
+
+export async function loadIntegrationHealthForAdmin(): Promise<IntegrationHealthResult> {
+    try {
+        const [summaryResult, freshnessResult, runsResult] = await Promise.all([
+            query(
+                `
+                WITH last_success AS (
+                    SELECT source, MAX(started_at) AS started_at, MAX(finished_at) AS finished_at
+                    FROM integration_sync_runs
+                    WHERE status = 'success'
+                    GROUP BY source
+                ),
+                latest AS (
+                    SELECT DISTINCT ON (source) *
+                    FROM integration_sync_runs
+                    ORDER BY source, started_at DESC, id DESC
+                )
+                SELECT
+                    latest.source,
+                    latest.status AS last_run_status,
+                    latest.started_at AS last_run_at,
+                    latest.error_message AS last_error,
+                    latest.fetched_count AS last_fetched,
+                    latest.updated_count AS last_updated,
+                    latest.unmatched_count AS last_unmatched,
+                    ls.finished_at AS last_success_at,
+                    (
+                        SELECT COUNT(*)
+                        FROM integration_sync_runs r
+                        WHERE r.source = latest.source
+                          AND r.status = 'failed'
+                          AND (ls.started_at IS NULL OR r.started_at > ls.started_at)
+                    ) AS failure_streak
+                FROM latest
+                LEFT JOIN last_success ls ON ls.source = latest.source
+                ORDER BY latest.source;
+                `,
+            ),
+            // Machines are attributed to a source through their telemetry link, or their
+            // Trackunit id. last_pos_reported_at is stored in UTC without a time zone.
+            query(
+                `
+                WITH fleet AS (
+                    SELECT l.source, m.id, m.last_pos_reported_at
+                    FROM machine_telemetry_links l
+                    JOIN machines m ON m.id = l.machine_id
+                    UNION
+                    SELECT 'trackunit', m.id, m.last_pos_reported_at
+                    FROM machines m
+                    WHERE NULLIF(TRIM(m.trackunit_id), '') IS NOT NULL
+                )
+                SELECT
+                    source,
+                    COUNT(*) AS machines,
+                    COUNT(*) FILTER (
+                        WHERE last_pos_reported_at >= (now() AT TIME ZONE 'UTC') - interval '1 hour'
+                    ) AS within_1h,
+                    COUNT(*) FILTER (
+                        WHERE last_pos_reported_at >= (now() AT TIME ZONE 'UTC') - interval '24 hours'
+                    ) AS within_24h,
+                    COUNT(*) FILTER (
+                        WHERE last_pos_reported_at >= (now() AT TIME ZONE 'UTC') - interval '7 days'
+                    ) AS within_7d,
+                    COUNT(*) FILTER (WHERE last_pos_reported_at IS NULL) AS never,
+                    MAX(last_pos_reported_at) AS newest_at
+                FROM fleet
+                GROUP BY source
+                ORDER BY source;
+                `,
+            ),
+            query(
+                `
+                SELECT
+                    id,
+                    source,
+                    status,
+                    started_at,
+                    finished_at,
+                    fetched_count,
+                    updated_count,
+                    unmatched_count,
+                    error_message
+                FROM integration_sync_runs
+                ORDER BY started_at DESC, id DESC
+                LIMIT $1;
+                `,
+                [RECENT_RUN_LIMIT],
+            ),
+        ]);
+
+        return {
+            sources: summaryResult.rows.map((row) => toSourceHealth(row)),
+            freshness: freshnessResult.rows.map((row) => ({
+                source: String(row.source),
+                label: formatIntegrationSource(String(row.source)),
+                machines: Number(row.machines ?? 0),
+                within1h: Number(row.within_1h ?? 0),
+                within24h: Number(row.within_24h ?? 0),
+                within7d: Number(row.within_7d ?? 0),
+                never: Number(row.never ?? 0),
+                newestAt: toIso(row.newest_at),
+            })),
+            runs: runsResult.rows.map((row) => ({
+                id: String(row.id),
+                source: String(row.source),
+                label: formatIntegrationSource(String(row.source)),
+                status: row.status === "success" ? "success" : "failed",
+                startedAt: toIso(row.started_at) ?? "",
+                finishedAt: toIso(row.finished_at) ?? "",
+                fetched: toCount(row.fetched_count),
+                updated: toCount(row.updated_count),
+                unmatched: toCount(row.unmatched_count),
+                error: row.error_message ?? null,
+            })),
+            error: null,
+        };
+    } catch (error) {
+        return {
+            sources: [],
+            freshness: [],
+            runs: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente integrasjonsstatus",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente status for integrasjonene akkurat na.",
+            }),
+        };
+    }
+}
+
+function toSourceHealth(row: QueryResultRow): IntegrationSourceHealth {
+    const source = String(row.source);
+    const lastSuccessAt = toIso(row.last_success_at);
+    const failureStreak = Number(row.failure_streak ?? 0);
+
+    const intervalMinutes = EXPECTED_INTERVAL_MINUTES[source] ?? DEFAULT_INTERVAL_MINUTES;
+    const staleBefore = Date.now() - intervalMinutes * STALE_AFTER_INTERVALS * 60 * 1000;
+    const isStale = !lastSuccessAt || new Date(lastSuccessAt).getTime() < staleBefore;
+
+    return {
+        source,
+        label: formatIntegrationSource(source),
+        status: failureStreak > 0 ? "failing" : isStale ? "delayed" : "ok",
+        lastRunAt: toIso(row.last_run_at) ?? "",
+        lastRunStatus: row.last_run_status === "success" ? "success" : "failed",
+        lastSuccessAt,
+        failureStreak,
+        lastError: row.last_error ?? null,
+        lastFetched: toCount(row.last_fetched),
+        lastUpdated: toCount(row.last_updated),
+        lastUnmatched: toCount(row.last_unmatched),
+    };
+}
+
+function toCount(value: unknown) {
+    return value != null ? Number(value) : null;
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
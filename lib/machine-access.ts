@@ -0,0 +1,158 @@
+// lib/machine-access.ts
+// Purpose: Decide which machines a user may see in the machine API routes.
+// Super admins see everything. Customers only see machines that appear on an
+// agreement belonging to one of their companies, and only inside the rental
+// window of that agreement when it comes to position history.
+import {
+    fetchAgreementsForUser,
+    splitAgreementsByStatus,
+    type AgreementPayload,
+} from "@/lib/agreements";
+import type { MachineHistoryWindow } from "@/types/machines";
+
+// Agreements are re-fetched from the Bjugstad API at most once per minute per user.
+const AGREEMENT_CACHE_TTL_MS = 60 * 1000;
+
+type MachineAccessUser = { id?: string | null; role?: string | null } | null | undefined;
+
+type CachedAgreements = {
+    expiresAt: number;
+    agreements: Promise<AgreementPayload[]>;
+};
+
+export type MachineAccess = {
+    allowed: boolean;
+    isAdmin: boolean;
+    /** Agreement windows the machine is covered by. Empty for super admins. */
+    windows: MachineHistoryWindow[];
+};
+
+export type MachineWindowScope = {
+    isAdmin: boolean;
+    windows: Map<string, MachineHistoryWindow[]>;
+};
+
+export type MachineAccessOptions = {
+    /** Also grant access through agreements that have ended. */
+    includeHistorical?: boolean;
+};
+
+const agreementCache = new Map<string, CachedAgreements>();
+
+export async function resolveMachineAccess(
+    user: MachineAccessUser,
+    machineId: string | number,
+    options?: MachineAccessOptions,
+): Promise<MachineAccess> {
+    const normalizedId = String(machineId ?? "").trim();
+    const isAdmin = user?.role === "super_admin";
+
+    if (!user?.id || !normalizedId) {
+        return { allowed: false, isAdmin, windows: [] };
+    }
+
+    if (isAdmin) {
+        return { allowed: true, isAdmin, windows: [] };
+    }
+
+    if (user.role !== "customer") {
+        return { allowed: false, isAdmin, windows: [] };
+    }
+
+    const { windows } = await resolveMachineWindows(user, options);
+    const machineWindows = windows.get(normalizedId);
+
+    if (!machineWindows) {
+        return { allowed: false, isAdmin, windows: [] };
+    }
+
+    return { allowed: true, isAdmin, windows: machineWindows };
+}
+
+// Agreement windows for every machine the user can reach through their agreements,
+// keyed by machine id. Super admins are not scoped and always get an empty map.
+export async function resolveMachineWindows(
+    user: MachineAccessUser,
+    options?: MachineAccessOptions,
+): Promise<MachineWindowScope> {
+    const isAdmin = user?.role === "super_admin";
+    const windows = new Map<string, MachineHistoryWindow[]>();
+
+    if (!user?.id || isAdmin || user.role !== "customer") {
+        return { isAdmin, windows };
+    }
+
+    const agreements = await getCachedAgreements(user.id, user.role);
+    const { active, historical } = splitAgreementsByStatus(agreements);
+    const scoped = options?.includeHistorical ? [...active, ...historical] : active;
+    const historicalIds = new Set(historical.map((agreement) => agreement.id));
+
+    scoped.forEach((agreement) => {
+        const window: MachineHistoryWindow = {
+            agreementId: agreement.id,
+            status: historicalIds.has(agreement.id) ? "historical" : "active",
+            startDate: agreement.startDate ?? null,
+            endDate: agreement.endDate ?? null,
+        };
+
+        const machineIds = new Set(
+            (agreement.machines ?? [])
+                .map((machine) => machine.id?.trim())
+                .filter((id): id is string => Boolean(id)),
+        );
+
+        machineIds.forEach((machineId) => {
+            const existing = windows.get(machineId);
+            if (existing) {
+                existing.push(window);
+            } else {
+                windows.set(machineId, [window]);
+            }
+        });
+    });
+
+    return { isAdmin, windows };
+}
+
+/**
+ * Agreements visible to the user that include the machine, active ones first. Shares the
+ * per-user agreement cache with resolveMachineAccess.
+ */
+export async function listMachineAgreements(
+    user: MachineAccessUser,
+    machineId: string | number,
+): Promise<Array<AgreementPayload & { isActive: boolean }>> {
+    const normalizedId = String(machineId ?? "").trim();
+    if (!user?.id || !user.role || !normalizedId) return [];
+    if (user.role !== "super_admin" && user.role !== "customer") return [];
+
+    const agreements = await getCachedAgreements(user.id, user.role);
+    const { active, historical } = splitAgreementsByStatus(agreements);
+    const includesMachine = (agreement: AgreementPayload) =>
+        (agreement.machines ?? []).some((machine) => machine.id?.trim() === normalizedId);
+
+    return [
+        ...active.filter(includesMachine).map((agreement) => ({ ...agreement, isActive: true })),
+        ...historical.filter(includesMachine).map((agreement) => ({ ...agreement, isActive: false })),
+    ];
+}
+
+function getCachedAgreements(userId: string, role: string) {
+    const now = Date.now();
+    const cached = agreementCache.get(userId);
+    if (cached && cached.expiresAt > now) {
+        return cached.agreements;
+    }
+
+    const agreements = fetchAgreementsForUser(userId, role);
+    agreementCache.set(userId, { expiresAt: now + AGREEMENT_CACHE_TTL_MS, agreements });
+
+    // Never keep a failed lookup around; the next request should retry.
+    agreements.catch(() => {
+        if (agreementCache.get(userId)?.agreements === agreements) {
+            agreementCache.delete(userId);
+        }
+    });
+
+    return agreements;
+}
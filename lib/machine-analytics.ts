@@ -0,0 +1,478 @@
+// lib/machine-analytics.ts
+// Purpose: Utilisation numbers for the Maskiner dashboard, derived from the position
+// history the telemetry timers write to machine_position_history.
+//
+// Consecutive reports from the same machine form an interval. Intervals longer than
+// MAX_REPORT_GAP_MINUTES are treated as "offline" and ignored. An interval counts as
+// operating time when the machine reports speed or has actually moved, and as idle time
+// when it stands still between two stretches of movement. Distance prefers the
+// odometer (km) delta and falls back to the great-circle distance between the points.
+//
+// Machines that report engine hours (machine_operating_telemetry) use the meter deltas
+// for operating and idle time instead, since the position model cannot tell a parked
+// machine from one digging in place.
+import { query } from "@/lib/db";
+import { getVisibleMachinesForUser, toAgreementTimestamp } from "@/lib/machines";
+import { resolveMachineWindows } from "@/lib/machine-access";
+import type {
+    MachineAnalyticsAggregation,
+    MachineAnalyticsBucket,
+    MachineAnalyticsData,
+    MachineAnalyticsMachine,
+    MachineAnalyticsPeriod,
+    MachineAnalyticsPoint,
+    MachineAnalyticsTotals,
+    MachineHistoryWindow,
+} from "@/types/machines";
+
+const TIME_ZONE = "Europe/Oslo";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trackunit reports roughly every 10 minutes while a unit is awake.
+const MAX_REPORT_GAP_MINUTES = 30;
+const MOVING_SPEED_KMH = 1;
+// GPS jitter on a parked machine easily reaches 10-20 m between reports.
+const MIN_MOVE_METERS = 25;
+// Standstills shorter than this between two movements are counted as idling.
+const IDLE_BRIDGE_MINUTES = 30;
+// OEMs only send a new engine-hour reading when the meter moves, so look further back
+// for the reading that precedes the first one in range.
+const ENGINE_HOUR_LOOKBACK_DAYS = 30;
+
+export const MACHINE_ANALYTICS_PERIOD_DAYS: Record<MachineAnalyticsPeriod, number> = {
+    "14d": 14,
+    "30d": 30,
+    "12w": 84,
+    "12m": 365,
+};
+
+export const MACHINE_ANALYTICS_BUCKET_DAYS: Record<MachineAnalyticsAggregation, number> = {
+    day: 1,
+    week: 7,
+    month: 30,
+};
+
+type AnalyticsUser = { id?: string | null; role?: string | null } | null | undefined;
+
+type AnalyticsRow = {
+    machine_id: string;
+    bucket_index: number | string;
+    usage_seconds: number | string | null;
+    idle_seconds: number | string | null;
+    meters: number | string | null;
+    active_days: number | string | null;
+};
+
+type EngineHourRow = {
+    machine_id: string;
+    bucket_index: number | string;
+    operating_seconds: number | string | null;
+    idle_seconds: number | string | null;
+    active_days: number | string | null;
+};
+
+type AnalyticsQuery = {
+    machineIds: string[];
+    previousStart: string;
+    rangeStart: string;
+    rangeEnd: string;
+    bucketDays: number;
+    windows: Map<string, MachineHistoryWindow[]> | null;
+};
+
+export function isMachineAnalyticsPeriod(value: unknown): value is MachineAnalyticsPeriod {
+    return typeof value === "string" && value in MACHINE_ANALYTICS_PERIOD_DAYS;
+}
+
+export function isMachineAnalyticsAggregation(
+    value: unknown,
+): value is MachineAnalyticsAggregation {
+    return typeof value === "string" && value in MACHINE_ANALYTICS_BUCKET_DAYS;
+}
+
+export async function getMachineAnalyticsForUser(
+    user: AnalyticsUser,
+    period: MachineAnalyticsPeriod,
+    aggregation: MachineAnalyticsAggregation,
+): Promise<MachineAnalyticsData> {
+    const totalDays = MACHINE_ANALYTICS_PERIOD_DAYS[period];
+    const rangeEnd = getLocalDate(new Date());
+    const rangeStart = addDays(rangeEnd, -(totalDays - 1));
+    const previousEnd = addDays(rangeStart, -1);
+    const previousStart = addDays(previousEnd, -(totalDays - 1));
+    const buckets = buildBuckets(rangeStart, rangeEnd, MACHINE_ANALYTICS_BUCKET_DAYS[aggregation]);
+
+    const base = {
+        period,
+        aggregation,
+        range: { start: rangeStart, end: rangeEnd },
+        previousRange: { start: previousStart, end: previousEnd },
+        buckets,
+    };
+
+    if (!user?.id) {
+        return { ...base, machines: [] };
+    }
+
+    // Customers keep seeing machines from ended agreements, but only the activity that
+    // happened while the machine was rented to them.
+    const [{ list }, scope] = await Promise.all([
+        getVisibleMachinesForUser(user, { includeHistorical: true }),
+        resolveMachineWindows(user, { includeHistorical: true }),
+    ]);
+    const machines = scope.isAdmin
+        ? list
+        : list.filter((machine) => scope.windows.has(String(machine.id)));
+
+    if (!machines.length) {
+        return { ...base, machines: [] };
+    }
+
+    const analyticsQuery: AnalyticsQuery = {
+        machineIds: machines.map((machine) => String(machine.id)),
+        previousStart,
+        rangeStart,
+        rangeEnd,
+        bucketDays: MACHINE_ANALYTICS_BUCKET_DAYS[aggregation],
+        windows: scope.isAdmin ? null : scope.windows,
+    };
+    const [positionRows, engineRows] = await Promise.all([
+        queryPositionRows(analyticsQuery),
+        queryEngineHourRows(analyticsQuery),
+    ]);
+    const rows = mergeEngineHours(positionRows, engineRows);
+
+    const byMachine = new Map<
+        string,
+        { totals: MachineAnalyticsTotals; previousTotals: MachineAnalyticsTotals; series: MachineAnalyticsPoint[] }
+    >();
+
+    rows.forEach(({ machineId, bucketIndex, values }) => {
+        const entry = byMachine.get(machineId) ?? {
+            totals: emptyTotals(),
+            previousTotals: emptyTotals(),
+            series: [],
+        };
+        byMachine.set(machineId, entry);
+
+        if (bucketIndex < 0) {
+            addTotals(entry.previousTotals, values);
+            return;
+        }
+
+        const bucket = buckets[bucketIndex];
+        if (!bucket) return;
+
+        addTotals(entry.totals, values);
+        entry.series.push({ bucket: bucket.key, ...values });
+    });
+
+    const result: MachineAnalyticsMachine[] = machines.map((machine) => {
+        const entry = byMachine.get(String(machine.id));
+        return {
+            ...machine,
+            totals: entry?.totals ?? emptyTotals(),
+            previousTotals: entry?.previousTotals ?? emptyTotals(),
+            series: entry?.series ?? [],
+        };
+    });
+
+    return { ...base, machines: result };
+}
+
+async function queryPositionRows(analyticsQuery: AnalyticsQuery): Promise<AnalyticsRow[]> {
+    // Bucket index -1 collects the previous period, used for the "mot forrige periode" deltas.
+    const { rows } = await query<AnalyticsRow>(
+        `
+        WITH points AS (
+            SELECT
+                h.machine_id,
+                h.reported_at,
+                h.latitude,
+                h.longitude,
+                h.speed,
+                h.km,
+                LAG(h.reported_at) OVER w AS prev_reported_at,
+                LAG(h.latitude) OVER w AS prev_latitude,
+                LAG(h.longitude) OVER w AS prev_longitude,
+                LAG(h.km) OVER w AS prev_km
+            FROM machine_position_history h
+            WHERE h.machine_id = ANY($1::text[])
+              AND h.reported_at >= (($2::date)::timestamp AT TIME ZONE '${TIME_ZONE}') AT TIME ZONE 'UTC'
+                    - interval '${MAX_REPORT_GAP_MINUTES} minutes'
+              AND h.reported_at < (($4::date + 1)::timestamp AT TIME ZONE '${TIME_ZONE}') AT TIME ZONE 'UTC'
+            WINDOW w AS (PARTITION BY h.machine_id ORDER BY h.reported_at, h.id)
+        ),
+        intervals AS (
+            SELECT
+                machine_id,
+                reported_at,
+                ((reported_at AT TIME ZONE 'UTC') AT TIME ZONE '${TIME_ZONE}')::date AS local_day,
+                EXTRACT(EPOCH FROM reported_at - prev_reported_at) AS seconds,
+                COALESCE(speed, 0) AS speed,
+                CASE
+                    WHEN km IS NOT NULL AND prev_km IS NOT NULL AND km >= prev_km
+                        THEN (km - prev_km) * 1000
+                    ELSE 2 * 6371000 * asin(sqrt(
+                        power(sin(radians(latitude - prev_latitude) / 2), 2)
+                        + cos(radians(prev_latitude)) * cos(radians(latitude))
+                        * power(sin(radians(longitude - prev_longitude) / 2), 2)
+                    ))
+                END AS meters
+            FROM points
+            WHERE prev_reported_at IS NOT NULL
+              AND reported_at - prev_reported_at <= interval '${MAX_REPORT_GAP_MINUTES} minutes'
+              AND ${agreementWindowFilter("points")}
+        ),
+        classified AS (
+            SELECT
+                *,
+                (speed >= ${MOVING_SPEED_KMH} OR meters >= ${MIN_MOVE_METERS}) AS moving
+            FROM intervals
+        ),
+        bridged AS (
+            SELECT
+                *,
+                bool_or(moving) OVER (
+                    PARTITION BY machine_id ORDER BY reported_at
+                    RANGE BETWEEN interval '${IDLE_BRIDGE_MINUTES} minutes' PRECEDING AND CURRENT ROW
+                ) AS moved_before,
+                bool_or(moving) OVER (
+                    PARTITION BY machine_id ORDER BY reported_at
+                    RANGE BETWEEN CURRENT ROW AND interval '${IDLE_BRIDGE_MINUTES} minutes' FOLLOWING
+                ) AS moved_after
+            FROM classified
+        )
+        SELECT
+            machine_id,
+            CASE
+                WHEN local_day < $3::date THEN -1
+                ELSE (local_day - $3::date) / $5::int
+            END AS bucket_index,
+            SUM(seconds) FILTER (WHERE moving) AS usage_seconds,
+            SUM(seconds) FILTER (WHERE NOT moving AND moved_before AND moved_after) AS idle_seconds,
+            SUM(meters) FILTER (WHERE meters >= ${MIN_MOVE_METERS}) AS meters,
+            COUNT(DISTINCT local_day) FILTER (WHERE moving) AS active_days
+        FROM bridged
+        WHERE local_day >= $2::date
+        GROUP BY machine_id, bucket_index;
+        `,
+        toQueryValues(analyticsQuery),
+    );
+
+    return rows;
+}
+
+// Engine-hour meters only ever count up, so the usage in a bucket is the sum of the
+// increases between consecutive readings. Increases larger than the wall-clock time
+// between the readings are meter resets or unit swaps and are ignored.
+async function queryEngineHourRows(analyticsQuery: AnalyticsQuery): Promise<EngineHourRow[]> {
+    const { rows } = await query<EngineHourRow>(
+        `
+        WITH readings AS (
+            SELECT
+                t.machine_id,
+                t.reported_at,
+                t.operating_hours,
+                t.idle_hours,
+                LAG(t.reported_at) OVER w AS prev_reported_at,
+                LAG(t.operating_hours) OVER w AS prev_operating_hours,
+                LAG(t.idle_hours) OVER w AS prev_idle_hours
+            FROM machine_operating_telemetry t
+            WHERE t.machine_id = ANY($1::text[])
+              AND t.operating_hours IS NOT NULL
+              AND t.reported_at >= (($2::date)::timestamp AT TIME ZONE '${TIME_ZONE}') AT TIME ZONE 'UTC'
+                    - interval '${ENGINE_HOUR_LOOKBACK_DAYS} days'
+              AND t.reported_at < (($4::date + 1)::timestamp AT TIME ZONE '${TIME_ZONE}') AT TIME ZONE 'UTC'
+            WINDOW w AS (PARTITION BY t.machine_id ORDER BY t.reported_at, t.id)
+        ),
+        deltas AS (
+            SELECT
+                machine_id,
+                ((reported_at AT TIME ZONE 'UTC') AT TIME ZONE '${TIME_ZONE}')::date AS local_day,
+                EXTRACT(EPOCH FROM reported_at - prev_reported_at) / 3600 AS elapsed_hours,
+                operating_hours - prev_operating_hours AS operating_delta,
+                idle_hours - prev_idle_hours AS idle_delta
+            FROM readings
+            WHERE prev_reported_at IS NOT NULL
+              AND ${agreementWindowFilter("readings")}
+        )
+        SELECT
+            machine_id,
+            CASE
+                WHEN local_day < $3::date THEN -1
+                ELSE (local_day - $3::date) / $5::int
+            END AS bucket_index,
+            SUM(operating_delta) FILTER (
+                WHERE operating_delta >= 0 AND operating_delta <= elapsed_hours
+            ) * 3600 AS operating_seconds,
+            SUM(idle_delta) FILTER (
+                WHERE idle_delta >= 0 AND idle_delta <= elapsed_hours
+            ) * 3600 AS idle_seconds,
+            COUNT(DISTINCT local_day) FILTER (
+                WHERE operating_delta > 0 AND operating_delta <= elapsed_hours
+            ) AS active_days
+        FROM deltas
+        WHERE local_day >= $2::date
+        GROUP BY machine_id, bucket_index;
+        `,
+        toQueryValues(analyticsQuery),
+    );
+
+    return rows;
+}
+
+// Engine hours win over the position model wherever a machine reported them.
+function mergeEngineHours(positionRows: AnalyticsRow[], engineRows: EngineHourRow[]) {
+    const merged = new Map<
+        string,
+        { machineId: string; bucketIndex: number; values: MachineAnalyticsTotals }
+    >();
+    const keyOf = (machineId: string, bucketIndex: number) => `${machineId}:${bucketIndex}`;
+
+    positionRows.forEach((row) => {
+        const machineId = String(row.machine_id);
+        const bucketIndex = Number(row.bucket_index);
+        merged.set(keyOf(machineId, bucketIndex), {
+            machineId,
+            bucketIndex,
+            values: {
+                usageHours: Number(row.usage_seconds ?? 0) / 3600,
+                idleHours: Number(row.idle_seconds ?? 0) / 3600,
+                distanceKm: Number(row.meters ?? 0) / 1000,
+                activeDays: Number(row.active_days ?? 0),
+            },
+        });
+    });
+
+    engineRows.forEach((row) => {
+        if (row.operating_seconds == null) return;
+
+        const machineId = String(row.machine_id);
+        const bucketIndex = Number(row.bucket_index);
+        const key = keyOf(machineId, bucketIndex);
+        const entry = merged.get(key) ?? { machineId, bucketIndex, values: emptyTotals() };
+        merged.set(key, entry);
+
+        // Operating hours in AEMP include idle time; the dashboard shows them separately.
+        const operatingHours = Number(row.operating_seconds) / 3600;
+        const idleHours = row.idle_seconds != null
+            ? Number(row.idle_seconds) / 3600
+            : entry.values.idleHours;
+
+        entry.values.usageHours = Math.max(operatingHours - idleHours, 0);
+        entry.values.idleHours = Math.min(idleHours, operatingHours);
+        entry.values.activeDays = Math.max(entry.values.activeDays, Number(row.active_days ?? 0));
+    });
+
+    return [...merged.values()];
+}
+
+// Applied after LAG, which runs over every reading of the machine: a delta only counts when
+// the reading and the one before it fall in the same agreement window, so it never spans
+// another renter's time or the gap between two rentals.
+function agreementWindowFilter(alias: string) {
+    return `(
+                $6::boolean IS FALSE
+                OR EXISTS (
+                    SELECT 1
+                    FROM unnest($7::text[], $8::timestamp[], $9::timestamp[])
+                        AS aw(machine_id, window_start, window_end)
+                    WHERE aw.machine_id = ${alias}.machine_id
+                      AND ${alias}.prev_reported_at >= aw.window_start
+                      AND (aw.window_end IS NULL OR ${alias}.reported_at <= aw.window_end)
+                )
+            )`;
+}
+
+function toQueryValues({
+    machineIds,
+    previousStart,
+    rangeStart,
+    rangeEnd,
+    bucketDays,
+    windows,
+}: AnalyticsQuery) {
+    const bounds = windows ? flattenWindows(windows) : [];
+
+    return [
+        machineIds,
+        previousStart,
+        rangeStart,
+        rangeEnd,
+        bucketDays,
+        windows != null,
+        bounds.map((bound) => bound.machineId),
+        bounds.map((bound) => bound.start),
+        bounds.map((bound) => bound.end),
+    ];
+}
+
+// Windows without a start date cannot be clipped safely and are skipped, same as the
+// position history endpoint.
+function flattenWindows(windows: Map<string, MachineHistoryWindow[]>) {
+    const bounds: Array<{ machineId: string; start: Date; end: Date | null }> = [];
+
+    windows.forEach((machineWindows, machineId) => {
+        machineWindows.forEach((window) => {
+            const start = toAgreementTimestamp(window.startDate, "start");
+            if (start == null) return;
+            const end = toAgreementTimestamp(window.endDate, "end");
+            bounds.push({
+                machineId,
+                start: new Date(start),
+                end: end != null ? new Date(end) : null,
+            });
+        });
+    });
+
+    return bounds;
+}
+
+function buildBuckets(rangeStart: string, rangeEnd: string, bucketDays: number) {
+    const buckets: MachineAnalyticsBucket[] = [];
+    let start = rangeStart;
+
+    while (start <= rangeEnd) {
+        const candidateEnd = addDays(start, bucketDays - 1);
+        const end = candidateEnd < rangeEnd ? candidateEnd : rangeEnd;
+        buckets.push({
+            key: start,
+            start,
+            end,
+            days: Math.round((toUtcDate(end).getTime() - toUtcDate(start).getTime()) / DAY_MS) + 1,
+        });
+        start = addDays(start, bucketDays);
+    }
+
+    return buckets;
+}
+
+function emptyTotals(): MachineAnalyticsTotals {
+    return { usageHours: 0, idleHours: 0, distanceKm: 0, activeDays: 0 };
+}
+
+function addTotals(target: MachineAnalyticsTotals, values: MachineAnalyticsTotals) {
+    target.usageHours += values.usageHours;
+    target.idleHours += values.idleHours;
+    target.distanceKm += values.distanceKm;
+    target.activeDays += values.activeDays;
+}
+
+// Local calendar date (yyyy-mm-dd) in Norway, independent of the server time zone.
+function getLocalDate(date: Date) {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone: TIME_ZONE,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(date);
+}
+
+function toUtcDate(value: string) {
+    return new Date(`${value}T00:00:00Z`);
+}
+
+function addDays(value: string, days: number) {
+    return new Date(toUtcDate(value).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,166 @@
+// lib/machine-attachments.ts
+// Purpose: Fetch machine attachments from GetMachineAttachments. Blob paths are replaced by
+// /api/machines/attachments/download links carrying a signed token for the viewer (see
+// lib/attachment-tokens.ts). The proxy resolves the blob URL again from the machine and
+// attachment id and adds the SAS token on the server, so blob URLs are never handed to the
+// browser. The SAS helpers are shared with the ZIP download.
+import { signAttachmentToken } from "@/lib/attachment-tokens";
+import { cachedBjugstadRequest } from "@/lib/bjugstad-cache";
+
+export type MachineAttachment = {
+    id: number;
+    name: string;
+    description: string | null;
+    fileName: string;
+    uploadedDate: string;
+    /** Proxy download path from fetchMachineAttachments; the blob URL from fetchMachineAttachmentRecords. */
+    filePath: string;
+    fileSize: number;
+    uploadedBy: string;
+    internal: boolean;
+    transportOrderId: number | null;
+    rentalId: number | null;
+    containerName: string | null;
+    type: string | null;
+};
+
+export type MachineAttachmentsResult =
+    | { status: "ok"; attachments: MachineAttachment[] }
+    | { status: "error"; httpStatus: number; message: string };
+
+export type AttachmentSasSource = "default" | "rail";
+
+/** Attachments with a type live in the rail container, which has its own SAS token. */
+export function getAttachmentSasSource(attachmentType?: string | null): AttachmentSasSource {
+    return attachmentType == null ? "default" : "rail";
+}
+
+export function resolveSasToken(sasSource: string) {
+    return sasSource === "rail"
+        ? process.env.AZURE_BLOB_SAS_TOKEN_RAIL
+        : process.env.AZURE_BLOB_SAS_TOKEN;
+}
+
+export function isAllowedBlobUrl(fileUrl: URL) {
+    return fileUrl.protocol === "https:" && fileUrl.hostname.endsWith(".blob.core.windows.net");
+}
+
+export function appendSasToken(filePath: string, sasToken?: string) {
+    const normalizedFilePath = filePath.trim();
+    const normalizedSasToken = sasToken?.trim().replace(/^\?/, "");
+
+    if (!normalizedFilePath || !normalizedSasToken) {
+        return normalizedFilePath;
+    }
+
+    return `${normalizedFilePath}${normalizedFilePath.includes("?") ? "&" : "?"}${normalizedSasToken}`;
+}
+
+/** Download link for one attachment, only valid for the given user. */
+export function buildAttachmentDownloadPath(attachment: MachineAttachment, machineId: string, userId: string) {
+    const token = signAttachmentToken({
+        userId,
+        machineId,
+        attachmentId: attachment.id,
+    });
+
+    return `/api/machines/attachments/download?${new URLSearchParams({ token }).toString()}`;
+}
+
+/**
+ * Internal attachments are only returned when includeInternal is set (super admins). Each
+ * filePath becomes a download link signed for userId.
+ */
+export async function fetchMachineAttachments(
+    machineId: string,
+    options: { includeInternal: boolean; userId: string },
+): Promise<MachineAttachmentsResult> {
+    const result = await fetchMachineAttachmentRecords(machineId, options);
+    if (result.status === "error") return result;
+
+    return {
+        status: "ok",
+        attachments: result.attachments.map((item) => ({
+            ...item,
+            filePath: buildAttachmentDownloadPath(item, machineId, options.userId),
+        })),
+    };
+}
+
+/** Same as fetchMachineAttachments, but filePath is the raw blob URL. Server-side use only. */
+export async function fetchMachineAttachmentRecords(
+    machineId: string,
+    options: { includeInternal: boolean },
+): Promise<MachineAttachmentsResult> {
+    const apiKey =
+        process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
+        process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
+    const baseUrl = process.env.BJUGSTAD_API_BASEURL?.trim();
+
+    if (!apiKey || !baseUrl) {
+        console.error("Missing Bjugstad API configuration for machine attachments");
+        return { status: "error", httpStatus: 500, message: "Mangler konfigurasjon for Bjugstad API" };
+    }
+
+    const url = `${baseUrl.replace(/\/$/, "")}/GetMachineAttachments/${encodeURIComponent(machineId)}`;
+
+    let records: MachineAttachment[];
+    try {
+        records = await cachedBjugstadRequest(
+            `GetMachineAttachments:${machineId}`,
+            { tags: [`machine:${machineId}`] },
+            () => requestMachineAttachments(url, apiKey, machineId),
+        );
+    } catch (error) {
+        if (error instanceof AttachmentRequestError) {
+            return { status: "error", httpStatus: error.httpStatus, message: error.message };
+        }
+        throw error;
+    }
+
+    const attachments = records.filter((item) => item && (options.includeInternal || item.internal === false));
+
+    return { status: "ok", attachments };
+}
+
+// Thrown inside the cache loader so failed responses are never cached.
+class AttachmentRequestError extends Error {
+    constructor(
+        message: string,
+        readonly httpStatus: number,
+    ) {
+        super(message);
+        this.name = "AttachmentRequestError";
+    }
+}
+
+async function requestMachineAttachments(url: string, apiKey: string, machineId: string): Promise<MachineAttachment[]> {
+    const response = await fetch(url, {
+        cache: "no-store",
+        headers: {
+            Accept: "application/json",
+            "Ocp-Apim-Subscription-Key": apiKey,
+        },
+    });
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        console.error(
+            `Failed to fetch attachments for machine ${machineId} from Bjugstad API`,
+            response.status,
+            body,
+        );
+
+        const message =
+            response.status === 404
+                ? `Fant ingen vedlegg for maskin ${machineId}.`
+                : response.status === 401 || response.status === 403
+                    ? `Tilgang nektet ved henting av vedlegg for maskin ${machineId}. Kontroller API-nokkel og rettigheter.`
+                    : `Bjugstad API svarte med status ${response.status} ved henting av vedlegg for maskin ${machineId}.`;
+
+        throw new AttachmentRequestError(message, response.status === 404 ? 404 : 502);
+    }
+
+    const data = (await response.json()) as MachineAttachment[];
+    return Array.isArray(data) ? data : [];
+}
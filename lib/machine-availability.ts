@@ -0,0 +1,220 @@
+// lib/machine-availability.ts
+// Purpose: Which machines of a category are free in a date range, for new rentals. Combines
+// the machine catalogue (getAllMachinesList) with the agreement periods of the whole fleet
+// and returns the free windows of each machine, sorted by distance from a location using
+// the last known positions. Candidates never carry agreement details or coordinates. For
+// customers, machines out on an agreement today also get no distance or position time, since
+// searching from a few points would otherwise locate another customer's site.
+import { query } from "@/lib/db";
+import { fetchFleetAgreements, type AgreementPayload } from "@/lib/agreements";
+import { collectAgreementMachines, getAllMachinesList } from "@/lib/machines";
+import type { MachineAvailabilityCandidate, MachineAvailabilityWindow } from "@/types/machines";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type AvailabilitySearchInput = {
+    category: string | null;
+    /** First day of the period, YYYY-MM-DD. */
+    from: string;
+    /** Last day of the period, YYYY-MM-DD, inclusive. */
+    to: string;
+    lat: number | null;
+    lng: number | null;
+    /** Also return machines that are only free for part of the period. */
+    includePartial: boolean;
+    limit: number;
+};
+
+export type AvailabilityViewer = { isAdmin: boolean };
+
+type BusyPeriod = { start: number; end: number };
+
+export function parseAvailabilitySearch(
+    params: URLSearchParams,
+): { input: AvailabilitySearchInput } | { error: string } {
+    const from = params.get("from")?.trim() ?? "";
+    const to = params.get("to")?.trim() ?? "";
+    const fromDay = DATE_PATTERN.test(from) ? toDayIndex(from) : null;
+    const toDay = DATE_PATTERN.test(to) ? toDayIndex(to) : null;
+    if (fromDay === null || toDay === null) return { error: "Velg gyldig fra- og til-dato" };
+    if (toDay < fromDay) return { error: "Til-dato kan ikke være før fra-dato" };
+    if (toDay - fromDay + 1 > MAX_RANGE_DAYS) {
+        return { error: `Perioden kan være maks ${MAX_RANGE_DAYS} dager` };
+    }
+
+    let lat: number | null = null;
+    let lng: number | null = null;
+    if (params.get("lat") || params.get("lng")) {
+        lat = Number(params.get("lat"));
+        lng = Number(params.get("lng"));
+        if (!Number.isFinite(lat) || lat < -90 || lat > 90 || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+            return { error: "Ugyldig posisjon" };
+        }
+    }
+
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+
+    return {
+        input: {
+            category: params.get("category")?.trim() || null,
+            from,
+            to,
+            lat,
+            lng,
+            includePartial: params.get("partial") === "1" || params.get("partial") === "true",
+            limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+        },
+    };
+}
+
+export async function listMachineCategories(): Promise<string[]> {
+    const { rows } = await query(
+        `
+        SELECT DISTINCT TRIM(category) AS category
+        FROM machines
+        WHERE NULLIF(TRIM(category), '') IS NOT NULL
+        ORDER BY 1;
+        `,
+    );
+    return rows.map((row) => String(row.category));
+}
+
+export async function searchMachineAvailability(
+    input: AvailabilitySearchInput,
+    viewer: AvailabilityViewer,
+): Promise<MachineAvailabilityCandidate[]> {
+    const fromDay = toDayIndex(input.from)!;
+    const toDay = toDayIndex(input.to)!;
+    const category = input.category?.toLocaleLowerCase("nb-NO") ?? null;
+
+    const [machines, agreements] = await Promise.all([getAllMachinesList(), fetchFleetAgreements()]);
+    const busyByMachine = collectBusyPeriods(agreements);
+    const today = toDayIndex(todayInOslo())!;
+
+    const candidates: MachineAvailabilityCandidate[] = [];
+    for (const machine of machines) {
+        if (category && machine.category?.trim().toLocaleLowerCase("nb-NO") !== category) continue;
+
+        const freeWindows = computeFreeWindows(busyByMachine.get(String(machine.id)) ?? [], fromDay, toDay);
+        if (!freeWindows.length) continue;
+
+        const freeDays = freeWindows.reduce((sum, window) => sum + window.end - window.start + 1, 0);
+        const fullyAvailable = freeDays === toDay - fromDay + 1;
+        if (!fullyAvailable && !input.includePartial) continue;
+
+        const hidePosition = !viewer.isAdmin && isBusyOn(busyByMachine.get(String(machine.id)) ?? [], today);
+
+        candidates.push({
+            id: String(machine.id),
+            name: machine.name,
+            oem_name: machine.oem_name,
+            model: machine.model ?? null,
+            category: machine.category,
+            fully_available: fullyAvailable,
+            free_days: freeDays,
+            free_windows: freeWindows.map(toWindow),
+            distance_km: hidePosition ? null : roundDistance(distanceKm(input, machine), viewer),
+            last_pos_reported_at: hidePosition ? null : machine.last_pos_reported_at,
+        });
+    }
+
+    candidates.sort(
+        (a, b) =>
+            (a.distance_km ?? Number.POSITIVE_INFINITY) - (b.distance_km ?? Number.POSITIVE_INFINITY) ||
+            Number(b.fully_available) - Number(a.fully_available) ||
+            b.free_days - a.free_days ||
+            a.name.localeCompare(b.name, "nb-NO", { sensitivity: "base" }),
+    );
+
+    return candidates.slice(0, input.limit);
+}
+
+// Agreement periods per machine id, inclusive day indexes. Open-ended agreements block
+// the machine indefinitely; agreements without a start date are ignored.
+function collectBusyPeriods(agreements: AgreementPayload[]): Map<string, BusyPeriod[]> {
+    const busy = new Map<string, BusyPeriod[]>();
+
+    for (const agreement of agreements) {
+        const start = toDayIndex(agreement.startDate);
+        if (start === null) continue;
+        const end = toDayIndex(agreement.endDate) ?? Number.POSITIVE_INFINITY;
+
+        for (const machine of collectAgreementMachines([agreement])) {
+            if (machine.isSynthetic) continue;
+            const periods = busy.get(machine.id) ?? [];
+            periods.push({ start, end: Math.max(start, end) });
+            busy.set(machine.id, periods);
+        }
+    }
+
+    return busy;
+}
+
+function isBusyOn(periods: BusyPeriod[], day: number): boolean {
+    return periods.some((period) => period.start <= day && period.end >= day);
+}
+
+function computeFreeWindows(periods: BusyPeriod[], fromDay: number, toDay: number): BusyPeriod[] {
+    const free: BusyPeriod[] = [];
+    let cursor = fromDay;
+
+    const sorted = periods
+        .filter((period) => period.end >= fromDay && period.start <= toDay)
+        .sort((a, b) => a.start - b.start);
+
+    for (const period of sorted) {
+        if (period.start > cursor) free.push({ start: cursor, end: period.start - 1 });
+        cursor = Math.max(cursor, period.end + 1);
+        if (cursor > toDay) break;
+    }
+    if (cursor <= toDay) free.push({ start: cursor, end: toDay });
+
+    return free;
+}
+
+function distanceKm(
+    from: Pick<AvailabilitySearchInput, "lat" | "lng">,
+    machine: { lat: number | null; lng: number | null },
+): number | null {
+    if (from.lat == null || from.lng == null || machine.lat == null || machine.lng == null) return null;
+
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(machine.lat - from.lat);
+    const dLng = toRadians(machine.lng - from.lng);
+    const a =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.lat)) * Math.cos(toRadians(machine.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+// Customers only get whole kilometres, so the result does not give away exact positions.
+function roundDistance(distance: number | null, viewer: AvailabilityViewer): number | null {
+    if (distance === null) return null;
+    return viewer.isAdmin ? Math.round(distance * 10) / 10 : Math.max(1, Math.round(distance));
+}
+
+function todayInOslo(): string {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone: "Europe/Oslo",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(new Date());
+}
+
+// Days since the epoch for the calendar date of a wall-clock timestamp ("2025-03-01T00:00:00").
+function toDayIndex(value?: string | null): number | null {
+    const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    if (!match) return null;
+    const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return Number.isNaN(time) ? null : Math.round(time / DAY_MS);
+}
+
+function toWindow(period: BusyPeriod): MachineAvailabilityWindow {
+    const format = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+    return { start: format(period.start), end: format(period.end) };
+}
@@ -0,0 +1,213 @@
+// lib/machine-compliance.ts
+// Purpose: Periodic inspection and rail control tracking. GetMachinesFull gives the date
+// each check was last carried out (machines.control_date / rail_control_date); the next
+// one is due a configurable number of months later. The same rules run in the Azure
+// timer_control_notices function, which tells super admins about overdue machines that
+// are out on an active agreement (see azure/function/src/shared/control-notices.ts).
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { normalizeError, type AppError } from "@/lib/errors";
+import {
+    fetchAgreementsForUser,
+    splitAgreementsByStatus,
+    type AgreementPayload,
+} from "@/lib/agreements";
+import type { MachineControlAlert, MachineControlKind } from "@/types/machines";
+
+const DEFAULT_INTERVAL_MONTHS = 12;
+const DEFAULT_DUE_SOON_DAYS = 30;
+const MAX_HORIZON_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const calendarDateFormatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Europe/Oslo",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+});
+
+export type ControlDates = {
+    controlDate?: string | Date | null;
+    railControlDate?: string | Date | null;
+};
+
+export type ControlComplianceEntry = {
+    machineId: string;
+    name: string;
+    oemName: string | null;
+    category: string | null;
+    alerts: MachineControlAlert[];
+    agreementId: string | null;
+    customerId: number | null;
+    customerName: string | null;
+};
+
+export type ControlComplianceResult = {
+    machines: ControlComplianceEntry[];
+    horizonDays: number;
+    /** Set when the renters could not be looked up; the list itself is still complete. */
+    agreementsError: string | null;
+    error: AppError | null;
+};
+
+/** Days ahead an inspection counts as due soon on the map and in the machine dialog. */
+export function getControlDueSoonDays(): number {
+    return readPositiveInt(process.env.CONTROL_DUE_SOON_DAYS, DEFAULT_DUE_SOON_DAYS);
+}
+
+/** Clamp a user supplied horizon, e.g. the ?dager= parameter on the Kontroller page. */
+export function parseControlHorizonDays(value: string | null | undefined): number {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 0) return getControlDueSoonDays();
+    return Math.min(days, MAX_HORIZON_DAYS);
+}
+
+/**
+ * Inspections that are overdue or due within horizonDays, overdue first. Machines that have
+ * never been checked have no date and are left out, since we cannot tell when they are due.
+ */
+export function getControlAlerts(
+    dates: ControlDates,
+    horizonDays = getControlDueSoonDays(),
+    now = new Date(),
+): MachineControlAlert[] {
+    const today = toCalendarDate(now);
+    if (!today) return [];
+
+    const checks: Array<[MachineControlKind, string | Date | null | undefined, number]> = [
+        ["control", dates.controlDate, readPositiveInt(process.env.CONTROL_INTERVAL_MONTHS, DEFAULT_INTERVAL_MONTHS)],
+        [
+            "rail_control",
+            dates.railControlDate,
+            readPositiveInt(process.env.RAIL_CONTROL_INTERVAL_MONTHS, DEFAULT_INTERVAL_MONTHS),
+        ],
+    ];
+
+    const alerts: MachineControlAlert[] = [];
+    for (const [kind, lastDone, intervalMonths] of checks) {
+        const done = toCalendarDate(lastDone);
+        if (!done) continue;
+
+        const dueDate = addMonths(done, intervalMonths);
+        const daysLeft = Math.round((Date.parse(dueDate) - Date.parse(today)) / DAY_MS);
+        if (daysLeft > horizonDays) continue;
+
+        alerts.push({ kind, status: daysLeft < 0 ? "overdue" : "due_soon", due_date: dueDate, days_left: daysLeft });
+    }
+
+    return alerts.sort((a, b) => a.days_left - b.days_left);
+}
+
+/**
+ * Machines with an inspection overdue or due within horizonDays, together with the
+ * customer currently renting them.
+ */
+export async function loadControlComplianceForAdmin(
+    user: { id: string; role?: string | null },
+    horizonDays: number,
+): Promise<ControlComplianceResult> {
+    try {
+        const { rows } = await query(
+            `
+            SELECT id, name, oem_name, category, control_date, rail_control_date
+            FROM machines
+            WHERE control_date IS NOT NULL
+               OR rail_control_date IS NOT NULL;
+            `,
+        );
+
+        const due = rows
+            .map((row) => ({
+                row,
+                alerts: getControlAlerts(
+                    { controlDate: row.control_date, railControlDate: row.rail_control_date },
+                    horizonDays,
+                ),
+            }))
+            .filter((entry) => entry.alerts.length > 0);
+
+        let renters = new Map<string, AgreementPayload>();
+        let agreementsError: string | null = null;
+        if (due.length) {
+            try {
+                const agreements = await fetchAgreementsForUser(user.id, user.role);
+                renters = mapActiveRenters(splitAgreementsByStatus(agreements).active);
+            } catch (error) {
+                console.error("Failed to fetch agreements for control compliance", error);
+                agreementsError = error instanceof Error ? error.message : "Kunne ikke hente avtaler";
+            }
+        }
+
+        const machines = due
+            .map(({ row, alerts }) => toControlComplianceEntry(row, alerts, renters.get(String(row.id))))
+            .sort((a, b) => a.alerts[0].days_left - b.alerts[0].days_left || a.name.localeCompare(b.name, "nb-NO"));
+
+        return { machines, horizonDays, agreementsError, error: null };
+    } catch (error) {
+        return {
+            machines: [],
+            horizonDays,
+            agreementsError: null,
+            error: normalizeError(error, {
+                title: "Kunne ikke hente kontrollstatus",
+                message: "Noe gikk galt under henting av kontrolldatoer.",
+            }),
+        };
+    }
+}
+
+// Machine id -> the active agreement it is on. A machine moved between agreements on
+// the same day keeps the one that started last.
+function mapActiveRenters(agreements: AgreementPayload[]): Map<string, AgreementPayload> {
+    const renters = new Map<string, AgreementPayload>();
+    for (const agreement of agreements) {
+        for (const machine of agreement.machines ?? []) {
+            const id = machine?.id?.trim();
+            if (!id) continue;
+            const existing = renters.get(id);
+            if (!existing || (agreement.startDate ?? "") > (existing.startDate ?? "")) {
+                renters.set(id, agreement);
+            }
+        }
+    }
+    return renters;
+}
+
+function toControlComplianceEntry(
+    row: QueryResultRow,
+    alerts: MachineControlAlert[],
+    agreement: AgreementPayload | undefined,
+): ControlComplianceEntry {
+    return {
+        machineId: String(row.id),
+        name: row.name != null ? String(row.name) : `Maskin ${row.id}`,
+        oemName: row.oem_name != null && row.oem_name !== "N/A" ? String(row.oem_name) : null,
+        category: row.category != null ? String(row.category) : null,
+        alerts,
+        agreementId: agreement ? String(agreement.id) : null,
+        customerId: agreement?.customerId ?? null,
+        customerName: agreement?.customerName ?? null,
+    };
+}
+
+// "2025-01-31" + 1 month -> "2025-02-28": the day is clamped to the end of the month.
+function addMonths(calendarDate: string, months: number): string {
+    const [year, month, day] = calendarDate.split("-").map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+// Calendar date (YYYY-MM-DD) in Norwegian time.
+function toCalendarDate(value: string | Date | null | undefined): string | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    return calendarDateFormatter.format(date);
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = Number(value?.trim());
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
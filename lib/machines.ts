@@ -8,8 +8,11 @@ import type {
     MachinesData,
     MachinePositionHistoryEntry,
     MachineAgreementSummary,
+    MachineHistoryWindow,
+    MachineOperatingData,
 } from "@/types/machines";
 import { IS_DEV } from "./constants";
+import { getControlAlerts } from "@/lib/machine-compliance";
 import {
     fetchAgreementsForUser,
     splitAgreementsByStatus,
@@ -17,8 +20,10 @@ import {
 } from "@/lib/agreements";
 
 // Fetch machines (with or without coordinates) for the Kart view.
+// `includeHistorical` also lists machines from agreements that have ended.
 export async function getVisibleMachinesForUser(
     user?: { id?: string | null; role?: string | null } | null,
+    options?: { includeHistorical?: boolean },
 ): Promise<MachinesData> {
     if (!user?.id) {
         return { features: { type: "FeatureCollection", features: [] }, list: [] };
@@ -32,8 +37,10 @@ export async function getVisibleMachinesForUser(
     }
 
     const agreements = await fetchAgreementsForUser(user.id, user.role);
-    const { active } = splitAgreementsByStatus(agreements);
-    const agreementMachines = collectAgreementMachines(active);
+    const { active, historical } = splitAgreementsByStatus(agreements);
+    const agreementMachines = collectAgreementMachines(
+        options?.includeHistorical ? [...active, ...historical] : active,
+    );
     const dbIds = agreementMachines
         .filter((m) => !m.isSynthetic)
         .map((m) => m.id);
@@ -133,21 +140,160 @@ export async function getMachineLocationHistoryById(
         [machineId],
     );
 
-    return rows.map((row: any) => ({
-        id: String(row.id),
+    return rows.map((row) => toMachinePositionHistoryEntry(row));
+}
+
+// Position history limited to the given agreement windows. Each point is tagged with
+// the agreement it falls under, so a renter never sees where the machine was before
+// or after their own rental period. Windows without a start date are skipped.
+export async function getMachineLocationHistoryForWindows(
+    id: string | number,
+    windows: MachineHistoryWindow[],
+): Promise<MachinePositionHistoryEntry[]> {
+    const machineId = String(id ?? "").trim();
+    if (!machineId) return [];
+
+    const bounds = windows.flatMap((window) => {
+        const start = toAgreementTimestamp(window.startDate, "start");
+        if (start == null) return [];
+        const end = toAgreementTimestamp(window.endDate, "end");
+        return [{
+            agreementId: window.agreementId,
+            start: new Date(start),
+            end: end != null ? new Date(end) : null,
+        }];
+    });
+
+    if (!bounds.length) return [];
+
+    // A point can only belong to one window; overlapping agreements resolve to the latest start.
+    const { rows } = await query(
+        `
+        SELECT *
+        FROM (
+            SELECT DISTINCT ON (h.id)
+                h.id,
+                h.source,
+                h.reported_at,
+                h.received_at,
+                h.latitude AS lat,
+                h.longitude AS lng,
+                h.altitude,
+                h.speed,
+                h.heading,
+                h.km,
+                w.agreement_id
+            FROM machine_position_history h
+            JOIN unnest($2::text[], $3::timestamp[], $4::timestamp[])
+                AS w(agreement_id, window_start, window_end)
+              ON h.reported_at >= w.window_start
+             AND (w.window_end IS NULL OR h.reported_at <= w.window_end)
+            WHERE h.machine_id::text = $1::text
+            ORDER BY h.id, w.window_start DESC
+        ) AS clipped
+        ORDER BY reported_at ASC, id ASC;
+        `,
+        [
+            machineId,
+            bounds.map((bound) => bound.agreementId),
+            bounds.map((bound) => bound.start),
+            bounds.map((bound) => bound.end),
+        ],
+    );
+
+    return rows.map((row) => toMachinePositionHistoryEntry(row));
+}
+
+// Fault codes older than this are considered cleared and not shown.
+const FAULT_CODE_LOOKBACK_DAYS = 30;
+
+// Latest engine-hour/fuel reading plus the fault codes reported recently, one row per code.
+export async function getMachineOperatingDataById(
+    id: string | number,
+): Promise<MachineOperatingData> {
+    const machineId = String(id ?? "").trim();
+    const empty: MachineOperatingData = {
+        reported_at: null,
+        source: null,
+        operating_hours: null,
+        idle_hours: null,
+        fuel_used: null,
+        fuel_units: null,
+        fuel_remaining_percent: null,
+        def_remaining_percent: null,
+        fault_codes: [],
+    };
+    if (!machineId) return empty;
+
+    const [telemetryResult, faultResult] = await Promise.all([
+        query(
+            `
+            SELECT
+                source,
+                reported_at,
+                operating_hours,
+                idle_hours,
+                fuel_used,
+                fuel_units,
+                fuel_remaining_percent,
+                def_remaining_percent
+            FROM machine_operating_telemetry
+            WHERE machine_id::text = $1::text
+            ORDER BY reported_at DESC, id DESC
+            LIMIT 1;
+            `,
+            [machineId],
+        ),
+        query(
+            `
+            SELECT *
+            FROM (
+                SELECT DISTINCT ON (code)
+                    code,
+                    description,
+                    severity,
+                    code_source,
+                    source,
+                    reported_at
+                FROM machine_fault_codes
+                WHERE machine_id::text = $1::text
+                  AND reported_at >= now() - ($2::int * interval '1 day')
+                ORDER BY code, reported_at DESC
+            ) AS latest
+            ORDER BY reported_at DESC;
+            `,
+            [machineId, FAULT_CODE_LOOKBACK_DAYS],
+        ),
+    ]);
+
+    const fault_codes = faultResult.rows.map((row) => ({
+        code: String(row.code),
+        description: row.description != null ? String(row.description) : null,
+        severity: row.severity != null ? String(row.severity) : null,
+        code_source: row.code_source != null ? String(row.code_source) : null,
         source: String(row.source ?? ""),
         reported_at: new Date(row.reported_at).toISOString(),
-        received_at: new Date(row.received_at).toISOString(),
-        lat: Number(row.lat),
-        lng: Number(row.lng),
-        altitude: row.altitude != null ? Number(row.altitude) : null,
-        speed: row.speed != null ? Number(row.speed) : null,
-        heading: row.heading != null ? Number(row.heading) : null,
-        km: row.km != null ? Number(row.km) : null,
     }));
+
+    const telemetry = telemetryResult.rows[0];
+    if (!telemetry) return { ...empty, fault_codes };
+
+    const toNumber = (value: unknown) => (value != null ? Number(value) : null);
+
+    return {
+        reported_at: new Date(telemetry.reported_at).toISOString(),
+        source: String(telemetry.source ?? ""),
+        operating_hours: toNumber(telemetry.operating_hours),
+        idle_hours: toNumber(telemetry.idle_hours),
+        fuel_used: toNumber(telemetry.fuel_used),
+        fuel_units: telemetry.fuel_units != null ? String(telemetry.fuel_units) : null,
+        fuel_remaining_percent: toNumber(telemetry.fuel_remaining_percent),
+        def_remaining_percent: toNumber(telemetry.def_remaining_percent),
+        fault_codes,
+    };
 }
 
-const getAllMachinesList = cache(async (): Promise<MachineListEntry[]> => {
+export const getAllMachinesList = cache(async (): Promise<MachineListEntry[]> => {
     const label = `[machines] all ${Date.now().toString(36)}-${Math.random()
         .toString(36)
         .slice(2, 7)}`;
@@ -163,10 +309,13 @@ const getAllMachinesList = cache(async (): Promise<MachineListEntry[]> => {
                 id,
                 name,
                 oem_name,
+                model,
                 category,
                 last_pos_reported_at,
                 last_pos_latitude  AS lat,
-                last_pos_longitude AS lng
+                last_pos_longitude AS lng,
+                control_date,
+                rail_control_date
             FROM machines
             ORDER BY name;
             `);
@@ -191,10 +340,13 @@ async function getMachinesByIds(ids: string[]): Promise<MachineListEntry[]> {
             id,
             name,
             oem_name,
+            model,
             category,
             last_pos_reported_at,
             last_pos_latitude  AS lat,
-            last_pos_longitude AS lng
+            last_pos_longitude AS lng,
+            control_date,
+            rail_control_date
         FROM machines
         WHERE id = ANY($1::text[])
         ORDER BY name;
@@ -205,6 +357,22 @@ async function getMachinesByIds(ids: string[]): Promise<MachineListEntry[]> {
     return rows.map((m: any) => toMachineListEntry(m));
 }
 
+function toMachinePositionHistoryEntry(row: any): MachinePositionHistoryEntry {
+    return {
+        id: String(row.id),
+        source: String(row.source ?? ""),
+        reported_at: new Date(row.reported_at).toISOString(),
+        received_at: new Date(row.received_at).toISOString(),
+        lat: Number(row.lat),
+        lng: Number(row.lng),
+        altitude: row.altitude != null ? Number(row.altitude) : null,
+        speed: row.speed != null ? Number(row.speed) : null,
+        heading: row.heading != null ? Number(row.heading) : null,
+        km: row.km != null ? Number(row.km) : null,
+        agreement_id: row.agreement_id != null ? String(row.agreement_id) : null,
+    };
+}
+
 function toMachineListEntry(row: any): MachineListEntry {
     const reportedAt: string | null = row.last_pos_reported_at
         ? new Date(row.last_pos_reported_at).toISOString()
@@ -215,6 +383,7 @@ function toMachineListEntry(row: any): MachineListEntry {
         name: String(row.name ?? "N/A"),
         oem_name: String(row.oem_name ?? "N/A"),
         category: row.category != null ? String(row.category) : null,
+        model: row.model != null ? String(row.model) : null,
         active_agreement_id:
             row.active_agreement_id != null ? String(row.active_agreement_id) : null,
         active_agreement: normalizeMachineAgreementSummary(row.active_agreement),
@@ -225,6 +394,10 @@ function toMachineListEntry(row: any): MachineListEntry {
         active_customer_name:
             row.active_customer_name != null ? String(row.active_customer_name) : null,
         last_pos_reported_at: reportedAt,
+        control_alerts: getControlAlerts({
+            controlDate: row.control_date,
+            railControlDate: row.rail_control_date,
+        }),
         lat: row.lat != null ? Number(row.lat) : null,
         lng: row.lng != null ? Number(row.lng) : null,
     };
@@ -254,7 +427,7 @@ function buildFeatureCollection(list: MachineListEntry[]): MachinesFC {
     return { type: "FeatureCollection", features };
 }
 
-function collectAgreementMachines(
+export function collectAgreementMachines(
     agreements: AgreementPayload[],
 ) {
     const results: Array<{
@@ -433,7 +606,7 @@ function compareAgreementCandidates(
     );
 }
 
-function toAgreementTimestamp(value?: string | null, boundary: "start" | "end" = "start") {
+export function toAgreementTimestamp(value?: string | null, boundary: "start" | "end" = "start") {
     if (!value) return null;
     const date = new Date(value);
     if (Number.isNaN(date.getTime())) return null;
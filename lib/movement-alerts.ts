@@ -0,0 +1,386 @@
+// lib/movement-alerts.ts
+// Purpose: Theft and after-hours movement alerts for the Alarmer admin page and the
+// machine dialog. The telemetry ingestion evaluates movement_alert_rules against new
+// positions and writes movement_alerts (see azure/function/src/shared/movement-alerts.ts);
+// this module manages the rules and moves alerts through open -> acknowledged -> resolved.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { normalizeError, type AppError } from "@/lib/errors";
+import type {
+    MovementAlertEntry,
+    MovementAlertPosition,
+    MovementAlertRuleEntry,
+    MovementAlertStatus,
+} from "@/types/machines";
+
+// Resolved alerts older than this are left out of the inbox.
+const RESOLVED_LOOKBACK_DAYS = 30;
+const MACHINE_ALERT_LIMIT = 20;
+
+export type MovementAlertAction = "acknowledge" | "resolve";
+
+export type MovementAlertOption = { id: string; label: string };
+
+export type MovementAlertsResult = {
+    alerts: MovementAlertEntry[];
+    rules: MovementAlertRuleEntry[];
+    machines: MovementAlertOption[];
+    customers: MovementAlertOption[];
+    error: AppError | null;
+};
+
+export type MovementAlertUpdateResult =
+    | { status: "ok"; alert: MovementAlertEntry }
+    | { status: "not_found" }
+    | { status: "already_resolved" };
+
+export type MovementAlertRuleInput = {
+    name: string;
+    customerId: number | null;
+    machineId: string | null;
+    weekdays: number[];
+    startMinute: number;
+    endMinute: number;
+    minDistanceM: number | null;
+    minSpeedKmh: number | null;
+};
+
+export type MovementAlertRuleCreateResult =
+    | { status: "ok"; rule: MovementAlertRuleEntry }
+    | { status: "customer_not_found" }
+    | { status: "machine_not_found" };
+
+const ALERT_COLUMNS = `
+    a.id,
+    a.rule_id,
+    a.rule_name,
+    a.machine_id,
+    m.name AS machine_name,
+    a.status,
+    a.first_position_at,
+    a.last_position_at,
+    a.distance_m,
+    a.max_speed_kmh,
+    a.positions,
+    a.acknowledged_at,
+    a.acknowledged_by,
+    a.resolved_at,
+    a.resolved_by
+`;
+
+const RULE_COLUMNS = `
+    r.id,
+    r.name,
+    r.customer_id,
+    c.name AS customer_name,
+    r.machine_id,
+    m.name AS machine_name,
+    r.weekdays,
+    r.start_minute,
+    r.end_minute,
+    r.min_distance_m,
+    r.min_speed_kmh,
+    r.active,
+    r.created_by,
+    r.created_at
+`;
+
+export async function loadMovementAlertsForAdmin(): Promise<MovementAlertsResult> {
+    try {
+        const [alertResult, ruleResult, machineResult, customerResult] = await Promise.all([
+            query(
+                `
+                SELECT ${ALERT_COLUMNS}
+                FROM movement_alerts a
+                LEFT JOIN machines m ON m.id = a.machine_id
+                WHERE a.status <> 'resolved'
+                   OR a.resolved_at >= now() - ($1::int * interval '1 day')
+                ORDER BY (a.status = 'resolved'), a.last_position_at DESC;
+                `,
+                [RESOLVED_LOOKBACK_DAYS],
+            ),
+            query(
+                `
+                SELECT ${RULE_COLUMNS}
+                FROM movement_alert_rules r
+                LEFT JOIN customers c ON c.customer_id = r.customer_id
+                LEFT JOIN machines m ON m.id = r.machine_id
+                ORDER BY r.name ASC, r.id ASC;
+                `,
+            ),
+            query(`SELECT id, name FROM machines ORDER BY id;`),
+            query(`SELECT customer_id, name FROM customers ORDER BY name NULLS LAST, customer_id;`),
+        ]);
+
+        return {
+            alerts: alertResult.rows.map((row) => toMovementAlertEntry(row)),
+            rules: ruleResult.rows.map((row) => toMovementAlertRuleEntry(row)),
+            machines: machineResult.rows.map((row) => ({
+                id: String(row.id),
+                label: row.name ? `${row.id} – ${row.name}` : String(row.id),
+            })),
+            customers: customerResult.rows.map((row) => ({
+                id: String(row.customer_id),
+                label: row.name ?? `Kunde ${row.customer_id}`,
+            })),
+            error: null,
+        };
+    } catch (error) {
+        return {
+            alerts: [],
+            rules: [],
+            machines: [],
+            customers: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente alarmer",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente alarmene akkurat na.",
+            }),
+        };
+    }
+}
+
+export async function listMachineMovementAlerts(machineId: string): Promise<MovementAlertEntry[]> {
+    const { rows } = await query(
+        `
+        SELECT ${ALERT_COLUMNS}
+        FROM movement_alerts a
+        LEFT JOIN machines m ON m.id = a.machine_id
+        WHERE a.machine_id = $1
+        ORDER BY (a.status = 'resolved'), a.last_position_at DESC
+        LIMIT $2;
+        `,
+        [machineId, MACHINE_ALERT_LIMIT],
+    );
+    return rows.map((row) => toMovementAlertEntry(row));
+}
+
+// Acknowledging only marks that someone is looking at it; the alert keeps collecting
+// positions until it is resolved. Resolving an unacknowledged alert acknowledges it too.
+export async function updateMovementAlertStatus(
+    alertId: string,
+    action: MovementAlertAction,
+    handledBy: string | null,
+): Promise<MovementAlertUpdateResult> {
+    const { rows: existing } = await query(
+        `SELECT status FROM movement_alerts WHERE id = $1::bigint`,
+        [alertId],
+    );
+    if (!existing[0]) return { status: "not_found" };
+    if (existing[0].status === "resolved") return { status: "already_resolved" };
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE movement_alerts
+               SET status = CASE WHEN $2 = 'resolve' THEN 'resolved' ELSE 'acknowledged' END,
+                   acknowledged_at = COALESCE(acknowledged_at, now()),
+                   acknowledged_by = COALESCE(acknowledged_by, $3),
+                   resolved_at = CASE WHEN $2 = 'resolve' THEN now() ELSE resolved_at END,
+                   resolved_by = CASE WHEN $2 = 'resolve' THEN $3 ELSE resolved_by END,
+                   updated_at = now()
+             WHERE id = $1::bigint
+               AND status <> 'resolved'
+            RETURNING *
+        )
+        SELECT ${ALERT_COLUMNS}
+        FROM updated a
+        LEFT JOIN machines m ON m.id = a.machine_id;
+        `,
+        [alertId, action, handledBy],
+    );
+
+    if (!rows[0]) return { status: "already_resolved" };
+    return { status: "ok", alert: toMovementAlertEntry(rows[0]) };
+}
+
+export async function createMovementAlertRule(
+    input: MovementAlertRuleInput,
+    createdBy: string | null,
+): Promise<MovementAlertRuleCreateResult> {
+    if (input.customerId != null) {
+        const { rowCount } = await query(`SELECT 1 FROM customers WHERE customer_id = $1`, [input.customerId]);
+        if (!rowCount) return { status: "customer_not_found" };
+    }
+    if (input.machineId) {
+        const { rowCount } = await query(`SELECT 1 FROM machines WHERE id = $1`, [input.machineId]);
+        if (!rowCount) return { status: "machine_not_found" };
+    }
+
+    const { rows } = await query(
+        `
+        WITH inserted AS (
+            INSERT INTO movement_alert_rules (
+                name, customer_id, machine_id, weekdays, start_minute, end_minute,
+                min_distance_m, min_speed_kmh, created_by
+            )
+            VALUES ($1, $2, $3, $4::smallint[], $5, $6, $7, $8, $9)
+            RETURNING *
+        )
+        SELECT ${RULE_COLUMNS}
+        FROM inserted r
+        LEFT JOIN customers c ON c.customer_id = r.customer_id
+        LEFT JOIN machines m ON m.id = r.machine_id;
+        `,
+        [
+            input.name,
+            input.customerId,
+            input.machineId,
+            input.weekdays,
+            input.startMinute,
+            input.endMinute,
+            input.minDistanceM,
+            input.minSpeedKmh,
+            createdBy,
+        ],
+    );
+
+    return { status: "ok", rule: toMovementAlertRuleEntry(rows[0]) };
+}
+
+export async function setMovementAlertRuleActive(
+    ruleId: string,
+    active: boolean,
+): Promise<MovementAlertRuleEntry | null> {
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE movement_alert_rules
+               SET active = $2, updated_at = now()
+             WHERE id = $1::bigint
+            RETURNING *
+        )
+        SELECT ${RULE_COLUMNS}
+        FROM updated r
+        LEFT JOIN customers c ON c.customer_id = r.customer_id
+        LEFT JOIN machines m ON m.id = r.machine_id;
+        `,
+        [ruleId, active],
+    );
+    return rows[0] ? toMovementAlertRuleEntry(rows[0]) : null;
+}
+
+// Existing alerts keep their rule_name and lose the link through ON DELETE SET NULL.
+export async function deleteMovementAlertRule(ruleId: string): Promise<boolean> {
+    const { rowCount } = await query(`DELETE FROM movement_alert_rules WHERE id = $1::bigint`, [ruleId]);
+    return Boolean(rowCount);
+}
+
+/**
+ * Validate a rule payload from the Alarmer page. Times are "HH:MM" in Norwegian local
+ * time, and at least one of the distance and speed thresholds must be set.
+ */
+export function parseMovementAlertRuleInput(
+    payload: unknown,
+): { input: MovementAlertRuleInput } | { error: string } {
+    const body = (payload ?? {}) as Record<string, unknown>;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) return { error: "Regelen må ha et navn" };
+    if (name.length > 120) return { error: "Navnet kan ikke være lengre enn 120 tegn" };
+
+    let customerId: number | null = null;
+    if (body.customerId != null && body.customerId !== "") {
+        customerId = Number(body.customerId);
+        if (!Number.isInteger(customerId) || customerId <= 0) return { error: "Ugyldig kunde-id" };
+    }
+    const machineId = typeof body.machineId === "string" && body.machineId.trim() ? body.machineId.trim() : null;
+    if (customerId != null && machineId) {
+        return { error: "Velg enten en kunde eller en maskin, ikke begge" };
+    }
+
+    const weekdays = Array.isArray(body.weekdays)
+        ? [...new Set(body.weekdays.map(Number))].filter((day) => Number.isInteger(day) && day >= 1 && day <= 7)
+        : [];
+    if (!weekdays.length) return { error: "Velg minst én ukedag" };
+
+    const startMinute = parseClock(body.startTime);
+    const endMinute = parseClock(body.endTime);
+    if (startMinute == null || endMinute == null) return { error: "Ugyldig klokkeslett" };
+
+    const minDistanceM = parseOptionalPositive(body.minDistanceM);
+    const minSpeedKmh = parseOptionalPositive(body.minSpeedKmh);
+    if (minDistanceM === undefined || minSpeedKmh === undefined) {
+        return { error: "Avstand og fart må være positive tall" };
+    }
+    if (minDistanceM == null && minSpeedKmh == null) {
+        return { error: "Angi minste avstand, minste fart eller begge" };
+    }
+
+    return {
+        input: {
+            name,
+            customerId,
+            machineId,
+            weekdays: weekdays.sort(),
+            startMinute,
+            endMinute,
+            minDistanceM,
+            minSpeedKmh,
+        },
+    };
+}
+
+function parseClock(value: unknown): number | null {
+    if (typeof value !== "string") return null;
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+// null when empty, undefined when present but invalid.
+function parseOptionalPositive(value: unknown): number | null | undefined {
+    if (value == null || value === "") return null;
+    const number = Number(value);
+    return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
+
+function toMovementAlertEntry(row: QueryResultRow): MovementAlertEntry {
+    const status: MovementAlertStatus =
+        row.status === "acknowledged" || row.status === "resolved" ? row.status : "open";
+
+    return {
+        id: String(row.id),
+        rule_id: row.rule_id != null ? String(row.rule_id) : null,
+        rule_name: String(row.rule_name),
+        machine_id: String(row.machine_id),
+        machine_name: row.machine_name ?? null,
+        status,
+        first_position_at: toIso(row.first_position_at) ?? "",
+        last_position_at: toIso(row.last_position_at) ?? "",
+        distance_m: Number(row.distance_m ?? 0),
+        max_speed_kmh: row.max_speed_kmh != null ? Number(row.max_speed_kmh) : null,
+        positions: Array.isArray(row.positions) ? (row.positions as MovementAlertPosition[]) : [],
+        acknowledged_at: toIso(row.acknowledged_at),
+        acknowledged_by: row.acknowledged_by ?? null,
+        resolved_at: toIso(row.resolved_at),
+        resolved_by: row.resolved_by ?? null,
+    };
+}
+
+function toMovementAlertRuleEntry(row: QueryResultRow): MovementAlertRuleEntry {
+    return {
+        id: String(row.id),
+        name: String(row.name),
+        customer_id: row.customer_id != null ? Number(row.customer_id) : null,
+        customer_name: row.customer_name ?? null,
+        machine_id: row.machine_id ?? null,
+        machine_name: row.machine_name ?? null,
+        weekdays: Array.isArray(row.weekdays) ? row.weekdays.map(Number) : [],
+        start_minute: Number(row.start_minute),
+        end_minute: Number(row.end_minute),
+        min_distance_m: row.min_distance_m != null ? Number(row.min_distance_m) : null,
+        min_speed_kmh: row.min_speed_kmh != null ? Number(row.min_speed_kmh) : null,
+        active: Boolean(row.active),
+        created_by: row.created_by ?? null,
+        created_at: toIso(row.created_at) ?? "",
+    };
+}
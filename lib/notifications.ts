@@ -0,0 +1,156 @@
+// lib/notifications.ts
+// Purpose: Enqueue e-mail and SMS notifications and manage each user's channel
+// preferences. Messages are written to the notifications outbox with a template key and
+// its data; the Azure timer_notifications function renders the Norwegian text and sends
+// them (see azure/function/src/shared/notifications.ts).
+import { query } from "@/lib/db";
+
+export type NotificationChannel = "email" | "sms";
+
+export type NotificationPreferences = {
+    emailEnabled: boolean;
+    smsEnabled: boolean;
+    /** Contact details on the user, so the profile page can explain a missing channel. */
+    email: string | null;
+    phone: string | null;
+};
+
+// Keep in sync with the templates in azure/function/src/shared/notification-templates.ts.
+export type NotificationTemplateData = {
+    user_created: { name?: string | null; customers: string[]; phone?: string | null };
+    access_granted: {
+        name?: string | null;
+        customerName: string;
+        role: "admin" | "user";
+        grantedBy?: string | null;
+    };
+    agreement_expiring: {
+        name?: string | null;
+        agreementId: string;
+        customerName: string | null;
+        endDate: string;
+        daysLeft: number;
+        projectNumber?: string | null;
+        machines: string[];
+        audience: "customer" | "staff";
+    };
+    rental_request_decided: {
+        name?: string | null;
+        agreementId: string;
+        type: "extension" | "return";
+        status: "approved" | "rejected";
+        desiredDate: string;
+        decisionComment?: string | null;
+    };
+    booking_request_decided: {
+        name?: string | null;
+        requestId: string;
+        customerName: string | null;
+        machine: string | null;
+        startDate: string;
+        endDate: string;
+        status: "approved" | "rejected";
+        rentalId: string | null;
+        decisionComment?: string | null;
+    };
+    control_overdue: {
+        name?: string | null;
+        machines: Array<{
+            machineId: string;
+            machineName: string;
+            kind: "control" | "rail_control";
+            dueDate: string;
+            agreementId: string;
+            customerName: string | null;
+        }>;
+    };
+};
+
+export type NotificationTemplate = keyof NotificationTemplateData;
+
+export type NotificationRequest<T extends NotificationTemplate> = {
+    userId: string;
+    template: T;
+    data: NotificationTemplateData[T];
+    /** Producers that may fire twice for the same event pass a key to send it only once. */
+    dedupeKey?: string | null;
+};
+
+/**
+ * Queue a notification on every channel the user has enabled and has contact details
+ * for. Returns the number of messages queued. Failures are logged rather than thrown,
+ * so a notification problem never fails the request that triggered it.
+ */
+export async function enqueueNotification<T extends NotificationTemplate>(
+    request: NotificationRequest<T>,
+): Promise<number> {
+    try {
+        const { rowCount } = await query(
+            `
+            INSERT INTO notifications (user_id, channel, recipient, template, data, dedupe_key)
+            SELECT u.id, c.channel, c.recipient, $2::text, $3::jsonb, $4::text
+            FROM users u
+            LEFT JOIN notification_preferences p ON p.user_id = u.id
+            CROSS JOIN LATERAL (
+                VALUES
+                    ('email', NULLIF(TRIM(u.email), ''), COALESCE(p.email_enabled, true)),
+                    ('sms', NULLIF(TRIM(u.phone), ''), COALESCE(p.sms_enabled, true))
+            ) AS c(channel, recipient, enabled)
+            WHERE u.id = $1
+              AND c.enabled
+              AND c.recipient IS NOT NULL
+            ON CONFLICT (user_id, channel, dedupe_key) DO NOTHING;
+            `,
+            [request.userId, request.template, JSON.stringify(request.data), request.dedupeKey ?? null],
+        );
+        return rowCount ?? 0;
+    } catch (error) {
+        console.error(`Failed to enqueue ${request.template} notification for user ${request.userId}`, error);
+        return 0;
+    }
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const { rows } = await query(
+        `
+        SELECT
+            u.email,
+            u.phone,
+            COALESCE(p.email_enabled, true) AS email_enabled,
+            COALESCE(p.sms_enabled, true) AS sms_enabled
+        FROM users u
+        LEFT JOIN notification_preferences p ON p.user_id = u.id
+        WHERE u.id = $1;
+        `,
+        [userId],
+    );
+
+    const row = rows[0];
+    if (!row) return null;
+
+    return {
+        emailEnabled: Boolean(row.email_enabled),
+        smsEnabled: Boolean(row.sms_enabled),
+        email: row.email ?? null,
+        phone: row.phone ?? null,
+    };
+}
+
+export async function updateNotificationPreferences(
+    userId: string,
+    preferences: Partial<Pick<NotificationPreferences, "emailEnabled" | "smsEnabled">>,
+): Promise<NotificationPreferences | null> {
+    await query(
+        `
+        INSERT INTO notification_preferences (user_id, email_enabled, sms_enabled, updated_at)
+        VALUES ($1, COALESCE($2::boolean, true), COALESCE($3::boolean, true), now())
+        ON CONFLICT (user_id) DO UPDATE
+          SET email_enabled = COALESCE($2, notification_preferences.email_enabled),
+              sms_enabled = COALESCE($3, notification_preferences.sms_enabled),
+              updated_at = now();
+        `,
+        [userId, preferences.emailEnabled ?? null, preferences.smsEnabled ?? null],
+    );
+
+    return getNotificationPreferences(userId);
+}
@@ -0,0 +1,95 @@
+// lib/rental-request-forwarding.ts
+// Purpose: Hand approved extension and return requests on to Bjugstad. The adapter is
+// chosen with RENTAL_REQUEST_FORWARDER (bjugstad | log). It defaults to log, which only
+// writes the request to the server log, so local and test environments never register
+// changes in the Bjugstad system by accident. Its results are reported as stubbed, so they
+// are never shown as forwarded.
+import type { RentalRequestEntry } from "@/lib/rental-requests";
+
+export type RentalRequestForwardResult = {
+    /** Id of the request on the Bjugstad side, when the API returns one. */
+    reference: string | null;
+    /** Nothing was sent; the adapter only logged the request. */
+    stubbed?: boolean;
+};
+
+export type RentalRequestForwarder = {
+    name: string;
+    forward: (request: RentalRequestEntry) => Promise<RentalRequestForwardResult>;
+};
+
+const DEFAULT_BJUGSTAD_PATH = "/RentalRequests";
+const FORWARD_TIMEOUT_MS = 30_000;
+
+export function getRentalRequestForwarder(): RentalRequestForwarder {
+    const kind = process.env.RENTAL_REQUEST_FORWARDER?.trim().toLowerCase() || "log";
+
+    if (kind === "log") {
+        return {
+            name: "log",
+            forward: async (request) => {
+                console.log(
+                    `[rental-requests] ${request.type} request ${request.id} for rental ${request.rentalId} ` +
+                        `approved (desired date ${request.desiredDate}); not forwarded because RENTAL_REQUEST_FORWARDER=log`,
+                );
+                return { reference: null, stubbed: true };
+            },
+        };
+    }
+
+    if (kind === "bjugstad") {
+        return { name: "bjugstad", forward: forwardToBjugstad };
+    }
+
+    throw new Error(`Ukjent RENTAL_REQUEST_FORWARDER "${kind}"`);
+}
+
+async function forwardToBjugstad(request: RentalRequestEntry): Promise<RentalRequestForwardResult> {
+    const apiKey =
+        process.env.BJUGSTAD_API_KEY_PRIMARY?.trim() ||
+        process.env.BJUGSTAD_API_KEY_SECONDARY?.trim();
+    const baseUrl = process.env.BJUGSTAD_API_BASEURL?.trim();
+
+    if (!apiKey || !baseUrl) {
+        throw new Error("Mangler konfigurasjon for Bjugstad API");
+    }
+
+    const path = process.env.BJUGSTAD_RENTAL_REQUEST_PATH?.trim() || DEFAULT_BJUGSTAD_PATH;
+    const url = `${baseUrl.replace(/\/$/, "")}/${path.replace(/^\//, "")}`;
+
+    // The key stays the same across retries, so a retry after a lost response does not
+    // register the request twice.
+    const response = await fetch(url, {
+        method: "POST",
+        cache: "no-store",
+        signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+        headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            "Ocp-Apim-Subscription-Key": apiKey,
+            "Idempotency-Key": `rental-request-${request.id}`,
+        },
+        body: JSON.stringify({
+            portalRequestId: request.id,
+            type: request.type,
+            rentalId: Number(request.rentalId),
+            customerId: request.customerId,
+            machineIds: request.machines
+                .map((machine) => (machine.id != null ? Number(machine.id) : null))
+                .filter((id): id is number => id != null && Number.isFinite(id)),
+            desiredDate: request.desiredDate,
+            comment: request.comment,
+            requestedBy: request.requestedByName,
+            approvedBy: request.decidedBy,
+        }),
+    });
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`Bjugstad API svarte ${response.status} ${body}`.trim());
+    }
+
+    const data = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+    const reference = data?.requestId ?? data?.id ?? null;
+    return { reference: reference != null ? String(reference) : null };
+}
@@ -0,0 +1,457 @@
+// lib/rental-requests.ts
+// Purpose: Extension and early-return requests raised from the agreement dialog. Customers
+// create them on /avtaler, super admins approve or reject them in the Forespørsler queue,
+// and approved requests are forwarded to Bjugstad through the adapter in
+// lib/rental-request-forwarding.ts. The forwarding outcome is stored on the request so a
+// failed hand-over can be retried from the queue.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { invalidateCustomerCache } from "@/lib/bjugstad-cache";
+import { normalizeError, type AppError } from "@/lib/errors";
+import type { AgreementPayload } from "@/lib/agreements";
+import { enqueueNotification } from "@/lib/notifications";
+import { getRentalRequestForwarder } from "@/lib/rental-request-forwarding";
+
+// Decided requests older than this are left out of the queue.
+const DECIDED_LOOKBACK_DAYS = 90;
+const COMMENT_MAX_LENGTH = 1000;
+// A claim older than this is assumed to belong to a request that died mid-forward and may be
+// retried. Well above the adapter's request timeout.
+const FORWARD_CLAIM_STALE_SECONDS = 5 * 60;
+const FORWARD_STATUSES: RentalRequestForwardStatus[] = ["forwarding", "forwarded", "stubbed", "failed"];
+
+export type RentalRequestType = "extension" | "return";
+export type RentalRequestStatus = "pending" | "approved" | "rejected";
+/**
+ * forwarding: a request is handing it to Bjugstad right now. stubbed: the log adapter ran, so
+ * Bjugstad has not been told.
+ */
+export type RentalRequestForwardStatus = "forwarding" | "forwarded" | "stubbed" | "failed";
+export type RentalRequestAction = "approve" | "reject" | "forward";
+
+export type RentalRequestMachine = { id: string | null; name: string | null };
+
+export type RentalRequestEntry = {
+    id: string;
+    type: RentalRequestType;
+    rentalId: string;
+    customerId: number | null;
+    customerName: string | null;
+    machines: RentalRequestMachine[];
+    /** Calendar date (YYYY-MM-DD): the new end date, or the day the machines can be collected. */
+    desiredDate: string;
+    comment: string | null;
+    requestedByName: string | null;
+    status: RentalRequestStatus;
+    decidedAt: string | null;
+    decidedBy: string | null;
+    decisionComment: string | null;
+    forwardStatus: RentalRequestForwardStatus | null;
+    forwardReference: string | null;
+    forwardError: string | null;
+    forwardedAt: string | null;
+    createdAt: string;
+};
+
+export type RentalRequestInput = {
+    type: RentalRequestType;
+    desiredDate: string;
+    machineIds: string[];
+    comment: string | null;
+};
+
+export type RentalRequestViewer = { userId: string; isAdmin: boolean };
+
+export type RentalRequestsResult = {
+    requests: RentalRequestEntry[];
+    error: AppError | null;
+};
+
+export type RentalRequestCreateResult =
+    | { status: "ok"; request: RentalRequestEntry }
+    | { status: "invalid"; error: string }
+    | { status: "pending_exists" };
+
+export type RentalRequestUpdateResult =
+    | { status: "ok"; request: RentalRequestEntry }
+    | { status: "not_found" }
+    | { status: "already_decided" }
+    | { status: "not_forwardable" };
+
+const REQUEST_COLUMNS = `
+    r.id,
+    r.type,
+    r.rental_id,
+    r.customer_id,
+    r.customer_name,
+    r.machines,
+    to_char(r.desired_date, 'YYYY-MM-DD') AS desired_date,
+    r.comment,
+    r.requested_by_name,
+    r.status,
+    r.decided_at,
+    r.decided_by,
+    r.decision_comment,
+    r.forward_status,
+    r.forward_reference,
+    r.forward_error,
+    r.forwarded_at,
+    r.created_at
+`;
+
+// Customers only see requests for companies they have access to.
+const VISIBLE_TO_VIEWER = `
+    ($2::boolean OR r.customer_id IN (
+        SELECT customer_id FROM user_customer_accesses WHERE user_id = $3
+    ))
+`;
+
+export async function loadRentalRequestsForAdmin(): Promise<RentalRequestsResult> {
+    try {
+        const { rows } = await query(
+            `
+            SELECT ${REQUEST_COLUMNS}
+            FROM rental_requests r
+            WHERE r.status = 'pending'
+               OR r.decided_at >= now() - ($1::int * interval '1 day')
+            ORDER BY (r.status <> 'pending'), r.created_at DESC;
+            `,
+            [DECIDED_LOOKBACK_DAYS],
+        );
+        return { requests: rows.map((row) => toRentalRequestEntry(row)), error: null };
+    } catch (error) {
+        return {
+            requests: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente forespørsler",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente forespørslene akkurat na.",
+            }),
+        };
+    }
+}
+
+export async function listRentalRequestsForAgreement(
+    rentalId: string,
+    viewer: RentalRequestViewer,
+): Promise<RentalRequestEntry[]> {
+    const { rows } = await query(
+        `
+        SELECT ${REQUEST_COLUMNS}
+        FROM rental_requests r
+        WHERE r.rental_id = $1::int
+          AND ${VISIBLE_TO_VIEWER}
+        ORDER BY r.created_at DESC;
+        `,
+        [rentalId, viewer.isAdmin, viewer.userId],
+    );
+    return rows.map((row) => toRentalRequestEntry(row));
+}
+
+/** The newest request per agreement, keyed by rental id, for the status column on /avtaler. */
+export async function listLatestRentalRequests(
+    rentalIds: string[],
+    viewer: RentalRequestViewer,
+): Promise<Record<string, RentalRequestEntry>> {
+    const ids = rentalIds.filter((id) => /^\d+$/.test(id)).map(Number);
+    if (!ids.length) return {};
+
+    const { rows } = await query(
+        `
+        SELECT DISTINCT ON (r.rental_id) ${REQUEST_COLUMNS}
+        FROM rental_requests r
+        WHERE r.rental_id = ANY($1::int[])
+          AND ${VISIBLE_TO_VIEWER}
+        ORDER BY r.rental_id, r.created_at DESC;
+        `,
+        [ids, viewer.isAdmin, viewer.userId],
+    );
+
+    const latest: Record<string, RentalRequestEntry> = {};
+    for (const row of rows) {
+        const entry = toRentalRequestEntry(row);
+        latest[entry.rentalId] = entry;
+    }
+    return latest;
+}
+
+/**
+ * Validate a request payload from the agreement dialog. Dates are calendar dates
+ * (YYYY-MM-DD); the checks against the agreement itself happen in createRentalRequest.
+ */
+export function parseRentalRequestInput(
+    payload: unknown,
+): { input: RentalRequestInput } | { error: string } {
+    const body = (payload ?? {}) as Record<string, unknown>;
+
+    const type = body.type;
+    if (type !== "extension" && type !== "return") return { error: "Ugyldig type forespørsel" };
+
+    const desiredDate = typeof body.desiredDate === "string" ? body.desiredDate.trim() : "";
+    if (!isCalendarDate(desiredDate)) return { error: "Ugyldig dato" };
+
+    const machineIds = Array.isArray(body.machineIds)
+        ? [...new Set(body.machineIds.map((id) => String(id).trim()).filter(Boolean))]
+        : [];
+
+    const comment = typeof body.comment === "string" ? body.comment.trim() : "";
+    if (comment.length > COMMENT_MAX_LENGTH) {
+        return { error: `Kommentaren kan ikke være lengre enn ${COMMENT_MAX_LENGTH} tegn` };
+    }
+
+    return { input: { type, desiredDate, machineIds, comment: comment || null } };
+}
+
+/**
+ * Store a request for an agreement the requester can see. An extension must move the
+ * end date later; a return must fall between today and the current end date. Only one
+ * pending request of each type is allowed per agreement.
+ */
+export async function createRentalRequest(
+    agreement: AgreementPayload,
+    input: RentalRequestInput,
+    requestedBy: { userId: string; name: string | null },
+): Promise<RentalRequestCreateResult> {
+    const today = todayInOslo();
+    const endDate = agreement.endDate ? agreement.endDate.slice(0, 10) : null;
+
+    if (input.type === "extension") {
+        if (endDate && input.desiredDate <= endDate) {
+            return { status: "invalid", error: "Ny sluttdato må være etter dagens sluttdato" };
+        }
+        if (input.desiredDate < today) {
+            return { status: "invalid", error: "Ny sluttdato kan ikke være tilbake i tid" };
+        }
+    } else {
+        if (input.desiredDate < today) {
+            return { status: "invalid", error: "Returdato kan ikke være tilbake i tid" };
+        }
+        if (endDate && input.desiredDate > endDate) {
+            return { status: "invalid", error: "Returdato må være før avtalens sluttdato" };
+        }
+    }
+
+    const agreementMachines = agreement.machines ?? [];
+    const unknownMachine = input.machineIds.find(
+        (id) => !agreementMachines.some((machine) => machine.id === id),
+    );
+    if (unknownMachine) {
+        return { status: "invalid", error: `Maskin ${unknownMachine} er ikke del av avtalen` };
+    }
+
+    // No selection means the whole agreement.
+    const machines: RentalRequestMachine[] = agreementMachines
+        .filter((machine) => !input.machineIds.length || (machine.id && input.machineIds.includes(machine.id)))
+        .map((machine) => ({ id: machine.id ?? null, name: machine.name ?? null }));
+
+    // uq_rental_requests_rental_type_pending turns a second pending request into no row.
+    const { rows } = await query(
+        `
+        WITH inserted AS (
+            INSERT INTO rental_requests (
+                type, rental_id, customer_id, customer_name, machines, desired_date,
+                comment, requested_by_user_id, requested_by_name
+            )
+            VALUES ($1, $2::int, $3, $4, $5::jsonb, $6::date, $7, $8, $9)
+            ON CONFLICT (rental_id, type) WHERE status = 'pending' DO NOTHING
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}
+        FROM inserted r;
+        `,
+        [
+            input.type,
+            agreement.id,
+            agreement.customerId ?? null,
+            agreement.customerName ?? null,
+            JSON.stringify(machines),
+            input.desiredDate,
+            input.comment,
+            requestedBy.userId,
+            requestedBy.name,
+        ],
+    );
+    if (!rows[0]) return { status: "pending_exists" };
+
+    return { status: "ok", request: toRentalRequestEntry(rows[0]) };
+}
+
+/**
+ * Approve or reject a pending request, or retry forwarding an approved one. Approving
+ * forwards the request straight away; a forwarding failure is recorded on the request
+ * rather than undoing the approval. Both paths claim the row (forward_status =
+ * 'forwarding') in the same UPDATE that checks it, so concurrent clicks forward it once.
+ */
+export async function updateRentalRequest(
+    requestId: string,
+    action: RentalRequestAction,
+    decidedBy: string | null,
+    decisionComment: string | null,
+): Promise<RentalRequestUpdateResult> {
+    const { rows: existing } = await query(
+        `SELECT status, forward_status FROM rental_requests WHERE id = $1::bigint`,
+        [requestId],
+    );
+    if (!existing[0]) return { status: "not_found" };
+
+    if (action === "forward") {
+        const { rows } = await query(
+            `
+            WITH claimed AS (
+                UPDATE rental_requests
+                   SET forward_status = 'forwarding',
+                       updated_at = now()
+                 WHERE id = $1::bigint
+                   AND status = 'approved'
+                   AND forward_status IS DISTINCT FROM 'forwarded'
+                   AND (
+                       forward_status IS DISTINCT FROM 'forwarding'
+                       OR updated_at < now() - make_interval(secs => $2)
+                   )
+                RETURNING *
+            )
+            SELECT ${REQUEST_COLUMNS}
+            FROM claimed r;
+            `,
+            [requestId, FORWARD_CLAIM_STALE_SECONDS],
+        );
+        if (!rows[0]) return { status: "not_forwardable" };
+        return { status: "ok", request: await forwardRentalRequest(toRentalRequestEntry(rows[0])) };
+    }
+
+    if (existing[0].status !== "pending") return { status: "already_decided" };
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE rental_requests
+               SET status = $2,
+                   decided_at = now(),
+                   decided_by = $3,
+                   decision_comment = $4,
+                   forward_status = CASE WHEN $2 = 'approved' THEN 'forwarding' ELSE forward_status END,
+                   updated_at = now()
+             WHERE id = $1::bigint
+               AND status = 'pending'
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}, r.requested_by_user_id
+        FROM updated r;
+        `,
+        [requestId, action === "approve" ? "approved" : "rejected", decidedBy, decisionComment],
+    );
+    if (!rows[0]) return { status: "already_decided" };
+
+    let request = toRentalRequestEntry(rows[0]);
+    if (request.status === "approved") {
+        request = await forwardRentalRequest(request);
+    }
+
+    if (rows[0].requested_by_user_id) {
+        await enqueueNotification({
+            userId: String(rows[0].requested_by_user_id),
+            template: "rental_request_decided",
+            data: {
+                name: request.requestedByName,
+                agreementId: request.rentalId,
+                type: request.type,
+                status: request.status === "approved" ? "approved" : "rejected",
+                desiredDate: request.desiredDate,
+                decisionComment: request.decisionComment,
+            },
+            dedupeKey: `rental_request_decided:${request.id}`,
+        });
+    }
+
+    return { status: "ok", request };
+}
+
+async function forwardRentalRequest(request: RentalRequestEntry): Promise<RentalRequestEntry> {
+    let forwardStatus: RentalRequestForwardStatus;
+    let reference: string | null = null;
+    let forwardError: string | null = null;
+
+    try {
+        const forwarder = getRentalRequestForwarder();
+        const result = await forwarder.forward(request);
+        reference = result.reference;
+        forwardStatus = result.stubbed ? "stubbed" : "forwarded";
+        // The agreement may change on the Bjugstad side. This only clears the live API cache;
+        // while the rentals mirror is fresh, /avtaler shows the change after the next sync.
+        if (request.customerId != null) {
+            await invalidateCustomerCache(request.customerId);
+        }
+    } catch (error) {
+        console.error(`Failed to forward rental request ${request.id}`, error);
+        forwardStatus = "failed";
+        forwardError = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    }
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE rental_requests
+               SET forward_status = $2,
+                   forward_reference = COALESCE($3, forward_reference),
+                   forward_error = $4,
+                   forwarded_at = CASE WHEN $2 = 'forwarded' THEN now() ELSE forwarded_at END,
+                   updated_at = now()
+             WHERE id = $1::bigint
+            RETURNING *
+        )
+        SELECT ${REQUEST_COLUMNS}
+        FROM updated r;
+        `,
+        [request.id, forwardStatus, reference, forwardError],
+    );
+    return rows[0] ? toRentalRequestEntry(rows[0]) : request;
+}
+
+function isCalendarDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function todayInOslo(): string {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone: "Europe/Oslo",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(new Date());
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
+
+function toRentalRequestEntry(row: QueryResultRow): RentalRequestEntry {
+    const status: RentalRequestStatus =
+        row.status === "approved" || row.status === "rejected" ? row.status : "pending";
+    const forwardStatus: RentalRequestForwardStatus | null =
+        FORWARD_STATUSES.includes(row.forward_status) ? row.forward_status : null;
+
+    return {
+        id: String(row.id),
+        type: row.type === "return" ? "return" : "extension",
+        rentalId: String(row.rental_id),
+        customerId: row.customer_id != null ? Number(row.customer_id) : null,
+        customerName: row.customer_name ?? null,
+        machines: Array.isArray(row.machines) ? (row.machines as RentalRequestMachine[]) : [],
+        desiredDate: String(row.desired_date),
+        comment: row.comment ?? null,
+        requestedByName: row.requested_by_name ?? null,
+        status,
+        decidedAt: toIso(row.decided_at),
+        decidedBy: row.decided_by ?? null,
+        decisionComment: row.decision_comment ?? null,
+        forwardStatus,
+        forwardReference: row.forward_reference ?? null,
+        forwardError: row.forward_error ?? null,
+        forwardedAt: toIso(row.forwarded_at),
+        createdAt: toIso(row.created_at) ?? "",
+    };
+}
@@ -0,0 +1,417 @@
+// lib/service-tickets.ts
+// Purpose: Breakdown and damage reports from the machine dialog ("Meld feil/skade").
+// A ticket is tied to the machine and, when the reporter rents it, to the agreement and
+// customer, and keeps a snapshot of the machine's last known position. Photos are checked
+// for type and viruses (lib/upload-scan.ts) and stored through lib/file-storage.ts. Super admins move tickets through open -> in_progress -> resolved
+// on the Servicesaker page.
+import { randomUUID } from "crypto";
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { normalizeError, type AppError } from "@/lib/errors";
+import { getFileStorage, toStorageFileName } from "@/lib/file-storage";
+import { getMachineLocationById } from "@/lib/machines";
+import { getUploadScanner, hasFileSignature } from "@/lib/upload-scan";
+import type {
+    ServiceTicketCategory,
+    ServiceTicketEntry,
+    ServiceTicketPhoto,
+    ServiceTicketStatus,
+} from "@/types/machines";
+
+// Resolved tickets older than this are left out of the admin list.
+const RESOLVED_LOOKBACK_DAYS = 90;
+const DESCRIPTION_MAX_LENGTH = 4000;
+const MAX_PHOTOS = 6;
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const PHOTO_CONTENT_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"]);
+
+const CATEGORIES: ServiceTicketCategory[] = ["breakdown", "damage", "service", "other"];
+
+// Allowed status changes. Resolved tickets can be reopened if the problem comes back.
+const TRANSITIONS: Record<ServiceTicketStatus, ServiceTicketStatus[]> = {
+    open: ["in_progress", "resolved"],
+    in_progress: ["open", "resolved"],
+    resolved: ["open"],
+};
+
+export type ServiceTicketViewer = { userId: string; isAdmin: boolean };
+
+export type ServiceTicketInput = {
+    category: ServiceTicketCategory;
+    description: string;
+    includePosition: boolean;
+    photos: File[];
+};
+
+export type ServiceTicketAgreement = {
+    id: string;
+    customerId: number | null;
+    customerName: string | null;
+};
+
+export type ServiceTicketsResult = {
+    tickets: ServiceTicketEntry[];
+    error: AppError | null;
+};
+
+export type ServiceTicketCreateResult =
+    | { status: "ok"; ticket: ServiceTicketEntry }
+    | { status: "rejected"; message: string }
+    | { status: "scan_unavailable" };
+
+export type ServiceTicketUpdateResult =
+    | { status: "ok"; ticket: ServiceTicketEntry }
+    | { status: "not_found" }
+    | { status: "invalid_transition" };
+
+export type ServiceTicketPhotoFile = {
+    storageKey: string;
+    fileName: string;
+    contentType: string;
+};
+
+const TICKET_COLUMNS = `
+    t.id,
+    t.machine_id,
+    m.name AS machine_name,
+    t.rental_id,
+    t.customer_id,
+    t.customer_name,
+    t.category,
+    t.description,
+    t.latitude,
+    t.longitude,
+    t.position_reported_at,
+    t.status,
+    t.status_note,
+    t.status_changed_at,
+    t.status_changed_by,
+    t.resolved_at,
+    t.reported_by_name,
+    t.created_at,
+    COALESCE((
+        SELECT json_agg(json_build_object(
+            'id', p.id::text,
+            'file_name', p.file_name,
+            'content_type', p.content_type,
+            'size_bytes', p.size_bytes
+        ) ORDER BY p.id)
+        FROM service_ticket_photos p
+        WHERE p.ticket_id = t.id
+    ), '[]'::json) AS photos
+`;
+
+// Customers only see tickets for companies they have access to.
+const VISIBLE_TO_VIEWER = `
+    ($2::boolean OR t.customer_id IN (
+        SELECT customer_id FROM user_customer_accesses WHERE user_id = $3
+    ))
+`;
+
+export async function loadServiceTicketsForAdmin(): Promise<ServiceTicketsResult> {
+    try {
+        const { rows } = await query(
+            `
+            SELECT ${TICKET_COLUMNS}
+            FROM service_tickets t
+            LEFT JOIN machines m ON m.id = t.machine_id
+            WHERE t.status <> 'resolved'
+               OR t.resolved_at >= now() - ($1::int * interval '1 day')
+            ORDER BY (t.status = 'resolved'), t.created_at DESC;
+            `,
+            [RESOLVED_LOOKBACK_DAYS],
+        );
+        return { tickets: rows.map((row) => toServiceTicketEntry(row)), error: null };
+    } catch (error) {
+        return {
+            tickets: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente servicesaker",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente servicesakene akkurat na.",
+            }),
+        };
+    }
+}
+
+/** Unresolved tickets for a machine, for the machine dialog. */
+export async function listOpenMachineServiceTickets(
+    machineId: string,
+    viewer: ServiceTicketViewer,
+): Promise<ServiceTicketEntry[]> {
+    const { rows } = await query(
+        `
+        SELECT ${TICKET_COLUMNS}
+        FROM service_tickets t
+        LEFT JOIN machines m ON m.id = t.machine_id
+        WHERE t.machine_id = $1
+          AND t.status <> 'resolved'
+          AND ${VISIBLE_TO_VIEWER}
+        ORDER BY t.created_at DESC;
+        `,
+        [machineId, viewer.isAdmin, viewer.userId],
+    );
+    return rows.map((row) => toServiceTicketEntry(row));
+}
+
+/** Validate the multipart form from the machine dialog. */
+export function parseServiceTicketForm(
+    form: FormData,
+): { input: ServiceTicketInput } | { error: string } {
+    const category = String(form.get("category") ?? "") as ServiceTicketCategory;
+    if (!CATEGORIES.includes(category)) return { error: "Velg en kategori" };
+
+    const description = String(form.get("description") ?? "").trim();
+    if (!description) return { error: "Beskriv feilen eller skaden" };
+    if (description.length > DESCRIPTION_MAX_LENGTH) {
+        return { error: `Beskrivelsen kan ikke være lengre enn ${DESCRIPTION_MAX_LENGTH} tegn` };
+    }
+
+    const photos = form
+        .getAll("photos")
+        .filter((entry): entry is File => typeof entry === "object" && entry !== null && entry.size > 0);
+    if (photos.length > MAX_PHOTOS) return { error: `Du kan laste opp maks ${MAX_PHOTOS} bilder` };
+    for (const photo of photos) {
+        if (!PHOTO_CONTENT_TYPES.has(photo.type.toLowerCase())) {
+            return { error: `"${photo.name}" er ikke et støttet bildeformat (JPEG, PNG, WebP eller HEIC)` };
+        }
+        if (photo.size > MAX_PHOTO_BYTES) {
+            return { error: `"${photo.name}" er større enn ${MAX_PHOTO_BYTES / (1024 * 1024)} MB` };
+        }
+    }
+
+    return {
+        input: {
+            category,
+            description,
+            includePosition: form.get("includePosition") !== "false",
+            photos,
+        },
+    };
+}
+
+/**
+ * Store a ticket with its photos. Nothing is stored unless every photo starts like the
+ * image type it claims and passes the virus scan. Photos are uploaded first and the ticket
+ * and photo rows are written in one statement; uploads are removed again if that fails.
+ */
+export async function createServiceTicket(
+    machineId: string,
+    input: ServiceTicketInput,
+    agreement: ServiceTicketAgreement | null,
+    reportedBy: { userId: string; name: string | null },
+): Promise<ServiceTicketCreateResult> {
+    const scanner = getUploadScanner();
+    const checked: Array<{ photo: File; data: ArrayBuffer; contentType: string; scanStatus: string }> = [];
+
+    for (const photo of input.photos) {
+        const data = await photo.arrayBuffer();
+        const contentType = photo.type.toLowerCase();
+        if (!hasFileSignature(contentType, data)) {
+            return { status: "rejected", message: `Innholdet i "${photo.name}" samsvarer ikke med bildeformatet` };
+        }
+
+        let scan;
+        try {
+            scan = await scanner.scan(photo.name, data);
+        } catch (error) {
+            console.error(`Virus scan failed for service ticket photo "${photo.name}" on machine ${machineId}`, error);
+            return { status: "scan_unavailable" };
+        }
+        if (scan.status === "infected") {
+            console.warn(`Rejected infected service ticket photo "${photo.name}" on machine ${machineId}`, scan.signature);
+            return { status: "rejected", message: `"${photo.name}" ble stoppet av virusskanningen` };
+        }
+
+        checked.push({ photo, data, contentType, scanStatus: scan.status });
+    }
+
+    const location = input.includePosition ? await getMachineLocationById(machineId) : null;
+    const storage = getFileStorage();
+    const folder = `service-tickets/${randomUUID()}`;
+    const uploaded: Array<{
+        storage_key: string;
+        file_name: string;
+        content_type: string;
+        size_bytes: number;
+        scan_status: string;
+    }> = [];
+
+    try {
+        for (const [index, { photo, data, contentType, scanStatus }] of checked.entries()) {
+            const storageKey = `${folder}/${index + 1}-${toStorageFileName(photo.name)}`;
+            await storage.put(storageKey, data, contentType);
+            uploaded.push({
+                storage_key: storageKey,
+                file_name: photo.name || `bilde-${index + 1}`,
+                content_type: contentType,
+                size_bytes: photo.size,
+                scan_status: scanStatus,
+            });
+        }
+
+        const { rows } = await query(
+            `
+            WITH ticket AS (
+                INSERT INTO service_tickets (
+                    machine_id, rental_id, customer_id, customer_name, category, description,
+                    latitude, longitude, position_reported_at, reported_by_user_id, reported_by_name
+                )
+                VALUES ($1, $2::int, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                RETURNING id
+            ),
+            photos AS (
+                INSERT INTO service_ticket_photos (
+                    ticket_id, storage_key, file_name, content_type, size_bytes, scan_status
+                )
+                SELECT ticket.id, p.storage_key, p.file_name, p.content_type, p.size_bytes, p.scan_status
+                FROM ticket
+                CROSS JOIN jsonb_to_recordset($12::jsonb)
+                    AS p(storage_key text, file_name text, content_type text, size_bytes int, scan_status text)
+            )
+            SELECT id::text AS id FROM ticket;
+            `,
+            [
+                machineId,
+                agreement?.id ?? null,
+                agreement?.customerId ?? null,
+                agreement?.customerName ?? null,
+                input.category,
+                input.description,
+                location?.lat ?? null,
+                location?.lng ?? null,
+                location?.last_pos_reported_at ?? null,
+                reportedBy.userId,
+                reportedBy.name,
+                JSON.stringify(uploaded),
+            ],
+        );
+
+        const ticket = await getServiceTicket(rows[0].id);
+        if (!ticket) throw new Error(`Service ticket ${rows[0].id} disappeared after insert`);
+        return { status: "ok", ticket };
+    } catch (error) {
+        await Promise.all(
+            uploaded.map((photo) =>
+                storage.delete(photo.storage_key).catch((cleanupError) => {
+                    console.error(`Failed to remove orphaned upload ${photo.storage_key}`, cleanupError);
+                }),
+            ),
+        );
+        throw error;
+    }
+}
+
+export async function updateServiceTicketStatus(
+    ticketId: string,
+    status: ServiceTicketStatus,
+    note: string | null,
+    changedBy: string | null,
+): Promise<ServiceTicketUpdateResult> {
+    const { rows: existing } = await query(
+        `SELECT status FROM service_tickets WHERE id = $1::bigint`,
+        [ticketId],
+    );
+    if (!existing[0]) return { status: "not_found" };
+
+    const current = existing[0].status as ServiceTicketStatus;
+    if (!TRANSITIONS[current]?.includes(status)) return { status: "invalid_transition" };
+
+    const { rowCount } = await query(
+        `
+        UPDATE service_tickets
+           SET status = $2,
+               status_note = $3,
+               status_changed_at = now(),
+               status_changed_by = $4,
+               resolved_at = CASE WHEN $2 = 'resolved' THEN now() ELSE NULL END,
+               updated_at = now()
+         WHERE id = $1::bigint
+           AND status = $5
+        `,
+        [ticketId, status, note, changedBy, current],
+    );
+    if (!rowCount) return { status: "invalid_transition" };
+
+    const ticket = await getServiceTicket(ticketId);
+    return ticket ? { status: "ok", ticket } : { status: "not_found" };
+}
+
+/** Storage details for a photo, or null when it does not exist or the viewer cannot see it. */
+export async function getServiceTicketPhotoFile(
+    ticketId: string,
+    photoId: string,
+    viewer: ServiceTicketViewer,
+): Promise<ServiceTicketPhotoFile | null> {
+    const { rows } = await query(
+        `
+        SELECT p.storage_key, p.file_name, p.content_type
+        FROM service_ticket_photos p
+        JOIN service_tickets t ON t.id = p.ticket_id
+        WHERE p.id = $4::bigint
+          AND p.ticket_id = $1::bigint
+          AND ${VISIBLE_TO_VIEWER};
+        `,
+        [ticketId, viewer.isAdmin, viewer.userId, photoId],
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return { storageKey: row.storage_key, fileName: row.file_name, contentType: row.content_type };
+}
+
+async function getServiceTicket(ticketId: string): Promise<ServiceTicketEntry | null> {
+    const { rows } = await query(
+        `
+        SELECT ${TICKET_COLUMNS}
+        FROM service_tickets t
+        LEFT JOIN machines m ON m.id = t.machine_id
+        WHERE t.id = $1::bigint;
+        `,
+        [ticketId],
+    );
+    return rows[0] ? toServiceTicketEntry(rows[0]) : null;
+}
+
+function toIso(value: unknown): string | null {
+    return value ? new Date(value as string).toISOString() : null;
+}
+
+function toServiceTicketEntry(row: QueryResultRow): ServiceTicketEntry {
+    const id = String(row.id);
+    const status: ServiceTicketStatus =
+        row.status === "in_progress" || row.status === "resolved" ? row.status : "open";
+    const category: ServiceTicketCategory = CATEGORIES.includes(row.category) ? row.category : "other";
+    const photos: ServiceTicketPhoto[] = (Array.isArray(row.photos) ? row.photos : []).map(
+        (photo: { id: string; file_name: string; content_type: string; size_bytes: number }) => ({
+            id: String(photo.id),
+            file_name: photo.file_name,
+            content_type: photo.content_type,
+            size_bytes: Number(photo.size_bytes),
+            url: `/api/service-tickets/${id}/photos/${photo.id}`,
+        }),
+    );
+
+    return {
+        id,
+        machine_id: String(row.machine_id),
+        machine_name: row.machine_name ?? null,
+        rental_id: row.rental_id != null ? String(row.rental_id) : null,
+        customer_id: row.customer_id != null ? Number(row.customer_id) : null,
+        customer_name: row.customer_name ?? null,
+        category,
+        description: String(row.description),
+        latitude: row.latitude != null ? Number(row.latitude) : null,
+        longitude: row.longitude != null ? Number(row.longitude) : null,
+        position_reported_at: toIso(row.position_reported_at),
+        status,
+        status_note: row.status_note ?? null,
+        status_changed_at: toIso(row.status_changed_at),
+        status_changed_by: row.status_changed_by ?? null,
+        resolved_at: toIso(row.resolved_at),
+        reported_by_name: row.reported_by_name ?? null,
+        created_at: toIso(row.created_at) ?? "",
+        photos,
+    };
+}
@@ -0,0 +1,143 @@
+// lib/telemetry-links.ts
+// Purpose: Admin view of machine_telemetry_links, the table the telemetry timers use to
+// translate OEM and Trackunit unit ids into internal machine ids. Units the timers could not
+// match on serial number (or, for Trackunit, on machines.trackunit_id) show up here without a
+// machine until an admin links them.
+import type { QueryResultRow } from "pg";
+import { query } from "@/lib/db";
+import { normalizeError, type AppError } from "@/lib/errors";
+import type {
+    TelemetryLinkEntry,
+    TelemetryLinkMachineOption,
+    TelemetryLinkMatch,
+} from "@/types/machines";
+
+export type TelemetryLinksResult = {
+    links: TelemetryLinkEntry[];
+    machines: TelemetryLinkMachineOption[];
+    error: AppError | null;
+};
+
+export type TelemetryLinkUpdateResult =
+    | { status: "ok"; link: TelemetryLinkEntry }
+    | { status: "link_not_found" }
+    | { status: "machine_not_found" };
+
+const LINK_COLUMNS = `
+    l.id,
+    l.source,
+    l.external_id,
+    l.serial_number,
+    l.oem_name,
+    l.model,
+    l.machine_id,
+    m.name AS machine_name,
+    l.matched_by,
+    l.linked_at,
+    l.linked_by,
+    l.first_seen_at,
+    l.last_seen_at
+`;
+
+export async function loadTelemetryLinksForAdmin(): Promise<TelemetryLinksResult> {
+    try {
+        const [linkResult, machineResult] = await Promise.all([
+            query(
+                `
+                SELECT ${LINK_COLUMNS}
+                FROM machine_telemetry_links l
+                LEFT JOIN machines m ON m.id = l.machine_id
+                ORDER BY (l.machine_id IS NULL) DESC, l.last_seen_at DESC;
+                `,
+            ),
+            query(
+                `
+                SELECT id, name, oem_name, model, serial_number
+                FROM machines
+                ORDER BY id;
+                `,
+            ),
+        ]);
+
+        return {
+            links: linkResult.rows.map((row) => toTelemetryLinkEntry(row)),
+            machines: machineResult.rows.map((row) => ({
+                id: String(row.id),
+                name: row.name ?? null,
+                oem_name: row.oem_name ?? null,
+                model: row.model ?? null,
+                serial_number: row.serial_number ?? null,
+            })),
+            error: null,
+        };
+    } catch (error) {
+        return {
+            links: [],
+            machines: [],
+            error: normalizeError(error, {
+                title: "Kunne ikke hente telemetrienheter",
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : "Vi klarte ikke hente telemetrienhetene akkurat na.",
+            }),
+        };
+    }
+}
+
+// Passing machineId null unlinks the unit. Both directions are stored as "manual" so the
+// timers' auto-match does not overrule the admin's choice.
+export async function updateTelemetryLink(
+    linkId: string,
+    machineId: string | null,
+    linkedBy: string | null,
+): Promise<TelemetryLinkUpdateResult> {
+    if (machineId) {
+        const { rowCount } = await query(`SELECT 1 FROM machines WHERE id = $1`, [machineId]);
+        if (!rowCount) return { status: "machine_not_found" };
+    }
+
+    const { rows } = await query(
+        `
+        WITH updated AS (
+            UPDATE machine_telemetry_links
+               SET machine_id = $2,
+                   matched_by = 'manual',
+                   linked_at = CASE WHEN $2::text IS NULL THEN NULL ELSE now() END,
+                   linked_by = $3
+             WHERE id = $1::bigint
+            RETURNING *
+        )
+        SELECT ${LINK_COLUMNS}
+        FROM updated l
+        LEFT JOIN machines m ON m.id = l.machine_id;
+        `,
+        [linkId, machineId, linkedBy],
+    );
+
+    if (!rows[0]) return { status: "link_not_found" };
+    return { status: "ok", link: toTelemetryLinkEntry(rows[0]) };
+}
+
+function toTelemetryLinkEntry(row: QueryResultRow): TelemetryLinkEntry {
+    const toIso = (value: unknown) => (value ? new Date(value as string).toISOString() : null);
+    const matchedBy = ["serial", "trackunit_id", "manual"].includes(row.matched_by)
+        ? (row.matched_by as TelemetryLinkMatch)
+        : null;
+
+    return {
+        id: String(row.id),
+        source: String(row.source),
+        external_id: String(row.external_id),
+        serial_number: row.serial_number ?? null,
+        oem_name: row.oem_name ?? null,
+        model: row.model ?? null,
+        machine_id: row.machine_id != null ? String(row.machine_id) : null,
+        machine_name: row.machine_name ?? null,
+        matched_by: matchedBy,
+        linked_at: toIso(row.linked_at),
+        linked_by: row.linked_by ?? null,
+        first_seen_at: toIso(row.first_seen_at) ?? "",
+        last_seen_at: toIso(row.last_seen_at) ?? "",
+    };
+}
@@ -0,0 +1,102 @@
+// lib/upload-scan.ts
+// Purpose: Virus scanning and content checks for files customers upload through the portal.
+// hasFileSignature checks that a file's first bytes match its type. The scanner is
+// chosen with UPLOAD_SCAN_BACKEND (http | none). Without an explicit choice the HTTP scanner
+// is used when UPLOAD_SCAN_URL is set, and scanning is skipped otherwise, so development
+// works without a scanner. Skipped scans are recorded with the upload.
+//
+// The HTTP scanner (typically a ClamAV REST wrapper) receives the raw file as the request
+// body and answers with JSON: { "infected": boolean, "signature"?: string }.
+
+export type UploadScanResult =
+    | { status: "clean" }
+    | { status: "infected"; signature: string | null }
+    | { status: "skipped" };
+
+export type UploadScanner = {
+    name: "http" | "none";
+    /** Throws when the scanner cannot be reached; callers must not store the file then. */
+    scan: (fileName: string, data: ArrayBuffer) => Promise<UploadScanResult>;
+};
+
+const SCAN_TIMEOUT_MS = 30_000;
+
+// The first bytes each accepted format starts with.
+const FILE_SIGNATURES: Record<string, (head: Uint8Array) => boolean> = {
+    "application/pdf": (head) => startsWith(head, "%PDF-"),
+    "image/jpeg": (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+    "image/png": (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47]),
+    "image/webp": (head) => startsWith(head, "RIFF") && startsWith(head.subarray(8), "WEBP"),
+    "image/heic": (head) => startsWith(head.subarray(4), "ftyp"),
+    "image/heif": (head) => startsWith(head.subarray(4), "ftyp"),
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": (head) =>
+        startsWith(head, [0x50, 0x4b, 0x03, 0x04]),
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": (head) =>
+        startsWith(head, [0x50, 0x4b, 0x03, 0x04]),
+};
+
+let scanner: UploadScanner | null = null;
+
+export function getUploadScanner(): UploadScanner {
+    if (scanner) return scanner;
+
+    const url = process.env.UPLOAD_SCAN_URL?.trim();
+    const kind = process.env.UPLOAD_SCAN_BACKEND?.trim().toLowerCase() || (url ? "http" : "none");
+
+    if (kind === "http") {
+        if (!url) {
+            throw new Error("UPLOAD_SCAN_URL må være satt for virusskanning");
+        }
+        scanner = createHttpScanner(url, process.env.UPLOAD_SCAN_API_KEY?.trim() || null);
+    } else if (kind === "none") {
+        scanner = { name: "none", scan: async () => ({ status: "skipped" }) };
+    } else {
+        throw new Error(`Ukjent UPLOAD_SCAN_BACKEND "${kind}"`);
+    }
+
+    return scanner;
+}
+
+/** False when the content does not start like contentType, or the type is not known. */
+export function hasFileSignature(contentType: string, data: ArrayBuffer): boolean {
+    const matches = FILE_SIGNATURES[contentType.toLowerCase()];
+    return Boolean(matches?.(new Uint8Array(data, 0, Math.min(data.byteLength, 16))));
+}
+
+function createHttpScanner(url: string, apiKey: string | null): UploadScanner {
+    return {
+        name: "http",
+        scan: async (fileName, data) => {
+            const headers: Record<string, string> = {
+                "Content-Type": "application/octet-stream",
+                "X-File-Name": encodeURIComponent(fileName),
+            };
+            if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+            const response = await fetch(url, {
+                method: "POST",
+                cache: "no-store",
+                headers,
+                body: data,
+                signal: AbortSignal.timeout(SCAN_TIMEOUT_MS),
+            });
+            if (!response.ok) {
+                const body = await response.text().catch(() => "");
+                throw new Error(`Virusskanneren svarte ${response.status}: ${body}`.trim());
+            }
+
+            const payload = (await response.json()) as { infected?: unknown; signature?: unknown };
+            if (typeof payload.infected !== "boolean") {
+                throw new Error("Virusskanneren returnerte et ukjent svar");
+            }
+            return payload.infected
+                ? { status: "infected", signature: typeof payload.signature === "string" ? payload.signature : null }
+                : { status: "clean" };
+        },
+    };
+}
+
+function startsWith(head: Uint8Array, signature: string | number[]) {
+    const bytes = typeof signature === "string" ? [...signature].map((char) => char.charCodeAt(0)) : signature;
+    return bytes.length <= head.length && bytes.every((byte, index) => head[index] === byte);
+}
@@ -0,0 +1,227 @@
+// lib/zip.ts
+// Purpose: Stream a ZIP archive without buffering the files. Each entry is deflated as it
+// is read and followed by a data descriptor, so sizes and checksums do not need to be
+// known up front. No ZIP64 support: callers cap the total size well below 4 GB.
+import { Readable, Transform } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { createDeflateRaw } from "zlib";
+
+export type ZipEntry = {
+    /** Path inside the archive, using "/" between folders. */
+    name: string;
+    modifiedAt?: Date | null;
+    /** Opened lazily, once the previous entry has been written. */
+    open: () => Promise<ReadableStream<Uint8Array>>;
+};
+
+export type ZipStreamOptions = {
+    /** Uncompressed bytes allowed in total; the stream errors when it is exceeded. */
+    maxBytes?: number;
+    /** Called when an entry fails to open; return false to abort the whole archive. */
+    onEntryError?: (entry: ZipEntry, error: unknown) => boolean;
+};
+
+type CentralRecord = {
+    name: Buffer;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+};
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+const MAX_ZIP32 = 0xffffffff;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export class ZipSizeLimitError extends Error {
+    constructor(maxBytes: number) {
+        super(`ZIP-filen ville blitt større enn ${Math.round(maxBytes / (1024 * 1024))} MB`);
+        this.name = "ZipSizeLimitError";
+    }
+}
+
+export function createZipStream(entries: ZipEntry[], options: ZipStreamOptions = {}): ReadableStream<Uint8Array> {
+    const iterator = writeZip(entries, options);
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { value, done } = await iterator.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await iterator.return(undefined);
+        },
+    });
+}
+
+/** "Samsvarserklæring: CE/2024?.pdf" -> "Samsvarserklæring_ CE_2024_.pdf" */
+export function toZipFileName(name: string): string {
+    const cleaned = name.replace(/[\p{Cc}\\/:*?"<>|]+/gu, "_").replace(/\s+/g, " ").trim();
+    return cleaned.replace(/^\.+/, "").slice(0, 150) || "fil";
+}
+
+async function* writeZip(entries: ZipEntry[], options: ZipStreamOptions): AsyncGenerator<Uint8Array> {
+    const records: CentralRecord[] = [];
+    const usedNames = new Set<string>();
+    let offset = 0;
+    let totalBytes = 0;
+
+    for (const entry of entries) {
+        let body: ReadableStream<Uint8Array>;
+        try {
+            body = await entry.open();
+        } catch (error) {
+            if (options.onEntryError?.(entry, error) === false) throw error;
+            continue;
+        }
+
+        const name = Buffer.from(uniqueName(entry.name, usedNames), "utf8");
+        const modifiedAt = entry.modifiedAt && !Number.isNaN(entry.modifiedAt.getTime()) ? entry.modifiedAt : new Date();
+        const { time, date } = toDosDateTime(modifiedAt);
+        const header = localHeader(name, time, date);
+        yield header;
+
+        let crc = 0xffffffff;
+        let size = 0;
+        let compressedSize = 0;
+        const tap = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                size += chunk.length;
+                totalBytes += chunk.length;
+                if (options.maxBytes != null && totalBytes > options.maxBytes) {
+                    callback(new ZipSizeLimitError(options.maxBytes));
+                    return;
+                }
+                for (let i = 0; i < chunk.length; i++) {
+                    crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+                }
+                callback(null, chunk);
+            },
+        });
+
+        const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+        const deflated = source.pipe(tap).pipe(createDeflateRaw());
+        source.on("error", (error) => deflated.destroy(error));
+        tap.on("error", (error) => deflated.destroy(error));
+
+        for await (const chunk of deflated as AsyncIterable<Buffer>) {
+            compressedSize += chunk.length;
+            yield chunk;
+        }
+
+        crc = (crc ^ 0xffffffff) >>> 0;
+        yield dataDescriptor(crc, compressedSize, size);
+
+        records.push({ name, crc, compressedSize, size, offset, time, date });
+        offset += header.length + compressedSize + 16;
+        if (offset > MAX_ZIP32) {
+            throw new Error("ZIP-filen er for stor");
+        }
+    }
+
+    const centralOffset = offset;
+    let centralSize = 0;
+    for (const record of records) {
+        const central = centralHeader(record);
+        centralSize += central.length;
+        yield central;
+    }
+    yield endOfCentralDirectory(records.length, centralSize, centralOffset);
+}
+
+function localHeader(name: Buffer, time: number, date: number): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (offsets 14-25) follow in the data descriptor.
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return Buffer.concat([header, name]);
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number): Buffer {
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    return descriptor;
+}
+
+function centralHeader(record: CentralRecord): Buffer {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(VERSION, 6);
+    header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 8);
+    header.writeUInt16LE(METHOD_DEFLATE, 10);
+    header.writeUInt16LE(record.time, 12);
+    header.writeUInt16LE(record.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    // Extra field, comment, disk number and attributes (offsets 30-41) stay zero.
+    header.writeUInt32LE(record.offset, 42);
+    return Buffer.concat([header, record.name]);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(count, 8);
+    end.writeUInt16LE(count, 10);
+    end.writeUInt32LE(size, 12);
+    end.writeUInt32LE(offset, 16);
+    return end;
+}
+
+// "Manual.pdf" twice becomes "Manual.pdf" and "Manual (2).pdf".
+function uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    const dot = name.lastIndexOf(".");
+    const slash = name.lastIndexOf("/");
+    const [base, extension] = dot > slash + 1 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        candidate = `${base} (${n})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+// MS-DOS timestamps have two second resolution and no time zone; local time is expected.
+function toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+        time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+}
@@ -54,6 +54,12 @@ export async function middleware(req: Request) {
     return NextResponse.next();
   }
 
+  // Calendar feeds are polled by Outlook/Google Calendar without cookies; the route
+  // authenticates with the secret token in its URL instead.
+  if (pathname.startsWith("/api/calendar/")) {
+    return NextResponse.next();
+  }
+
   // Everything else requires auth: if no session, redirect to /login and
   // pass the current path as callbackUrl so NextAuth returns here after Vipps completes.
   if (!session) {
@@ -0,0 +1,51 @@
+CREATE TABLE "public"."machine_operating_telemetry" (
+    "id" BIGSERIAL NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "reported_at" TIMESTAMP(3) NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "operating_hours" DOUBLE PRECISION,
+    "idle_hours" DOUBLE PRECISION,
+    "fuel_used" DOUBLE PRECISION,
+    "fuel_units" TEXT,
+    "fuel_remaining_percent" DOUBLE PRECISION,
+    "def_remaining_percent" DOUBLE PRECISION,
+
+    CONSTRAINT "machine_operating_telemetry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "uq_machine_operating_telemetry_machine_source_reported_at"
+ON "public"."machine_operating_telemetry"("machine_id", "source", "reported_at");
+
+CREATE INDEX "idx_machine_operating_telemetry_machine_reported_at"
+ON "public"."machine_operating_telemetry"("machine_id", "reported_at" DESC);
+
+ALTER TABLE "public"."machine_operating_telemetry"
+ADD CONSTRAINT "machine_operating_telemetry_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "public"."machine_fault_codes" (
+    "id" BIGSERIAL NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "reported_at" TIMESTAMP(3) NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "description" TEXT,
+    "severity" TEXT,
+    "code_source" TEXT,
+
+    CONSTRAINT "machine_fault_codes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "uq_machine_fault_codes_machine_source_code_reported_at"
+ON "public"."machine_fault_codes"("machine_id", "source", "code", "reported_at");
+
+CREATE INDEX "idx_machine_fault_codes_machine_reported_at"
+ON "public"."machine_fault_codes"("machine_id", "reported_at" DESC);
+
+ALTER TABLE "public"."machine_fault_codes"
+ADD CONSTRAINT "machine_fault_codes_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+CREATE TABLE "public"."machine_telemetry_links" (
+    "id" BIGSERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "external_id" TEXT NOT NULL,
+    "serial_number" TEXT,
+    "oem_name" TEXT,
+    "model" TEXT,
+    "machine_id" TEXT,
+    "matched_by" TEXT,
+    "linked_at" TIMESTAMP(3),
+    "linked_by" TEXT,
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "machine_telemetry_links_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "uq_machine_telemetry_links_source_external_id"
+ON "public"."machine_telemetry_links"("source", "external_id");
+
+CREATE INDEX "idx_machine_telemetry_links_machine_id"
+ON "public"."machine_telemetry_links"("machine_id");
+
+ALTER TABLE "public"."machine_telemetry_links"
+ADD CONSTRAINT "machine_telemetry_links_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Carry over the mappings that used to be hardcoded in timer_cat.ts and timer_hydrema.ts.
+INSERT INTO "public"."machine_telemetry_links" (
+    "source", "external_id", "serial_number", "machine_id", "matched_by", "linked_at"
+)
+SELECT
+    v.source,
+    v.external_id,
+    v.serial_number,
+    m.id,
+    CASE WHEN m.id IS NULL THEN NULL ELSE 'manual' END,
+    CASE WHEN m.id IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+FROM (
+    VALUES
+        ('cat', 'JWL00225', 'JWL00225', '2013'),
+        ('cat', 'HZ600664', 'HZ600664', '2039'),
+        ('cat', 'XNB40273', 'XNB40273', '2443'),
+        ('cat', 'ELW00179', 'ELW00179', '1712'),
+        ('cat', 'GWT01546', 'GWT01546', '1713'),
+        ('cat', 'XNB20376', 'XNB20376', '1946'),
+        ('hydrema', '151532', '15018', '1544'),
+        ('hydrema', '231155', '16183', '2113'),
+        ('hydrema', '231156', '16184', '2017'),
+        ('hydrema', '254470', '16706', '2118'),
+        ('hydrema', '260716', '16810', '2185'),
+        ('hydrema', '268812', '17744', '2354'),
+        ('hydrema', '268876', '17192', '2198'),
+        ('hydrema', '277174', '17747', '2389'),
+        ('hydrema', '277204', '17750', '2390'),
+        ('hydrema', '283106', '17741', '2310'),
+        ('hydrema', '286887', '17752', '2391'),
+        ('hydrema', '286918', '17743', '2353'),
+        ('hydrema', '301397', '17779', '2369')
+) AS v(source, external_id, serial_number, machine_id)
+LEFT JOIN "public"."machines" m ON m.id = v.machine_id;
@@ -0,0 +1,16 @@
+CREATE TABLE "public"."integration_sync_runs" (
+    "id" BIGSERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "finished_at" TIMESTAMP(3) NOT NULL,
+    "fetched_count" INTEGER,
+    "updated_count" INTEGER,
+    "unmatched_count" INTEGER,
+    "error_message" TEXT,
+
+    CONSTRAINT "integration_sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_integration_sync_runs_source_started_at"
+ON "public"."integration_sync_runs"("source", "started_at" DESC);
@@ -0,0 +1,81 @@
+CREATE TABLE "public"."geofences" (
+    "id" BIGSERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "customer_id" INTEGER,
+    "kind" TEXT NOT NULL,
+    "polygon" JSONB,
+    "center_latitude" DOUBLE PRECISION,
+    "center_longitude" DOUBLE PRECISION,
+    "radius_m" DOUBLE PRECISION,
+    "agreement_id" TEXT,
+    "project_number" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofences_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_geofences_customer_id"
+ON "public"."geofences"("customer_id");
+
+ALTER TABLE "public"."geofences"
+ADD CONSTRAINT "geofences_customer_id_fkey"
+FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("customer_id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "public"."geofence_events" (
+    "id" BIGSERIAL NOT NULL,
+    "geofence_id" BIGINT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofence_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "uq_geofence_events_geofence_machine_occurred_type"
+ON "public"."geofence_events"("geofence_id", "machine_id", "occurred_at", "event_type");
+
+CREATE INDEX "idx_geofence_events_geofence_occurred_at"
+ON "public"."geofence_events"("geofence_id", "occurred_at" DESC);
+
+CREATE INDEX "idx_geofence_events_machine_occurred_at"
+ON "public"."geofence_events"("machine_id", "occurred_at" DESC);
+
+ALTER TABLE "public"."geofence_events"
+ADD CONSTRAINT "geofence_events_geofence_id_fkey"
+FOREIGN KEY ("geofence_id") REFERENCES "public"."geofences"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "public"."geofence_events"
+ADD CONSTRAINT "geofence_events_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Last known inside/outside state per geofence and machine, so ingestion only has to
+-- compare each new position against it instead of replaying the history.
+CREATE TABLE "public"."geofence_machine_states" (
+    "geofence_id" BIGINT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "inside" BOOLEAN NOT NULL,
+    "reported_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geofence_machine_states_pkey" PRIMARY KEY ("geofence_id", "machine_id")
+);
+
+CREATE INDEX "idx_geofence_machine_states_machine_id"
+ON "public"."geofence_machine_states"("machine_id");
+
+ALTER TABLE "public"."geofence_machine_states"
+ADD CONSTRAINT "geofence_machine_states_geofence_id_fkey"
+FOREIGN KEY ("geofence_id") REFERENCES "public"."geofences"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "public"."geofence_machine_states"
+ADD CONSTRAINT "geofence_machine_states_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
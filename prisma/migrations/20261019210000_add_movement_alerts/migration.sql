@@ -0,0 +1,76 @@
+CREATE TABLE "public"."movement_alert_rules" (
+    "id" BIGSERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "customer_id" INTEGER,
+    "machine_id" TEXT,
+    "weekdays" SMALLINT[] NOT NULL,
+    "start_minute" INTEGER NOT NULL,
+    "end_minute" INTEGER NOT NULL,
+    "min_distance_m" DOUBLE PRECISION,
+    "min_speed_kmh" DOUBLE PRECISION,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "movement_alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_movement_alert_rules_customer_id"
+ON "public"."movement_alert_rules"("customer_id");
+
+CREATE INDEX "idx_movement_alert_rules_machine_id"
+ON "public"."movement_alert_rules"("machine_id");
+
+ALTER TABLE "public"."movement_alert_rules"
+ADD CONSTRAINT "movement_alert_rules_customer_id_fkey"
+FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("customer_id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "public"."movement_alert_rules"
+ADD CONSTRAINT "movement_alert_rules_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "public"."movement_alerts" (
+    "id" BIGSERIAL NOT NULL,
+    "rule_id" BIGINT,
+    "rule_name" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "first_position_at" TIMESTAMP(3) NOT NULL,
+    "last_position_at" TIMESTAMP(3) NOT NULL,
+    "distance_m" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "max_speed_kmh" DOUBLE PRECISION,
+    "positions" JSONB NOT NULL,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "movement_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- New offending positions are appended to the alert that is still being handled, so a
+-- rule and machine never have more than one unresolved alert at a time.
+CREATE UNIQUE INDEX "uq_movement_alerts_rule_machine_unresolved"
+ON "public"."movement_alerts"("rule_id", "machine_id")
+WHERE "status" <> 'resolved';
+
+CREATE INDEX "idx_movement_alerts_status_last_position_at"
+ON "public"."movement_alerts"("status", "last_position_at" DESC);
+
+CREATE INDEX "idx_movement_alerts_machine_last_position_at"
+ON "public"."movement_alerts"("machine_id", "last_position_at" DESC);
+
+ALTER TABLE "public"."movement_alerts"
+ADD CONSTRAINT "movement_alerts_rule_id_fkey"
+FOREIGN KEY ("rule_id") REFERENCES "public"."movement_alert_rules"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "public"."movement_alerts"
+ADD CONSTRAINT "movement_alerts_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+CREATE TABLE "public"."notifications" (
+    "id" BIGSERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "data" JSONB NOT NULL DEFAULT '{}',
+    "dedupe_key" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- Producers that may run more than once for the same event (reminders, alerts) pass a
+-- dedupe_key; messages without one are never deduplicated.
+CREATE UNIQUE INDEX "uq_notifications_user_channel_dedupe_key"
+ON "public"."notifications"("user_id", "channel", "dedupe_key");
+
+CREATE INDEX "idx_notifications_status_next_attempt_at"
+ON "public"."notifications"("status", "next_attempt_at");
+
+CREATE INDEX "idx_notifications_user_id_created_at"
+ON "public"."notifications"("user_id", "created_at" DESC);
+
+ALTER TABLE "public"."notifications"
+ADD CONSTRAINT "notifications_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "public"."notification_preferences" (
+    "user_id" TEXT NOT NULL,
+    "email_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "sms_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id")
+);
+
+ALTER TABLE "public"."notification_preferences"
+ADD CONSTRAINT "notification_preferences_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
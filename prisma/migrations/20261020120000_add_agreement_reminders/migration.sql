@@ -0,0 +1,22 @@
+-- Reminders also go to Bjugstad staff, who are not portal users.
+ALTER TABLE "public"."notifications" ALTER COLUMN "user_id" DROP NOT NULL;
+
+CREATE TABLE "public"."agreement_reminders" (
+    "id" BIGSERIAL NOT NULL,
+    "rental_id" INTEGER NOT NULL,
+    "customer_id" INTEGER,
+    "end_date" DATE NOT NULL,
+    "horizon_days" INTEGER NOT NULL,
+    "notification_count" INTEGER NOT NULL DEFAULT 0,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agreement_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- The end date is part of the key, so an extended agreement is reminded again before
+-- its new end date.
+CREATE UNIQUE INDEX "uq_agreement_reminders_rental_end_date_horizon"
+ON "public"."agreement_reminders"("rental_id", "end_date", "horizon_days");
+
+CREATE INDEX "idx_agreement_reminders_customer_id"
+ON "public"."agreement_reminders"("customer_id");
@@ -0,0 +1,41 @@
+CREATE TABLE "public"."rental_requests" (
+    "id" BIGSERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "rental_id" INTEGER NOT NULL,
+    "customer_id" INTEGER,
+    "customer_name" TEXT,
+    "machines" JSONB NOT NULL DEFAULT '[]',
+    "desired_date" DATE NOT NULL,
+    "comment" TEXT,
+    "requested_by_user_id" TEXT,
+    "requested_by_name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_at" TIMESTAMP(3),
+    "decided_by" TEXT,
+    "decision_comment" TEXT,
+    -- Set once an approved request has been handed to the Bjugstad API (or the local stub).
+    "forward_status" TEXT,
+    "forward_reference" TEXT,
+    "forward_error" TEXT,
+    "forwarded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rental_requests_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_rental_requests_rental_id_created_at"
+ON "public"."rental_requests"("rental_id", "created_at" DESC);
+
+CREATE INDEX "idx_rental_requests_status_created_at"
+ON "public"."rental_requests"("status", "created_at");
+
+-- One pending request of each type per agreement.
+CREATE UNIQUE INDEX "uq_rental_requests_rental_type_pending"
+ON "public"."rental_requests"("rental_id", "type")
+WHERE "status" = 'pending';
+
+ALTER TABLE "public"."rental_requests"
+ADD CONSTRAINT "rental_requests_requested_by_user_id_fkey"
+FOREIGN KEY ("requested_by_user_id") REFERENCES "public"."users"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+CREATE TABLE "public"."service_tickets" (
+    "id" BIGSERIAL NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "rental_id" INTEGER,
+    "customer_id" INTEGER,
+    "customer_name" TEXT,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    -- Last known machine position when the ticket was created.
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "position_reported_at" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "status_note" TEXT,
+    "status_changed_at" TIMESTAMP(3),
+    "status_changed_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "reported_by_user_id" TEXT,
+    "reported_by_name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_tickets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_service_tickets_machine_id_created_at"
+ON "public"."service_tickets"("machine_id", "created_at" DESC);
+
+CREATE INDEX "idx_service_tickets_status_created_at"
+ON "public"."service_tickets"("status", "created_at");
+
+CREATE INDEX "idx_service_tickets_customer_id"
+ON "public"."service_tickets"("customer_id");
+
+ALTER TABLE "public"."service_tickets"
+ADD CONSTRAINT "service_tickets_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "public"."service_tickets"
+ADD CONSTRAINT "service_tickets_reported_by_user_id_fkey"
+FOREIGN KEY ("reported_by_user_id") REFERENCES "public"."users"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "public"."service_ticket_photos" (
+    "id" BIGSERIAL NOT NULL,
+    "ticket_id" BIGINT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    -- clean, or skipped when no virus scanner is configured.
+    "scan_status" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_ticket_photos_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_service_ticket_photos_ticket_id"
+ON "public"."service_ticket_photos"("ticket_id");
+
+ALTER TABLE "public"."service_ticket_photos"
+ADD CONSTRAINT "service_ticket_photos_ticket_id_fkey"
+FOREIGN KEY ("ticket_id") REFERENCES "public"."service_tickets"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+CREATE TABLE "public"."control_notices" (
+    "id" BIGSERIAL NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "due_date" DATE NOT NULL,
+    "rental_id" INTEGER,
+    "customer_id" INTEGER,
+    "notification_count" INTEGER NOT NULL DEFAULT 0,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "control_notices_pkey" PRIMARY KEY ("id")
+);
+
+-- One notice per overdue inspection. A new control date gives a new due date, so the
+-- machine is reported again if that one is missed too.
+CREATE UNIQUE INDEX "uq_control_notices_machine_kind_due_date"
+ON "public"."control_notices"("machine_id", "kind", "due_date");
+
+ALTER TABLE "public"."control_notices"
+ADD CONSTRAINT "control_notices_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+CREATE TABLE "public"."customer_attachments" (
+    "id" BIGSERIAL NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "rental_id" INTEGER NOT NULL,
+    "customer_id" INTEGER,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "storage_key" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    -- Result from the upload scanner ("clean", or "skipped" when no scanner is configured).
+    "scan_status" TEXT NOT NULL,
+    "uploaded_by_user_id" TEXT,
+    "uploaded_by_name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_attachments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_customer_attachments_machine_id_created_at"
+ON "public"."customer_attachments"("machine_id", "created_at" DESC);
+
+CREATE INDEX "idx_customer_attachments_rental_id"
+ON "public"."customer_attachments"("rental_id");
+
+CREATE INDEX "idx_customer_attachments_customer_id"
+ON "public"."customer_attachments"("customer_id");
+
+ALTER TABLE "public"."customer_attachments"
+ADD CONSTRAINT "customer_attachments_machine_id_fkey"
+FOREIGN KEY ("machine_id") REFERENCES "public"."machines"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "public"."customer_attachments"
+ADD CONSTRAINT "customer_attachments_uploaded_by_user_id_fkey"
+FOREIGN KEY ("uploaded_by_user_id") REFERENCES "public"."users"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
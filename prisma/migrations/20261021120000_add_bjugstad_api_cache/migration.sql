@@ -0,0 +1,17 @@
+-- Shared cache for Bjugstad API responses when BJUGSTAD_CACHE_BACKEND=postgres.
+CREATE TABLE "public"."bjugstad_api_cache" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "fresh_until" TIMESTAMP(3) NOT NULL,
+    "stale_until" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bjugstad_api_cache_pkey" PRIMARY KEY ("key")
+);
+
+CREATE INDEX "idx_bjugstad_api_cache_tags"
+ON "public"."bjugstad_api_cache" USING GIN ("tags");
+
+CREATE INDEX "idx_bjugstad_api_cache_stale_until"
+ON "public"."bjugstad_api_cache"("stale_until");
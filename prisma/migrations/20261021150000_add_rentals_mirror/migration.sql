@@ -0,0 +1,52 @@
+-- Mirror of GetRentals, written by timer_get_rentals. Dates are kept as the wall-clock
+-- values the API returns (no time zone).
+CREATE TABLE "public"."rentals" (
+    "rental_id" INTEGER NOT NULL,
+    "customer_id" INTEGER,
+    "customer_name" TEXT,
+    "start_date" TIMESTAMP(3),
+    "end_date" TIMESTAMP(3),
+    "comments" TEXT,
+    "project_number" TEXT,
+    "location" TEXT,
+    "contact_person" TEXT,
+    "contact_person_telephone_number" TEXT,
+    "contact_person_email" TEXT,
+    "customer_contact_person_id" INTEGER,
+    "customer_contact_person_name" TEXT,
+    "customer_contact_person_telephone_number" TEXT,
+    "customer_contact_person_email" TEXT,
+    "insurance_included" BOOLEAN,
+    "contract_price" BOOLEAN,
+    "user_name" TEXT,
+    "user_telephone_number" TEXT,
+    "synced_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rentals_pkey" PRIMARY KEY ("rental_id")
+);
+
+CREATE INDEX "idx_rentals_customer_id"
+ON "public"."rentals"("customer_id");
+
+CREATE INDEX "idx_rentals_end_date"
+ON "public"."rentals"("end_date");
+
+CREATE TABLE "public"."rental_machines" (
+    "rental_id" INTEGER NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "make" TEXT,
+    "model" TEXT,
+    "number" TEXT,
+    -- Order in the API response, so agreements list their machines the same way.
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rental_machines_pkey" PRIMARY KEY ("rental_id", "machine_id")
+);
+
+CREATE INDEX "idx_rental_machines_machine_id"
+ON "public"."rental_machines"("machine_id");
+
+ALTER TABLE "public"."rental_machines"
+ADD CONSTRAINT "rental_machines_rental_id_fkey"
+FOREIGN KEY ("rental_id") REFERENCES "public"."rentals"("rental_id")
+ON DELETE CASCADE ON UPDATE CASCADE;
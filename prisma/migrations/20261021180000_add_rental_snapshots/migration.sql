@@ -0,0 +1,14 @@
+-- Change history for agreements. timer_get_rentals stores a snapshot of a rental whenever
+-- its content differs from the previous one; snapshots outlive the rental in the mirror.
+CREATE TABLE "public"."rental_snapshots" (
+    "id" BIGSERIAL NOT NULL,
+    "rental_id" INTEGER NOT NULL,
+    "customer_id" INTEGER,
+    "data" JSONB NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rental_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_rental_snapshots_rental_id_captured_at"
+ON "public"."rental_snapshots"("rental_id", "captured_at");
@@ -0,0 +1,18 @@
+-- One calendar (ICS) feed per user. Only a SHA-256 hash of the secret token is stored;
+-- regenerating replaces it, so the old feed URL stops working.
+CREATE TABLE "public"."calendar_feed_tokens" (
+    "user_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+
+    CONSTRAINT "calendar_feed_tokens_pkey" PRIMARY KEY ("user_id")
+);
+
+CREATE UNIQUE INDEX "calendar_feed_tokens_token_hash_key"
+ON "public"."calendar_feed_tokens"("token_hash");
+
+ALTER TABLE "public"."calendar_feed_tokens"
+ADD CONSTRAINT "calendar_feed_tokens_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
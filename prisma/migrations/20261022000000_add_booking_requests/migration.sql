@@ -0,0 +1,48 @@
+-- Requests for new rentals raised from /bestilling. The contact person is copied from
+-- customer_contact_persons so the request keeps its details if the contact is removed.
+CREATE TABLE "public"."booking_requests" (
+    "id" BIGSERIAL NOT NULL,
+    "customer_id" INTEGER NOT NULL,
+    "customer_name" TEXT,
+    "category" TEXT,
+    "machine_id" TEXT,
+    "machine_name" TEXT,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "delivery_address" TEXT NOT NULL,
+    "delivery_lat" DOUBLE PRECISION,
+    "delivery_lng" DOUBLE PRECISION,
+    "project_number" TEXT,
+    "contact_person_id" INTEGER,
+    "contact_person_name" TEXT,
+    "contact_person_phone" TEXT,
+    "contact_person_email" TEXT,
+    "comment" TEXT,
+    "requested_by_user_id" TEXT,
+    "requested_by_name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_at" TIMESTAMP(3),
+    "decided_by" TEXT,
+    "decision_comment" TEXT,
+    -- Set once an approved request has been created as a rental through the Bjugstad API
+    -- (or the local stub). The reference is the new rental id when the API returns one.
+    "forward_status" TEXT,
+    "forward_reference" TEXT,
+    "forward_error" TEXT,
+    "forwarded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_requests_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_booking_requests_customer_id_created_at"
+ON "public"."booking_requests"("customer_id", "created_at" DESC);
+
+CREATE INDEX "idx_booking_requests_status_created_at"
+ON "public"."booking_requests"("status", "created_at");
+
+ALTER TABLE "public"."booking_requests"
+ADD CONSTRAINT "booking_requests_requested_by_user_id_fkey"
+FOREIGN KEY ("requested_by_user_id") REFERENCES "public"."users"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -35,6 +35,7 @@ export type MachineProps = {
     name: string;
     oem_name: string;
     category: string | null;
+    model?: string | null;
     active_agreement_id?: string | null;
     active_agreement?: MachineAgreementSummary | null;
     active_customer_id?: number | null;
@@ -43,6 +44,20 @@ export type MachineProps = {
     serial_number?: string | null;
     // not optional: the server returns either ISO string or null
     last_pos_reported_at: string | null;
+    /** Inspections that are overdue or due soon. Empty when everything is in order. */
+    control_alerts?: MachineControlAlert[];
+};
+
+export type MachineControlKind = "control" | "rail_control";
+export type MachineControlStatus = "overdue" | "due_soon";
+
+export type MachineControlAlert = {
+    kind: MachineControlKind;
+    status: MachineControlStatus;
+    /** Calendar date (YYYY-MM-DD) the next inspection is due. */
+    due_date: string;
+    /** Negative when overdue. */
+    days_left: number;
 };
 
 export type MachineFeature = Feature<Point, MachineProps>;
@@ -69,4 +84,266 @@ export type MachinePositionHistoryEntry = {
     speed: number | null;
     heading: number | null;
     km: number | null;
+    /** Agreement window the point was clipped to. Null for the unclipped admin trail. */
+    agreement_id?: string | null;
+};
+
+export type MachineFaultCode = {
+    code: string;
+    description: string | null;
+    severity: string | null;
+    code_source: string | null;
+    source: string;
+    reported_at: string;
+};
+
+export type MachineOperatingData = {
+    /** Time of the latest engine-hour/fuel reading, null when the OEM reports none. */
+    reported_at: string | null;
+    source: string | null;
+    operating_hours: number | null;
+    idle_hours: number | null;
+    fuel_used: number | null;
+    fuel_units: string | null;
+    fuel_remaining_percent: number | null;
+    def_remaining_percent: number | null;
+    fault_codes: MachineFaultCode[];
+};
+
+export type MachineHistoryWindow = {
+    agreementId: string;
+    status: "active" | "historical";
+    startDate: string | null;
+    endDate: string | null;
+};
+
+export type MachineAnalyticsPeriod = "14d" | "30d" | "12w" | "12m";
+export type MachineAnalyticsAggregation = "day" | "week" | "month";
+
+export type MachineAnalyticsTotals = {
+    usageHours: number;
+    idleHours: number;
+    distanceKm: number;
+    activeDays: number;
+};
+
+export type MachineAnalyticsBucket = {
+    key: string;
+    /** First local day (yyyy-mm-dd, Europe/Oslo) in the bucket. */
+    start: string;
+    /** Last local day (inclusive) in the bucket. */
+    end: string;
+    days: number;
+};
+
+export type MachineAnalyticsPoint = MachineAnalyticsTotals & {
+    bucket: string;
+};
+
+export type MachineAnalyticsMachine = MachineListEntry & {
+    totals: MachineAnalyticsTotals;
+    previousTotals: MachineAnalyticsTotals;
+    /** Only buckets with reported activity; missing buckets are zero. */
+    series: MachineAnalyticsPoint[];
+};
+
+export type MachineAnalyticsData = {
+    period: MachineAnalyticsPeriod;
+    aggregation: MachineAnalyticsAggregation;
+    range: { start: string; end: string };
+    previousRange: { start: string; end: string };
+    buckets: MachineAnalyticsBucket[];
+    machines: MachineAnalyticsMachine[];
+};
+
+/** How a telemetry unit got its machine: auto-matched on serial number or set by an admin. */
+export type TelemetryLinkMatch = "serial" | "trackunit_id" | "manual";
+
+export type TelemetryLinkEntry = {
+    id: string;
+    source: string;
+    external_id: string;
+    serial_number: string | null;
+    oem_name: string | null;
+    model: string | null;
+    machine_id: string | null;
+    machine_name: string | null;
+    matched_by: TelemetryLinkMatch | null;
+    linked_at: string | null;
+    linked_by: string | null;
+    first_seen_at: string;
+    last_seen_at: string;
+};
+
+export type TelemetryLinkMachineOption = {
+    id: string;
+    name: string | null;
+    oem_name: string | null;
+    model: string | null;
+    serial_number: string | null;
+};
+
+export type GeofenceKind = "polygon" | "circle";
+
+export type GeofenceEntry = {
+    id: string;
+    name: string;
+    customer_id: number | null;
+    customer_name: string | null;
+    kind: GeofenceKind;
+    /** Outer ring as [lng, lat] pairs, only for polygons. */
+    polygon: [number, number][] | null;
+    center_lat: number | null;
+    center_lng: number | null;
+    radius_m: number | null;
+    agreement_id: string | null;
+    project_number: string | null;
+    created_by: string | null;
+    created_at: string;
+    /** Whether the current user may delete the geofence. */
+    can_edit: boolean;
+};
+
+export type GeofenceEventType = "enter" | "exit";
+
+export type GeofenceEventEntry = {
+    id: string;
+    geofence_id: string;
+    geofence_name: string;
+    machine_id: string;
+    machine_name: string | null;
+    event_type: GeofenceEventType;
+    occurred_at: string;
+    lat: number;
+    lng: number;
+    source: string;
+};
+
+export type MovementAlertStatus = "open" | "acknowledged" | "resolved";
+
+export type MovementAlertPosition = {
+    reported_at: string;
+    latitude: number;
+    longitude: number;
+    speed_kmh: number | null;
+    /** Distance from the machine's previous position. */
+    distance_m: number;
+};
+
+export type MovementAlertEntry = {
+    id: string;
+    rule_id: string | null;
+    rule_name: string;
+    machine_id: string;
+    machine_name: string | null;
+    status: MovementAlertStatus;
+    first_position_at: string;
+    last_position_at: string;
+    distance_m: number;
+    max_speed_kmh: number | null;
+    positions: MovementAlertPosition[];
+    acknowledged_at: string | null;
+    acknowledged_by: string | null;
+    resolved_at: string | null;
+    resolved_by: string | null;
+};
+
+export type MovementAlertRuleEntry = {
+    id: string;
+    name: string;
+    customer_id: number | null;
+    customer_name: string | null;
+    machine_id: string | null;
+    machine_name: string | null;
+    /** ISO weekdays, 1 = Monday. */
+    weekdays: number[];
+    /** Minutes after local midnight. The window runs past midnight when end <= start. */
+    start_minute: number;
+    end_minute: number;
+    min_distance_m: number | null;
+    min_speed_kmh: number | null;
+    active: boolean;
+    created_by: string | null;
+    created_at: string;
+};
+
+export type ServiceTicketCategory = "breakdown" | "damage" | "service" | "other";
+
+export type ServiceTicketStatus = "open" | "in_progress" | "resolved";
+
+export type ServiceTicketPhoto = {
+    id: string;
+    file_name: string;
+    content_type: string;
+    size_bytes: number;
+    /** Portal route that streams the photo after an access check. */
+    url: string;
+};
+
+export type ServiceTicketEntry = {
+    id: string;
+    machine_id: string;
+    machine_name: string | null;
+    rental_id: string | null;
+    customer_id: number | null;
+    customer_name: string | null;
+    category: ServiceTicketCategory;
+    description: string;
+    /** Last known machine position when the ticket was created. */
+    latitude: number | null;
+    longitude: number | null;
+    position_reported_at: string | null;
+    status: ServiceTicketStatus;
+    status_note: string | null;
+    status_changed_at: string | null;
+    status_changed_by: string | null;
+    resolved_at: string | null;
+    reported_by_name: string | null;
+    created_at: string;
+    photos: ServiceTicketPhoto[];
+};
+
+export type CustomerAttachmentCategory = "inspection" | "sja" | "photo" | "other";
+
+export type CustomerAttachmentEntry = {
+    id: string;
+    machine_id: string;
+    rental_id: string;
+    customer_id: number | null;
+    category: CustomerAttachmentCategory;
+    description: string | null;
+    file_name: string;
+    content_type: string;
+    size_bytes: number;
+    uploaded_by_name: string | null;
+    created_at: string;
+    /** Uploaders can remove their own files; super admins can remove any. */
+    can_delete: boolean;
+    /** Portal route that streams the file after an access check. */
+    url: string;
+};
+
+export type MachineAvailabilityWindow = {
+    /** First free calendar day (YYYY-MM-DD). */
+    start: string;
+    /** Last free calendar day (YYYY-MM-DD), inclusive. */
+    end: string;
+};
+
+export type MachineAvailabilityCandidate = {
+    id: string;
+    name: string;
+    oem_name: string;
+    model: string | null;
+    category: string | null;
+    /** Free for the whole requested period. */
+    fully_available: boolean;
+    free_days: number;
+    free_windows: MachineAvailabilityWindow[];
+    /**
+     * Distance from the search location by last known position; null without either, and
+     * for customers when the machine is out on an agreement today.
+     */
+    distance_km: number | null;
+    last_pos_reported_at: string | null;
 };